@@ -36,6 +36,7 @@ const esbuildOpts = {
   define: {
     'process.env.STRIPE_PUBLISHABLE_KEY': JSON.stringify(process.env.STRIPE_PUBLISHABLE_KEY || ''),
     'process.env.STRIPE_API_BASE_URL': JSON.stringify(process.env.STRIPE_API_BASE_URL || ''),
+    'process.env.API_BASE_URL': JSON.stringify(process.env.API_BASE_URL || ''),
   },
   plugins: [
     stylePlugin({
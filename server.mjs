@@ -1,12 +1,31 @@
 import express from 'express'
 import cors from 'cors'
 import dotenv from 'dotenv'
-import fs from 'fs/promises'
-import path from 'path'
+import { createAuthRouter, optionalUser, requireUser } from './server/auth.mjs'
+import { migratePlaintextPasswords } from './server/users.mjs'
+import { createCvRouter } from './server/cvs.mjs'
+import { createPaymentsRouter } from './server/payments/index.mjs'
+import { createMobileMoneyAdapter } from './server/payments/adapters.mjs'
+import { createStripeAdapter } from './server/payments/stripe.mjs'
+import { createPaymentActions } from './server/payments/actions.mjs'
+import { createCheckoutRouter, createStripeClient, createStripeWebhookHandler } from './server/checkout.mjs'
+import { createEntitlementsRouter } from './server/entitlements.mjs'
+import { createPdfRouter } from './server/pdf/index.mjs'
+import { createDocxRouter } from './server/docx.mjs'
+import { createImportRouter } from './server/import/index.mjs'
+import { createAnalyticsRouter } from './server/analytics.mjs'
+import { createEventsRouter } from './server/events.mjs'
+import { createConsentRouter } from './server/consent.mjs'
+import { createAdminRouter } from './server/admin.mjs'
 
 dotenv.config()
 
 const app = express()
+const stripe = createStripeClient()
+const mobileMoney = createMobileMoneyAdapter()
+const paymentActions = createPaymentActions({
+  adapters: { [mobileMoney.name]: mobileMoney, stripe: createStripeAdapter(stripe) },
+})
 const corsOptions = {
   origin: ['*'],
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
@@ -15,36 +34,11 @@ const corsOptions = {
 }
 app.use(cors(corsOptions))
 app.options('*', cors(corsOptions))
-app.use(express.json())
+// Stripe signs the raw body: this route must be registered before the JSON parser.
+app.post('/api/checkout/webhook', express.raw({ type: 'application/json' }), createStripeWebhookHandler({ stripe }))
+app.use(express.json({ limit: '8mb' })) // CV payloads may embed a photo data URL
 
 const port = process.env.PORT || 8080
-const DATA_DIR = path.join(process.cwd(), 'data')
-const USERS_PATH = path.join(DATA_DIR, 'users.json')
-
-async function ensureStore() {
-  await fs.mkdir(DATA_DIR, { recursive: true })
-  try {
-    await fs.access(USERS_PATH)
-  } catch {
-    await fs.writeFile(USERS_PATH, JSON.stringify([]), 'utf8')
-  }
-}
-
-async function readUsers() {
-  await ensureStore()
-  const raw = await fs.readFile(USERS_PATH, 'utf8').catch(() => '[]')
-  return JSON.parse(raw || '[]')
-}
-
-async function writeUsers(users) {
-  await ensureStore()
-  await fs.writeFile(USERS_PATH, JSON.stringify(users, null, 2), 'utf8')
-}
-
-function sanitize(user) {
-  const { password, ...rest } = user
-  return rest
-}
 
 /** Simple health/info routes */
 app.get('/:name', (req, res, next) => {
@@ -57,52 +51,41 @@ app.get('/', (_req, res) => {
   res.send('App is working fine')
 })
 
-/** Auth: signup */
-app.post('/api/auth/signup', async (req, res) => {
-  const { email, password, name } = req.body || {}
-  if (!email || !password) {
-    return res.status(400).json({ error: 'Email and password are required' })
-  }
-  const users = await readUsers()
-  if (users.some((u) => u.email.toLowerCase() === email.toLowerCase())) {
-    return res.status(409).json({ error: 'User already exists' })
-  }
-  const user = {
-    id: Date.now().toString(36),
-    email,
-    name: name || email.split('@')[0],
-    password, // plain-text for demo; replace with hashing in production
-    createdAt: Date.now(),
-  }
-  users.push(user)
-  await writeUsers(users)
-  const token = user.id
-  return res.json({ token, user: sanitize(user) })
-})
+/** Auth: signup, login, refresh, logout, me */
+app.use('/api/auth', createAuthRouter())
 
-/** Auth: login */
-app.post('/api/auth/login', async (req, res) => {
-  const { email, password } = req.body || {}
-  if (!email || !password) return res.status(400).json({ error: 'Email and password are required' })
-  const users = await readUsers()
-  const user = users.find((u) => u.email.toLowerCase() === email.toLowerCase())
-  if (!user || user.password !== password) {
-    return res.status(401).json({ error: 'Invalid credentials' })
-  }
-  const token = user.id
-  return res.json({ token, user: sanitize(user) })
-})
+/** CVs: list, create, fetch, update, delete */
+app.use('/api/cv', createCvRouter(requireUser))
 
-/** Auth: me */
-app.get('/api/auth/me', async (req, res) => {
-  const header = req.headers.authorization || ''
-  const token = header.startsWith('Bearer ') ? header.slice(7) : null
-  if (!token) return res.status(401).json({ error: 'Missing token' })
-  const users = await readUsers()
-  const user = users.find((u) => u.id === token)
-  if (!user) return res.status(404).json({ error: 'User not found' })
-  return res.json({ user: sanitize(user) })
-})
+/** Payments: mobile-money deposits and status polling */
+app.use('/api/payments', createPaymentsRouter(requireUser, { adapter: mobileMoney }))
+
+/** Checkout: Stripe card payments */
+app.use('/api/checkout', createCheckoutRouter(requireUser, { stripe }))
+
+/** Entitlements: server-verified download rights */
+app.use('/api/entitlements', createEntitlementsRouter(requireUser))
+
+/** PDF: vector CV export, served only with a valid entitlement */
+app.use('/api/pdf', createPdfRouter(requireUser))
+
+/** DOCX: Word export of the CV, same entitlement check as the PDF */
+app.use('/api/docx', createDocxRouter(requireUser))
+
+/** Import: existing PDF/DOCX CV parsed locally into form fields */
+app.use('/api/import', createImportRouter(requireUser))
+
+/** Analytics: first-party visit beacon */
+app.use('/api/analytics', createAnalyticsRouter(optionalUser))
+
+/** Consent: cookie / tracking choices of signed-in users, shared across devices */
+app.use('/api/consent', createConsentRouter(requireUser))
+
+/** Events: first-party product analytics (step changes, plans, payments, downloads), sent with consent */
+app.use('/api/events', createEventsRouter(optionalUser))
+
+/** Admin: dashboard statistics, payments (refund, dispute, notes) and roles; staff only */
+app.use('/api/admin', createAdminRouter(requireUser, { actions: paymentActions }))
 
 // 404 handler
 app.use((_req, res) => {
@@ -115,6 +98,9 @@ app.use((err, _req, res, _next) => {
   res.status(500).send('Something broke!')
 })
 
+const upgraded = await migratePlaintextPasswords()
+if (upgraded) console.log(`Hashed ${upgraded} plaintext password(s)`)
+
 app.listen(port, () => {
   console.log(`App is listening on port ${port}`)
 })
@@ -0,0 +1,252 @@
+/**
+ * server/admin.mjs
+ * Staff API (support and admin roles, see shared/roles.mjs); each route checks its own permission.
+ * - GET /api/admin/stats?from&to (stats:read): daily visits, signups, payments, revenue, CV creations + totals.
+ * - GET /api/admin/visits.csv?from&to (stats:read): the daily series as CSV.
+ * - GET /api/admin/funnel?from&to (stats:read): conversion funnel with breakdowns (server/reports.mjs).
+ * - GET /api/admin/cohorts?from&to (stats:read): weekly retention of the signup cohorts of the range.
+ * - GET /api/admin/payments?from&to&plan&status&provider&country&q&sort&dir&page&pageSize (payments:read):
+ *   one page of the filtered payments, the total and the filter values found in the range (facets).
+ * - GET /api/admin/payments.csv (same filters, payments:read): every filtered payment as CSV.
+ * - GET /api/admin/payments/:id (payments:read): one payment with its notes and audit trail.
+ * - POST /api/admin/payments/:id/refund { reason } (payments:refund), …/dispute { reason } (payments:dispute),
+ *   …/notes { text } (payments:note): staff actions (server/payments/actions.mjs).
+ * - GET /api/admin/users?q (users:read): accounts matching a phone, email or name.
+ * - PUT /api/admin/users/:id/role { role } (users:manage): changes a role.
+ * Other users get 403.
+ */
+
+import express from 'express'
+import { ROLES } from '../shared/roles.mjs'
+import { isBootstrapAdmin, readUsers, sanitize, writeUsers } from './users.mjs'
+import { findPayment, readPayments } from './payments/store.mjs'
+import { auditFor } from './audit.mjs'
+import { dailyStats, dayOf, parseRange } from './analytics.mjs'
+import { requirePermission } from './rbac.mjs'
+import { streamCsv } from './csv.mjs'
+import { cohortReport, funnelReport } from './reports.mjs'
+import { PLANS } from './pricing.mjs'
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 200
+const USERS_LIMIT = 50
+
+const PAYMENT_STATUSES = ['paid', 'pending', 'refunded', 'failed']
+const PAYMENT_SORTS = ['createdAt', 'amount']
+
+const iso = (ms) => (ms ? new Date(ms).toISOString() : '')
+
+/** Export columns of admin payment rows (adminPayment). */
+const PAYMENT_COLUMNS = [
+  { key: 'id', label: 'ID', value: (p) => p.id },
+  { key: 'createdAt', label: 'Date (UTC)', value: (p) => iso(p.createdAt) },
+  { key: 'customer', label: 'Client', value: (p) => p.customer },
+  { key: 'email', label: 'E-mail', value: (p) => p.email },
+  { key: 'phone', label: 'Téléphone', value: (p) => p.phone },
+  { key: 'country', label: 'Pays', value: (p) => p.country },
+  { key: 'plan', label: 'Plan', value: (p) => p.plan },
+  { key: 'amount', label: 'Montant', value: (p) => p.amount },
+  { key: 'currency', label: 'Devise', value: (p) => p.currency },
+  { key: 'method', label: 'Moyen', value: (p) => p.method },
+  { key: 'provider', label: 'Opérateur', value: (p) => p.provider },
+  { key: 'status', label: 'Statut', value: (p) => p.status },
+  { key: 'refundStatus', label: 'Remboursement', value: (p) => p.refundStatus },
+  { key: 'disputed', label: 'Litige', value: (p) => (p.disputed ? 'oui' : '') },
+]
+
+/** Export columns of the daily series (dailyStats days). */
+const VISIT_COLUMNS = [
+  { key: 'date', label: 'Jour (UTC)', value: (d) => d.date },
+  { key: 'visits', label: 'Visites', value: (d) => d.visits },
+  { key: 'pageViews', label: 'Pages vues', value: (d) => d.pageViews },
+  { key: 'signups', label: 'Inscriptions', value: (d) => d.signups },
+  { key: 'cvsCreated', label: 'CV créés', value: (d) => d.cvsCreated },
+  { key: 'payments', label: 'Paiements', value: (d) => d.payments },
+  { key: 'failedPayments', label: 'Échecs', value: (d) => d.failedPayments },
+  { key: 'revenue', label: 'Revenu', value: (d) => d.revenue },
+  ...PLANS.map((plan) => ({ key: `revenue.${plan}`, label: `Revenu ${plan}`, value: (d) => d.revenueByPlan[plan] ?? 0 })),
+]
+
+/** Payment row shown in the dashboard (statuses mapped to paid / pending / failed / refunded). */
+function adminPayment(p, user) {
+  return {
+    id: p.id,
+    customer: user?.name || user?.phone || p.phone || p.userId,
+    email: user?.email || undefined,
+    phone: user?.phone || p.phone || undefined,
+    plan: p.plan,
+    amount: p.amount,
+    currency: p.currency,
+    method: p.method,
+    provider: p.provider,
+    country: p.country || user?.country || undefined,
+    status: p.status === 'completed' ? 'paid' : p.status === 'processing' ? 'pending' : p.status,
+    createdAt: p.createdAt,
+    refundStatus: p.refund?.status ?? null,
+    disputed: Boolean(p.dispute),
+    notesCount: p.notes?.length ?? 0,
+  }
+}
+
+/**
+ * Reads the payment filters of a query; unknown values are ignored (list) rather than rejected.
+ * Returns { range, plan, status, provider, country, q, sort, dir } or { error }.
+ */
+function parsePaymentQuery(query) {
+  const range = parseRange(query)
+  if (range.error) return range
+  const pick = (value, allowed) => (allowed.includes(value) ? value : null)
+  const text = (value) => (typeof value === 'string' ? value.trim().toLowerCase().slice(0, 100) : '')
+  return {
+    range,
+    plan: pick(query.plan, PLANS),
+    status: pick(query.status, PAYMENT_STATUSES),
+    provider: text(query.provider),
+    country: text(query.country),
+    q: text(query.q),
+    sort: pick(query.sort, PAYMENT_SORTS) || 'createdAt',
+    dir: query.dir === 'asc' ? 'asc' : 'desc',
+  }
+}
+
+/** Admin rows of the range, then the filtered and sorted rows, plus the filter values met in the range. */
+async function queryPayments(filters) {
+  const days = new Set(filters.range.days)
+  const [payments, users] = await Promise.all([readPayments(), readUsers()])
+  const usersById = new Map(users.map((u) => [u.id, u]))
+  const inRange = payments.filter((p) => days.has(dayOf(p.createdAt))).map((p) => adminPayment(p, usersById.get(p.userId)))
+
+  const lower = (v) => String(v || '').toLowerCase()
+  const rows = inRange.filter(
+    (p) =>
+      (!filters.plan || p.plan === filters.plan) &&
+      (!filters.status || p.status === filters.status) &&
+      (!filters.provider || lower(p.provider || p.method) === filters.provider) &&
+      (!filters.country || lower(p.country) === filters.country) &&
+      (!filters.q || [p.customer, p.email, p.phone, p.id].some((v) => lower(v).includes(filters.q)))
+  )
+  const sign = filters.dir === 'asc' ? 1 : -1
+  rows.sort((a, b) => sign * (a[filters.sort] - b[filters.sort]) || b.createdAt - a.createdAt)
+
+  const distinct = (values) => [...new Set(values.filter(Boolean))].sort()
+  const facets = {
+    plans: distinct(inRange.map((p) => p.plan)),
+    providers: distinct(inRange.map((p) => p.provider || p.method)),
+    countries: distinct(inRange.map((p) => p.country)),
+  }
+  return { rows, facets }
+}
+
+/**
+ * Creates the /api/admin router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ * @param options.actions payment actions (createPaymentActions in server/payments/actions.mjs).
+ */
+export function createAdminRouter(requireUser, { actions }) {
+  const router = express.Router()
+  router.use(requireUser, requirePermission('admin:access'))
+
+  router.get('/stats', requirePermission('stats:read'), async (req, res) => {
+    const range = parseRange(req.query)
+    if (range.error) return res.status(400).json({ error: range.error })
+    return res.json(await dailyStats(range))
+  })
+
+  router.get('/visits.csv', requirePermission('stats:read'), async (req, res) => {
+    const range = parseRange(req.query)
+    if (range.error) return res.status(400).json({ error: range.error })
+    const { days } = await dailyStats(range)
+    return streamCsv(res, `visites-${range.from}-${range.to}.csv`, VISIT_COLUMNS, days)
+  })
+
+  router.get('/funnel', requirePermission('stats:read'), async (req, res) => {
+    const range = parseRange(req.query)
+    if (range.error) return res.status(400).json({ error: range.error })
+    return res.json(await funnelReport(range))
+  })
+
+  router.get('/cohorts', requirePermission('stats:read'), async (req, res) => {
+    const range = parseRange(req.query)
+    if (range.error) return res.status(400).json({ error: range.error })
+    return res.json(await cohortReport(range))
+  })
+
+  router.get('/payments', requirePermission('payments:read'), async (req, res) => {
+    const filters = parsePaymentQuery(req.query)
+    if (filters.error) return res.status(400).json({ error: filters.error })
+    const pageSize = Math.min(Math.max(Number(req.query.pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const page = Math.max(Math.floor(Number(req.query.page)) || 1, 1)
+
+    const { rows, facets } = await queryPayments(filters)
+    return res.json({
+      payments: rows.slice((page - 1) * pageSize, page * pageSize),
+      total: rows.length,
+      page,
+      pageSize,
+      facets,
+    })
+  })
+
+  router.get('/payments.csv', requirePermission('payments:read'), async (req, res) => {
+    const filters = parsePaymentQuery(req.query)
+    if (filters.error) return res.status(400).json({ error: filters.error })
+    const { rows } = await queryPayments(filters)
+    const { from, to } = filters.range
+    return streamCsv(res, `paiements-${from}-${to}.csv`, PAYMENT_COLUMNS, rows)
+  })
+
+  router.get('/payments/:id', requirePermission('payments:read'), async (req, res) => {
+    const payment = await findPayment(req.params.id)
+    if (!payment) return res.status(404).json({ error: 'Payment not found' })
+    const usersById = new Map((await readUsers()).map((u) => [u.id, u]))
+    const authorName = (id) => usersById.get(id)?.name || usersById.get(id)?.phone || null
+    return res.json({
+      payment: {
+        ...adminPayment(payment, usersById.get(payment.userId)),
+        refund: payment.refund || null,
+        dispute: payment.dispute || null,
+        notes: (payment.notes || []).map((n) => ({ ...n, authorName: authorName(n.authorId) })),
+      },
+      audit: (await auditFor('payment', payment.id)).map((e) => ({ ...e, actorName: authorName(e.actorId) })),
+    })
+  })
+
+  /** Staff actions: the body carries `reason` (refund, dispute) or `text` (note) */
+  const paymentAction = (action, permission, run) =>
+    router.post(`/payments/:id/${action}`, requirePermission(permission), async (req, res) => {
+      const { payment, error, status } = await run(req.params.id, req.user, req.body || {})
+      if (error) return res.status(status).json({ error })
+      const users = await readUsers()
+      return res.json({ payment: adminPayment(payment, users.find((u) => u.id === payment.userId)) })
+    })
+  paymentAction('refund', 'payments:refund', actions.refund)
+  paymentAction('dispute', 'payments:dispute', actions.dispute)
+  paymentAction('notes', 'payments:note', actions.note)
+
+  /** Staff first, then newest accounts; `q` filters on phone, email and name */
+  router.get('/users', requirePermission('users:read'), async (req, res) => {
+    const q = String(req.query.q || '').trim().toLowerCase()
+    const users = (await readUsers()).map(sanitize)
+    const matches = users
+      .filter((u) => !q || [u.phone, u.email, u.name].some((v) => String(v || '').toLowerCase().includes(q)))
+      .sort((a, b) => Number(b.role !== 'user') - Number(a.role !== 'user') || (b.createdAt || 0) - (a.createdAt || 0))
+      .slice(0, USERS_LIMIT)
+      .map((u) => ({ ...u, roleLocked: isBootstrapAdmin(u) }))
+    return res.json({ users: matches })
+  })
+
+  router.put('/users/:id/role', requirePermission('users:manage'), async (req, res) => {
+    const role = req.body?.role
+    if (!ROLES.includes(role)) return res.status(400).json({ error: 'Invalid role' })
+    if (req.params.id === req.user.id) return res.status(400).json({ error: 'You cannot change your own role' })
+    const users = await readUsers()
+    const user = users.find((u) => u.id === req.params.id)
+    if (!user) return res.status(404).json({ error: 'User not found' })
+    if (isBootstrapAdmin(user)) return res.status(409).json({ error: 'Role is set by ADMIN_PHONES' })
+    user.role = role
+    await writeUsers(users)
+    return res.json({ user: sanitize(user) })
+  })
+
+  return router
+}
@@ -0,0 +1,151 @@
+/**
+ * server/analytics.mjs
+ * First-party visit counter and daily aggregates for the admin dashboard.
+ * - POST /api/analytics/visit { sessionId }: one page view. sessionId is a random id kept in the
+ *   tab's sessionStorage (no persistent identifier); the signed-in user, if any, counts as active.
+ *   The client sends it only with analytics consent (shared/consent.mjs), like the product events.
+ * - Visits are stored per UTC day in data/visits.json: page views, distinct sessions, distinct users.
+ * - dailyStats(range) joins visits with signups (users.json), payments (payments.json) and CV creations.
+ */
+
+import express from 'express'
+import path from 'path'
+import { DATA_DIR, readJson, writeJson } from './store.mjs'
+import { readUsers } from './users.mjs'
+import { readAllCvs } from './cvs.mjs'
+import { readPayments } from './payments/store.mjs'
+import { PLANS } from './pricing.mjs'
+
+const VISITS_PATH = path.join(DATA_DIR, 'visits.json')
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_RANGE_DAYS = 14
+const MAX_RANGE_DAYS = 366
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+/** Random per-tab id sent by the visit beacon and the event queue. */
+export const SESSION_ID_PATTERN = /^[a-zA-Z0-9-]{8,64}$/
+
+/** UTC day (YYYY-MM-DD) of an epoch-ms timestamp. */
+export function dayOf(ms) {
+  return new Date(ms).toISOString().slice(0, 10)
+}
+
+/**
+ * Reads ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, UTC). Defaults to the last DEFAULT_RANGE_DAYS days.
+ * Returns { from, to, days } or { error }.
+ */
+export function parseRange(query) {
+  const to = query?.to ?? dayOf(Date.now())
+  const from = query?.from ?? dayOf(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS)
+  if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+    return { error: 'from and to must be YYYY-MM-DD dates' }
+  }
+  const count = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1
+  if (count < 1) return { error: 'from must not be after to' }
+  if (count > MAX_RANGE_DAYS) return { error: `Range is limited to ${MAX_RANGE_DAYS} days` }
+  const days = Array.from({ length: count }, (_, i) => dayOf(Date.parse(from) + i * DAY_MS))
+  return { from, to, days }
+}
+
+/** Records one page view. */
+async function recordVisit({ sessionId, userId }) {
+  const visits = await readJson(VISITS_PATH, {})
+  const day = dayOf(Date.now())
+  const entry = visits[day] || { pageViews: 0, sessions: [], users: [] }
+  entry.pageViews += 1
+  if (sessionId && !entry.sessions.includes(sessionId)) entry.sessions.push(sessionId)
+  if (userId && !entry.users.includes(userId)) entry.users.push(userId)
+  visits[day] = entry
+  await writeJson(VISITS_PATH, visits)
+}
+
+/** Visits per UTC day: { [YYYY-MM-DD]: { pageViews, sessions, users } }. */
+export async function readVisits() {
+  return readJson(VISITS_PATH, {})
+}
+
+/** Completed payments are dated by completion, the others by creation. */
+function paymentDay(p) {
+  return dayOf(p.status === 'completed' ? p.completedAt ?? p.updatedAt ?? p.createdAt : p.createdAt)
+}
+
+/**
+ * Per-day series and totals over `range` (from parseRange):
+ * visits (distinct sessions), pageViews, signups, payments (completed), revenue (by plan), cvsCreated.
+ */
+export async function dailyStats(range) {
+  const [visits, users, payments, cvs] = await Promise.all([
+    readVisits(),
+    readUsers(),
+    readPayments(),
+    readAllCvs(),
+  ])
+  const inRange = new Set(range.days)
+  const byDay = new Map(
+    range.days.map((date) => [
+      date,
+      {
+        date,
+        visits: visits[date]?.sessions.length ?? 0,
+        pageViews: visits[date]?.pageViews ?? 0,
+        signups: 0,
+        payments: 0,
+        failedPayments: 0,
+        revenue: 0,
+        revenueByPlan: Object.fromEntries(PLANS.map((plan) => [plan, 0])),
+        cvsCreated: 0,
+      },
+    ])
+  )
+
+  for (const u of users) {
+    if (u.createdAt && inRange.has(dayOf(u.createdAt))) byDay.get(dayOf(u.createdAt)).signups += 1
+  }
+  for (const p of payments) {
+    const day = byDay.get(paymentDay(p))
+    if (!day) continue
+    if (p.status === 'completed') {
+      day.payments += 1
+      day.revenue += p.amount
+      day.revenueByPlan[p.plan] = (day.revenueByPlan[p.plan] || 0) + p.amount
+    } else if (p.status === 'failed') {
+      day.failedPayments += 1
+    }
+  }
+  for (const cv of cvs) {
+    if (cv.createdAt && inRange.has(dayOf(cv.createdAt))) byDay.get(dayOf(cv.createdAt)).cvsCreated += 1
+  }
+
+  const days = [...byDay.values()]
+  const sum = (key) => days.reduce((s, d) => s + d[key], 0)
+  const activeUsers = new Set(range.days.flatMap((date) => visits[date]?.users ?? [])).size
+  const totals = {
+    visits: sum('visits'),
+    pageViews: sum('pageViews'),
+    activeUsers,
+    signups: sum('signups'),
+    payments: sum('payments'),
+    failedPayments: sum('failedPayments'),
+    revenue: sum('revenue'),
+    cvsCreated: sum('cvsCreated'),
+  }
+  return { from: range.from, to: range.to, days, totals }
+}
+
+/**
+ * Creates the /api/analytics router (public: the visit beacon runs for anonymous visitors too).
+ * @param optionalUser middleware that sets req.user when a valid token is sent.
+ */
+export function createAnalyticsRouter(optionalUser) {
+  const router = express.Router()
+
+  router.post('/visit', optionalUser, async (req, res) => {
+    const { sessionId } = req.body || {}
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+      return res.status(400).json({ error: 'Invalid sessionId' })
+    }
+    await recordVisit({ sessionId, userId: req.user?.id })
+    return res.status(204).end()
+  })
+
+  return router
+}
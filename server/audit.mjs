@@ -0,0 +1,37 @@
+/**
+ * server/audit.mjs
+ * Append-only audit log of staff actions (data/audit.json).
+ * - Entry: { id, at, actorId, actorRole, action, targetType, targetId, details }.
+ * - actorId is null for actions triggered by a provider (e.g. a refund confirmed by webhook).
+ */
+
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { DATA_DIR, readJson, writeJson } from './store.mjs'
+import { roleOf } from './users.mjs'
+
+const AUDIT_PATH = path.join(DATA_DIR, 'audit.json')
+
+/** Records an action; `actor` is the user record that performed it (or null). */
+export async function appendAudit(actor, action, { targetType, targetId, details = {} }) {
+  const entries = await readJson(AUDIT_PATH, [])
+  const entry = {
+    id: randomUUID(),
+    at: Date.now(),
+    actorId: actor?.id ?? null,
+    actorRole: actor ? roleOf(actor) : null,
+    action,
+    targetType,
+    targetId,
+    details,
+  }
+  entries.push(entry)
+  await writeJson(AUDIT_PATH, entries)
+  return entry
+}
+
+/** Entries about one target, newest first. */
+export async function auditFor(targetType, targetId) {
+  const entries = await readJson(AUDIT_PATH, [])
+  return entries.filter((e) => e.targetType === targetType && e.targetId === targetId).reverse()
+}
@@ -0,0 +1,275 @@
+/**
+ * server/auth.mjs
+ * Accounts and sessions for the local API.
+ * - POST /api/auth/signup, /api/auth/login: return { token, refreshToken, expiresAt, user }.
+ *   Accounts are identified by an E.164 phone number (shared/phone.mjs); email is optional and
+ *   can be used to log in too. Both are unique.
+ * - POST /api/auth/refresh: exchanges a refresh token for a new pair (the old one is revoked).
+ * - POST /api/auth/logout: revokes the refresh token.
+ * - GET /api/auth/me: the user behind a valid access token.
+ * - POST /api/auth/otp/request, /api/auth/otp/verify: passwordless login with an SMS code.
+ * - POST /api/auth/password/reset: sets a new password with a 'reset' SMS code and signs out
+ *   every other session.
+ * Code requests answer the same way whether or not the number has an account, rate limit included.
+ *
+ * Access tokens are short-lived JWTs signed with JWT_SECRET; refresh tokens are JWTs pointing
+ * to a session record in data/sessions.json so they can be rotated and revoked.
+ */
+
+import express from 'express'
+import jwt from 'jsonwebtoken'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { DATA_DIR, readJson, writeJson } from './store.mjs'
+import { secretFor } from './secrets.mjs'
+import { consumeOtp, issueOtp, OTP_PURPOSES } from './otp.mjs'
+import { createSmsTransport } from './sms.mjs'
+import { normalizePhone, phoneCountryOf } from '../shared/phone.mjs'
+import { findUserById, hashPassword, readUsers, sanitize, verifyPassword, writeUsers } from './users.mjs'
+
+const SESSIONS_PATH = path.join(DATA_DIR, 'sessions.json')
+const ACCESS_TTL_SECONDS = 15 * 60
+const REFRESH_TTL_SECONDS = 30 * 24 * 60 * 60
+
+async function readSessions() {
+  return readJson(SESSIONS_PATH, [])
+}
+
+async function writeSessions(sessions) {
+  await writeJson(SESSIONS_PATH, sessions)
+}
+
+function signToken(claims, ttlSeconds) {
+  return jwt.sign(claims, secretFor('JWT_SECRET'), { expiresIn: ttlSeconds })
+}
+
+/** Returns { claims } for a valid token of the given type, or { error } (expired, tampered, wrong type). */
+function verifyToken(token, type) {
+  try {
+    const claims = jwt.verify(String(token || ''), secretFor('JWT_SECRET'))
+    if (claims.typ !== type) return { error: 'Invalid token' }
+    return { claims }
+  } catch (err) {
+    return { error: err instanceof jwt.TokenExpiredError ? 'Token expired' : 'Invalid token' }
+  }
+}
+
+/** Opens a refresh session and returns the token pair sent to the client. */
+async function issueSession(user) {
+  const now = Date.now()
+  const session = {
+    id: randomUUID(),
+    userId: user.id,
+    createdAt: now,
+    expiresAt: now + REFRESH_TTL_SECONDS * 1000,
+    revokedAt: null,
+  }
+  const sessions = await readSessions()
+  // Drop sessions that can no longer be used
+  const live = sessions.filter((s) => !s.revokedAt && s.expiresAt > now)
+  live.push(session)
+  await writeSessions(live)
+
+  return {
+    token: signToken({ sub: user.id, typ: 'access' }, ACCESS_TTL_SECONDS),
+    refreshToken: signToken({ sub: user.id, sid: session.id, typ: 'refresh' }, REFRESH_TTL_SECONDS),
+    expiresAt: now + ACCESS_TTL_SECONDS * 1000,
+    user: sanitize(user),
+  }
+}
+
+async function revokeSession(sessionId) {
+  const sessions = await readSessions()
+  const session = sessions.find((s) => s.id === sessionId && !s.revokedAt)
+  if (!session) return null
+  session.revokedAt = Date.now()
+  await writeSessions(sessions)
+  return session
+}
+
+/** Revokes every live session of a user (after a password change). */
+async function revokeUserSessions(userId) {
+  const sessions = await readSessions()
+  const now = Date.now()
+  for (const s of sessions) {
+    if (s.userId === userId && !s.revokedAt) s.revokedAt = now
+  }
+  await writeSessions(sessions)
+}
+
+function normalizeEmail(email) {
+  const value = String(email || '').trim().toLowerCase()
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? value : null
+}
+
+/** Finds the account matching a phone number (E.164 after normalization) or an email. */
+function findByIdentifier(users, { phone, country, email }) {
+  if (phone) {
+    const e164 = normalizePhone(phone, country)
+    return e164 ? users.find((u) => u.phone === e164) || null : null
+  }
+  const mail = normalizeEmail(email)
+  return mail ? users.find((u) => normalizeEmail(u.email) === mail) || null : null
+}
+
+function bearerToken(req) {
+  const header = req.headers.authorization || ''
+  return header.startsWith('Bearer ') ? header.slice(7) : null
+}
+
+/** Middleware: rejects anonymous, expired or tampered requests and exposes the user as req.user. */
+export async function requireUser(req, res, next) {
+  const token = bearerToken(req)
+  if (!token) return res.status(401).json({ error: 'Missing token' })
+  const { claims, error } = verifyToken(token, 'access')
+  if (error) return res.status(401).json({ error })
+  const user = await findUserById(claims.sub)
+  if (!user) return res.status(401).json({ error: 'Unauthorized' })
+  req.user = user
+  next()
+}
+
+/** Middleware: like requireUser, but anonymous or invalid requests go through without req.user. */
+export async function optionalUser(req, _res, next) {
+  const { claims } = verifyToken(bearerToken(req), 'access')
+  if (claims) req.user = (await findUserById(claims.sub)) || undefined
+  next()
+}
+
+/**
+ * Creates the /api/auth router.
+ * @param options.sms SMS transport for one-time codes (defaults to SMS_TRANSPORT).
+ */
+export function createAuthRouter({ sms = createSmsTransport() } = {}) {
+  const router = express.Router()
+
+  /** Signup: phone is the identity, email is optional */
+  router.post('/signup', async (req, res) => {
+    const { phone, country, email, password, name } = req.body || {}
+    if (!phone || !password) {
+      return res.status(400).json({ error: 'Phone and password are required' })
+    }
+    const e164 = normalizePhone(phone, country)
+    if (!e164) return res.status(400).json({ error: 'Invalid phone number' })
+    const mail = normalizeEmail(email)
+    if (email && !mail) return res.status(400).json({ error: 'Invalid email' })
+
+    const users = await readUsers()
+    if (users.some((u) => u.phone === e164)) {
+      return res.status(409).json({ error: 'Phone number already registered' })
+    }
+    if (mail && users.some((u) => normalizeEmail(u.email) === mail)) {
+      return res.status(409).json({ error: 'Email already registered' })
+    }
+    const user = {
+      id: Date.now().toString(36),
+      phone: e164,
+      country: phoneCountryOf(e164),
+      email: mail,
+      name: (typeof name === 'string' && name.trim()) || e164,
+      role: 'user',
+      passwordHash: await hashPassword(password),
+      createdAt: Date.now(),
+    }
+    users.push(user)
+    await writeUsers(users)
+    return res.json(await issueSession(user))
+  })
+
+  /** Login with phone (+ country for national numbers) or email */
+  router.post('/login', async (req, res) => {
+    const { phone, country, email, password } = req.body || {}
+    if ((!phone && !email) || !password) {
+      return res.status(400).json({ error: 'Phone (or email) and password are required' })
+    }
+    const users = await readUsers()
+    const user = findByIdentifier(users, { phone, country, email })
+    const hadPlaintext = Boolean(user && !user.passwordHash)
+    if (!user || !(await verifyPassword(user, password))) {
+      return res.status(401).json({ error: 'Invalid credentials' })
+    }
+    if (hadPlaintext) await writeUsers(users)
+    return res.json(await issueSession(user))
+  })
+
+  /** Refresh: rotates the refresh token */
+  router.post('/refresh', async (req, res) => {
+    const { claims, error } = verifyToken(req.body?.refreshToken, 'refresh')
+    if (error) return res.status(401).json({ error })
+    const session = await revokeSession(claims.sid)
+    if (!session || session.userId !== claims.sub) return res.status(401).json({ error: 'Session revoked' })
+    const user = await findUserById(claims.sub)
+    if (!user) return res.status(401).json({ error: 'Unauthorized' })
+    return res.json(await issueSession(user))
+  })
+
+  /** Logout: best effort, always succeeds */
+  router.post('/logout', async (req, res) => {
+    const { claims } = verifyToken(req.body?.refreshToken, 'refresh')
+    if (claims) await revokeSession(claims.sid)
+    return res.json({ ok: true })
+  })
+
+  /** OTP: texts a code to the number (login or password reset) */
+  router.post('/otp/request', async (req, res) => {
+    const { phone, country, purpose = 'login' } = req.body || {}
+    if (!OTP_PURPOSES.includes(purpose)) return res.status(400).json({ error: 'Invalid purpose' })
+    const e164 = normalizePhone(phone, country)
+    if (!e164) return res.status(400).json({ error: 'Invalid phone number' })
+
+    let result
+    try {
+      const users = await readUsers()
+      // Unknown numbers are rate limited the same way, they are just never texted
+      result = await issueOtp(e164, purpose, sms, { deliver: users.some((u) => u.phone === e164) })
+    } catch (err) {
+      // Same answer as a sent code: a delivery failure must not reveal that the number has an account
+      console.error('[auth] OTP request failed', err)
+      return res.json({ ok: true })
+    }
+    if (result.error) {
+      res.set('Retry-After', String(result.retryAfter))
+      return res.status(429).json({ error: result.error, retryAfter: result.retryAfter })
+    }
+    return res.json({ ok: true })
+  })
+
+  /** OTP: exchanges a login code for a session */
+  router.post('/otp/verify', async (req, res) => {
+    const { phone, country, code } = req.body || {}
+    const e164 = normalizePhone(phone, country)
+    if (!e164 || !code) return res.status(400).json({ error: 'Phone and code are required' })
+    const result = await consumeOtp(e164, 'login', code)
+    if (result.error) return res.status(401).json({ error: result.error })
+    const users = await readUsers()
+    const user = users.find((u) => u.phone === e164)
+    if (!user) return res.status(401).json({ error: 'Invalid code' })
+    return res.json(await issueSession(user))
+  })
+
+  /** Forgot password: new password with a reset code */
+  router.post('/password/reset', async (req, res) => {
+    const { phone, country, code, password } = req.body || {}
+    const e164 = normalizePhone(phone, country)
+    if (!e164 || !code || !password) {
+      return res.status(400).json({ error: 'Phone, code and password are required' })
+    }
+    const result = await consumeOtp(e164, 'reset', code)
+    if (result.error) return res.status(401).json({ error: result.error })
+    const users = await readUsers()
+    const user = users.find((u) => u.phone === e164)
+    if (!user) return res.status(401).json({ error: 'Invalid code' })
+    user.passwordHash = await hashPassword(password)
+    delete user.password
+    await writeUsers(users)
+    await revokeUserSessions(user.id)
+    return res.json(await issueSession(user))
+  })
+
+  /** Me */
+  router.get('/me', requireUser, (req, res) => {
+    return res.json({ user: sanitize(req.user) })
+  })
+
+  return router
+}
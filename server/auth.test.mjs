@@ -0,0 +1,176 @@
+/**
+ * server/auth.test.mjs
+ * Sessions of the /api/auth router: login against bcrypt hashes (and legacy plaintext records),
+ * unique phone numbers and emails at signup, access tokens checked on /me, refresh-token rotation
+ * and reuse, logout.
+ * Runs with `npm test` (node:test); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+import jwt from 'jsonwebtoken'
+
+const JWT_SECRET = 'test-jwt-secret'
+
+let dataDir
+let server
+let baseUrl
+let readUsers
+let writeUsers
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-auth-'))
+  process.chdir(dataDir)
+  process.env.JWT_SECRET = JWT_SECRET
+  const { createAuthRouter } = await import('./auth.mjs')
+  ;({ readUsers, writeUsers } = await import('./users.mjs'))
+
+  const app = express()
+  app.use(express.json())
+  app.use('/api/auth', createAuthRouter({ sms: { name: 'test', send: async () => {} } }))
+  server = app.listen(0)
+  baseUrl = `http://localhost:${server.address().port}/api/auth`
+})
+
+after(async () => {
+  server?.close()
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+async function post(route, body) {
+  const res = await fetch(`${baseUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return { status: res.status, body: await res.json() }
+}
+
+async function me(token) {
+  const res = await fetch(`${baseUrl}/me`, { headers: { Authorization: `Bearer ${token}` } })
+  return { status: res.status, body: await res.json() }
+}
+
+describe('login', () => {
+  test('signup stores a bcrypt hash, and login checks the password against it', async () => {
+    const signup = await post('/signup', { phone: '0810000001', country: 'CD', password: 's3cret!' })
+    assert.equal(signup.status, 200)
+    assert.equal(signup.body.user.passwordHash, undefined)
+
+    const stored = (await readUsers()).find((u) => u.phone === '+243810000001')
+    assert.match(stored.passwordHash, /^\$2[aby]\$/)
+    assert.equal(stored.password, undefined)
+
+    assert.equal((await post('/login', { phone: '+243810000001', password: 's3cret!' })).status, 200)
+    const wrong = await post('/login', { phone: '+243810000001', password: 'nope' })
+    assert.equal(wrong.status, 401)
+    assert.equal(wrong.body.error, 'Invalid credentials')
+  })
+
+  test('a legacy plaintext record logs in once and is saved hashed', async () => {
+    await writeUsers([...(await readUsers()), { id: 'legacy', phone: '+243810000002', password: 'old-pass' }])
+    assert.equal((await post('/login', { phone: '+243810000002', password: 'wrong' })).status, 401)
+    assert.equal((await readUsers()).find((u) => u.id === 'legacy').password, 'old-pass')
+
+    assert.equal((await post('/login', { phone: '+243810000002', password: 'old-pass' })).status, 200)
+    const upgraded = (await readUsers()).find((u) => u.id === 'legacy')
+    assert.equal(upgraded.password, undefined)
+    assert.match(upgraded.passwordHash, /^\$2[aby]\$/)
+    assert.equal((await post('/login', { phone: '+243810000002', password: 'old-pass' })).status, 200)
+  })
+})
+
+describe('signup', () => {
+  test('refuses a phone number already registered, however it is written', async () => {
+    const spellings = [
+      ['+243810000001', 'FR'],
+      ['00243 810 000 001', 'FR'],
+      ['243-810-000-001', 'CD'],
+      ['0810 000 001', 'CD'],
+    ]
+    for (const [phone, country] of spellings) {
+      const { status, body } = await post('/signup', { phone, country, password: 'x' })
+      assert.equal(status, 409)
+      assert.equal(body.error, 'Phone number already registered')
+    }
+  })
+
+  test('refuses an email already registered, case and spaces aside', async () => {
+    const first = await post('/signup', { phone: '0810000003', password: 'x', email: 'Amani@Example.com' })
+    assert.equal(first.status, 200)
+    assert.equal(first.body.user.email, 'amani@example.com')
+
+    const duplicate = await post('/signup', { phone: '0810000004', password: 'x', email: ' AMANI@example.com ' })
+    assert.equal(duplicate.status, 409)
+    assert.equal(duplicate.body.error, 'Email already registered')
+    assert.ok(!(await readUsers()).some((u) => u.phone === '+243810000004'))
+  })
+
+  test('rejects numbers that do not normalize to E.164', async () => {
+    const { status, body } = await post('/signup', { phone: '0810 00', password: 'x' })
+    assert.equal(status, 400)
+    assert.equal(body.error, 'Invalid phone number')
+  })
+})
+
+describe('access tokens', () => {
+  let session
+
+  before(async () => {
+    session = (await post('/login', { phone: '+243810000001', password: 's3cret!' })).body
+  })
+
+  test('a valid token resolves the user on /me', async () => {
+    const { status, body } = await me(session.token)
+    assert.equal(status, 200)
+    assert.equal(body.user.phone, '+243810000001')
+  })
+
+  test('a tampered token is rejected', async () => {
+    const [header, payload, signature] = session.token.split('.')
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString())
+    const forged = Buffer.from(JSON.stringify({ ...claims, sub: 'legacy' })).toString('base64url')
+    assert.deepEqual(await me(`${header}.${forged}.${signature}`), { status: 401, body: { error: 'Invalid token' } })
+
+    const otherSecret = jwt.sign({ sub: claims.sub, typ: 'access' }, 'another-secret')
+    assert.equal((await me(otherSecret)).status, 401)
+  })
+
+  test('an expired token is rejected', async () => {
+    const { sub } = jwt.decode(session.token)
+    const expired = jwt.sign({ sub, typ: 'access', exp: Math.floor(Date.now() / 1000) - 10 }, JWT_SECRET)
+    assert.deepEqual(await me(expired), { status: 401, body: { error: 'Token expired' } })
+  })
+
+  test('a refresh token is not an access token', async () => {
+    assert.equal((await me(session.refreshToken)).status, 401)
+    assert.equal((await me('')).status, 401)
+  })
+})
+
+describe('refresh tokens', () => {
+  test('rotate on use, and the replaced one is refused', async () => {
+    const first = (await post('/login', { phone: '+243810000001', password: 's3cret!' })).body
+    const rotated = await post('/refresh', { refreshToken: first.refreshToken })
+    assert.equal(rotated.status, 200)
+    assert.notEqual(rotated.body.refreshToken, first.refreshToken)
+    assert.equal((await me(rotated.body.token)).status, 200)
+
+    const reused = await post('/refresh', { refreshToken: first.refreshToken })
+    assert.deepEqual(reused, { status: 401, body: { error: 'Session revoked' } })
+    assert.equal((await post('/refresh', { refreshToken: rotated.body.refreshToken })).status, 200)
+  })
+
+  test('are revoked by logout, and access tokens cannot refresh', async () => {
+    const session = (await post('/login', { phone: '+243810000001', password: 's3cret!' })).body
+    assert.equal((await post('/refresh', { refreshToken: session.token })).status, 401)
+
+    assert.deepEqual(await post('/logout', { refreshToken: session.refreshToken }), { status: 200, body: { ok: true } })
+    assert.equal((await post('/refresh', { refreshToken: session.refreshToken })).status, 401)
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * server/checkout.mjs
+ * Stripe Checkout for card payments (behind startStripeCheckout in src/lib/stripeClient.ts).
+ * - POST /api/checkout { plan, cvId, successUrl, cancelUrl }: prices the plan on the server, records a
+ *   pending card payment for that saved CV, creates a session.
+ * - POST /api/checkout/webhook: verifies the Stripe signature, then completes or fails the payment.
+ *   Only a verified completion grants the download entitlement. charge.refunded confirms refunds
+ *   started from the admin dashboard (server/payments/actions.mjs), which revokes the entitlement.
+ *
+ * Configuration: STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET and, to point the SDK at a stub such as
+ * stripe-mock, STRIPE_API_URL (e.g. http://localhost:12111).
+ */
+
+import express from 'express'
+import Stripe from 'stripe'
+import { randomUUID } from 'crypto'
+import { CURRENCY, PLANS, priceOf } from './pricing.mjs'
+import { findPayment, insertPayment, readPayments, updatePayment } from './payments/store.mjs'
+import { completeRefund } from './payments/actions.mjs'
+import { grantEntitlementForPayment } from './entitlements.mjs'
+import { findUserCv } from './cvs.mjs'
+
+const PLAN_NAMES = {
+  student: 'CV Simple',
+  pro: 'CV Pro',
+  advanced: 'CV Advanced',
+}
+
+/** Builds the Stripe SDK client from the environment, or null when card payments are not configured. */
+export function createStripeClient(env = process.env) {
+  if (!env.STRIPE_SECRET_KEY) return null
+  const config = {}
+  if (env.STRIPE_API_URL) {
+    const url = new URL(env.STRIPE_API_URL)
+    config.protocol = url.protocol.replace(':', '')
+    config.host = url.hostname
+    if (url.port) config.port = Number(url.port)
+  }
+  return new Stripe(env.STRIPE_SECRET_KEY, config)
+}
+
+function isHttpUrl(value) {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/** Moves a pending card payment to its final state (idempotent on replays). */
+async function settlePayment(paymentId, patch) {
+  const payment = await findPayment(paymentId)
+  if (!payment || payment.method !== 'card' || payment.status !== 'pending') return payment
+  const updated = await updatePayment(paymentId, patch)
+  if (updated.status === 'completed') await grantEntitlementForPayment(updated)
+  return updated
+}
+
+/**
+ * Creates the /api/checkout router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ * @param options.stripe Stripe SDK instance (defaults to createStripeClient()).
+ */
+export function createCheckoutRouter(requireUser, { stripe = createStripeClient() } = {}) {
+  const router = express.Router()
+
+  router.post('/', requireUser, async (req, res) => {
+    if (!stripe) return res.status(503).json({ error: 'Card payments are not configured' })
+
+    const { plan, successUrl, cancelUrl, cvId } = req.body || {}
+    if (!PLANS.includes(plan)) return res.status(400).json({ error: 'Invalid plan' })
+    // The entitlement is granted for this CV only: it must be saved in the user's library
+    const cv = await findUserCv(req.user.id, cvId)
+    if (!cv) return res.status(400).json({ error: 'Save the CV before paying' })
+    if (!isHttpUrl(successUrl) || !isHttpUrl(cancelUrl)) {
+      return res.status(400).json({ error: 'successUrl and cancelUrl must be absolute URLs' })
+    }
+
+    const now = Date.now()
+    const payment = await insertPayment({
+      id: randomUUID(),
+      userId: req.user.id,
+      cvId: cv.id,
+      method: 'card',
+      adapter: 'stripe',
+      provider: 'stripe',
+      plan,
+      amount: priceOf(plan),
+      currency: CURRENCY,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    try {
+      const session = await stripe.checkout.sessions.create({
+        mode: 'payment',
+        client_reference_id: payment.id,
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        line_items: [
+          {
+            quantity: 1,
+            price_data: {
+              currency: CURRENCY.toLowerCase(),
+              unit_amount: Math.round(payment.amount * 100),
+              product_data: { name: PLAN_NAMES[plan] },
+            },
+          },
+        ],
+        metadata: { paymentId: payment.id, userId: req.user.id, plan, cvId: payment.cvId || '' },
+      })
+      await updatePayment(payment.id, { sessionId: session.id })
+      return res.json({ id: session.id, url: session.url })
+    } catch (err) {
+      console.error('[checkout] session creation failed', err)
+      await updatePayment(payment.id, {
+        status: 'failed',
+        failureReason: { failureCode: 'PROVIDER_ERROR', failureMessage: 'Unable to start checkout session.' },
+      })
+      return res.status(502).json({ error: 'Unable to start checkout session.' })
+    }
+  })
+
+  return router
+}
+
+/**
+ * Creates the webhook handler. It must be mounted with express.raw() ahead of express.json(),
+ * because the signature is computed over the exact request bytes.
+ */
+export function createStripeWebhookHandler({
+  stripe = createStripeClient(),
+  webhookSecret = process.env.STRIPE_WEBHOOK_SECRET,
+} = {}) {
+  return async (req, res) => {
+    if (!stripe || !webhookSecret) return res.status(503).json({ error: 'Webhooks are not configured' })
+
+    let event
+    try {
+      event = stripe.webhooks.constructEvent(req.body, req.headers['stripe-signature'], webhookSecret)
+    } catch (err) {
+      return res.status(400).json({ error: 'Invalid signature' })
+    }
+
+    if (event.type === 'charge.refunded') {
+      const charge = event.data?.object || {}
+      // Full refunds only: a partial refund leaves the payment (and its entitlement) in place
+      if (charge.refunded && charge.payment_intent) {
+        const payments = await readPayments()
+        const payment = payments.find((p) => p.method === 'card' && p.providerReference === charge.payment_intent)
+        if (payment) await completeRefund(payment.id)
+      }
+      return res.json({ received: true })
+    }
+
+    const session = event.data?.object || {}
+    const paymentId = session.metadata?.paymentId || session.client_reference_id
+    if (!paymentId) return res.json({ received: true })
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Delayed methods complete later through async_payment_succeeded.
+        if (session.payment_status === 'paid') {
+          await settlePayment(paymentId, {
+            status: 'completed',
+            completedAt: Date.now(),
+            providerReference: session.payment_intent || null,
+          })
+        }
+        break
+      case 'checkout.session.async_payment_succeeded':
+        await settlePayment(paymentId, {
+          status: 'completed',
+          completedAt: Date.now(),
+          providerReference: session.payment_intent || null,
+        })
+        break
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired':
+        await settlePayment(paymentId, {
+          status: 'failed',
+          failureReason: { failureCode: event.type, failureMessage: 'Card payment was not completed.' },
+        })
+        break
+      default:
+        break
+    }
+    return res.json({ received: true })
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * server/checkout.test.mjs
+ * Stripe Checkout against a stubbed Stripe HTTP layer (the real SDK with a fake httpClient):
+ * session creation priced on the server, webhook signature check, settlement and refunds.
+ * Runs with `npm test` (node:test); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+import Stripe from 'stripe'
+
+const USER_ID = 'user-1'
+const CV_ID = 'cv-1'
+const WEBHOOK_SECRET = 'whsec_test'
+
+/** Answers the SDK requests from `routes` ("METHOD /path" → (params) => [status, body]) and records them. */
+class StubHttpClient extends Stripe.HttpClient {
+  constructor(routes) {
+    super()
+    this.routes = routes
+    this.requests = []
+  }
+
+  getClientName() {
+    return 'stub'
+  }
+
+  async makeRequest(host, port, urlPath, method, headers, requestData) {
+    const params = new URLSearchParams(requestData || '')
+    this.requests.push({ method, path: urlPath, params })
+    const route = this.routes[`${method} ${urlPath.split('?')[0]}`]
+    const [status, body] = route ? route(params) : [404, { error: { type: 'invalid_request_error', message: 'No stub' } }]
+    return new StubResponse(status, body)
+  }
+}
+
+class StubResponse extends Stripe.HttpClientResponse {
+  constructor(status, body) {
+    super(status, { 'request-id': 'req_stub' })
+    this.body = body
+  }
+
+  getRawResponse() {
+    return this.body
+  }
+
+  toJSON() {
+    return Promise.resolve(this.body)
+  }
+}
+
+const http = new StubHttpClient({
+  'POST /v1/checkout/sessions': (params) => [
+    200,
+    {
+      id: `cs_test_${params.get('client_reference_id')}`,
+      object: 'checkout.session',
+      url: 'https://checkout.stripe.test/session',
+    },
+  ],
+})
+const stripe = new Stripe('sk_test_stub', { httpClient: http, maxNetworkRetries: 0 })
+
+let dataDir
+let server
+let baseUrl
+let findPayment
+let activeEntitlementsFor
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-checkout-'))
+  process.chdir(dataDir)
+  const { writeJson, DATA_DIR } = await import('./store.mjs')
+  const { createCheckoutRouter, createStripeWebhookHandler } = await import('./checkout.mjs')
+  ;({ findPayment } = await import('./payments/store.mjs'))
+  ;({ activeEntitlementsFor } = await import('./entitlements.mjs'))
+
+  await writeJson(path.join(DATA_DIR, 'cvs', `${USER_ID}.json`), [
+    { id: CV_ID, title: 'CV', plan: 'student', withPhoto: false, createdAt: 1, updatedAt: 1, data: {} },
+  ])
+  const requireUser = (req, res, next) => {
+    req.user = { id: USER_ID }
+    next()
+  }
+  const app = express()
+  app.post(
+    '/api/checkout/webhook',
+    express.raw({ type: 'application/json' }),
+    createStripeWebhookHandler({ stripe, webhookSecret: WEBHOOK_SECRET })
+  )
+  app.use(express.json())
+  app.use('/api/checkout', createCheckoutRouter(requireUser, { stripe }))
+  server = app.listen(0)
+  baseUrl = `http://localhost:${server.address().port}/api/checkout`
+})
+
+after(async () => {
+  server?.close()
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+async function checkout(body) {
+  const res = await fetch(baseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      plan: 'pro',
+      cvId: CV_ID,
+      successUrl: 'http://localhost/#/?paid=1',
+      cancelUrl: 'http://localhost/#/',
+      ...body,
+    }),
+  })
+  return { status: res.status, body: await res.json() }
+}
+
+/** Posts `event` to the webhook, signed with `secret` unless a `signature` header is given. */
+async function deliver(event, { secret = WEBHOOK_SECRET, signature } = {}) {
+  const payload = JSON.stringify(event)
+  const res = await fetch(`${baseUrl}/webhook`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': signature ?? stripe.webhooks.generateTestHeaderString({ payload, secret }),
+    },
+    body: payload,
+  })
+  return { status: res.status, body: await res.json() }
+}
+
+function sessionEvent(type, paymentId, session = {}) {
+  return {
+    id: `evt_${type}_${paymentId}`,
+    object: 'event',
+    type,
+    data: { object: { object: 'checkout.session', client_reference_id: paymentId, metadata: { paymentId }, ...session } },
+  }
+}
+
+/** Id of the pending payment recorded for the last session created through the stub. */
+function lastPaymentId() {
+  return http.requests.at(-1).params.get('client_reference_id')
+}
+
+describe('checkout sessions', () => {
+  test('are priced on the server and record a pending card payment', async () => {
+    const { status, body } = await checkout({ plan: 'pro', amount: 0.01 })
+    assert.equal(status, 200)
+    assert.equal(body.url, 'https://checkout.stripe.test/session')
+
+    const params = http.requests.at(-1).params
+    assert.equal(params.get('mode'), 'payment')
+    assert.equal(params.get('line_items[0][price_data][unit_amount]'), '200')
+    assert.equal(params.get('metadata[cvId]'), CV_ID)
+
+    const payment = await findPayment(lastPaymentId())
+    assert.equal(payment.status, 'pending')
+    assert.equal(payment.amount, 2)
+    assert.equal(payment.sessionId, body.id)
+  })
+
+  test('require a known plan, absolute return URLs and a saved CV', async () => {
+    assert.equal((await checkout({ plan: 'gold' })).status, 400)
+    assert.equal((await checkout({ successUrl: '/#/?paid=1' })).status, 400)
+    assert.equal((await checkout({ cvId: 'someone-elses-cv' })).status, 400)
+  })
+})
+
+describe('webhook', () => {
+  test('rejects events without a valid signature', async () => {
+    await checkout({})
+    const event = sessionEvent('checkout.session.completed', lastPaymentId(), { payment_status: 'paid' })
+    assert.equal((await deliver(event, { secret: 'whsec_other' })).status, 400)
+    assert.equal((await deliver(event, { signature: 'forged' })).status, 400)
+    assert.equal((await findPayment(lastPaymentId())).status, 'pending')
+  })
+
+  test('completes a paid session once and grants the entitlement for the CV', async () => {
+    await checkout({ plan: 'advanced' })
+    const paymentId = lastPaymentId()
+    const event = sessionEvent('checkout.session.completed', paymentId, {
+      payment_status: 'paid',
+      payment_intent: 'pi_test_1',
+    })
+    assert.equal((await deliver(event)).status, 200)
+    // Stripe retries deliveries: a replay changes nothing
+    assert.equal((await deliver(event)).status, 200)
+
+    const payment = await findPayment(paymentId)
+    assert.equal(payment.status, 'completed')
+    assert.equal(payment.providerReference, 'pi_test_1')
+    const granted = (await activeEntitlementsFor(USER_ID)).filter((e) => e.paymentId === paymentId)
+    assert.equal(granted.length, 1)
+    assert.equal(granted[0].plan, 'advanced')
+    assert.equal(granted[0].cvId, CV_ID)
+  })
+
+  test('waits for async_payment_succeeded when the session is not paid yet', async () => {
+    await checkout({})
+    const paymentId = lastPaymentId()
+    await deliver(sessionEvent('checkout.session.completed', paymentId, { payment_status: 'unpaid' }))
+    assert.equal((await findPayment(paymentId)).status, 'pending')
+
+    await deliver(sessionEvent('checkout.session.async_payment_succeeded', paymentId, { payment_intent: 'pi_test_2' }))
+    assert.equal((await findPayment(paymentId)).status, 'completed')
+  })
+
+  test('fails an expired session without entitlement', async () => {
+    await checkout({})
+    const paymentId = lastPaymentId()
+    await deliver(sessionEvent('checkout.session.expired', paymentId))
+    const payment = await findPayment(paymentId)
+    assert.equal(payment.status, 'failed')
+    assert.equal(payment.failureReason.failureCode, 'checkout.session.expired')
+    assert.ok(!(await activeEntitlementsFor(USER_ID)).some((e) => e.paymentId === paymentId))
+  })
+
+  test('revokes the entitlement on a full refund only', async () => {
+    await checkout({})
+    const paymentId = lastPaymentId()
+    await deliver(
+      sessionEvent('checkout.session.completed', paymentId, { payment_status: 'paid', payment_intent: 'pi_test_3' })
+    )
+    const refund = (refunded) => ({
+      id: `evt_refund_${refunded}`,
+      object: 'event',
+      type: 'charge.refunded',
+      data: { object: { object: 'charge', refunded, payment_intent: 'pi_test_3' } },
+    })
+
+    await deliver(refund(false))
+    assert.equal((await findPayment(paymentId)).status, 'completed')
+
+    await deliver(refund(true))
+    assert.equal((await findPayment(paymentId)).status, 'refunded')
+    assert.ok(!(await activeEntitlementsFor(USER_ID)).some((e) => e.paymentId === paymentId))
+  })
+})
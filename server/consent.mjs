@@ -0,0 +1,39 @@
+/**
+ * server/consent.mjs
+ * Consent choices of signed-in users (shared/consent.mjs), so every device honours the same answer.
+ * - GET /api/consent → { consent } (null when the user never answered).
+ * - PUT /api/consent { version, analytics, marketing } → { consent } stamped with the server time.
+ * Stored on the user record (users.json) as `consent`.
+ */
+
+import express from 'express'
+import { readUsers, writeUsers } from './users.mjs'
+import { CONSENT_VERSION, normalizeConsent } from '../shared/consent.mjs'
+
+/**
+ * Creates the /api/consent router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ */
+export function createConsentRouter(requireUser) {
+  const router = express.Router()
+  router.use(requireUser)
+
+  router.get('/', (req, res) => {
+    return res.json({ consent: normalizeConsent(req.user.consent) })
+  })
+
+  router.put('/', async (req, res) => {
+    const record = normalizeConsent(req.body)
+    if (!record || record.version !== CONSENT_VERSION) {
+      return res.status(400).json({ error: `Consent must answer policy version ${CONSENT_VERSION}` })
+    }
+    const users = await readUsers()
+    const user = users.find((u) => u.id === req.user.id)
+    if (!user) return res.status(404).json({ error: 'User not found' })
+    user.consent = { ...record, updatedAt: Date.now() }
+    await writeUsers(users)
+    return res.json({ consent: user.consent })
+  })
+
+  return router
+}
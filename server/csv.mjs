@@ -0,0 +1,53 @@
+/**
+ * server/csv.mjs
+ * CSV exports streamed to the response (admin payments and visits).
+ * - A column is { key, label, value(row) }; the same definitions serve every export of a dataset.
+ * - UTF-8 with a BOM and CRLF line endings so spreadsheets (Excel, LibreOffice) open it as is.
+ * - Text cells starting with = + - @ are prefixed with ' (no formula injection from user data).
+ */
+
+const FORMULA_START = /^[=+\-@\t\r]/
+
+/** Quotes a cell when needed (separator, quote, line break). */
+export function csvCell(value) {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : ''
+  let text = String(value)
+  if (FORMULA_START.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvLine(cells) {
+  return `${cells.map(csvCell).join(',')}\r\n`
+}
+
+/**
+ * Writes `rows` as a CSV attachment, one line at a time (waits for 'drain' on slow clients).
+ * @param columns column definitions ({ key, label, value(row) }).
+ */
+export async function streamCsv(res, filename, columns, rows) {
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+  res.setHeader('Content-Disposition', `attachment; filename="${filename.replace(/[^\w.-]/g, '_')}"`)
+  res.setHeader('Cache-Control', 'no-store')
+
+  // Resolves on 'close' too: a client that hangs up never drains
+  const write = (chunk) =>
+    res.write(chunk)
+      ? Promise.resolve()
+      : new Promise((resolve) => {
+          const done = () => {
+            res.off('drain', done)
+            res.off('close', done)
+            resolve()
+          }
+          res.on('drain', done)
+          res.on('close', done)
+        })
+
+  await write(`\uFEFF${csvLine(columns.map((c) => c.label))}`)
+  for (const row of rows) {
+    if (res.destroyed) return
+    await write(csvLine(columns.map((c) => c.value(row))))
+  }
+  res.end()
+}
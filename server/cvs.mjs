@@ -0,0 +1,213 @@
+/**
+ * server/cvs.mjs
+ * CV persistence API (list, create, fetch, update, delete) for the signed-in user.
+ * - Records are stored per user in data/cvs/<userId>.json.
+ * - Shape matches UserCvRecord in src/lib/cvApi.ts: id, title, plan, withPhoto, createdAt, updatedAt, data
+ *   (createdAt is missing on records saved before it was introduced).
+ * - POST /api/cv with an existing `id` updates that record (saveUserCv semantics).
+ * - Updates may carry `baseUpdatedAt`, the updatedAt of the version the client edited. When the
+ *   record changed since (edited on another device), the server answers 409 with the current record
+ *   so the client can offer a merge choice. Without it the update overwrites (last write wins).
+ * - Every write is also logged as a revision (server/revisions.mjs): GET /:id/revisions lists them,
+ *   an update with `checkpoint: true` (explicit save) is logged as its own 'save' revision,
+ *   GET /:id/revisions/:revisionId returns one with its data, POST …/restore brings it back.
+ * - `data` is validated against the ResumeData schema (shared/resume.mjs) after migration; records and
+ *   revisions saved in an older format are migrated when read.
+ */
+
+import express from 'express'
+import fs from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { DATA_DIR, readJson, writeJson, safeId } from './store.mjs'
+import { PLANS } from './pricing.mjs'
+import { recordRevision, listRevisions, getRevision, deleteRevisions } from './revisions.mjs'
+import { parseResume, readResume } from '../shared/resume.mjs'
+
+const CVS_DIR = path.join(DATA_DIR, 'cvs')
+
+function cvsPath(userId) {
+  return path.join(CVS_DIR, `${safeId(userId)}.json`)
+}
+
+/** Returns the CVs of every user, for admin statistics. */
+export async function readAllCvs() {
+  const files = await fs.readdir(CVS_DIR).catch(() => [])
+  const lists = await Promise.all(
+    files.filter((f) => f.endsWith('.json')).map((f) => readJson(path.join(CVS_DIR, f), []))
+  )
+  return lists.flat()
+}
+
+/** Returns every CV of a user (unsorted), its data in the current format. */
+export async function readUserCvs(userId) {
+  const cvs = await readJson(cvsPath(userId), [])
+  return cvs.map((cv) => ({ ...cv, data: readResume(cv.data) }))
+}
+
+/** Returns one saved CV of a user (data in the current format), or null. */
+export async function findUserCv(userId, cvId) {
+  if (typeof cvId !== 'string' || !cvId) return null
+  const cvs = await readUserCvs(userId)
+  return cvs.find((cv) => cv.id === cvId) || null
+}
+
+async function writeUserCvs(userId, cvs) {
+  await writeJson(cvsPath(userId), cvs)
+}
+
+/** Default title built from the resume header. */
+function defaultTitle(data) {
+  return [data?.fullName, data?.headline].filter(Boolean).join(' - ') || 'CV'
+}
+
+/**
+ * Validates a create/update payload.
+ * On create `data` is required; on update every field is optional.
+ */
+function parsePayload(body, { partial }) {
+  const { data, plan, withPhoto, title } = body || {}
+  if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+    return { error: 'data must be an object' }
+  }
+  if (!partial && data === undefined) return { error: 'data is required' }
+  const resume = data === undefined ? undefined : parseResume(data)
+  if (resume && !resume.success) return { error: `Invalid data (${resume.error})` }
+  if (plan !== undefined && !PLANS.includes(plan)) return { error: 'Invalid plan' }
+  if (withPhoto !== undefined && typeof withPhoto !== 'boolean') return { error: 'withPhoto must be a boolean' }
+  if (title !== undefined && typeof title !== 'string') return { error: 'title must be a string' }
+
+  const value = {}
+  if (resume) value.data = resume.data
+  if (plan !== undefined) value.plan = plan
+  if (withPhoto !== undefined) value.withPhoto = withPhoto
+  if (title !== undefined && title.trim()) value.title = title.trim()
+  return { value }
+}
+
+/** True when the client edited an older version than the stored one. */
+function isStale(cv, body) {
+  const base = body?.baseUpdatedAt
+  return typeof base === 'number' && base !== cv.updatedAt
+}
+
+/** Revision reason of an update: an explicit save (`checkpoint: true`) is never folded into autosaves. */
+function updateReason(body) {
+  return body?.checkpoint === true ? 'save' : 'update'
+}
+
+/** Applies `value` to the record at `index`, saves the list and logs the new version. */
+async function applyUpdate(userId, cvs, index, value, revision) {
+  const previous = cvs[index]
+  cvs[index] = { ...previous, ...value, updatedAt: Date.now() }
+  await writeUserCvs(userId, cvs)
+  await recordRevision(userId, cvs[index], { ...revision, previous })
+  return cvs[index]
+}
+
+/**
+ * Creates the /api/cv router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ */
+export function createCvRouter(requireUser) {
+  const router = express.Router()
+  router.use(requireUser)
+
+  /** List: most recently updated first */
+  router.get('/', async (req, res) => {
+    const cvs = await readUserCvs(req.user.id)
+    cvs.sort((a, b) => b.updatedAt - a.updatedAt)
+    return res.json({ cvs })
+  })
+
+  /** Create (or update when body.id points to an existing record) */
+  router.post('/', async (req, res) => {
+    const id = req.body?.id
+    const { value, error } = parsePayload(req.body, { partial: Boolean(id) })
+    if (error) return res.status(400).json({ error })
+
+    const cvs = await readUserCvs(req.user.id)
+    if (id) {
+      const index = cvs.findIndex((c) => c.id === id)
+      if (index === -1) return res.status(404).json({ error: 'CV not found' })
+      if (isStale(cvs[index], req.body)) return res.status(409).json({ error: 'Conflict', cv: cvs[index] })
+      return res.json({ cv: await applyUpdate(req.user.id, cvs, index, value, { reason: updateReason(req.body) }) })
+    }
+
+    const now = Date.now()
+    const cv = {
+      id: randomUUID(),
+      title: value.title || defaultTitle(value.data),
+      plan: value.plan || 'student',
+      withPhoto: value.withPhoto ?? false,
+      createdAt: now,
+      updatedAt: now,
+      data: value.data,
+    }
+    cvs.push(cv)
+    await writeUserCvs(req.user.id, cvs)
+    await recordRevision(req.user.id, cv, { reason: 'create' })
+    return res.status(201).json({ cv })
+  })
+
+  /** Fetch one */
+  router.get('/:id', async (req, res) => {
+    const cvs = await readUserCvs(req.user.id)
+    const cv = cvs.find((c) => c.id === req.params.id)
+    if (!cv) return res.status(404).json({ error: 'CV not found' })
+    return res.json({ cv })
+  })
+
+  /** Update by id */
+  router.put('/:id', async (req, res) => {
+    const { value, error } = parsePayload(req.body, { partial: true })
+    if (error) return res.status(400).json({ error })
+    const cvs = await readUserCvs(req.user.id)
+    const index = cvs.findIndex((c) => c.id === req.params.id)
+    if (index === -1) return res.status(404).json({ error: 'CV not found' })
+    if (isStale(cvs[index], req.body)) return res.status(409).json({ error: 'Conflict', cv: cvs[index] })
+    return res.json({ cv: await applyUpdate(req.user.id, cvs, index, value, { reason: updateReason(req.body) }) })
+  })
+
+  /** Revision log of a CV (newest first, without data) */
+  router.get('/:id/revisions', async (req, res) => {
+    const cvs = await readUserCvs(req.user.id)
+    if (!cvs.some((c) => c.id === req.params.id)) return res.status(404).json({ error: 'CV not found' })
+    return res.json({ revisions: await listRevisions(req.user.id, req.params.id) })
+  })
+
+  /** One revision with its resume data (for diffs) */
+  router.get('/:id/revisions/:revisionId', async (req, res) => {
+    const revision = await getRevision(req.user.id, req.params.id, req.params.revisionId)
+    if (!revision) return res.status(404).json({ error: 'Revision not found' })
+    return res.json({ revision: { ...revision, data: readResume(revision.data) } })
+  })
+
+  /** Restore: the revision becomes the current version (itself logged, so a restore can be undone) */
+  router.post('/:id/revisions/:revisionId/restore', async (req, res) => {
+    const cvs = await readUserCvs(req.user.id)
+    const index = cvs.findIndex((c) => c.id === req.params.id)
+    if (index === -1) return res.status(404).json({ error: 'CV not found' })
+    const revision = await getRevision(req.user.id, req.params.id, req.params.revisionId)
+    if (!revision) return res.status(404).json({ error: 'Revision not found' })
+    const { title, plan, withPhoto } = revision
+    const data = readResume(revision.data)
+    const cv = await applyUpdate(req.user.id, cvs, index, { title, plan, withPhoto, data }, {
+      reason: 'restore',
+      restoredFrom: revision.id,
+    })
+    return res.json({ cv })
+  })
+
+  /** Delete by id */
+  router.delete('/:id', async (req, res) => {
+    const cvs = await readUserCvs(req.user.id)
+    const next = cvs.filter((c) => c.id !== req.params.id)
+    if (next.length === cvs.length) return res.status(404).json({ error: 'CV not found' })
+    await writeUserCvs(req.user.id, next)
+    await deleteRevisions(req.user.id, req.params.id)
+    return res.json({ ok: true })
+  })
+
+  return router
+}
@@ -0,0 +1,231 @@
+/**
+ * server/docx.mjs
+ * Word (DOCX) export of a CV, for recruiters who ask for an editable file.
+ * - POST /api/docx { data, plan, withPhoto?, cvId?, labels?, entitlementToken } → .docx
+ * - Same entitlement check and CV source as the PDF (server/exports.mjs) and same plan rules (shared/sections.mjs).
+ * - Real Word headings (Title, Heading 1) and bullet lists, so the file stays editable and ATS-readable;
+ *   dates are right-aligned with a tab stop. The photo is embedded only from a data URL.
+ */
+
+import express from 'express'
+import {
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  TabStopPosition,
+  TabStopType,
+  TextRun,
+} from 'docx'
+import { allowedSections, formatPeriod, parseSkills, toBullets } from '../shared/sections.mjs'
+import { exportFileName, photoFromDataUrl, readExportRequest } from './exports.mjs'
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+const INK = '171717'
+const MUTED = '525252'
+const PHOTO_SIZE = 96
+
+/** Pixel size of a PNG/JPEG, or null when the header cannot be read. */
+function imageSize({ type, data }) {
+  if (type === 'png') return data.length > 24 ? { width: data.readUInt32BE(16), height: data.readUInt32BE(20) } : null
+  let i = 2
+  while (i + 9 < data.length && data[i] === 0xff) {
+    const marker = data[i + 1]
+    // SOF0…SOF15 (without DHT, JPG and DAC) carry the frame size
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { width: data.readUInt16BE(i + 7), height: data.readUInt16BE(i + 5) }
+    }
+    i += 2 + data.readUInt16BE(i + 2)
+  }
+  return null
+}
+
+function photoParagraph(photoUrl) {
+  const photo = photoFromDataUrl(photoUrl)
+  const size = photo && imageSize(photo)
+  if (!size || !size.width || !size.height) return null
+  const scale = PHOTO_SIZE / Math.max(size.width, size.height)
+  return new Paragraph({
+    spacing: { after: 120 },
+    children: [
+      new ImageRun({
+        type: photo.type,
+        data: photo.data,
+        transformation: { width: Math.round(size.width * scale), height: Math.round(size.height * scale) },
+      }),
+    ],
+  })
+}
+
+function heading(text) {
+  return new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(text)] })
+}
+
+function bullet(text) {
+  return new Paragraph({ bullet: { level: 0 }, spacing: { after: 40 }, children: [new TextRun(text)] })
+}
+
+/** "Title — Organisation" with the period right-aligned, then the description bullets. */
+function entry(title, organisation, period, description) {
+  const runs = [new TextRun({ text: title || '—', bold: true, color: INK })]
+  if (organisation) runs.push(new TextRun({ text: ` — ${organisation}`, color: MUTED }))
+  if (period) runs.push(new TextRun({ text: `\t${period}`, size: 18, color: MUTED }))
+  return [
+    new Paragraph({
+      keepNext: true,
+      spacing: { before: 120, after: 40 },
+      tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }],
+      children: runs,
+    }),
+    ...toBullets(description).map(bullet),
+  ]
+}
+
+/**
+ * Builds the DOCX of a CV.
+ *
+ * @param resume - normalized ResumeData (see readExportRequest in server/exports.mjs)
+ * @param options - { plan, withPhoto, labels }
+ * @returns {Promise<Buffer>}
+ */
+export function buildDocx(resume, { plan, withPhoto, labels }) {
+  const show = allowedSections(plan)
+  const children = []
+
+  const photo = withPhoto ? photoParagraph(resume.photoUrl) : null
+  if (photo) children.push(photo)
+  children.push(new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(resume.fullName || '—')] }))
+  if (resume.headline) {
+    children.push(new Paragraph({ spacing: { after: 60 }, children: [new TextRun({ text: resume.headline, bold: true })] }))
+  }
+  const contacts = [
+    resume.email,
+    resume.phone,
+    resume.location,
+    resume.linkedin ? `${labels.linkedin}: ${resume.linkedin}` : '',
+  ].filter(Boolean)
+  if (contacts.length > 0) {
+    children.push(new Paragraph({ children: [new TextRun({ text: contacts.join(' • '), size: 18, color: MUTED })] }))
+  }
+
+  if (show.summary && resume.summary) {
+    children.push(heading(labels.summary), new Paragraph({ children: [new TextRun(resume.summary)] }))
+  }
+
+  if (show.highlights && resume.highlights.length > 0) {
+    children.push(heading(labels.highlights), ...resume.highlights.map(bullet))
+  }
+
+  const skills = parseSkills(resume.skills)
+  if (show.skills && skills.length > 0) {
+    children.push(heading(labels.skills), new Paragraph({ children: [new TextRun(skills.join(' • '))] }))
+  }
+
+  if (show.experience && resume.experiences.length > 0) {
+    children.push(heading(labels.experience))
+    for (const exp of resume.experiences) {
+      children.push(...entry(exp.title, exp.company, formatPeriod(exp.start, exp.end, labels.present), exp.description))
+    }
+  }
+
+  const achievements = resume.achievements.filter((a) => a.title || a.description)
+  if (show.achievements && achievements.length > 0) {
+    children.push(heading(labels.achievements))
+    for (const a of achievements) children.push(...entry(a.title, '', '', a.description))
+  }
+
+  if (show.education && resume.education.length > 0) {
+    children.push(heading(labels.education))
+    for (const ed of resume.education) {
+      children.push(...entry(ed.degree, ed.school, formatPeriod(ed.start, ed.end, labels.present), ed.description))
+    }
+  }
+
+  const certifications = resume.certifications.filter((c) => c.name || c.issuer)
+  if (show.certifications && certifications.length > 0) {
+    children.push(heading(labels.certifications))
+    for (const c of certifications) {
+      children.push(...entry(c.name, c.issuer, c.date, ''))
+      const details = [c.credentialId ? `${labels.credentialId}: ${c.credentialId}` : '', c.credentialUrl].filter(Boolean)
+      if (details.length > 0) {
+        children.push(new Paragraph({ children: [new TextRun({ text: details.join(' • '), size: 18, color: MUTED })] }))
+      }
+    }
+  }
+
+  const doc = new Document({
+    creator: 'Mako',
+    title: resume.fullName || 'CV',
+    description: resume.headline || undefined,
+    styles: {
+      default: { document: { run: { font: 'Calibri', size: 21, color: '262626' } } },
+      paragraphStyles: [
+        {
+          id: 'Title',
+          name: 'Title',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { size: 40, bold: true, color: INK },
+          paragraph: { spacing: { after: 40 } },
+        },
+        {
+          id: 'Heading1',
+          name: 'Heading 1',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { size: 18, bold: true, allCaps: true, characterSpacing: 12, color: INK },
+          paragraph: {
+            keepNext: true,
+            spacing: { before: 280, after: 100 },
+            border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: 'E5E5E5', space: 2 } },
+          },
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width: 11906, height: 16838 }, // A4
+            margin: { top: 1134, bottom: 1134, left: 1440, right: 1440 },
+          },
+        },
+        children,
+      },
+    ],
+  })
+  return Packer.toBuffer(doc)
+}
+
+/**
+ * Creates the /api/docx router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ */
+export function createDocxRouter(requireUser) {
+  const router = express.Router()
+  router.use(requireUser)
+
+  router.post('/', async (req, res) => {
+    const request = await readExportRequest(req)
+    if (request.error) return res.status(request.status).json({ error: request.error })
+
+    const { resume, plan, withPhoto, labels } = request
+    let buffer
+    try {
+      buffer = await buildDocx(resume, { plan, withPhoto, labels })
+    } catch (err) {
+      console.error('DOCX build failed', err)
+      return res.status(500).json({ error: 'DOCX export failed' })
+    }
+    res.setHeader('Content-Type', DOCX_TYPE)
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(resume, 'docx')}"`)
+    res.setHeader('Cache-Control', 'no-store')
+    return res.send(buffer)
+  })
+
+  return router
+}
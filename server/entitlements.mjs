@@ -0,0 +1,118 @@
+/**
+ * server/entitlements.mjs
+ * Download entitlements: which user paid for which plan (and which CV, when known).
+ * - Granted by the server when a payment completes (mobile money or Stripe webhook), never by the client.
+ * - GET /api/entitlements returns the active entitlements and a short-lived signed token.
+ *   The token is what gates PDF downloads; it is verified with verifyEntitlementToken().
+ *
+ * A plan covers itself and every cheaper plan, for the CV that was paid for (payments require a saved CV).
+ * Entitlements granted before payments carried a cvId have scope 'account' and keep covering any CV of
+ * the account; every newer one has scope 'cv'.
+ */
+
+import express from 'express'
+import jwt from 'jsonwebtoken'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { DATA_DIR, readJson, writeJson } from './store.mjs'
+import { secretFor } from './secrets.mjs'
+
+const ENTITLEMENTS_PATH = path.join(DATA_DIR, 'entitlements.json')
+const TOKEN_TTL = '1h'
+const PLAN_RANK = { student: 1, pro: 2, advanced: 3 }
+
+/** Scope of an entitlement; records written before `scope` existed are account-wide only without cvId. */
+function scopeOf(entitlement) {
+  return entitlement.scope || (entitlement.cvId ? 'cv' : 'account')
+}
+
+export async function readEntitlements() {
+  const all = await readJson(ENTITLEMENTS_PATH, [])
+  return all.map((e) => ({ ...e, scope: scopeOf(e) }))
+}
+
+async function writeEntitlements(entitlements) {
+  await writeJson(ENTITLEMENTS_PATH, entitlements)
+}
+
+/** Active (non revoked) entitlements of a user. */
+export async function activeEntitlementsFor(userId) {
+  const all = await readEntitlements()
+  return all.filter((e) => e.userId === userId && !e.revokedAt)
+}
+
+/** Grants the entitlement bought by a completed payment (idempotent per payment). */
+export async function grantEntitlementForPayment(payment) {
+  if (!payment || payment.status !== 'completed') return null
+  const all = await readEntitlements()
+  const existing = all.find((e) => e.paymentId === payment.id)
+  if (existing) return existing
+  const entitlement = {
+    id: randomUUID(),
+    userId: payment.userId,
+    plan: payment.plan,
+    cvId: payment.cvId || null,
+    // Only deposits created before a saved CV was required lack a cvId
+    scope: payment.cvId ? 'cv' : 'account',
+    paymentId: payment.id,
+    grantedAt: Date.now(),
+    revokedAt: null,
+  }
+  all.push(entitlement)
+  await writeEntitlements(all)
+  return entitlement
+}
+
+/** Revokes the entitlement bought by a payment (e.g. after a refund). */
+export async function revokeEntitlementForPayment(paymentId, reason) {
+  const all = await readEntitlements()
+  const entitlement = all.find((e) => e.paymentId === paymentId && !e.revokedAt)
+  if (!entitlement) return null
+  entitlement.revokedAt = Date.now()
+  entitlement.revokedReason = reason || null
+  await writeEntitlements(all)
+  return entitlement
+}
+
+/** Signs the claims the client needs to unlock downloads. */
+export function signEntitlementToken(userId, entitlements) {
+  const ent = entitlements.map((e) => ({ id: e.id, plan: e.plan, cvId: e.cvId, scope: scopeOf(e) }))
+  return jwt.sign({ sub: userId, ent }, secretFor('ENTITLEMENT_SECRET'), { expiresIn: TOKEN_TTL })
+}
+
+/** Returns the token payload, or null when the signature is wrong or the token expired. */
+export function verifyEntitlementToken(token) {
+  try {
+    return jwt.verify(String(token || ''), secretFor('ENTITLEMENT_SECRET'))
+  } catch {
+    return null
+  }
+}
+
+/** Whether verified claims allow exporting `cvId` with `plan`. */
+export function claimsCover(claims, plan, cvId) {
+  const wanted = PLAN_RANK[plan]
+  if (!claims || !wanted) return false
+  return (claims.ent || []).some(
+    (e) => PLAN_RANK[e.plan] >= wanted && (scopeOf(e) === 'account' || (Boolean(cvId) && e.cvId === cvId))
+  )
+}
+
+/**
+ * Creates the /api/entitlements router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ */
+export function createEntitlementsRouter(requireUser) {
+  const router = express.Router()
+  router.use(requireUser)
+
+  router.get('/', async (req, res) => {
+    const entitlements = await activeEntitlementsFor(req.user.id)
+    return res.json({
+      entitlements: entitlements.map(({ userId, ...rest }) => rest),
+      token: signEntitlementToken(req.user.id, entitlements),
+    })
+  })
+
+  return router
+}
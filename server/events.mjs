@@ -0,0 +1,104 @@
+/**
+ * server/events.mjs
+ * First-party analytics events (catalog in shared/events.mjs), one file per UTC day: data/events/YYYY-MM-DD.json.
+ * - POST /api/events { sessionId, events: [{ id, name, at, lang, props }] } → 202 { accepted }.
+ * - Stored with the session, the user and their country (from the account) for the admin funnel
+ *   (funnelReport in server/reports.mjs).
+ * - The client only sends events once analytics consent is given (src/lib/events.ts).
+ * - Unknown events and properties are dropped; ids already stored are skipped, so a retried batch counts once.
+ * - `at` is the client time when plausible (queued offline up to MAX_EVENT_AGE_MS), the server time otherwise.
+ */
+
+import express from 'express'
+import path from 'path'
+import { DATA_DIR, readJson, writeJson } from './store.mjs'
+import { SESSION_ID_PATTERN, dayOf } from './analytics.mjs'
+import { EVENTS, MAX_EVENTS_PER_BATCH } from '../shared/events.mjs'
+
+const EVENTS_DIR = path.join(DATA_DIR, 'events')
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+const EVENT_ID_PATTERN = /^[a-zA-Z0-9-]{8,64}$/
+const LANG_PATTERN = /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/
+const PROP_MAX = 100
+
+function eventsPath(day) {
+  return path.join(EVENTS_DIR, `${day}.json`)
+}
+
+/** Keeps the catalog properties of `name` with string / number values. */
+function cleanProps(name, props) {
+  const clean = {}
+  for (const key of EVENTS[name]) {
+    const value = props?.[key]
+    if (typeof value === 'number' && Number.isFinite(value)) clean[key] = value
+    else if (typeof value === 'string' && value) clean[key] = value.slice(0, PROP_MAX)
+  }
+  return clean
+}
+
+/** Validated event, or null when it is not in the catalog or has no usable id. */
+function toEvent(raw, { sessionId, user, now }) {
+  if (!raw || !Object.hasOwn(EVENTS, raw.name)) return null
+  if (typeof raw.id !== 'string' || !EVENT_ID_PATTERN.test(raw.id)) return null
+  const plausible = Number.isFinite(raw.at) && raw.at > now - MAX_EVENT_AGE_MS && raw.at < now + MAX_CLOCK_SKEW_MS
+  return {
+    id: raw.id,
+    name: raw.name,
+    at: plausible ? raw.at : now,
+    sessionId: sessionId || null,
+    userId: user?.id || null,
+    lang: typeof raw.lang === 'string' && LANG_PATTERN.test(raw.lang) ? raw.lang : null,
+    country: user?.country || null,
+    props: cleanProps(raw.name, raw.props),
+  }
+}
+
+/** Stored events of the given days (YYYY-MM-DD), oldest day first. */
+export async function readEvents(days) {
+  const perDay = await Promise.all(days.map((day) => readJson(eventsPath(day), [])))
+  return perDay.flat()
+}
+
+/** Appends events to their day files; returns how many were new. */
+export async function recordEvents(events) {
+  const byDay = new Map()
+  for (const event of events) {
+    const day = dayOf(event.at)
+    byDay.set(day, [...(byDay.get(day) || []), event])
+  }
+  let accepted = 0
+  for (const [day, batch] of byDay) {
+    const stored = await readJson(eventsPath(day), [])
+    const seen = new Set(stored.map((e) => e.id))
+    const fresh = batch.filter((e) => !seen.has(e.id) && seen.add(e.id))
+    if (!fresh.length) continue
+    await writeJson(eventsPath(day), [...stored, ...fresh])
+    accepted += fresh.length
+  }
+  return accepted
+}
+
+/**
+ * Creates the /api/events router (anonymous visitors send events too).
+ * @param optionalUser middleware that sets req.user when a valid token is sent.
+ */
+export function createEventsRouter(optionalUser) {
+  const router = express.Router()
+
+  router.post('/', optionalUser, async (req, res) => {
+    const { sessionId, events } = req.body || {}
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+      return res.status(400).json({ error: 'Invalid sessionId' })
+    }
+    if (!Array.isArray(events) || events.length > MAX_EVENTS_PER_BATCH) {
+      return res.status(400).json({ error: `events must be an array of at most ${MAX_EVENTS_PER_BATCH} items` })
+    }
+    const context = { sessionId, user: req.user, now: Date.now() }
+    const valid = events.map((raw) => toEvent(raw, context)).filter(Boolean)
+    const accepted = valid.length ? await recordEvents(valid) : 0
+    return res.status(202).json({ accepted })
+  })
+
+  return router
+}
@@ -0,0 +1,124 @@
+/**
+ * server/exports.mjs
+ * Shared plumbing of the CV export routes (server/pdf, server/docx.mjs):
+ * - readExportRequest(req): validates { data, plan, withPhoto?, cvId?, labels?, entitlementToken } and the
+ *   entitlement (signed token of the caller covering the plan and CV), then returns the bounded ResumeData.
+ *   With a cvId, what is rendered is that CV as saved in the caller's library, never the posted `data`:
+ *   an entitlement paid for one CV cannot export other content. The posted `data` is only used without
+ *   cvId, which only an account-wide entitlement covers (see server/entitlements.mjs).
+ * - photoFromDataUrl(): the CV photo, only from a PNG/JPEG data URL (exports never fetch anything).
+ * - exportFileName(): ASCII-safe "Name - Headline.ext" for Content-Disposition.
+ */
+
+import { PLANS } from './pricing.mjs'
+import { claimsCover, verifyEntitlementToken } from './entitlements.mjs'
+import { findUserCv } from './cvs.mjs'
+import { readResume as readResumeData } from '../shared/resume.mjs'
+
+const MAX_ITEMS = 50
+const MAX_TEXT = 5000
+
+/** Section labels when the client sends none (the client sends its translated labels). */
+const DEFAULT_LABELS = {
+  summary: 'Summary',
+  highlights: 'Career Highlights',
+  skills: 'Skills',
+  experience: 'Experience',
+  achievements: 'Other achievements',
+  education: 'Education',
+  certifications: 'Certifications',
+  present: 'Present',
+  linkedin: 'LinkedIn',
+  credentialId: 'ID',
+}
+
+function str(value, max = MAX_TEXT) {
+  return typeof value === 'string' ? value.slice(0, max) : ''
+}
+
+function list(value) {
+  return Array.isArray(value) ? value.slice(0, MAX_ITEMS).filter((v) => v && typeof v === 'object') : []
+}
+
+/** Keeps the ResumeData fields the exports print, as bounded strings (after migration, shared/resume.mjs). */
+function readResume(data) {
+  const d = readResumeData(data)
+  return {
+    fullName: str(d.fullName, 200),
+    headline: str(d.headline, 300),
+    email: str(d.email, 200),
+    phone: str(d.phone, 50),
+    location: str(d.location, 200),
+    linkedin: str(d.linkedin, 300),
+    summary: str(d.summary),
+    skills: d.skills.slice(0, MAX_ITEMS).map((s) => str(s, 200)),
+    photoUrl: str(d.photoUrl, 6 * 1024 * 1024),
+    language: str(d.language, 10),
+    highlights: (Array.isArray(d.highlights) ? d.highlights : []).map((h) => str(h)).filter(Boolean).slice(0, MAX_ITEMS),
+    experiences: list(d.experiences).map((e) => ({
+      title: str(e.title, 200),
+      company: str(e.company, 200),
+      start: str(e.start, 20),
+      end: str(e.end, 20),
+      description: str(e.description),
+    })),
+    education: list(d.education).map((e) => ({
+      degree: str(e.degree, 200),
+      school: str(e.school, 200),
+      start: str(e.start, 20),
+      end: str(e.end, 20),
+      description: str(e.description),
+    })),
+    certifications: list(d.certifications).map((c) => ({
+      name: str(c.name, 200),
+      issuer: str(c.issuer, 200),
+      date: str(c.date, 20),
+      credentialId: str(c.credentialId, 200),
+      credentialUrl: str(c.credentialUrl, 500),
+    })),
+    achievements: list(d.achievements).map((a) => ({
+      title: str(a.title, 200),
+      description: str(a.description),
+    })),
+  }
+}
+
+function readLabels(labels) {
+  const l = labels && typeof labels === 'object' ? labels : {}
+  return Object.fromEntries(Object.entries(DEFAULT_LABELS).map(([key, fallback]) => [key, str(l[key], 100) || fallback]))
+}
+
+/**
+ * Validates an export request of the signed-in user.
+ * @returns {{ status: number, error: string } | { resume, plan, withPhoto: boolean, labels }}
+ */
+export async function readExportRequest(req) {
+  const { data, plan, withPhoto, cvId, labels, entitlementToken } = req.body || {}
+  if (!PLANS.includes(plan)) return { status: 400, error: 'Unknown plan' }
+  if (cvId != null && typeof cvId !== 'string') return { status: 400, error: 'Invalid cvId' }
+  if (!cvId && (!data || typeof data !== 'object')) return { status: 400, error: 'CV data required' }
+
+  const claims = verifyEntitlementToken(entitlementToken)
+  if (!claims || claims.sub !== req.user.id || !claimsCover(claims, plan, cvId || null)) {
+    return { status: 403, error: 'No entitlement for this plan' }
+  }
+  if (!cvId) return { resume: readResume(data), plan, withPhoto: Boolean(withPhoto), labels: readLabels(labels) }
+
+  const cv = await findUserCv(req.user.id, cvId)
+  if (!cv) return { status: 404, error: 'CV not found' }
+  return { resume: readResume(cv.data), plan, withPhoto: Boolean(withPhoto), labels: readLabels(labels) }
+}
+
+/** Decodes a PNG/JPEG data URL into { type, data }; null for anything else (remote URLs are never fetched). */
+export function photoFromDataUrl(photoUrl) {
+  const match = /^data:image\/(png|jpe?g);base64,([A-Za-z0-9+/=\s]+)$/i.exec(photoUrl || '')
+  if (!match) return null
+  return { type: match[1].toLowerCase() === 'png' ? 'png' : 'jpg', data: Buffer.from(match[2], 'base64') }
+}
+
+/** "Jane Doe - Developer.pdf" → ASCII-safe file name for Content-Disposition. */
+export function exportFileName(resume, extension) {
+  const base = [resume.fullName || 'CV', resume.headline].filter(Boolean).join(' - ')
+  const ascii = base.normalize('NFKD').replace(/[^\w .-]+/g, '').trim().slice(0, 120)
+  return `${ascii || 'CV'}.${extension}`
+}
@@ -0,0 +1,126 @@
+/**
+ * server/import/extract.mjs
+ * Text extraction from an uploaded CV file, entirely in-process (no external service).
+ * - PDF: pdfjs-dist text content, rebuilt into lines from the glyph positions.
+ * - DOCX: word/document.xml paragraphs (tabs and line breaks kept), inflated up to MAX_DOCUMENT_XML
+ *   so that a small zip bomb cannot exhaust the memory.
+ * Both return trimmed, non-empty lines in reading order; a scanned PDF (images only) yields none.
+ */
+
+import JSZip from 'jszip'
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs'
+
+export const PDF_TYPE = 'application/pdf'
+export const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const MAX_PAGES = 10
+/** Largest word/document.xml accepted once inflated (a CV is far below this). */
+const MAX_DOCUMENT_XML = 20 * 1024 * 1024
+
+/** Collapses spaces and drops empty lines. */
+function cleanLines(lines) {
+  return lines.map((l) => l.replace(/[ \t ]+/g, ' ').trim()).filter(Boolean)
+}
+
+/** Lines of a PDF: text items are joined until the end-of-line flag or a change of baseline. */
+async function pdfLines(buffer) {
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise
+  const lines = []
+  try {
+    for (let n = 1; n <= Math.min(pdf.numPages, MAX_PAGES); n++) {
+      const page = await pdf.getPage(n)
+      const { items } = await page.getTextContent()
+      let current = ''
+      let baseline = null
+      for (const item of items) {
+        if (!('str' in item)) continue
+        const y = Math.round(item.transform[5])
+        if (baseline !== null && Math.abs(y - baseline) > 2 && current) {
+          lines.push(current)
+          current = ''
+        }
+        baseline = y
+        current += item.str
+        if (item.hasEOL) {
+          lines.push(current)
+          current = ''
+          baseline = null
+        }
+      }
+      if (current) lines.push(current)
+    }
+  } finally {
+    await pdf.destroy()
+  }
+  return cleanLines(lines)
+}
+
+const XML_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function decodeXml(text) {
+  return text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, e) => {
+    if (e[0] !== '#') return XML_ENTITIES[e.toLowerCase()]
+    return String.fromCodePoint(e[1].toLowerCase() === 'x' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10))
+  })
+}
+
+/** Inflates a zip entry as UTF-8 text, failing as soon as it exceeds `max` bytes. */
+function readZipText(file, max) {
+  // Size declared by the archive (JSZip keeps it on the private _data): refused before inflating
+  if (file._data?.uncompressedSize > max) return Promise.reject(new Error('Document too large'))
+  return new Promise((resolve, reject) => {
+    const chunks = []
+    let size = 0
+    const stream = file.nodeStream('nodebuffer')
+    stream.on('data', (chunk) => {
+      size += chunk.length
+      // The declared size can lie: count what actually comes out and stop inflating past the limit
+      if (size > max) {
+        stream.destroy()
+        reject(new Error('Document too large'))
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.on('error', reject)
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+  })
+}
+
+/** Lines of a DOCX: one per paragraph, plus explicit line breaks. */
+async function docxLines(buffer) {
+  const zip = await JSZip.loadAsync(buffer)
+  const entry = zip.file('word/document.xml')
+  if (!entry) throw new Error('Not a Word document')
+  const xml = await readZipText(entry, MAX_DOCUMENT_XML)
+  const lines = []
+  // An empty paragraph may be self-closing (<w:p/>): it must not run into the next one
+  for (const [paragraph] of xml.matchAll(/<w:p\b(?:[^>]*\/>|[^>]*>[\s\S]*?<\/w:p>)/g)) {
+    let text = ''
+    for (const [token, run] of paragraph.matchAll(/<w:t\b[^>]*>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:(?:br|cr)\b[^>]*\/>/g)) {
+      if (run !== undefined) text += decodeXml(run)
+      else text += token.startsWith('<w:tab') ? '\t' : '\n'
+    }
+    lines.push(...text.split('\n'))
+  }
+  return cleanLines(lines)
+}
+
+/**
+ * Extracts the text lines of a CV file.
+ *
+ * @param buffer - file content
+ * @param type - PDF_TYPE or DOCX_TYPE
+ * @returns {Promise<string[]>}
+ */
+export function extractLines(buffer, type) {
+  if (type === PDF_TYPE) return pdfLines(buffer)
+  if (type === DOCX_TYPE) return docxLines(buffer)
+  throw new Error('Unsupported file type')
+}
@@ -0,0 +1,146 @@
+/**
+ * server/import/extract.test.mjs
+ * Text extraction and parsing of uploaded CVs: DOCX and PDF fixtures built in memory (JSZip, PDFKit),
+ * the bound on the inflated size of word/document.xml, and the rules of parse.mjs on the extracted lines.
+ * Runs with `npm test` (node:test).
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import JSZip from 'jszip'
+import PDFDocument from 'pdfkit'
+import { DOCX_TYPE, extractLines, PDF_TYPE } from './extract.mjs'
+import { parseResumeLines } from './parse.mjs'
+
+/** One paragraph; `runs` are XML fragments of <w:r> content (<w:t>, <w:tab/>, <w:br/>). */
+const paragraph = (...runs) => `<w:p><w:pPr><w:pStyle w:val="Normal"/></w:pPr><w:r>${runs.join('')}</w:r></w:p>`
+const text = (value) => `<w:t xml:space="preserve">${value}</w:t>`
+
+const CV_PARAGRAPHS = [
+  paragraph(text('Amani Kalala')),
+  paragraph(text('Comptable senior')),
+  // Empty paragraphs are often written self-closing, with or without attributes
+  '<w:p/>',
+  paragraph(text('amani@example.com | +243 812 345 678 | Kinshasa')),
+  paragraph(text('Expérience professionnelle')),
+  paragraph(text('Comptable'), '<w:tab/>', text('Rawbank')),
+  '<w:p w:rsidR="00A1"/>',
+  paragraph(text('Jan 2020 - Present')),
+  paragraph(text('Tenue des comptes &amp; rapports &#8211; clôtures')),
+  paragraph(text('Formation')),
+  paragraph(text('Licence en comptabilité, Université de Kinshasa')),
+  paragraph(text('2014 - 2018')),
+  paragraph(text('Compétences')),
+  paragraph(text('Excel, SAGE'), '<w:br/>', text('Fiscalité')),
+]
+
+function documentXml(paragraphs) {
+  const ns = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+  return `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${ns}"><w:body>${paragraphs.join('')}</w:body></w:document>`
+}
+
+async function docx(xml) {
+  const zip = new JSZip()
+  zip.file('[Content_Types].xml', '<?xml version="1.0"?><Types/>')
+  zip.file('word/document.xml', xml)
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+/** Rewrites the uncompressed size the archive declares for its single entry (local and central headers). */
+function declareSize(buffer, size) {
+  const local = buffer.indexOf(Buffer.from([0x50, 0x4b, 0x03, 0x04]), 0)
+  const central = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]))
+  buffer.writeUInt32LE(size, local + 22)
+  buffer.writeUInt32LE(size, central + 24)
+  return buffer
+}
+
+function pdf(lines) {
+  return new Promise((resolve) => {
+    const doc = new PDFDocument()
+    const chunks = []
+    doc.on('data', (chunk) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    for (const line of lines) doc.text(line)
+    doc.end()
+  })
+}
+
+describe('DOCX extraction', () => {
+  test('gives one line per paragraph, with tabs, breaks and entities, and skips empty paragraphs', async () => {
+    const lines = await extractLines(await docx(documentXml(CV_PARAGRAPHS)), DOCX_TYPE)
+    assert.deepEqual(lines, [
+      'Amani Kalala',
+      'Comptable senior',
+      'amani@example.com | +243 812 345 678 | Kinshasa',
+      'Expérience professionnelle',
+      'Comptable Rawbank',
+      'Jan 2020 - Present',
+      'Tenue des comptes & rapports – clôtures',
+      'Formation',
+      'Licence en comptabilité, Université de Kinshasa',
+      '2014 - 2018',
+      'Compétences',
+      'Excel, SAGE',
+      'Fiscalité',
+    ])
+  })
+
+  test('keeps a self-closing paragraph from swallowing the next one', async () => {
+    const xml = documentXml(['<w:p/>', paragraph(text('A')), '<w:p w:rsidR="1"/>', paragraph(text('B')), '<w:p/>'])
+    assert.deepEqual(await extractLines(await docx(xml), DOCX_TYPE), ['A', 'B'])
+  })
+
+  test('refuses a document.xml that inflates past 20 MB (zip bomb)', async () => {
+    const bomb = await docx(documentXml([paragraph(text(' '.repeat(21 * 1024 * 1024)))]))
+    assert.ok(bomb.length < 100 * 1024)
+    await assert.rejects(extractLines(bomb, DOCX_TYPE), /Document too large/)
+  })
+
+  test('stops inflating past the limit when the archive lies about the size', async () => {
+    const bomb = declareSize(await docx(documentXml([paragraph(text(' '.repeat(21 * 1024 * 1024)))])), 1024)
+    await assert.rejects(extractLines(bomb, DOCX_TYPE), /Document too large/)
+  })
+
+  test('rejects an archive without word/document.xml', async () => {
+    const zip = new JSZip()
+    zip.file('readme.txt', 'not a CV')
+    await assert.rejects(extractLines(await zip.generateAsync({ type: 'nodebuffer' }), DOCX_TYPE), /Not a Word document/)
+  })
+})
+
+describe('PDF extraction', () => {
+  test('rebuilds the text lines in reading order', async () => {
+    const buffer = await pdf(['Amani Kalala', 'Comptable senior', 'amani@example.com | +243 812 345 678', 'Compétences', 'Excel, SAGE'])
+    assert.deepEqual(await extractLines(buffer, PDF_TYPE), [
+      'Amani Kalala',
+      'Comptable senior',
+      'amani@example.com | +243 812 345 678',
+      'Compétences',
+      'Excel, SAGE',
+    ])
+  })
+})
+
+describe('parseResumeLines', () => {
+  test('maps the header, dated entries and skills with a confidence each', async () => {
+    const lines = await extractLines(await docx(documentXml(CV_PARAGRAPHS)), DOCX_TYPE)
+    const { fields, experiences, education, certifications } = parseResumeLines(lines)
+
+    assert.deepEqual(fields.fullName, { value: 'Amani Kalala', confidence: 'high' })
+    assert.deepEqual(fields.headline, { value: 'Comptable senior', confidence: 'medium' })
+    assert.deepEqual(fields.email, { value: 'amani@example.com', confidence: 'high' })
+    assert.deepEqual(fields.phone, { value: '+243 812 345 678', confidence: 'high' })
+    assert.deepEqual(fields.location, { value: 'Kinshasa', confidence: 'medium' })
+    assert.equal(fields.skills.confidence, 'high')
+    assert.match(fields.skills.value, /Excel, SAGE, Fiscalité/)
+
+    assert.equal(experiences.length, 1)
+    assert.equal(experiences[0].value.start, '2020-01')
+    assert.equal(experiences[0].value.end, 'Present')
+    assert.equal(experiences[0].value.description, 'Tenue des comptes & rapports – clôtures')
+    assert.equal(education.length, 1)
+    assert.equal(education[0].value.school, 'Université de Kinshasa')
+    assert.deepEqual(certifications, [])
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * server/import/index.mjs
+ * Import of an existing CV: the uploaded PDF or DOCX is read and mapped onto ResumeData fields.
+ * - POST /api/import (raw body, Content-Type application/pdf or the DOCX type, 10 MB max)
+ *   → { fields, experiences, education, certifications }, every value with a confidence.
+ * - Everything runs in this process (extract.mjs, parse.mjs): the file is neither stored nor sent anywhere.
+ * - 415 for another file type, 422 when the file has no readable text (scanned CV, corrupt file).
+ */
+
+import express from 'express'
+import { DOCX_TYPE, extractLines, PDF_TYPE } from './extract.mjs'
+import { parseResumeLines } from './parse.mjs'
+
+const MAX_FILE_SIZE = '10mb'
+
+/**
+ * Creates the /api/import router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ */
+export function createImportRouter(requireUser) {
+  const router = express.Router()
+  router.use(requireUser)
+
+  router.post('/', express.raw({ type: [PDF_TYPE, DOCX_TYPE], limit: MAX_FILE_SIZE }), async (req, res) => {
+    const type = req.get('content-type')?.split(';')[0].trim()
+    if (!Buffer.isBuffer(req.body) || (type !== PDF_TYPE && type !== DOCX_TYPE)) {
+      return res.status(415).json({ error: 'Upload a PDF or DOCX file' })
+    }
+
+    let lines
+    try {
+      lines = await extractLines(req.body, type)
+    } catch (err) {
+      console.warn('CV import: unreadable file', err?.message)
+      return res.status(422).json({ error: 'The file could not be read' })
+    }
+    if (lines.length === 0) return res.status(422).json({ error: 'No text found in the file (scanned document?)' })
+
+    return res.json(parseResumeLines(lines))
+  })
+
+  return router
+}
@@ -0,0 +1,390 @@
+/**
+ * server/import/parse.mjs
+ * Maps the text lines of an existing CV onto ResumeData, with rules only (no AI service).
+ * - Header (before the first section heading): name, headline, email, phone, LinkedIn, location.
+ * - Section headings recognised in English, French, Swahili and Portuguese.
+ * - Experience / education: one entry per date range; dates converted to YYYY-MM or "Present".
+ * - Certifications (name, issuer, date, ID, URL), skills (comma-separated), summary.
+ * Every value carries a confidence ('high' | 'medium' | 'low') so the user reviews guesses before they
+ * overwrite the form.
+ */
+
+/** @typedef {'high' | 'medium' | 'low'} Confidence */
+/** @template T @typedef {{ value: T, confidence: Confidence }} Parsed */
+
+/** Heading words per section, compared without accents, case or trailing colon. */
+const SECTION_HEADINGS = {
+  summary: [
+    'summary', 'professional summary', 'profile', 'professional profile', 'about me', 'objective', 'career objective',
+    'resume', 'resume professionnel', 'profil', 'profil professionnel', 'a propos', 'a propos de moi', 'objectif',
+    'muhtasari', 'wasifu', 'kuhusu mimi', 'lengo',
+    'resumo', 'resumo profissional', 'perfil', 'perfil profissional', 'sobre mim', 'objetivo',
+  ],
+  experience: [
+    'experience', 'experiences', 'work experience', 'professional experience', 'employment', 'employment history',
+    'work history', 'career history',
+    'experience professionnelle', 'experiences professionnelles', 'parcours professionnel', 'emplois',
+    'uzoefu', 'uzoefu wa kazi', 'historia ya kazi',
+    'experiencia', 'experiencia profissional', 'experiencias', 'historico profissional',
+  ],
+  education: [
+    'education', 'academic background', 'qualifications', 'studies',
+    'formation', 'formations', 'etudes', 'diplomes', 'parcours academique',
+    'elimu', 'elimu na mafunzo',
+    'educacao', 'formacao', 'formacao academica',
+  ],
+  certifications: [
+    'certifications', 'certification', 'certificates', 'licenses', 'licenses and certifications',
+    'licenses & certifications', 'certificats', 'certificats et licences',
+    'vyeti', 'vyeti na leseni',
+    'certificacoes', 'certificados',
+  ],
+  skills: [
+    'skills', 'key skills', 'technical skills', 'core competencies', 'competencies',
+    'competences', 'competences cles', 'competences techniques',
+    'ujuzi', 'stadi',
+    'competencias', 'habilidades',
+  ],
+  other: [
+    'languages', 'interests', 'hobbies', 'references', 'achievements', 'awards', 'career highlights', 'highlights',
+    'projects', 'volunteering', 'publications',
+    'langues', 'centres d interet', 'loisirs', 'realisations', 'faits marquants', 'projets', 'benevolat',
+    'lugha', 'mambo ninayopenda', 'marejeo', 'mafanikio', 'miradi',
+    'idiomas', 'interesses', 'referencias', 'conquistas', 'realizacoes', 'projetos', 'voluntariado',
+  ],
+}
+
+const MONTHS = [
+  ['jan', 'january', 'janv', 'janvier', 'janeiro', 'januari'],
+  ['feb', 'february', 'fev', 'fevr', 'fevrier', 'fevereiro', 'februari'],
+  ['mar', 'march', 'mars', 'marco', 'machi'],
+  ['apr', 'april', 'avr', 'avril', 'abr', 'abril', 'aprili'],
+  ['may', 'mai', 'maio', 'mei'],
+  ['jun', 'june', 'juin', 'junho', 'juni'],
+  ['jul', 'july', 'juil', 'juillet', 'julho', 'julai'],
+  ['aug', 'august', 'aou', 'aout', 'ago', 'agosto', 'agosti'],
+  ['sep', 'sept', 'september', 'septembre', 'set', 'setembro', 'septemba'],
+  ['oct', 'october', 'octobre', 'out', 'outubro', 'oktoba'],
+  ['nov', 'november', 'novembre', 'novembro', 'novemba'],
+  ['dec', 'december', 'decembre', 'dez', 'dezembro', 'desemba'],
+]
+const MONTH_INDEX = new Map(MONTHS.flatMap((names, i) => names.map((n) => [n, i + 1])))
+
+const PRESENT_WORDS = [
+  'present', 'current', 'now', 'today', 'ongoing',
+  'aujourd hui', 'a ce jour', 'actuel', 'en cours',
+  'sasa', 'hadi sasa', 'mpaka sasa',
+  'atual', 'presente', 'o momento', 'hoje',
+]
+
+const MONTH_NAME = `(?:${[...MONTH_INDEX.keys()].sort((a, b) => b.length - a.length).join('|')})\\.?`
+const DATE = `(?:${MONTH_NAME}\\s+\\d{4}|\\d{4}[-/.]\\d{1,2}(?!\\d)|\\d{1,2}[-/.]\\d{4}|\\d{4})`
+const PRESENT = `(?:${PRESENT_WORDS.join('|')})`
+const RANGE_SEPARATOR = `\\s*(?:[-–—]|to|a|au|ate|hadi|mpaka)\\s*`
+const RANGE_RE = new RegExp(`(?<![\\w])(${DATE})(?:${RANGE_SEPARATOR}(${DATE}|${PRESENT}))?(?![\\w])`, 'i')
+
+const EMAIL_RE = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/
+const LINKEDIN_RE = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[\w%-]+\/?/i
+const PHONE_RE = /\+?\d[\d\s().-]{6,}\d/
+const URL_RE = /https?:\/\/\S+/i
+const CREDENTIAL_RE = /(?:credential\s*id|id|identifiant|kitambulisho|identificador)\s*[:#]\s*(\S+)/i
+const CONTACT_LABEL_RE = /^(?:linkedin|e-?mail|courriel|barua pepe|t[eé]l[eé]phone|tel|t[eé]l|phone|simu|telefone)\s*:\s*/i
+const BULLET_RE = /^[•·▪●◦‣*–-]\s*/
+const SPLIT_RE = /\s+(?:—|–|-|\||@|at|chez|em|na|katika)\s+|\s*,\s+/i
+
+/** Lower case, no accents, punctuation turned into spaces: how headings and month names are compared. */
+function fold(text) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .trim()
+}
+
+/** Section key of a heading line, or null. */
+function sectionOf(line) {
+  if (line.length > 45) return null
+  const key = fold(line)
+  for (const [section, words] of Object.entries(SECTION_HEADINGS)) {
+    if (words.includes(key)) return section
+  }
+  return null
+}
+
+function pad(month) {
+  return String(month).padStart(2, '0')
+}
+
+/**
+ * One date of a range as YYYY-MM ("Present" for an ongoing end).
+ * @returns {{ value: string, precise: boolean } | null}
+ */
+function toYearMonth(raw) {
+  const text = fold(raw)
+  if (PRESENT_WORDS.includes(text)) return { value: 'Present', precise: true }
+  let m = text.match(/^([a-z]+) (\d{4})$/)
+  if (m && MONTH_INDEX.has(m[1])) return { value: `${m[2]}-${pad(MONTH_INDEX.get(m[1]))}`, precise: true }
+  m = text.match(/^(\d{4}) (\d{1,2})$/)
+  if (m && +m[2] >= 1 && +m[2] <= 12) return { value: `${m[1]}-${pad(m[2])}`, precise: true }
+  m = text.match(/^(\d{1,2}) (\d{4})$/)
+  if (m && +m[1] >= 1 && +m[1] <= 12) return { value: `${m[2]}-${pad(m[1])}`, precise: true }
+  m = text.match(/^(\d{4})$/)
+  if (m && +m[1] > 1950 && +m[1] < 2100) return { value: `${m[1]}-01`, precise: false }
+  return null
+}
+
+/**
+ * Date range found in a line, and the rest of the line.
+ * @returns {{ start: string, end: string, precise: boolean, rest: string } | null}
+ */
+function findRange(line) {
+  // Same length as the line (one character for one), so the match index applies to both
+  const folded = line.replace(/[^\x00-\x7f]/g, (c) => c.normalize('NFD')[0]).replace(/[’']/g, ' ')
+  const match = folded.match(RANGE_RE)
+  if (!match) return null
+  const start = toYearMonth(match[1])
+  const end = match[2] ? toYearMonth(match[2]) : null
+  if (!start || (match[2] && !end)) return null
+  // A lone year inside a sentence is not a period ("Managed 2000 users")
+  if (!match[2] && !start.precise && fold(line) !== fold(match[1])) return null
+  const rest = (line.slice(0, match.index) + ' ' + line.slice(match.index + match[0].length))
+    .replace(/[\s(),|•·–—-]+$/, '')
+    .replace(/^[\s(),|•·–—-]+/, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+  return {
+    start: start.value,
+    end: end ? end.value : '',
+    precise: start.precise && (!end || end.precise),
+    rest,
+  }
+}
+
+/** "Title — Organisation" (or "Title at Organisation", "Title, Organisation"…) → [title, organisation]. */
+function splitHeading(text) {
+  const m = text.match(SPLIT_RE)
+  if (!m) return [text, '']
+  return [text.slice(0, m.index).trim(), text.slice(m.index + m[0].length).trim()]
+}
+
+function isBullet(line) {
+  return BULLET_RE.test(line)
+}
+
+/** Lowest of two confidences. */
+function weakest(a, b) {
+  const order = ['low', 'medium', 'high']
+  return order[Math.min(order.indexOf(a), order.indexOf(b))]
+}
+
+/**
+ * Dated entries (experience or education) of a section.
+ * @param {string[]} lines
+ * @returns {Array<{ heading: string[], start: string, end: string, precise: boolean, inline: boolean, description: string[] }>}
+ */
+function datedEntries(lines) {
+  const entries = []
+  /** Lines since the last bullet of the current entry (or of the section start): a possible heading. */
+  let loose = []
+  let current = null
+  const takeLoose = () => {
+    const taken = loose.splice(-2)
+    if (current) current.description.splice(current.description.length - taken.length, taken.length)
+    return taken
+  }
+
+  lines.forEach((line, i) => {
+    const range = isBullet(line) ? null : findRange(line)
+    if (range) {
+      let heading = range.rest ? [range.rest] : []
+      let inline = Boolean(range.rest)
+      // Heading on the previous line(s) ("Title\nCompany\n2019 – 2021") or on the next ones
+      if (!inline && loose.length > 0) heading = takeLoose()
+      current = { heading, start: range.start, end: range.end, precise: range.precise, inline, description: [] }
+      current.pendingHeading = heading.length === 0
+      entries.push(current)
+      loose = []
+      return
+    }
+    if (!current) {
+      loose.push(line)
+      return
+    }
+    if (current.pendingHeading && !isBullet(line) && current.heading.length < 2 && current.description.length === 0) {
+      current.heading.push(line)
+      if (current.heading.length === 2 || isBullet(lines[i + 1] || '')) current.pendingHeading = false
+      return
+    }
+    current.pendingHeading = false
+    const text = line.replace(BULLET_RE, '')
+    const last = current.description.length - 1
+    // Wrapped bullet: continuation line starting in lower case
+    if (!isBullet(line) && last >= 0 && /^[a-zà-ÿ(]/.test(line) && loose.length === 0) {
+      current.description[last] += ` ${text}`
+      return
+    }
+    current.description.push(text)
+    loose = isBullet(line) ? [] : [...loose, line]
+  })
+
+  return entries.map(({ pendingHeading, ...entry }) => entry)
+}
+
+/** Entry confidence: heading and dates found on the same line, with a clear title/organisation split. */
+function entryConfidence(entry, organisation) {
+  let confidence = entry.inline || entry.heading.length === 2 ? 'high' : 'medium'
+  if (!organisation) confidence = weakest(confidence, 'medium')
+  if (!entry.precise) confidence = weakest(confidence, 'low')
+  if (entry.heading.length === 0) confidence = 'low'
+  return confidence
+}
+
+/**
+ * @param {string[]} lines
+ * @param {'experience' | 'education'} kind
+ */
+function parseDated(lines, kind) {
+  return datedEntries(lines).map((entry) => {
+    const [first, second] =
+      entry.heading.length === 2 ? [entry.heading[0], entry.heading[1]] : splitHeading(entry.heading[0] || '')
+    const description = entry.description.join('\n')
+    const value =
+      kind === 'experience'
+        ? { title: first, company: second, start: entry.start, end: entry.end, description }
+        : { degree: first, school: second, start: entry.start, end: entry.end, description }
+    return { value, confidence: entryConfidence(entry, second) }
+  })
+}
+
+/** Certifications: "Name — Issuer  2023-05", optionally followed by "ID: … • https://…". */
+function parseCertifications(lines) {
+  const items = []
+  for (const raw of lines) {
+    const line = raw.replace(BULLET_RE, '')
+    const credential = line.match(CREDENTIAL_RE)
+    const url = line.match(URL_RE)
+    const last = items[items.length - 1]
+    if ((credential || url) && last && line.replace(CREDENTIAL_RE, '').replace(URL_RE, '').replace(/[\s•|·]+/g, '') === '') {
+      if (credential) last.value.credentialId = credential[1]
+      if (url) last.value.credentialUrl = url[0]
+      continue
+    }
+    const range = findRange(line)
+    const text = range ? range.rest : line
+    const [name, issuer] = splitHeading(text.replace(CREDENTIAL_RE, '').replace(URL_RE, '').trim())
+    const value = { name, issuer, date: range ? range.start : '' }
+    if (credential) value.credentialId = credential[1]
+    if (url) value.credentialUrl = url[0]
+    const confidence = issuer && range?.precise ? 'high' : issuer || range ? 'medium' : 'low'
+    items.push({ value, confidence })
+  }
+  return items
+}
+
+/** Skills as the comma-separated string of the form. */
+function parseSkills(lines) {
+  const skills = lines
+    .flatMap((l) => l.replace(BULLET_RE, '').split(/\s*[,;•·|]\s*/))
+    .map((s) => s.replace(/^[^:]{1,30}:\s*/, '').trim())
+    .filter((s) => s && s.length <= 60)
+  return Array.from(new Set(skills)).join(', ')
+}
+
+/** Name line: 2 to 5 words of letters, no digits or contact details. */
+function looksLikeName(line) {
+  const words = line.split(/\s+/)
+  return words.length >= 2 && words.length <= 5 && /^[\p{L}\s.'’-]+$/u.test(line)
+}
+
+/**
+ * Header fields from the lines before the first section.
+ * @param {string[]} header
+ * @param {string[]} all - every line, searched for contact details the header does not have
+ */
+function parseHeader(header, all) {
+  /** @type {Record<string, Parsed<string>>} */
+  const fields = {}
+  const set = (key, value, confidence) => {
+    if (value && !fields[key]) fields[key] = { value, confidence }
+  }
+  const leftovers = []
+
+  for (const line of header) {
+    const segments = line.split(/\s+[•|·]\s+|\s{3,}/).map((s) => s.trim()).filter(Boolean)
+    const rest = []
+    let hasContact = false
+    for (const segment of segments) {
+      const text = segment.replace(CONTACT_LABEL_RE, '')
+      const linkedin = text.match(LINKEDIN_RE)
+      const email = text.match(EMAIL_RE)
+      const phone = text.match(PHONE_RE)
+      if (linkedin) set('linkedin', linkedin[0], 'high')
+      else if (email) set('email', email[0], 'high')
+      else if (phone && phone[0].replace(/\D/g, '').length >= 8 && !findRange(text)) {
+        set('phone', phone[0].trim(), phone[0].startsWith('+') ? 'high' : 'medium')
+      } else {
+        rest.push(text)
+        continue
+      }
+      hasContact = true
+    }
+    // What is left on a line of contact details is most likely the location
+    for (const text of rest) leftovers.push({ text, contactLine: hasContact || segments.length > 1 })
+  }
+
+  for (const { text, contactLine } of leftovers) {
+    if (!fields.fullName && !contactLine) {
+      set('fullName', text, looksLikeName(text) ? 'high' : 'low')
+    } else if (!fields.headline && !contactLine && text.length <= 120) {
+      set('headline', text, 'medium')
+    } else if (!fields.location && text.length <= 60 && !/\d{3,}/.test(text)) {
+      set('location', text, contactLine ? 'medium' : 'low')
+    }
+  }
+
+  // Contact details printed elsewhere (footer, side column)
+  const text = all.join('\n')
+  set('email', text.match(EMAIL_RE)?.[0], 'medium')
+  set('linkedin', text.match(LINKEDIN_RE)?.[0], 'medium')
+  return fields
+}
+
+/**
+ * Parses the text lines of a CV.
+ *
+ * @param {string[]} lines - lines in reading order (see extractLines)
+ * @returns {{
+ *   fields: Record<string, Parsed<string>>,
+ *   experiences: Parsed<object>[],
+ *   education: Parsed<object>[],
+ *   certifications: Parsed<object>[],
+ * }}
+ */
+export function parseResumeLines(lines) {
+  const sections = { header: [], summary: [], experience: [], education: [], certifications: [], skills: [], other: [] }
+  let current = 'header'
+  for (const line of lines) {
+    const section = sectionOf(line)
+    if (section) {
+      current = section
+      continue
+    }
+    sections[current].push(line)
+  }
+
+  const fields = parseHeader(sections.header, lines)
+  const found = (key) => sections[key].length > 0
+  if (found('summary')) fields.summary = { value: sections.summary.join(' ').replace(/\s{2,}/g, ' '), confidence: 'high' }
+  if (found('skills')) {
+    const skills = parseSkills(sections.skills)
+    if (skills) fields.skills = { value: skills, confidence: 'high' }
+  }
+
+  return {
+    fields,
+    experiences: parseDated(sections.experience, 'experience'),
+    education: parseDated(sections.education, 'education'),
+    certifications: parseCertifications(sections.certifications),
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * server/otp.mjs
+ * One-time SMS codes for passwordless login and password reset (see server/auth.mjs).
+ * - 6-digit codes, valid OTP_TTL_MS, stored hashed in data/otps.json.
+ * - Rate limits per phone and purpose: one code per RESEND_INTERVAL_MS, MAX_CODES_PER_HOUR,
+ *   and MAX_ATTEMPTS wrong guesses before the code is burned.
+ * - Only the latest code of a phone/purpose is accepted; it works once.
+ * - A code the SMS transport failed to send is burned at once (the request still counts toward the limits).
+ */
+
+import path from 'path'
+import { createHmac, randomInt, randomUUID, timingSafeEqual } from 'crypto'
+import { DATA_DIR, readJson, writeJson } from './store.mjs'
+import { secretFor } from './secrets.mjs'
+
+const OTPS_PATH = path.join(DATA_DIR, 'otps.json')
+const OTP_TTL_MS = 5 * 60 * 1000
+const RESEND_INTERVAL_MS = 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+const MAX_CODES_PER_HOUR = 5
+const MAX_ATTEMPTS = 5
+
+export const OTP_PURPOSES = ['login', 'reset']
+
+async function readOtps() {
+  return readJson(OTPS_PATH, [])
+}
+
+async function writeOtps(otps) {
+  await writeJson(OTPS_PATH, otps)
+}
+
+function hashCode(id, code) {
+  return createHmac('sha256', secretFor('OTP_SECRET')).update(`${id}:${code}`).digest('hex')
+}
+
+function sameHash(a, b) {
+  const left = Buffer.from(a, 'hex')
+  const right = Buffer.from(b, 'hex')
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * Creates and texts a code. Returns { expiresAt } or, when rate limited, { error, retryAfter } (seconds).
+ * Rejects with the transport error when the SMS cannot be sent.
+ * @param sms transport from server/sms.mjs
+ * @param options.deliver false to record and rate limit the request without texting the code
+ *   (number without an account, so that requests behave the same either way).
+ */
+export async function issueOtp(phone, purpose, sms, { deliver = true } = {}) {
+  const now = Date.now()
+  // Only the last hour matters for rate limiting
+  const otps = (await readOtps()).filter((o) => o.createdAt > now - HOUR_MS)
+  const recent = otps.filter((o) => o.phone === phone && o.purpose === purpose)
+  const last = recent[recent.length - 1]
+  if (last && now - last.createdAt < RESEND_INTERVAL_MS) {
+    const retryAfter = Math.ceil((last.createdAt + RESEND_INTERVAL_MS - now) / 1000)
+    return { error: 'Please wait before requesting a new code', retryAfter }
+  }
+  if (recent.length >= MAX_CODES_PER_HOUR) {
+    const retryAfter = Math.ceil((recent[0].createdAt + HOUR_MS - now) / 1000)
+    return { error: 'Too many codes requested', retryAfter }
+  }
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0')
+  const id = randomUUID()
+  const otp = {
+    id,
+    phone,
+    purpose,
+    codeHash: hashCode(id, code),
+    createdAt: now,
+    expiresAt: now + OTP_TTL_MS,
+    attempts: 0,
+    consumedAt: null,
+  }
+  otps.push(otp)
+  await writeOtps(otps)
+
+  if (!deliver) return { expiresAt: otp.expiresAt }
+  const action = purpose === 'reset' ? 'reinitialiser votre mot de passe' : 'vous connecter'
+  try {
+    await sms.send({ to: phone, body: `Votre code pour ${action} : ${code}. Il expire dans 5 minutes.` })
+  } catch (err) {
+    otp.consumedAt = now
+    await writeOtps(otps)
+    throw err
+  }
+  return { expiresAt: otp.expiresAt }
+}
+
+/** Checks a code and consumes it. Returns { ok: true } or { error }. */
+export async function consumeOtp(phone, purpose, code) {
+  const now = Date.now()
+  const otps = await readOtps()
+  const otp = otps.filter((o) => o.phone === phone && o.purpose === purpose).pop()
+  if (!otp || otp.consumedAt || otp.expiresAt <= now) return { error: 'Code expired' }
+  if (otp.attempts >= MAX_ATTEMPTS) return { error: 'Too many attempts' }
+
+  if (!sameHash(otp.codeHash, hashCode(otp.id, String(code || '').trim()))) {
+    otp.attempts += 1
+    await writeOtps(otps)
+    return { error: otp.attempts >= MAX_ATTEMPTS ? 'Too many attempts' : 'Invalid code' }
+  }
+  otp.consumedAt = now
+  await writeOtps(otps)
+  return { ok: true }
+}
@@ -0,0 +1,158 @@
+/**
+ * server/otp.test.mjs
+ * One-time SMS codes: HMAC storage, expiry, single use, burning after too many wrong guesses,
+ * per-number rate limits and SMS transport failures.
+ * Runs with `npm test` (node:test); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createHmac } from 'crypto'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+const OTP_SECRET = 'test-otp-secret'
+
+let dataDir
+let otpsPath
+let readJson
+let writeJson
+let issueOtp
+let consumeOtp
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-otp-'))
+  process.chdir(dataDir)
+  process.env.OTP_SECRET = OTP_SECRET
+  const store = await import('./store.mjs')
+  ;({ readJson, writeJson } = store)
+  otpsPath = path.join(store.DATA_DIR, 'otps.json')
+  ;({ issueOtp, consumeOtp } = await import('./otp.mjs'))
+})
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+/** SMS transport keeping the texted messages; `fail` makes send reject after recording. */
+function outbox({ fail = false } = {}) {
+  const messages = []
+  return {
+    name: 'test',
+    messages,
+    lastCode: () => messages.at(-1).body.match(/\b(\d{6})\b/)[1],
+    async send(message) {
+      messages.push(message)
+      if (fail) throw new Error('SMS gateway unavailable')
+    },
+  }
+}
+
+/** Rewrites the stored codes of `phone` (to age them past a delay without waiting). */
+async function editOtps(phone, change) {
+  const otps = await readJson(otpsPath, [])
+  await writeJson(otpsPath, otps.map((o) => (o.phone === phone ? { ...o, ...change(o) } : o)))
+}
+
+const olderBy = (ms) => (o) => ({ createdAt: o.createdAt - ms, expiresAt: o.expiresAt - ms })
+
+describe('codes', () => {
+  test('are texted, stored as an HMAC only, and work once', async () => {
+    const sms = outbox()
+    const { expiresAt } = await issueOtp('+243810000001', 'login', sms)
+    assert.ok(expiresAt > Date.now())
+    assert.equal(sms.messages[0].to, '+243810000001')
+    const code = sms.lastCode()
+
+    const [stored] = await readJson(otpsPath, [])
+    assert.equal(stored.codeHash, createHmac('sha256', OTP_SECRET).update(`${stored.id}:${code}`).digest('hex'))
+    assert.ok(!(await fs.readFile(otpsPath, 'utf8')).includes(`"${code}"`))
+
+    assert.deepEqual(await consumeOtp('+243810000001', 'reset', code), { error: 'Code expired' })
+    assert.deepEqual(await consumeOtp('+243810000001', 'login', code), { ok: true })
+    assert.deepEqual(await consumeOtp('+243810000001', 'login', code), { error: 'Code expired' })
+  })
+
+  test('expire after five minutes', async () => {
+    const sms = outbox()
+    await issueOtp('+243810000002', 'login', sms)
+    await editOtps('+243810000002', () => ({ expiresAt: Date.now() - 1 }))
+    assert.deepEqual(await consumeOtp('+243810000002', 'login', sms.lastCode()), { error: 'Code expired' })
+  })
+
+  test('are burned after five wrong guesses, even for the right code', async () => {
+    const sms = outbox()
+    await issueOtp('+243810000003', 'reset', sms)
+    const code = sms.lastCode()
+    const wrong = code === '000000' ? '111111' : '000000'
+    for (let i = 0; i < 4; i++) {
+      assert.deepEqual(await consumeOtp('+243810000003', 'reset', wrong), { error: 'Invalid code' })
+    }
+    assert.deepEqual(await consumeOtp('+243810000003', 'reset', wrong), { error: 'Too many attempts' })
+    assert.deepEqual(await consumeOtp('+243810000003', 'reset', code), { error: 'Too many attempts' })
+  })
+
+  test('are replaced by a newer code', async () => {
+    const sms = outbox()
+    await issueOtp('+243810000004', 'login', sms)
+    const first = sms.lastCode()
+    await editOtps('+243810000004', olderBy(61 * 1000))
+    await issueOtp('+243810000004', 'login', sms)
+    const second = sms.lastCode()
+    if (first !== second) assert.deepEqual(await consumeOtp('+243810000004', 'login', first), { error: 'Invalid code' })
+    assert.deepEqual(await consumeOtp('+243810000004', 'login', second), { ok: true })
+  })
+})
+
+describe('rate limits', () => {
+  test('allow one code per minute per number and purpose', async () => {
+    const sms = outbox()
+    await issueOtp('+243810000005', 'login', sms)
+    const limited = await issueOtp('+243810000005', 'login', sms)
+    assert.equal(limited.error, 'Please wait before requesting a new code')
+    assert.ok(limited.retryAfter > 0 && limited.retryAfter <= 60)
+    assert.equal(sms.messages.length, 1)
+
+    // Other purpose and other number are counted apart
+    assert.ok((await issueOtp('+243810000005', 'reset', sms)).expiresAt)
+    assert.ok((await issueOtp('+243810000006', 'login', sms)).expiresAt)
+  })
+
+  test('allow five codes per hour', async () => {
+    const sms = outbox()
+    for (let i = 0; i < 5; i++) {
+      assert.ok((await issueOtp('+243810000007', 'login', sms)).expiresAt)
+      await editOtps('+243810000007', olderBy(61 * 1000))
+    }
+    const limited = await issueOtp('+243810000007', 'login', sms)
+    assert.equal(limited.error, 'Too many codes requested')
+    assert.ok(limited.retryAfter > 0 && limited.retryAfter <= 3600)
+    assert.equal(sms.messages.length, 5)
+
+    // Codes older than an hour no longer count
+    await editOtps('+243810000007', olderBy(60 * 60 * 1000))
+    assert.ok((await issueOtp('+243810000007', 'login', sms)).expiresAt)
+  })
+
+  test('apply to numbers without an account, which are never texted', async () => {
+    const sms = outbox()
+    assert.ok((await issueOtp('+243810000008', 'login', sms, { deliver: false })).expiresAt)
+    assert.equal(sms.messages.length, 0)
+    const limited = await issueOtp('+243810000008', 'login', sms, { deliver: false })
+    assert.equal(limited.error, 'Please wait before requesting a new code')
+  })
+})
+
+describe('SMS failures', () => {
+  test('reject the request and leave no usable code behind', async () => {
+    const sms = outbox({ fail: true })
+    await assert.rejects(issueOtp('+243810000009', 'login', sms), /SMS gateway unavailable/)
+    assert.deepEqual(await consumeOtp('+243810000009', 'login', sms.lastCode()), { error: 'Code expired' })
+
+    // The failed request still counts toward the rate limit
+    const limited = await issueOtp('+243810000009', 'login', outbox())
+    assert.equal(limited.error, 'Please wait before requesting a new code')
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * server/payments/actions.mjs
+ * Staff actions on payments: full refund, dispute flag, note.
+ * - Each action goes through the adapter that took the payment (payment.adapter: simulator, stripe, ...)
+ *   and is written to the audit log (server/audit.mjs).
+ * - A refund may complete at once or later (provider webhook); once complete the payment becomes
+ *   'refunded' and the entitlement it bought is revoked.
+ *
+ * Actions answer { payment } or { error, status } (HTTP status for the route).
+ */
+
+import { randomUUID } from 'crypto'
+import { findPayment, updatePayment } from './store.mjs'
+import { revokeEntitlementForPayment } from '../entitlements.mjs'
+import { appendAudit } from '../audit.mjs'
+
+const TEXT_MAX = 1000
+
+function cleanText(value) {
+  return typeof value === 'string' ? value.trim().slice(0, TEXT_MAX) : ''
+}
+
+/**
+ * Marks a payment refunded and revokes its entitlement (idempotent).
+ * @param actor staff user who triggered it, or null when confirmed by the provider.
+ */
+export async function completeRefund(paymentId, actor = null) {
+  const payment = await findPayment(paymentId)
+  if (!payment || payment.status === 'refunded') return payment
+  const updated = await updatePayment(paymentId, {
+    status: 'refunded',
+    refundedAt: Date.now(),
+    refund: { ...payment.refund, status: 'completed' },
+  })
+  const entitlement = await revokeEntitlementForPayment(paymentId, 'refund')
+  await appendAudit(actor, 'payment.refund.completed', {
+    targetType: 'payment',
+    targetId: paymentId,
+    details: { entitlementId: entitlement?.id ?? null },
+  })
+  return updated
+}
+
+/**
+ * @param options.adapters adapters by name, matched against payment.adapter.
+ */
+export function createPaymentActions({ adapters }) {
+  /** Runs a provider call; provider failures become a 502 answer. */
+  const callProvider = async (payment, call) => {
+    const adapter = adapters[payment.adapter]
+    if (!adapter) return { error: `No adapter for "${payment.adapter}" payments`, status: 501 }
+    try {
+      return { result: await call(adapter) }
+    } catch (err) {
+      console.error(`[payments] ${payment.adapter} action failed`, err)
+      return { error: 'Payment provider unavailable', status: 502 }
+    }
+  }
+
+  return {
+    async refund(paymentId, actor, { reason } = {}) {
+      const payment = await findPayment(paymentId)
+      if (!payment) return { error: 'Payment not found', status: 404 }
+      if (payment.status !== 'completed') return { error: 'Only completed payments can be refunded', status: 409 }
+      if (payment.refund?.status === 'pending') return { error: 'A refund is already in progress', status: 409 }
+
+      const text = cleanText(reason)
+      const { result, error, status } = await callProvider(payment, (a) => a.refund(payment, { reason: text }))
+      if (error) return { error, status }
+
+      await updatePayment(paymentId, {
+        refund: {
+          status: result.status,
+          reason: text,
+          requestedAt: Date.now(),
+          requestedBy: actor.id,
+          providerReference: result.providerReference || null,
+          failureReason: result.failureReason || null,
+        },
+      })
+      await appendAudit(actor, 'payment.refund.requested', {
+        targetType: 'payment',
+        targetId: paymentId,
+        details: { reason: text, amount: payment.amount, currency: payment.currency, result: result.status },
+      })
+      if (result.status === 'completed') return { payment: await completeRefund(paymentId, actor) }
+      return { payment: await findPayment(paymentId) }
+    },
+
+    async dispute(paymentId, actor, { reason } = {}) {
+      const payment = await findPayment(paymentId)
+      if (!payment) return { error: 'Payment not found', status: 404 }
+      const text = cleanText(reason)
+      if (!text) return { error: 'A reason is required', status: 400 }
+
+      const { error, status } = await callProvider(payment, (a) => a.flagDispute(payment, { reason: text }))
+      if (error) return { error, status }
+
+      const updated = await updatePayment(paymentId, {
+        dispute: { reason: text, openedAt: Date.now(), openedBy: actor.id },
+      })
+      await appendAudit(actor, 'payment.dispute', { targetType: 'payment', targetId: paymentId, details: { reason: text } })
+      return { payment: updated }
+    },
+
+    async note(paymentId, actor, { text } = {}) {
+      const payment = await findPayment(paymentId)
+      if (!payment) return { error: 'Payment not found', status: 404 }
+      const body = cleanText(text)
+      if (!body) return { error: 'Note text is required', status: 400 }
+
+      const { error, status } = await callProvider(payment, (a) => a.addNote(payment, { text: body }))
+      if (error) return { error, status }
+
+      const note = { id: randomUUID(), at: Date.now(), authorId: actor.id, text: body }
+      const updated = await updatePayment(paymentId, { notes: [...(payment.notes || []), note] })
+      await appendAudit(actor, 'payment.note', { targetType: 'payment', targetId: paymentId, details: { noteId: note.id } })
+      return { payment: updated }
+    },
+  }
+}
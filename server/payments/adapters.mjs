@@ -0,0 +1,32 @@
+/**
+ * server/payments/adapters.mjs
+ * Mobile-money provider adapters, selected with MOBILE_MONEY_ADAPTER (default: simulator).
+ *
+ * An adapter is an object with:
+ * - name: string
+ * - createDeposit(deposit): Promise<{ status, providerReference?, failureReason? }>
+ * - getDepositStatus(deposit): Promise<{ status, failureReason? }>
+ * where status is one of 'pending' | 'processing' | 'completed' | 'failed'.
+ *
+ * Staff actions on a completed payment (server/payments/actions.mjs), shared with the card adapter
+ * in server/payments/stripe.mjs:
+ * - refund(payment, { reason }): Promise<{ status: 'pending' | 'completed' | 'failed', providerReference?, failureReason? }>
+ *   (full amount only)
+ * - flagDispute(payment, { reason }): Promise<void>: reports the dispute to the provider
+ * - addNote(payment, { text }): Promise<void>: mirrors a staff note on the provider side, if supported
+ */
+
+import { createSimulatorAdapter } from './simulator.mjs'
+
+const ADAPTERS = {
+  simulator: createSimulatorAdapter,
+}
+
+/** Instantiates the configured adapter; throws on an unknown name so misconfiguration fails at startup. */
+export function createMobileMoneyAdapter(name = process.env.MOBILE_MONEY_ADAPTER || 'simulator') {
+  const factory = ADAPTERS[name]
+  if (!factory) {
+    throw new Error(`Unknown mobile money adapter "${name}" (available: ${Object.keys(ADAPTERS).join(', ')})`)
+  }
+  return factory()
+}
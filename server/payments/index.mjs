@@ -0,0 +1,142 @@
+/**
+ * server/payments/index.mjs
+ * Mobile-money payment API used by Home.tsx:
+ * - POST /api/payments/create            → creates a deposit, answers { depositId, status }
+ * - GET  /api/payments/status/:depositId → polls the provider and answers the deposit state
+ *
+ * Deposits move pending → processing → completed | failed; final states never change here
+ * (a completed deposit can only become 'refunded' through the admin actions).
+ * The amount is always taken from the server price list, whatever the client sends.
+ * A deposit is made for one CV saved in the user's library (cvId), and the entitlement covers that CV.
+ * A completed deposit grants the matching entitlement (see server/entitlements.mjs).
+ */
+
+import express from 'express'
+import { randomUUID } from 'crypto'
+import { CURRENCY, PLANS, priceOf } from '../pricing.mjs'
+import { createMobileMoneyAdapter } from './adapters.mjs'
+import { findPayment, insertPayment, updatePayment } from './store.mjs'
+import { grantEntitlementForPayment } from '../entitlements.mjs'
+import { findUserCv } from '../cvs.mjs'
+
+/** Mirrors MobileMoneyProvider in src/types/payments.ts. */
+export const MOBILE_MONEY_PROVIDERS = ['mtn', 'airtel', 'orange', 'vodacom', 'telma']
+
+const NEXT_STATES = {
+  pending: ['processing', 'completed', 'failed'],
+  processing: ['completed', 'failed'],
+  completed: [],
+  failed: [],
+  refunded: [],
+}
+
+function isFinal(status) {
+  return NEXT_STATES[status]?.length === 0
+}
+
+/** Shape returned to the client (no internal fields). */
+function publicDeposit(p) {
+  return {
+    depositId: p.id,
+    status: p.status,
+    plan: p.plan,
+    amount: p.amount,
+    currency: p.currency,
+    provider: p.provider,
+    failureReason: p.failureReason || null,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt,
+    completedAt: p.completedAt || null,
+  }
+}
+
+/** Applies a provider result if it is a legal transition; returns the (possibly unchanged) record. */
+async function applyProviderResult(deposit, result) {
+  const status = result?.status
+  if (!status || status === deposit.status || !NEXT_STATES[deposit.status]?.includes(status)) {
+    return deposit
+  }
+  const patch = { status }
+  if (result.failureReason) patch.failureReason = result.failureReason
+  if (status === 'completed') patch.completedAt = Date.now()
+  const updated = await updatePayment(deposit.id, patch)
+  if (status === 'completed') await grantEntitlementForPayment(updated)
+  return updated
+}
+
+/**
+ * Creates the /api/payments router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ * @param options.adapter mobile-money provider adapter (defaults to MOBILE_MONEY_ADAPTER).
+ */
+export function createPaymentsRouter(requireUser, { adapter = createMobileMoneyAdapter() } = {}) {
+  const router = express.Router()
+  router.use(requireUser)
+
+  router.post('/create', async (req, res) => {
+    const { plan, provider, phone, country, cvId, returnUrl } = req.body || {}
+    if (!PLANS.includes(plan)) return res.status(400).json({ error: 'Invalid plan' })
+    // The entitlement is granted for this CV only: it must be saved in the user's library
+    const cv = await findUserCv(req.user.id, cvId)
+    if (!cv) return res.status(400).json({ error: 'Save the CV before paying' })
+    if (!MOBILE_MONEY_PROVIDERS.includes(provider)) return res.status(400).json({ error: 'Invalid provider' })
+    const msisdn = String(phone || '').replace(/\D+/g, '')
+    if (msisdn.length < 8 || msisdn.length > 15) return res.status(400).json({ error: 'Invalid phone number' })
+
+    const now = Date.now()
+    let deposit = await insertPayment({
+      id: randomUUID(),
+      userId: req.user.id,
+      cvId: cv.id,
+      method: 'mobile',
+      adapter: adapter.name,
+      provider,
+      phone: msisdn,
+      country: typeof country === 'string' ? country : null,
+      plan,
+      amount: priceOf(plan),
+      currency: CURRENCY,
+      status: 'pending',
+      checks: 0,
+      returnUrl: typeof returnUrl === 'string' ? returnUrl : null,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    try {
+      const result = await adapter.createDeposit(deposit)
+      if (result?.providerReference) {
+        deposit = await updatePayment(deposit.id, { providerReference: result.providerReference })
+      }
+      deposit = await applyProviderResult(deposit, result)
+    } catch (err) {
+      console.error('[payments] createDeposit failed', err)
+      await updatePayment(deposit.id, {
+        status: 'failed',
+        failureReason: { failureCode: 'PROVIDER_ERROR', failureMessage: 'Payment provider unavailable.' },
+      })
+      return res.status(502).json({ error: 'Payment provider unavailable' })
+    }
+
+    return res.status(201).json(publicDeposit(deposit))
+  })
+
+  router.get('/status/:depositId', async (req, res) => {
+    let deposit = await findPayment(req.params.depositId)
+    if (!deposit || deposit.method !== 'mobile' || deposit.userId !== req.user.id) {
+      return res.status(404).json({ error: 'Deposit not found' })
+    }
+    if (isFinal(deposit.status)) return res.json(publicDeposit(deposit))
+
+    deposit = await updatePayment(deposit.id, { checks: (deposit.checks || 0) + 1 })
+    try {
+      deposit = await applyProviderResult(deposit, await adapter.getDepositStatus(deposit))
+    } catch (err) {
+      // Keep the current state; the client simply polls again.
+      console.error('[payments] getDepositStatus failed', err)
+    }
+    return res.json(publicDeposit(deposit))
+  })
+
+  return router
+}
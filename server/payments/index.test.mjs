@@ -0,0 +1,115 @@
+/**
+ * server/payments/index.test.mjs
+ * Mobile-money flow against the deterministic simulator: POST /create, then one status poll per step.
+ * Runs with `npm test` (node:test); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+
+const USER_ID = 'user-1'
+const CV_ID = 'cv-1'
+
+let dataDir
+let server
+let baseUrl
+let activeEntitlementsFor
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-payments-'))
+  process.chdir(dataDir)
+  const { writeJson, DATA_DIR } = await import('../store.mjs')
+  const { createPaymentsRouter } = await import('./index.mjs')
+  const { createSimulatorAdapter } = await import('./simulator.mjs')
+  ;({ activeEntitlementsFor } = await import('../entitlements.mjs'))
+
+  await writeJson(path.join(DATA_DIR, 'cvs', `${USER_ID}.json`), [
+    { id: CV_ID, title: 'CV', plan: 'student', withPhoto: false, createdAt: 1, updatedAt: 1, data: {} },
+  ])
+  const requireUser = (req, res, next) => {
+    req.user = { id: USER_ID }
+    next()
+  }
+  const app = express()
+  app.use(express.json())
+  app.use('/api/payments', createPaymentsRouter(requireUser, { adapter: createSimulatorAdapter() }))
+  server = app.listen(0)
+  baseUrl = `http://localhost:${server.address().port}/api/payments`
+})
+
+after(async () => {
+  server?.close()
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+async function create(body) {
+  const res = await fetch(`${baseUrl}/create`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ plan: 'student', provider: 'vodacom', cvId: CV_ID, ...body }),
+  })
+  return { status: res.status, body: await res.json() }
+}
+
+async function poll(depositId) {
+  const res = await fetch(`${baseUrl}/status/${depositId}`)
+  return res.json()
+}
+
+describe('simulator deposits', () => {
+  test('go pending → processing → completed and grant the entitlement for the CV', async () => {
+    const { status, body } = await create({ phone: '243810000001', amount: 0.01 })
+    assert.equal(status, 201)
+    assert.equal(body.status, 'pending')
+    // The amount comes from the server price list, not from the request
+    assert.equal(body.amount, 1)
+
+    assert.equal((await poll(body.depositId)).status, 'processing')
+    const final = await poll(body.depositId)
+    assert.equal(final.status, 'completed')
+    assert.ok(final.completedAt)
+
+    const entitlements = await activeEntitlementsFor(USER_ID)
+    assert.equal(entitlements.length, 1)
+    assert.equal(entitlements[0].cvId, CV_ID)
+    assert.equal(entitlements[0].scope, 'cv')
+  })
+
+  test('fail when the payer declines (phone ending in 9), without entitlement', async () => {
+    const granted = (await activeEntitlementsFor(USER_ID)).length
+    const { body } = await create({ phone: '243810000009', plan: 'pro' })
+    assert.equal((await poll(body.depositId)).status, 'processing')
+    const final = await poll(body.depositId)
+    assert.equal(final.status, 'failed')
+    assert.equal(final.failureReason.failureCode, 'PAYER_DECLINED')
+    assert.equal((await activeEntitlementsFor(USER_ID)).length, granted)
+  })
+
+  test('stay processing when the prompt is never answered (phone ending in 8)', async () => {
+    const { body } = await create({ phone: '243810000008' })
+    for (let i = 0; i < 4; i++) assert.equal((await poll(body.depositId)).status, 'processing')
+  })
+
+  test('never leave a final state', async () => {
+    const { body } = await create({ phone: '243810000009' })
+    await poll(body.depositId)
+    assert.equal((await poll(body.depositId)).status, 'failed')
+    assert.equal((await poll(body.depositId)).status, 'failed')
+  })
+
+  test('require a saved CV of the user', async () => {
+    assert.equal((await create({ phone: '243810000001', cvId: undefined })).status, 400)
+    assert.equal((await create({ phone: '243810000001', cvId: 'someone-elses-cv' })).status, 400)
+  })
+
+  test('reject unknown plans, providers and phone numbers', async () => {
+    assert.equal((await create({ phone: '243810000001', plan: 'gold' })).status, 400)
+    assert.equal((await create({ phone: '243810000001', provider: 'bank' })).status, 400)
+    assert.equal((await create({ phone: '12' })).status, 400)
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * server/payments/simulator.mjs
+ * Deterministic mobile-money provider used for local development and tests (no network).
+ *
+ * Every deposit goes pending → processing → final state, one step per status check.
+ * The final state is chosen by the last digit of the payer's phone number:
+ * - 9: failed (payer declined the prompt)
+ * - 8: never leaves "processing" (lets the client exercise its polling timeout)
+ * - anything else: completed
+ *
+ * Refunds of completed deposits succeed at once; disputes and notes are accepted without effect.
+ */
+
+const DECLINED = {
+  failureCode: 'PAYER_DECLINED',
+  failureMessage: 'The payment was declined on the phone.',
+}
+
+function outcomeFor(phone) {
+  const last = String(phone || '').slice(-1)
+  if (last === '9') return 'failed'
+  if (last === '8') return 'stuck'
+  return 'completed'
+}
+
+export function createSimulatorAdapter() {
+  return {
+    name: 'simulator',
+
+    async createDeposit() {
+      return { status: 'pending' }
+    },
+
+    async getDepositStatus(deposit) {
+      if (deposit.checks <= 1) return { status: 'processing' }
+      const outcome = outcomeFor(deposit.phone)
+      if (outcome === 'failed') return { status: 'failed', failureReason: DECLINED }
+      if (outcome === 'stuck') return { status: 'processing' }
+      return { status: 'completed' }
+    },
+
+    async refund(deposit) {
+      return { status: 'completed', providerReference: `sim-refund-${deposit.id}` }
+    },
+
+    async flagDispute() {},
+
+    async addNote() {},
+  }
+}
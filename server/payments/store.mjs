@@ -0,0 +1,45 @@
+/**
+ * server/payments/store.mjs
+ * Persistence of payment records (mobile-money deposits, card checkouts) in data/payments.json.
+ * Writes are serialized on the file (withFileLock): webhooks and status polls that land together
+ * each see the previous one's changes instead of writing back a stale list.
+ */
+
+import path from 'path'
+import { DATA_DIR, readJson, withFileLock, writeJson } from '../store.mjs'
+
+const PAYMENTS_PATH = path.join(DATA_DIR, 'payments.json')
+
+export async function readPayments() {
+  return readJson(PAYMENTS_PATH, [])
+}
+
+export async function writePayments(payments) {
+  await withFileLock(PAYMENTS_PATH, () => writeJson(PAYMENTS_PATH, payments))
+}
+
+export async function findPayment(id) {
+  const payments = await readPayments()
+  return payments.find((p) => p.id === id) || null
+}
+
+export async function insertPayment(payment) {
+  return withFileLock(PAYMENTS_PATH, async () => {
+    const payments = await readPayments()
+    payments.push(payment)
+    await writeJson(PAYMENTS_PATH, payments)
+    return payment
+  })
+}
+
+/** Applies `patch` to a payment and stamps updatedAt; returns the updated record or null. */
+export async function updatePayment(id, patch) {
+  return withFileLock(PAYMENTS_PATH, async () => {
+    const payments = await readPayments()
+    const index = payments.findIndex((p) => p.id === id)
+    if (index === -1) return null
+    payments[index] = { ...payments[index], ...patch, updatedAt: Date.now() }
+    await writeJson(PAYMENTS_PATH, payments)
+    return payments[index]
+  })
+}
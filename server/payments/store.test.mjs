@@ -0,0 +1,65 @@
+/**
+ * server/payments/store.test.mjs
+ * Payment records under concurrent writes: inserts and updates that land together are applied one
+ * after the other on data/payments.json, none overwriting another.
+ * Runs with `npm test` (node:test); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+let dataDir
+let store
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-payments-store-'))
+  process.chdir(dataDir)
+  store = await import('./store.mjs')
+})
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+const payment = (id) => ({ id, userId: 'user-1', status: 'pending', createdAt: 1, updatedAt: 1 })
+
+describe('payments store', () => {
+  test('keeps every record inserted at the same time', async () => {
+    const ids = Array.from({ length: 20 }, (_, i) => `pay-${i}`)
+    await Promise.all(ids.map((id) => store.insertPayment(payment(id))))
+    assert.deepEqual((await store.readPayments()).map((p) => p.id).sort(), ids.sort())
+  })
+
+  test('applies concurrent updates of one payment on top of each other', async () => {
+    await store.insertPayment(payment('pay-webhook'))
+    const [confirmed, polled, missing] = await Promise.all([
+      store.updatePayment('pay-webhook', { status: 'succeeded' }),
+      store.updatePayment('pay-webhook', { checks: 1 }),
+      store.updatePayment('pay-unknown', { status: 'failed' }),
+      store.insertPayment(payment('pay-other')),
+    ])
+    assert.equal(confirmed.status, 'succeeded')
+    assert.deepEqual([polled.status, polled.checks], ['succeeded', 1])
+    assert.equal(missing, null)
+
+    const stored = await store.findPayment('pay-webhook')
+    assert.deepEqual([stored.status, stored.checks], ['succeeded', 1])
+    assert.ok(await store.findPayment('pay-other'))
+    assert.equal((await store.readPayments()).length, 22)
+  })
+
+  test('goes on with the next write after a failed one', async () => {
+    const { withFileLock } = await import('../store.mjs')
+    const file = path.join(dataDir, 'data', 'payments.json')
+    const failed = withFileLock(file, async () => {
+      throw new Error('disk full')
+    })
+    const next = store.updatePayment('pay-0', { status: 'expired' })
+    await assert.rejects(failed, /disk full/)
+    assert.equal((await next).status, 'expired')
+  })
+})
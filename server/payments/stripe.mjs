@@ -0,0 +1,61 @@
+/**
+ * server/payments/stripe.mjs
+ * Staff actions on card payments (see the adapter contract in server/payments/adapters.mjs).
+ * - refund: full refund of the PaymentIntent saved as providerReference by the checkout webhook.
+ *   Pending refunds are confirmed later by the charge.refunded webhook (server/checkout.mjs).
+ * - flagDispute / addNote: stored in the PaymentIntent metadata so they show in the Stripe dashboard.
+ */
+
+const METADATA_MAX = 500
+
+const REFUND_STATUSES = {
+  succeeded: 'completed',
+  pending: 'pending',
+  requires_action: 'pending',
+  failed: 'failed',
+  canceled: 'failed',
+}
+
+function paymentIntentOf(payment) {
+  if (!payment.providerReference) throw new Error('Card payment has no PaymentIntent reference')
+  return payment.providerReference
+}
+
+/** @param stripe Stripe SDK instance, or null when card payments are not configured. */
+export function createStripeAdapter(stripe) {
+  const client = () => {
+    if (!stripe) throw new Error('Card payments are not configured')
+    return stripe
+  }
+
+  return {
+    name: 'stripe',
+
+    async refund(payment, { reason } = {}) {
+      const refund = await client().refunds.create({
+        payment_intent: paymentIntentOf(payment),
+        reason: 'requested_by_customer',
+        metadata: { paymentId: payment.id, reason: String(reason || '').slice(0, METADATA_MAX) },
+      })
+      return {
+        status: REFUND_STATUSES[refund.status] || 'pending',
+        providerReference: refund.id,
+        failureReason: refund.failure_reason
+          ? { failureCode: refund.failure_reason, failureMessage: 'The refund was declined by Stripe.' }
+          : undefined,
+      }
+    },
+
+    async flagDispute(payment, { reason } = {}) {
+      await client().paymentIntents.update(paymentIntentOf(payment), {
+        metadata: { disputed: 'true', disputeReason: String(reason || '').slice(0, METADATA_MAX) },
+      })
+    },
+
+    async addNote(payment, { text } = {}) {
+      await client().paymentIntents.update(paymentIntentOf(payment), {
+        metadata: { staffNote: String(text || '').slice(0, METADATA_MAX) },
+      })
+    },
+  }
+}
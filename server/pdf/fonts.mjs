@@ -0,0 +1,21 @@
+/**
+ * server/pdf/fonts.mjs
+ * Fonts embedded in generated PDFs, read from node_modules (dejavu-fonts-ttf): no network at render time.
+ * DejaVu Sans covers Latin, Cyrillic and Greek, so every CV language prints with real glyphs.
+ */
+
+import path from 'path'
+import { createRequire } from 'module'
+
+const require = createRequire(import.meta.url)
+const FONT_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf')
+
+export const FONT_REGULAR = 'Body'
+export const FONT_BOLD = 'Body-Bold'
+
+/** Registers the fonts on a PDFKit document (subsets are embedded on output). */
+export function registerFonts(doc) {
+  doc.registerFont(FONT_REGULAR, path.join(FONT_DIR, 'DejaVuSans.ttf'))
+  doc.registerFont(FONT_BOLD, path.join(FONT_DIR, 'DejaVuSans-Bold.ttf'))
+  doc.font(FONT_REGULAR)
+}
@@ -0,0 +1,61 @@
+/**
+ * server/pdf/index.mjs
+ * Vector PDF export of a CV (real, selectable text with embedded fonts), replacing the rasterized
+ * html2pdf.js download for paid plans.
+ * - POST /api/pdf { data, plan, template?, withPhoto?, cvId?, labels?, entitlementToken } → application/pdf
+ * - Served only when the signed entitlement token (server/entitlements.mjs) belongs to the caller
+ *   and covers the plan (and CV); 403 otherwise. With a cvId the saved CV is rendered, not `data`
+ *   (see server/exports.mjs).
+ * - Runs fully offline: fonts come from node_modules and the photo only from a data URL.
+ */
+
+import express from 'express'
+import PDFDocument from 'pdfkit'
+import { exportFileName, readExportRequest } from '../exports.mjs'
+import { registerFonts } from './fonts.mjs'
+import { renderMarlon } from './marlon.mjs'
+
+/** Available templates; the key is the `template` field of the request. */
+export const TEMPLATES = { marlon: renderMarlon }
+
+/**
+ * Creates the /api/pdf router.
+ * @param requireUser middleware that sets req.user or answers 401.
+ */
+export function createPdfRouter(requireUser) {
+  const router = express.Router()
+  router.use(requireUser)
+
+  router.post('/', async (req, res) => {
+    const template = req.body?.template ?? 'marlon'
+    const render = Object.hasOwn(TEMPLATES, template) ? TEMPLATES[template] : null
+    if (!render) return res.status(400).json({ error: 'Unknown template' })
+    const request = await readExportRequest(req)
+    if (request.error) return res.status(request.status).json({ error: request.error })
+
+    const { resume, plan, withPhoto, labels } = request
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: { top: 48, bottom: 48, left: 48, right: 48 },
+      lang: resume.language || undefined,
+      displayTitle: true,
+      info: { Title: resume.fullName || 'CV', Author: resume.fullName, Subject: resume.headline, Creator: 'Mako' },
+    })
+    try {
+      // The document buffers its output: nothing is sent until rendering succeeded
+      registerFonts(doc)
+      render(doc, resume, { plan, withPhoto, labels })
+    } catch (err) {
+      console.error('PDF render failed', err)
+      return res.status(500).json({ error: 'PDF rendering failed' })
+    }
+
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(resume, 'pdf')}"`)
+    res.setHeader('Cache-Control', 'no-store')
+    doc.pipe(res)
+    doc.end()
+  })
+
+  return router
+}
@@ -0,0 +1,151 @@
+/**
+ * server/pdf/marlon.mjs
+ * Vector version of the "Marlon" template (src/components/templates/MarlonTemplatePreview.tsx).
+ * - Same order and plan rules: header, summary, highlights (advanced), skills (pro+), experience, education.
+ * - Real text in the embedded fonts (fonts.mjs), so the PDF can be selected, searched and parsed by ATS.
+ * - The photo is only drawn from a data URL (PNG/JPEG): rendering never fetches anything.
+ */
+
+import { allowedSections, formatPeriod, parseSkills, toBullets } from '../../shared/sections.mjs'
+import { photoFromDataUrl } from '../exports.mjs'
+import { FONT_BOLD, FONT_REGULAR } from './fonts.mjs'
+
+const INK = '#171717'
+const TEXT = '#262626'
+const MUTED = '#525252'
+const RULE = '#e5e5e5'
+const PHOTO_SIZE = 68
+
+/** Starts a new page when less than `height` points remain. */
+function ensureSpace(doc, height) {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) doc.addPage()
+}
+
+/** Section title in light capitals with a thin rule, as in the on-screen Section component. */
+function sectionTitle(doc, title) {
+  const { left } = doc.page.margins
+  const width = doc.page.width - left - doc.page.margins.right
+  ensureSpace(doc, 48)
+  doc.moveDown(1.1)
+  doc.font(FONT_BOLD).fontSize(8.5).fillColor(INK).text(title.toUpperCase(), left, doc.y, { width, characterSpacing: 0.6 })
+  const y = doc.y + 3
+  doc.moveTo(left, y).lineTo(left + width, y).lineWidth(0.6).strokeColor(RULE).stroke()
+  doc.y = y + 6
+}
+
+/** Bullet list with a hanging indent. */
+function bullets(doc, items) {
+  const { left } = doc.page.margins
+  const width = doc.page.width - left - doc.page.margins.right
+  doc.font(FONT_REGULAR).fontSize(9.5).fillColor(TEXT)
+  for (const item of items) {
+    ensureSpace(doc, 14)
+    const y = doc.y
+    doc.text('•', left + 6, y, { lineBreak: false })
+    doc.text(item, left + 16, y, { width: width - 16, lineGap: 1.5 })
+    doc.moveDown(0.15)
+  }
+}
+
+/** Title — organisation on the left, period on the right, then the description bullets. */
+function entry(doc, heading, organisation, period, description) {
+  const { left } = doc.page.margins
+  const width = doc.page.width - left - doc.page.margins.right
+  ensureSpace(doc, 36)
+  const y = doc.y
+  const periodWidth = period ? doc.font(FONT_REGULAR).fontSize(8.5).widthOfString(period) + 2 : 0
+
+  // Heading first so text extraction (ATS) reads "title — organisation" before the dates
+  doc.font(FONT_BOLD).fontSize(10).fillColor(INK)
+  doc.text(heading || '—', left, y, { width: width - periodWidth - 10, continued: Boolean(organisation) })
+  if (organisation) doc.font(FONT_REGULAR).fillColor(MUTED).text(` — ${organisation}`)
+  const after = doc.y
+  if (period) {
+    doc.font(FONT_REGULAR).fontSize(8.5).fillColor(MUTED)
+    doc.text(period, left + width - periodWidth, y + 1, { width: periodWidth, align: 'right', lineBreak: false })
+  }
+  doc.x = left
+  doc.y = after
+
+  const items = toBullets(description)
+  if (items.length > 0) {
+    doc.moveDown(0.2)
+    bullets(doc, items)
+  }
+  doc.moveDown(0.5)
+}
+
+/**
+ * Draws a CV on `doc` (a PDFKit document with the fonts registered).
+ *
+ * @param doc - PDFKit document
+ * @param resume - normalized ResumeData (see readExportRequest in server/exports.mjs)
+ * @param options - { plan, withPhoto, labels }
+ */
+export function renderMarlon(doc, resume, { plan, withPhoto, labels }) {
+  const show = allowedSections(plan)
+  const { left } = doc.page.margins
+  const width = doc.page.width - left - doc.page.margins.right
+
+  // En-tête: photo optionnelle à gauche, nom + titre + contacts
+  const photo = withPhoto ? photoFromDataUrl(resume.photoUrl)?.data : null
+  const top = doc.y
+  let textLeft = left
+  if (photo) {
+    try {
+      doc.image(photo, left, top, { fit: [PHOTO_SIZE, PHOTO_SIZE], align: 'center', valign: 'center' })
+      doc.rect(left, top, PHOTO_SIZE, PHOTO_SIZE).lineWidth(0.6).strokeColor(RULE).stroke()
+      textLeft = left + PHOTO_SIZE + 16
+    } catch {
+      // unreadable image: the header is rendered without it
+    }
+  }
+  const textWidth = width - (textLeft - left)
+  doc.font(FONT_BOLD).fontSize(20).fillColor(INK).text(resume.fullName || '—', textLeft, top, { width: textWidth })
+  if (resume.headline) {
+    doc.moveDown(0.15)
+    doc.font(FONT_BOLD).fontSize(10.5).fillColor(TEXT).text(resume.headline, textLeft, doc.y, { width: textWidth })
+  }
+  const contacts = [
+    resume.email,
+    resume.phone,
+    resume.location,
+    resume.linkedin ? `${labels.linkedin}: ${resume.linkedin}` : '',
+  ].filter(Boolean)
+  if (contacts.length > 0) {
+    doc.moveDown(0.4)
+    doc.font(FONT_REGULAR).fontSize(9).fillColor(MUTED).text(contacts.join(' • '), textLeft, doc.y, { width: textWidth })
+  }
+  if (photo && doc.y < top + PHOTO_SIZE) doc.y = top + PHOTO_SIZE
+  doc.x = left
+
+  if (show.summary && resume.summary) {
+    sectionTitle(doc, labels.summary)
+    doc.font(FONT_REGULAR).fontSize(10).fillColor(TEXT).text(resume.summary, left, doc.y, { width, lineGap: 2 })
+  }
+
+  if (show.highlights && resume.highlights.length > 0) {
+    sectionTitle(doc, labels.highlights)
+    bullets(doc, resume.highlights)
+  }
+
+  const skills = parseSkills(resume.skills)
+  if (show.skills && skills.length > 0) {
+    sectionTitle(doc, labels.skills)
+    doc.font(FONT_REGULAR).fontSize(9.5).fillColor(TEXT).text(skills.join('  •  '), left, doc.y, { width, lineGap: 2 })
+  }
+
+  if (show.experience && resume.experiences.length > 0) {
+    sectionTitle(doc, labels.experience)
+    for (const exp of resume.experiences) {
+      entry(doc, exp.title, exp.company, formatPeriod(exp.start, exp.end, labels.present), exp.description)
+    }
+  }
+
+  if (show.education && resume.education.length > 0) {
+    sectionTitle(doc, labels.education)
+    for (const ed of resume.education) {
+      entry(doc, ed.degree, ed.school, formatPeriod(ed.start, ed.end, labels.present), ed.description)
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * server/pricing.mjs
+ * Server-side price list for each ResumePlan (USD).
+ * - Mirrors priceOf() in src/pages/Home.tsx; amounts sent by the client are never trusted.
+ */
+
+export const PLANS = ['student', 'pro', 'advanced']
+
+export const CURRENCY = 'USD'
+
+const PLAN_PRICES = {
+  student: 1,
+  pro: 2,
+  advanced: 3,
+}
+
+/** Price of a plan in USD, or null for an unknown plan. */
+export function priceOf(plan) {
+  return PLAN_PRICES[plan] ?? null
+}
@@ -0,0 +1,16 @@
+/**
+ * server/rbac.mjs
+ * Role-based access control for API routes (roles and permissions in shared/roles.mjs).
+ * Use after requireUser: anonymous requests are answered 401 there, missing rights 403 here.
+ */
+
+import { can } from '../shared/roles.mjs'
+import { roleOf } from './users.mjs'
+
+/** Middleware: lets through users whose role grants `permission`. */
+export function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!can(roleOf(req.user), permission)) return res.status(403).json({ error: 'Forbidden' })
+    next()
+  }
+}
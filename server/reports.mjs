@@ -0,0 +1,131 @@
+/**
+ * server/reports.mjs
+ * Admin reports built on first-party data: conversion funnel (events) and weekly cohort retention (visits).
+ *
+ * Funnel: one row per session (sessionId, else user), placed at the furthest stage it reached:
+ *   form started (step 1) → preview (step 2+) → plan chosen → payment started → paid → downloaded.
+ *   A later stage implies the earlier ones (a returning customer may download without choosing a plan again).
+ *   Breakdowns use the last value seen in the session: plan, language, account country, payment provider.
+ *
+ * Cohorts: accounts grouped by signup week (Monday, UTC); week k counts the members that visited the site
+ *   during the k-th week after their signup week (week 0 = signup week).
+ */
+
+import { readEvents } from './events.mjs'
+import { dayOf, readVisits } from './analytics.mjs'
+import { readUsers } from './users.mjs'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+const MAX_COHORTS = 12
+export const COHORT_WEEKS = 8
+
+export const FUNNEL_STAGES = ['form_started', 'preview', 'plan_chosen', 'payment_started', 'paid', 'downloaded']
+const BREAKDOWNS = ['plan', 'language', 'country', 'provider']
+const UNKNOWN = 'unknown'
+
+/** Funnel stage index reached by an event, or -1. */
+function stageOf(event) {
+  switch (event.name) {
+    case 'step_change':
+      return event.props.step >= 2 ? 1 : 0
+    case 'plan_select':
+      return 2
+    case 'payment_start':
+      return 3
+    case 'payment_success':
+      return 4
+    case 'pdf_download':
+      return 5
+    default:
+      return -1
+  }
+}
+
+/**
+ * Sessions per furthest stage over `range` (from parseRange), overall and per breakdown value.
+ * Returns { stages: [{ stage, sessions }], breakdowns: { [dimension]: [{ value, sessions: number[] }] }, conversionRate }.
+ */
+export async function funnelReport(range) {
+  const events = (await readEvents(range.days)).sort((a, b) => a.at - b.at)
+
+  const sessions = new Map()
+  for (const e of events) {
+    const key = e.sessionId || e.userId || e.id
+    const s = sessions.get(key) || { furthest: -1, plan: null, language: null, country: null, provider: null }
+    s.furthest = Math.max(s.furthest, stageOf(e))
+    if (e.props.plan) s.plan = e.props.plan
+    if (e.lang) s.language = e.lang.slice(0, 2)
+    if (e.country) s.country = e.country
+    if (e.name === 'payment_start') s.provider = e.props.provider || e.props.method || null
+    sessions.set(key, s)
+  }
+
+  const reached = (list) => FUNNEL_STAGES.map((_, i) => list.filter((s) => s.furthest >= i).length)
+  const all = [...sessions.values()].filter((s) => s.furthest >= 0)
+  const totals = reached(all)
+
+  const breakdowns = {}
+  for (const dimension of BREAKDOWNS) {
+    const groups = new Map()
+    for (const s of all) {
+      const value = s[dimension] || UNKNOWN
+      groups.set(value, [...(groups.get(value) || []), s])
+    }
+    breakdowns[dimension] = [...groups]
+      .map(([value, list]) => ({ value, sessions: reached(list) }))
+      .sort((a, b) => b.sessions[0] - a.sessions[0] || a.value.localeCompare(b.value))
+  }
+
+  return {
+    from: range.from,
+    to: range.to,
+    stages: FUNNEL_STAGES.map((stage, i) => ({ stage, sessions: totals[i] })),
+    breakdowns,
+    conversionRate: totals[0] ? totals[4] / totals[0] : 0,
+  }
+}
+
+/** Monday (UTC, YYYY-MM-DD) of the week containing `ms`. */
+function weekOf(ms) {
+  const day = Date.parse(dayOf(ms))
+  const sinceMonday = (new Date(day).getUTCDay() + 6) % 7
+  return dayOf(day - sinceMonday * DAY_MS)
+}
+
+/**
+ * Signup-week cohorts whose week overlaps `range` (latest MAX_COHORTS).
+ * Returns { weeks, cohorts: [{ week, users, active: (number | null)[] }] }; null marks weeks still to come.
+ */
+export async function cohortReport(range, weeks = COHORT_WEEKS) {
+  const [users, visits] = await Promise.all([readUsers(), readVisits()])
+
+  // Weeks in which each account visited the site
+  const activeWeeks = new Map()
+  for (const [day, entry] of Object.entries(visits)) {
+    const week = weekOf(Date.parse(day))
+    for (const userId of entry.users || []) {
+      if (!activeWeeks.has(userId)) activeWeeks.set(userId, new Set())
+      activeWeeks.get(userId).add(week)
+    }
+  }
+
+  const first = Date.parse(weekOf(Date.parse(range.from)))
+  const last = Date.parse(weekOf(Date.parse(range.to)))
+  const starts = []
+  for (let t = last; t >= first && starts.length < MAX_COHORTS; t -= WEEK_MS) starts.unshift(t)
+
+  const currentWeek = Date.parse(weekOf(Date.now()))
+  const cohorts = starts.map((start) => {
+    const week = dayOf(start)
+    const members = users.filter((u) => u.createdAt && weekOf(u.createdAt) === week)
+    const active = Array.from({ length: weeks }, (_, k) => {
+      const target = start + k * WEEK_MS
+      if (target > currentWeek) return null
+      return members.filter((u) => activeWeeks.get(u.id)?.has(dayOf(target))).length
+    })
+    return { week, users: members.length, active }
+  })
+
+  return { weeks, cohorts }
+}
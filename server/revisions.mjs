@@ -0,0 +1,84 @@
+/**
+ * server/revisions.mjs
+ * Revision log of saved CVs, so an overwrite (autosave, "AI" enhancement, restore) can be undone later.
+ * - One file per CV in data/cv-revisions/<userId>/<cvId>.json, newest revision last.
+ * - Each revision is a full snapshot: title, plan, withPhoto, data, plus the time it was written.
+ * - Autosave bursts are folded: an update written less than REVISION_WINDOW_MS after the first write
+ *   of the previous revision replaces it instead of piling up. At most MAX_REVISIONS are kept per CV.
+ * - An explicit save (reason 'save': "Save" button, import that replaces the fields) and a restore are
+ *   never folded, in either direction: the version before them stays in the log and can be restored.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { DATA_DIR, readJson, writeJson, safeId } from './store.mjs'
+
+const REVISIONS_DIR = path.join(DATA_DIR, 'cv-revisions')
+const REVISION_WINDOW_MS = 60 * 1000
+const MAX_REVISIONS = 50
+
+function revisionsPath(userId, cvId) {
+  return path.join(REVISIONS_DIR, safeId(userId), `${safeId(cvId)}.json`)
+}
+
+async function readRevisions(userId, cvId) {
+  return readJson(revisionsPath(userId, cvId), [])
+}
+
+/** Metadata only: the list endpoint stays light even when CVs embed a photo. */
+function summarize(revision) {
+  const { data, startedAt, ...meta } = revision
+  return meta
+}
+
+function snapshot(cv, reason, restoredFrom) {
+  return {
+    id: randomUUID(),
+    cvId: cv.id,
+    createdAt: cv.updatedAt,
+    reason,
+    ...(restoredFrom ? { restoredFrom } : {}),
+    title: cv.title,
+    plan: cv.plan,
+    withPhoto: cv.withPhoto,
+    data: cv.data,
+  }
+}
+
+/**
+ * Appends a snapshot of `cv` as just written.
+ * @param reason 'create' | 'update' | 'save' | 'restore' (shown in the history panel); only 'update' is folded
+ * @param previous record before the write: seeds the log of CVs saved before revisions existed
+ * @param restoredFrom id of the revision brought back, when reason is 'restore'
+ */
+export async function recordRevision(userId, cv, { reason = 'update', previous, restoredFrom } = {}) {
+  const revisions = await readRevisions(userId, cv.id)
+  if (!revisions.length && previous) revisions.push(snapshot(previous, 'create'))
+  const revision = snapshot(cv, reason, restoredFrom)
+  const last = revisions[revisions.length - 1]
+  // First write of the run `last` stands for: the window never slides with each autosave
+  const startedAt = last?.startedAt ?? last?.createdAt
+  const coalesce =
+    last && reason === 'update' && last.reason === 'update' && revision.createdAt - startedAt < REVISION_WINDOW_MS
+  if (coalesce) revisions[revisions.length - 1] = { ...revision, id: last.id, startedAt }
+  else revisions.push(revision)
+  await writeJson(revisionsPath(userId, cv.id), revisions.slice(-MAX_REVISIONS))
+}
+
+/** Revisions of a CV, newest first, without their resume data. */
+export async function listRevisions(userId, cvId) {
+  const revisions = await readRevisions(userId, cvId)
+  return revisions.map(summarize).reverse()
+}
+
+/** Full revision (with data), or null. */
+export async function getRevision(userId, cvId, revisionId) {
+  const revisions = await readRevisions(userId, cvId)
+  return revisions.find((r) => r.id === revisionId) || null
+}
+
+/** Drops the log of a deleted CV. */
+export async function deleteRevisions(userId, cvId) {
+  await fs.rm(revisionsPath(userId, cvId), { force: true })
+}
@@ -0,0 +1,149 @@
+/**
+ * server/revisions.test.mjs
+ * Revision log of saved CVs: autosaves folded within a minute of the first write of their run,
+ * explicit saves (`checkpoint: true`) and restores kept as their own revisions, and the cap per CV.
+ * Runs with `npm test` (node:test); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+
+const USER_ID = 'user-1'
+const T0 = Date.UTC(2026, 0, 1)
+const SECOND = 1000
+
+let dataDir
+let server
+let baseUrl
+let recordRevision
+let listRevisions
+let getRevision
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-revisions-'))
+  process.chdir(dataDir)
+  ;({ recordRevision, listRevisions, getRevision } = await import('./revisions.mjs'))
+  const { createCvRouter } = await import('./cvs.mjs')
+
+  const requireUser = (req, res, next) => {
+    req.user = { id: USER_ID }
+    next()
+  }
+  const app = express()
+  app.use(express.json())
+  app.use('/api/cv', createCvRouter(requireUser))
+  server = app.listen(0)
+  baseUrl = `http://localhost:${server.address().port}/api/cv`
+})
+
+after(async () => {
+  server?.close()
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+/** Writes the versions of one CV: [secondsAfterT0, reason, fullName] in order. */
+async function writeVersions(cvId, versions) {
+  for (const [seconds, reason, fullName] of versions) {
+    const updatedAt = T0 + seconds * SECOND
+    const cv = { id: cvId, title: 'CV', plan: 'student', withPhoto: false, updatedAt, data: { fullName } }
+    await recordRevision(USER_ID, cv, { reason })
+  }
+  // Newest first, as the history panel shows them
+  return listRevisions(USER_ID, cvId)
+}
+
+const shape = (revisions) => revisions.map((r) => [(r.createdAt - T0) / SECOND, r.reason])
+
+async function request(method, urlPath, body) {
+  const res = await fetch(`${baseUrl}${urlPath}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body && JSON.stringify(body),
+  })
+  return res.json()
+}
+
+describe('autosave coalescing', () => {
+  test('folds updates written within a minute into one revision holding the latest version', async () => {
+    const revisions = await writeVersions('cv-fold', [
+      [0, 'create', 'A'],
+      [10, 'update', 'B'],
+      [30, 'update', 'C'],
+      [69, 'update', 'D'],
+    ])
+    assert.deepEqual(shape(revisions), [
+      [69, 'update'],
+      [0, 'create'],
+    ])
+    assert.equal((await getRevision(USER_ID, 'cv-fold', revisions[0].id)).data.fullName, 'D')
+  })
+
+  test('measures the minute from the first write of the run, not the last autosave', async () => {
+    const revisions = await writeVersions('cv-window', [
+      [0, 'create', 'A'],
+      [10, 'update', 'B'],
+      [40, 'update', 'C'],
+      [65, 'update', 'D'],
+      // 70 s after the run started at 10 s: a new revision, though only 10 s after the last autosave
+      [75, 'update', 'E'],
+    ])
+    assert.deepEqual(shape(revisions), [
+      [75, 'update'],
+      [65, 'update'],
+      [0, 'create'],
+    ])
+    assert.equal((await getRevision(USER_ID, 'cv-window', revisions[1].id)).data.fullName, 'D')
+  })
+
+  test('never folds an update into the creation, an explicit save or a restore, nor those into it', async () => {
+    const revisions = await writeVersions('cv-checkpoints', [
+      [0, 'create', 'A'],
+      [5, 'update', 'B'],
+      [10, 'save', 'C'],
+      [15, 'update', 'D'],
+      [20, 'restore', 'B'],
+      [25, 'update', 'E'],
+    ])
+    assert.deepEqual(shape(revisions), [
+      [25, 'update'],
+      [20, 'restore'],
+      [15, 'update'],
+      [10, 'save'],
+      [5, 'update'],
+      [0, 'create'],
+    ])
+  })
+
+  test('keeps the last 50 revisions of a CV', async () => {
+    const versions = Array.from({ length: 60 }, (_, i) => [i * 61, i ? 'update' : 'create', `V${i}`])
+    const revisions = await writeVersions('cv-cap', versions)
+    assert.equal(revisions.length, 50)
+    assert.equal(revisions[0].createdAt, T0 + 59 * 61 * SECOND)
+    assert.equal(revisions.at(-1).createdAt, T0 + 10 * 61 * SECOND)
+    assert.ok(!revisions.some((r) => r.reason === 'create'))
+  })
+})
+
+describe('checkpoint flag', () => {
+  test('logs an explicit save through the API as its own revision', async () => {
+    const { cv } = await request('POST', '', { data: { fullName: 'A' } })
+    await request('PUT', `/${cv.id}`, { data: { fullName: 'B' } })
+    await request('PUT', `/${cv.id}`, { data: { fullName: 'C' }, checkpoint: true })
+    await request('POST', '', { id: cv.id, data: { fullName: 'D' }, checkpoint: true })
+    await request('PUT', `/${cv.id}`, { data: { fullName: 'E' } })
+
+    const { revisions } = await request('GET', `/${cv.id}/revisions`)
+    assert.deepEqual(
+      revisions.map((r) => r.reason),
+      ['update', 'save', 'save', 'update', 'create']
+    )
+    // Only `checkpoint: true` marks an explicit save: this one is folded into the last autosave
+    await request('PUT', `/${cv.id}`, { data: { fullName: 'F' }, checkpoint: 'yes' })
+    assert.equal((await request('GET', `/${cv.id}/revisions`)).revisions.length, 5)
+  })
+})
@@ -0,0 +1,20 @@
+/**
+ * server/secrets.mjs
+ * Signing secrets read from the environment, with an ephemeral fallback for local development.
+ */
+
+import { randomBytes } from 'crypto'
+
+const cache = {}
+
+/** Returns process.env[name], or a random per-process secret (tokens stop verifying after a restart). */
+export function secretFor(name) {
+  if (!cache[name]) {
+    cache[name] = process.env[name]
+    if (!cache[name]) {
+      console.warn(`[secrets] ${name} not set, using an ephemeral secret`)
+      cache[name] = randomBytes(32).toString('hex')
+    }
+  }
+  return cache[name]
+}
@@ -0,0 +1,50 @@
+/**
+ * server/sms.mjs
+ * Outgoing SMS transports, selected with SMS_TRANSPORT (default: console).
+ *
+ * A transport is an object with:
+ * - name: string
+ * - send({ to, body }): Promise<void>, `to` being an E.164 number.
+ *
+ * Development sinks:
+ * - console: prints the message to the server log.
+ * - file: appends one JSON line per message to SMS_OUTBOX_PATH (default data/sms-outbox.log).
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { DATA_DIR } from './store.mjs'
+
+function createConsoleTransport() {
+  return {
+    name: 'console',
+    async send({ to, body }) {
+      console.log(`[sms] to ${to}: ${body}`)
+    },
+  }
+}
+
+function createFileTransport() {
+  const file = process.env.SMS_OUTBOX_PATH || path.join(DATA_DIR, 'sms-outbox.log')
+  return {
+    name: 'file',
+    async send({ to, body }) {
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.appendFile(file, `${JSON.stringify({ to, body, sentAt: Date.now() })}\n`, 'utf8')
+    },
+  }
+}
+
+const TRANSPORTS = {
+  console: createConsoleTransport,
+  file: createFileTransport,
+}
+
+/** Instantiates the configured transport; throws on an unknown name so misconfiguration fails at startup. */
+export function createSmsTransport(name = process.env.SMS_TRANSPORT || 'console') {
+  const factory = TRANSPORTS[name]
+  if (!factory) {
+    throw new Error(`Unknown SMS transport "${name}" (available: ${Object.keys(TRANSPORTS).join(', ')})`)
+  }
+  return factory()
+}
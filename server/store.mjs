@@ -0,0 +1,49 @@
+/**
+ * server/store.mjs
+ * JSON file persistence for the local API.
+ * - Everything lives under data/ (users.json, one file per user for CVs, ...).
+ * - Reads fall back to a default value when the file is missing or empty.
+ * - Read-modify-write updates of a shared file go through withFileLock() so concurrent requests
+ *   cannot overwrite each other's changes.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+export const DATA_DIR = path.join(process.cwd(), 'data')
+
+/** Reads and parses a JSON file, returning `fallback` when it does not exist yet. */
+export async function readJson(file, fallback) {
+  const raw = await fs.readFile(file, 'utf8').catch(() => '')
+  if (!raw.trim()) return fallback
+  return JSON.parse(raw)
+}
+
+/** Serializes `value` to `file`, creating parent folders as needed. */
+export async function writeJson(file, value) {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(file, JSON.stringify(value, null, 2), 'utf8')
+}
+
+/** Tail of the promise chain of each locked file, removed once the chain is idle. */
+const fileLocks = new Map()
+
+/**
+ * Runs `task` once the previous tasks on `file` have settled, like a per-file mutex.
+ * A failed task rejects its own caller only; the next ones still run.
+ */
+export function withFileLock(file, task) {
+  const previous = fileLocks.get(file) || Promise.resolve()
+  const run = previous.then(task)
+  const tail = run.catch(() => {})
+  fileLocks.set(file, tail)
+  tail.then(() => {
+    if (fileLocks.get(file) === tail) fileLocks.delete(file)
+  })
+  return run
+}
+
+/** Keeps ids safe to use as file names. */
+export function safeId(id) {
+  return String(id || '').replace(/[^a-zA-Z0-9_-]/g, '')
+}
@@ -0,0 +1,85 @@
+/**
+ * server/users.mjs
+ * User records (data/users.json) and password hashing.
+ * - Passwords are stored as bcrypt hashes in `passwordHash`.
+ * - Records written before hashing kept a plaintext `password`: they are upgraded at startup
+ *   (migratePlaintextPasswords) and, as a fallback, on the next successful login.
+ * - `role` is one of shared/roles.mjs ROLES (missing means 'user'). Numbers listed in ADMIN_PHONES
+ *   (comma-separated E.164) are always admins, so a fresh install can appoint its first staff.
+ */
+
+import bcrypt from 'bcryptjs'
+import path from 'path'
+import { DATA_DIR, readJson, writeJson } from './store.mjs'
+import { ROLES } from '../shared/roles.mjs'
+
+const USERS_PATH = path.join(DATA_DIR, 'users.json')
+const BCRYPT_ROUNDS = 10
+
+export async function readUsers() {
+  return readJson(USERS_PATH, [])
+}
+
+export async function writeUsers(users) {
+  await writeJson(USERS_PATH, users)
+}
+
+export async function findUserById(id) {
+  const users = await readUsers()
+  return users.find((u) => u.id === id) || null
+}
+
+/** Phone numbers granted the admin role, read on each call so the list can change without a restart. */
+function adminPhones() {
+  return String(process.env.ADMIN_PHONES || '')
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean)
+}
+
+/** True when the admin role comes from ADMIN_PHONES (it cannot be changed from the API). */
+export function isBootstrapAdmin(user) {
+  return Boolean(user?.phone && adminPhones().includes(user.phone))
+}
+
+/** Effective role of a user: 'user', 'support' or 'admin'. */
+export function roleOf(user) {
+  if (isBootstrapAdmin(user)) return 'admin'
+  return ROLES.includes(user?.role) ? user.role : 'user'
+}
+
+/** Public view of a user record (no credentials). */
+export function sanitize(user) {
+  const { password, passwordHash, ...rest } = user
+  return { ...rest, role: roleOf(user) }
+}
+
+export function hashPassword(password) {
+  return bcrypt.hash(String(password), BCRYPT_ROUNDS)
+}
+
+/**
+ * Checks a password against a record. A legacy plaintext record that matches is upgraded in place
+ * (the caller persists `user`); returns true when the password is correct.
+ */
+export async function verifyPassword(user, password) {
+  if (user.passwordHash) return bcrypt.compare(String(password), user.passwordHash)
+  if (typeof user.password !== 'string' || user.password !== String(password)) return false
+  user.passwordHash = await hashPassword(password)
+  delete user.password
+  return true
+}
+
+/** Hashes every plaintext password left in users.json. Returns the number of upgraded records. */
+export async function migratePlaintextPasswords() {
+  const users = await readUsers()
+  let upgraded = 0
+  for (const user of users) {
+    if (user.passwordHash || typeof user.password !== 'string') continue
+    user.passwordHash = await hashPassword(user.password)
+    delete user.password
+    upgraded += 1
+  }
+  if (upgraded) await writeUsers(users)
+  return upgraded
+}
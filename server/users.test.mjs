@@ -0,0 +1,64 @@
+/**
+ * server/users.test.mjs
+ * Password storage: bcrypt hashes, and plaintext records from before hashing upgraded at startup or on login.
+ * Runs with `npm test` (node:test); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+let dataDir
+let users
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-users-'))
+  process.chdir(dataDir)
+  users = await import('./users.mjs')
+})
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+describe('passwords', () => {
+  test('are hashed with bcrypt and verified against the hash', async () => {
+    const passwordHash = await users.hashPassword('s3cret!')
+    assert.match(passwordHash, /^\$2[aby]\$10\$/)
+    assert.equal(await users.verifyPassword({ passwordHash }, 's3cret!'), true)
+    assert.equal(await users.verifyPassword({ passwordHash }, 'S3cret!'), false)
+  })
+
+  test('a matching plaintext record is upgraded in place on verification', async () => {
+    const user = { id: 'u1', password: 'legacy' }
+    assert.equal(await users.verifyPassword(user, 'wrong'), false)
+    assert.equal(user.password, 'legacy')
+
+    assert.equal(await users.verifyPassword(user, 'legacy'), true)
+    assert.equal(user.password, undefined)
+    assert.equal(await users.verifyPassword(user, 'legacy'), true)
+  })
+
+  test('the startup migration hashes every plaintext password and leaves hashed records alone', async () => {
+    const hashed = { id: 'u2', phone: '+243810000002', passwordHash: await users.hashPassword('kept') }
+    await users.writeUsers([{ id: 'u1', phone: '+243810000001', password: 'legacy' }, hashed, { id: 'u3' }])
+
+    assert.equal(await users.migratePlaintextPasswords(), 1)
+    const [migrated, untouched, withoutPassword] = await users.readUsers()
+    assert.equal(migrated.password, undefined)
+    assert.equal(await users.verifyPassword(migrated, 'legacy'), true)
+    assert.deepEqual(untouched, hashed)
+    assert.deepEqual(withoutPassword, { id: 'u3' })
+
+    // Nothing left to do on the next start
+    assert.equal(await users.migratePlaintextPasswords(), 0)
+  })
+
+  test('are never part of the public view of a user', () => {
+    const view = users.sanitize({ id: 'u1', phone: '+243810000001', password: 'legacy', passwordHash: 'x' })
+    assert.deepEqual(view, { id: 'u1', phone: '+243810000001', role: 'user' })
+  })
+})
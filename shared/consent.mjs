@@ -0,0 +1,35 @@
+/**
+ * shared/consent.mjs
+ * Cookie / tracking consent, shared by the consent manager (src/lib/consent.ts) and /api/consent (server/consent.mjs).
+ * - necessary: sign-in, saved drafts, the offline queue; always on, no choice.
+ * - analytics: Google Analytics and first-party product events (funnel).
+ * - marketing: advertising and campaign measurement (none yet; asked now so adding one does not re-prompt).
+ * Bump CONSENT_VERSION when the policy changes: older records are treated as "no answer" and the banner shows again.
+ */
+
+/** @typedef {'necessary' | 'analytics' | 'marketing'} ConsentCategory */
+
+/**
+ * @typedef {{ version: number, analytics: boolean, marketing: boolean, updatedAt: number }} ConsentRecord
+ */
+
+export const CONSENT_VERSION = 1
+
+/** @type {ConsentCategory[]} */
+export const CONSENT_CATEGORIES = ['necessary', 'analytics', 'marketing']
+
+/**
+ * Validated copy of a consent record, or null.
+ * @param {unknown} value
+ * @returns {ConsentRecord | null}
+ */
+export function normalizeConsent(value) {
+  const v = /** @type {Record<string, unknown> | null} */ (value && typeof value === 'object' ? value : null)
+  if (!v || !Number.isInteger(v.version) || Number(v.version) < 0 || Number(v.version) > CONSENT_VERSION) return null
+  return {
+    version: Number(v.version),
+    analytics: v.analytics === true,
+    marketing: v.marketing === true,
+    updatedAt: Number.isFinite(v.updatedAt) ? Number(v.updatedAt) : 0,
+  }
+}
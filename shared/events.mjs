@@ -0,0 +1,39 @@
+/**
+ * shared/events.mjs
+ * Catalog of first-party analytics events, shared by the client queue (src/lib/events.ts)
+ * and the /api/events collector (server/events.mjs).
+ * - Each event lists the properties it may carry; anything else is dropped by the server.
+ * - Property values are short strings or numbers (no personal data: no names, phones or e-mails).
+ */
+
+/**
+ * Properties of each event.
+ * @typedef {{
+ *   step_change: { step: 1 | 2 | 3 },
+ *   plan_select: { plan: 'student' | 'pro' | 'advanced', source: 'buttons' | 'payment' | 'preview' },
+ *   payment_start: { plan: 'student' | 'pro' | 'advanced', method: 'mobile' | 'card', provider?: string },
+ *   payment_success: { plan: 'student' | 'pro' | 'advanced', method: 'mobile' | 'card' },
+ *   payment_failure: { plan: 'student' | 'pro' | 'advanced', method: 'mobile' | 'card', reason?: string },
+ *   pdf_download: { plan: 'student' | 'pro' | 'advanced', source: 'cta' | 'preview' | 'auto' },
+ * }} EventCatalog
+ */
+
+/** @typedef {keyof EventCatalog} EventName */
+
+/** Allowed property names per event. @type {Record<EventName, string[]>} */
+export const EVENTS = {
+  /** Editor step shown (1 form, 2 preview, 3 payment) */
+  step_change: ['step'],
+  /** Plan picked by the user (not plans restored from a draft) */
+  plan_select: ['plan', 'source'],
+  payment_start: ['plan', 'method', 'provider'],
+  payment_success: ['plan', 'method'],
+  payment_failure: ['plan', 'method', 'reason'],
+  pdf_download: ['plan', 'source'],
+}
+
+/** @type {EventName[]} */
+export const EVENT_NAMES = /** @type {EventName[]} */ (Object.keys(EVENTS))
+
+/** Events sent in one POST /api/events call, at most. */
+export const MAX_EVENTS_PER_BATCH = 50
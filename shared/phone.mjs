@@ -0,0 +1,96 @@
+/**
+ * shared/phone.mjs
+ * Phone numbers as account identities, shared by the client (Auth.tsx) and the server (server/auth.mjs).
+ * - Numbers are stored in E.164 form (+243812345678).
+ * - National input ("0812 345 678") is resolved with the selected country; international input
+ *   (+243..., 00243... or 243...) is accepted as is.
+ */
+
+/**
+ * @typedef {{ code: string, name: string, callingCode: string, nationalLength: number, trunkPrefix?: string }} PhoneCountry
+ * trunkPrefix: digit dialled before national numbers inside the country ('0' unless stated).
+ */
+
+/** Supported countries (ISO 3166-1 alpha-2), mobile-money markets first. @type {PhoneCountry[]} */
+export const PHONE_COUNTRIES = [
+  { code: 'CD', name: 'RD Congo', callingCode: '243', nationalLength: 9 },
+  { code: 'MG', name: 'Madagascar', callingCode: '261', nationalLength: 9 },
+  { code: 'CG', name: 'Congo', callingCode: '242', nationalLength: 9 },
+  { code: 'CM', name: 'Cameroun', callingCode: '237', nationalLength: 9 },
+  { code: 'CI', name: "Côte d'Ivoire", callingCode: '225', nationalLength: 10, trunkPrefix: '' },
+  { code: 'SN', name: 'Sénégal', callingCode: '221', nationalLength: 9 },
+  { code: 'RW', name: 'Rwanda', callingCode: '250', nationalLength: 9 },
+  { code: 'BI', name: 'Burundi', callingCode: '257', nationalLength: 8 },
+  { code: 'UG', name: 'Uganda', callingCode: '256', nationalLength: 9 },
+  { code: 'KE', name: 'Kenya', callingCode: '254', nationalLength: 9 },
+  { code: 'TZ', name: 'Tanzania', callingCode: '255', nationalLength: 9 },
+  { code: 'ZM', name: 'Zambia', callingCode: '260', nationalLength: 9 },
+  { code: 'FR', name: 'France', callingCode: '33', nationalLength: 9 },
+  { code: 'BE', name: 'Belgique', callingCode: '32', nationalLength: 9 },
+]
+
+export const DEFAULT_PHONE_COUNTRY = 'CD'
+
+/** @param {string | undefined | null} code @returns {PhoneCountry | null} */
+export function findPhoneCountry(code) {
+  const wanted = String(code || '').toUpperCase()
+  return PHONE_COUNTRIES.find((c) => c.code === wanted) || null
+}
+
+/** Country whose calling code prefixes `digits` (longest match). @param {string} digits */
+function countryFromDigits(digits) {
+  return (
+    PHONE_COUNTRIES.filter((c) => digits.startsWith(c.callingCode)).sort(
+      (a, b) => b.callingCode.length - a.callingCode.length
+    )[0] || null
+  )
+}
+
+/**
+ * Normalizes user input to E.164, or returns null when the number is not valid for its country.
+ * @param {string | undefined | null} input
+ * @param {string} [country] ISO code used for national numbers
+ * @returns {string | null}
+ */
+export function normalizePhone(input, country = DEFAULT_PHONE_COUNTRY) {
+  const raw = String(input || '').trim()
+  if (!raw || /[^\d\s+().-]/.test(raw)) return null
+  let digits = raw.replace(/[^\d+]/g, '')
+  let international = false
+  if (digits.startsWith('+')) {
+    international = true
+    digits = digits.slice(1)
+  } else if (digits.startsWith('00')) {
+    international = true
+    digits = digits.slice(2)
+  }
+  if (digits.includes('+')) return null
+
+  const selected = findPhoneCountry(country)
+  const trunkOf = (c) => c.trunkPrefix ?? '0'
+  let target = null
+  let national = ''
+  if (international) {
+    target = countryFromDigits(digits)
+    if (target) national = digits.slice(target.callingCode.length)
+  } else if (selected) {
+    target = selected
+    const withCode = digits.startsWith(selected.callingCode)
+      && digits.length === selected.callingCode.length + selected.nationalLength
+    // Drop the trunk prefix ("0812..." → "812...")
+    const trunk = trunkOf(selected)
+    national = withCode
+      ? digits.slice(selected.callingCode.length)
+      : trunk && digits.startsWith(trunk) ? digits.slice(trunk.length) : digits
+  }
+  if (!target || national.length !== target.nationalLength) return null
+  if (trunkOf(target) && national.startsWith(trunkOf(target))) return null
+  return `+${target.callingCode}${national}`
+}
+
+/** ISO code of an E.164 number, or null. @param {string | undefined | null} e164 */
+export function phoneCountryOf(e164) {
+  const value = String(e164 || '')
+  if (!value.startsWith('+')) return null
+  return countryFromDigits(value.slice(1))?.code || null
+}
@@ -0,0 +1,62 @@
+/**
+ * shared/phone.test.mjs
+ * E.164 normalization of the phone numbers that identify accounts.
+ * Runs with `npm test` (node:test).
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { normalizePhone, phoneCountryOf } from './phone.mjs'
+
+describe('normalizePhone', () => {
+  test('resolves national numbers with the selected country, RD Congo by default', () => {
+    assert.equal(normalizePhone('0812345678'), '+243812345678')
+    assert.equal(normalizePhone('812345678', 'CD'), '+243812345678')
+    assert.equal(normalizePhone('0341234567', 'mg'), '+261341234567')
+    // Côte d'Ivoire has no trunk prefix: the leading 0 is part of the number
+    assert.equal(normalizePhone('0701020304', 'CI'), '+2250701020304')
+    // Calling code typed without + or 00
+    assert.equal(normalizePhone('243812345678', 'CD'), '+243812345678')
+  })
+
+  test('accepts + and 00 international prefixes whatever the selected country', () => {
+    assert.equal(normalizePhone('+243812345678', 'FR'), '+243812345678')
+    assert.equal(normalizePhone('00243812345678', 'FR'), '+243812345678')
+    assert.equal(normalizePhone('+33612345678'), '+33612345678')
+  })
+
+  test('ignores spaces, dashes, dots and brackets', () => {
+    assert.equal(normalizePhone(' 0812 345 678 '), '+243812345678')
+    assert.equal(normalizePhone('+243 81-234-5678'), '+243812345678')
+    assert.equal(normalizePhone('(0)6.12.34.56.78', 'FR'), '+33612345678')
+    assert.equal(normalizePhone('00 33 6 12 34 56 78', 'CD'), '+33612345678')
+  })
+
+  test('rejects numbers of the wrong length for their country', () => {
+    assert.equal(normalizePhone('081234567'), null)
+    assert.equal(normalizePhone('08123456789'), null)
+    assert.equal(normalizePhone('+2438123456'), null)
+    assert.equal(normalizePhone('+24381234567890'), null)
+    assert.equal(normalizePhone('12', 'BI'), null)
+  })
+
+  test('rejects the trunk prefix after the calling code, unknown codes and stray characters', () => {
+    assert.equal(normalizePhone('+2430812345678'), null)
+    assert.equal(normalizePhone('+12025550123'), null)
+    assert.equal(normalizePhone('0812345678', 'XX'), null)
+    assert.equal(normalizePhone('0812 345 67a'), null)
+    assert.equal(normalizePhone('+243+812345678'), null)
+    assert.equal(normalizePhone(''), null)
+    assert.equal(normalizePhone(null), null)
+  })
+})
+
+describe('phoneCountryOf', () => {
+  test('finds the country of an E.164 number', () => {
+    assert.equal(phoneCountryOf('+243812345678'), 'CD')
+    assert.equal(phoneCountryOf('+2250701020304'), 'CI')
+    assert.equal(phoneCountryOf('+33612345678'), 'FR')
+    assert.equal(phoneCountryOf('243812345678'), null)
+    assert.equal(phoneCountryOf('+12025550123'), null)
+  })
+})
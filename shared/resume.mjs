@@ -0,0 +1,214 @@
+/**
+ * shared/resume.mjs
+ * Schéma zod des données d'un CV (ResumeData), partagé par le client (formulaire, brouillons locaux)
+ * et le serveur (API /api/cv, exports), source des types de src/types/resume.ts.
+ * - RESUME_VERSION est enregistrée dans data.version; migrateResume() met à niveau les données plus
+ *   anciennes, une version après l'autre (v1 → v2: skills, texte séparé par des virgules ou des lignes → liste).
+ * - resumeDataSchema: validation stricte (types des champs), les champs absents prennent leur valeur vide;
+ *   une version plus récente que RESUME_VERSION est refusée (parseResume, API /api/cv).
+ * - readResume(): lecture tolérante d'un brouillon ou d'un CV enregistré: migré, et tout champ mal
+ *   formé remplacé par sa valeur vide, pour que l'aperçu ne plante jamais.
+ * - yearMonthSchema / periodSchema: dates des expériences et formations (YYYY-MM ou "Present", fin ≥ début).
+ */
+
+import { z } from 'zod'
+import { parseSkills } from './sections.mjs'
+
+/** Version courante du format de ResumeData. */
+export const RESUME_VERSION = 2
+
+export const RESUME_LANGUAGES = /** @type {const} */ (['fr', 'en', 'sw', 'pt', 'mg'])
+export const RESUME_DOMAINS = /** @type {const} */ ([
+  'general',
+  'it',
+  'marketing',
+  'finance',
+  'healthcare',
+  'engineering',
+  'sales',
+  'research',
+])
+export const CV_TYPES = /** @type {const} */ (['simple', 'structured', 'advanced'])
+
+/** Valeur de fin d'une période en cours. */
+export const PRESENT = 'Present'
+
+/** "YYYY-MM" avec un mois 01-12. */
+export const yearMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM')
+
+/** Clé comparable (YYYY * 100 + MM) d'une date YYYY-MM, ou null. */
+function yearMonthKey(value) {
+  const v = (value || '').trim()
+  return yearMonthSchema.safeParse(v).success ? Number(v.slice(0, 4)) * 100 + Number(v.slice(5, 7)) : null
+}
+
+/**
+ * Période d'une expérience ou formation. Les dates sont facultatives tant que le CV est un brouillon;
+ * quand les deux sont des YYYY-MM, la fin ne précède pas le début.
+ */
+export const periodSchema = z
+  .object({ start: z.string().optional(), end: z.string().optional() })
+  .superRefine(({ start, end }, ctx) => {
+    if ((end || '').trim().toLowerCase() === PRESENT.toLowerCase()) return
+    const startKey = yearMonthKey(start)
+    const endKey = yearMonthKey(end)
+    if (startKey != null && endKey != null && endKey < startKey) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['end'], message: 'dateOrder' })
+    }
+  })
+
+/**
+ * Construit le schéma: strict (un champ du mauvais type est une erreur) ou tolérant (il est
+ * remplacé par sa valeur vide, un élément de liste qui n'est pas un objet est retiré).
+ * @param {boolean} loose
+ */
+function buildSchema(loose) {
+  const text = loose ? z.string().catch('') : z.string().default('')
+  const optionalText = loose ? z.string().optional().catch(undefined) : z.string().optional()
+  /** @template {readonly [string, ...string[]]} T @param {T} values @param {T[number]} fallback */
+  const choice = (values, fallback) => (loose ? z.enum(values).catch(fallback) : z.enum(values).default(fallback))
+  /** @template {z.ZodTypeAny} T @param {T} item @param {(v: unknown) => boolean} keep */
+  const list = (item, keep) =>
+    loose
+      ? z.preprocess((v) => (Array.isArray(v) ? v.filter(keep) : []), z.array(item))
+      : z.array(item).default([])
+  /** @template {z.ZodTypeAny} T @param {T} item @param {(v: unknown) => boolean} keep */
+  const optionalList = (item, keep) =>
+    loose
+      ? z.preprocess((v) => (Array.isArray(v) ? v.filter(keep) : undefined), z.array(item).optional())
+      : z.array(item).optional()
+  /** @param {unknown} v */
+  const isObject = (v) => typeof v === 'object' && v !== null && !Array.isArray(v)
+  /** @param {unknown} v */
+  const isString = (v) => typeof v === 'string'
+
+  const experience = z.object({
+    /** Intitulé du poste */
+    title: optionalText,
+    /** Entreprise */
+    company: optionalText,
+    /** Début au format YYYY-MM */
+    start: optionalText,
+    /** Fin au format YYYY-MM ou "Present" */
+    end: optionalText,
+    /** Description multiligne (convertie en puces) */
+    description: optionalText,
+  })
+  const education = z.object({
+    /** Diplôme/formation */
+    degree: optionalText,
+    /** Établissement */
+    school: optionalText,
+    start: optionalText,
+    end: optionalText,
+    description: optionalText,
+  })
+  const certification = z.object({
+    name: optionalText,
+    issuer: optionalText,
+    date: optionalText,
+    credentialId: optionalText,
+    credentialUrl: optionalText,
+  })
+  const achievement = z.object({
+    /** Intitulé court de la réalisation */
+    title: optionalText,
+    /** Détails, impact, métriques */
+    description: optionalText,
+  })
+
+  const data = z.object({
+    /** Version du format (RESUME_VERSION); absente sur les données d'avant le versionnement */
+    version: loose
+      ? z.number().int().optional().catch(undefined)
+      : z.number().int().max(RESUME_VERSION, 'Unsupported version').optional(),
+    fullName: text,
+    headline: text,
+    email: text,
+    phone: text,
+    location: text,
+    /** URL de profil LinkedIn */
+    linkedin: optionalText,
+    summary: text,
+    /** Compétences, sans doublons */
+    skills: list(z.string(), isString),
+    /** Pays (sélection du pays en dropdown) */
+    country: optionalText,
+    photoUrl: optionalText,
+    domain: choice(RESUME_DOMAINS, 'general'),
+    language: choice(RESUME_LANGUAGES, 'en'),
+    /** Type de CV (détermine les rubriques visibles) */
+    cvType: choice(CV_TYPES, 'simple'),
+    experiences: list(experience, isObject),
+    education: list(education, isObject),
+    certifications: optionalList(certification, isObject),
+    /** Réalisations (Avancé) */
+    achievements: optionalList(achievement, isObject),
+    /** Points forts de carrière (Avancé) */
+    highlights: optionalList(z.string(), isString),
+    /** Document JSON Resume importé: ses rubriques que Mako n'affiche pas (src/lib/jsonResume.ts) */
+    jsonResume: loose
+      ? z.record(z.unknown()).optional().catch(undefined)
+      : z.record(z.unknown()).optional(),
+  })
+  return { experience, education, certification, achievement, data }
+}
+
+const strict = buildSchema(false)
+const loose = buildSchema(true)
+
+export const experienceSchema = strict.experience
+export const educationSchema = strict.education
+export const certificationSchema = strict.certification
+export const achievementSchema = strict.achievement
+export const resumeDataSchema = strict.data
+
+/** @typedef {z.output<typeof resumeDataSchema>} ResumeData */
+
+/**
+ * Migrations: MIGRATIONS[n] passe des données de la version n à la version n + 1.
+ * @type {Record<number, (data: Record<string, any>) => Record<string, any>>}
+ */
+const MIGRATIONS = {
+  /** v1 → v2: skills était un texte séparé par des virgules ou des retours à la ligne */
+  1: (data) => ({ ...data, skills: typeof data.skills === 'string' ? parseSkills(data.skills) : data.skills }),
+}
+
+/**
+ * Met des données de CV au format courant (sans les valider). Les données sans version (ou version 0)
+ * sont traitées comme des v1; celles d'une version plus récente que RESUME_VERSION sont laissées telles
+ * quelles: parseResume les refuse, readResume en lit ce qu'il connaît.
+ * @param {unknown} raw
+ * @returns {Record<string, any>}
+ */
+export function migrateResume(raw) {
+  /** @type {Record<string, any>} */
+  let data = raw && typeof raw === 'object' && !Array.isArray(raw) ? { ...raw } : {}
+  let version = Number.isInteger(data.version) && data.version > 0 ? data.version : 1
+  while (version < RESUME_VERSION) {
+    data = MIGRATIONS[version](data)
+    version++
+  }
+  return { ...data, version }
+}
+
+/**
+ * Valide des données de CV après migration; refuse une version inconnue, plus récente que RESUME_VERSION.
+ * @param {unknown} raw
+ * @returns {{ success: true, data: ResumeData } | { success: false, error: string }}
+ */
+export function parseResume(raw) {
+  const result = resumeDataSchema.safeParse(migrateResume(raw))
+  if (result.success) return { success: true, data: result.data }
+  const issue = result.error.issues[0]
+  return { success: false, error: `${issue.path.join('.') || 'data'}: ${issue.message}` }
+}
+
+/**
+ * Lecture tolérante: toujours un ResumeData complet, quel que soit ce qui a été enregistré.
+ * @param {unknown} raw
+ * @returns {ResumeData}
+ */
+export function readResume(raw) {
+  return /** @type {ResumeData} */ (loose.data.parse(migrateResume(raw)))
+}
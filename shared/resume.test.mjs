@@ -0,0 +1,65 @@
+/**
+ * shared/resume.test.mjs
+ * Versions of ResumeData: migration of the records saved before the current format, and refusal of
+ * a version newer than the one this code knows.
+ * Runs with `npm test` (node:test).
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { migrateResume, parseResume, readResume, RESUME_VERSION } from './resume.mjs'
+
+/** A CV as saved before the skills became a list. */
+const V0_RECORD = {
+  fullName: 'Amani Kalala',
+  skills: 'Excel, SAGE\nFiscalité\r\n, excel ,Excel\n\n',
+  experiences: [{ title: 'Comptable', company: 'Rawbank', start: '2021-03', end: 'Present' }],
+}
+
+describe('migrateResume', () => {
+  test('migrates a v0 record with comma- and newline-separated skills to the current version', () => {
+    for (const record of [V0_RECORD, { ...V0_RECORD, version: 0 }, { ...V0_RECORD, version: 1 }]) {
+      const data = migrateResume(record)
+      assert.equal(data.version, RESUME_VERSION)
+      assert.deepEqual(data.skills, ['Excel', 'SAGE', 'Fiscalité', 'excel'])
+      assert.deepEqual(data.experiences, V0_RECORD.experiences)
+    }
+  })
+
+  test('leaves current records alone', () => {
+    const record = { version: RESUME_VERSION, skills: ['C, C++'] }
+    assert.deepEqual(migrateResume(record), record)
+  })
+})
+
+describe('parseResume', () => {
+  test('accepts a migrated v0 record', () => {
+    const result = parseResume(V0_RECORD)
+    assert.equal(result.success, true)
+    assert.equal(result.data.version, RESUME_VERSION)
+    assert.deepEqual(result.data.skills, ['Excel', 'SAGE', 'Fiscalité', 'excel'])
+    assert.equal(result.data.email, '')
+  })
+
+  test('rejects an unknown future version', () => {
+    const result = parseResume({ ...V0_RECORD, version: RESUME_VERSION + 1, skills: [{ name: 'Excel' }] })
+    assert.deepEqual(result, { success: false, error: 'version: Unsupported version' })
+    assert.deepEqual(parseResume({ version: RESUME_VERSION + 1 }), { success: false, error: 'version: Unsupported version' })
+  })
+
+  test('reports the first invalid field', () => {
+    assert.deepEqual(parseResume({ version: RESUME_VERSION, fullName: 42 }), {
+      success: false,
+      error: 'fullName: Expected string, received number',
+    })
+  })
+})
+
+describe('readResume', () => {
+  test('still shows what it can of a newer record', () => {
+    const data = readResume({ version: RESUME_VERSION + 1, fullName: 'Amani Kalala', skills: [{ name: 'Excel' }] })
+    assert.equal(data.version, RESUME_VERSION + 1)
+    assert.equal(data.fullName, 'Amani Kalala')
+    assert.deepEqual(data.skills, [])
+  })
+})
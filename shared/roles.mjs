@@ -0,0 +1,40 @@
+/**
+ * shared/roles.mjs
+ * Account roles and what each one may do, shared by the client (admin UI) and the server (middleware).
+ * - user: regular customer (default).
+ * - support: staff that can look up payments and accounts, but not refund or change roles.
+ * - admin: everything.
+ */
+
+/** @typedef {'user' | 'support' | 'admin'} Role */
+
+/** @type {Role[]} */
+export const ROLES = ['user', 'support', 'admin']
+
+/** Roles granted each permission. @type {Record<string, Role[]>} */
+export const PERMISSIONS = {
+  /** Open the /admin area */
+  'admin:access': ['support', 'admin'],
+  /** Traffic, signups and revenue statistics */
+  'stats:read': ['admin'],
+  'payments:read': ['support', 'admin'],
+  'payments:refund': ['admin'],
+  'payments:dispute': ['admin'],
+  /** Internal notes on a payment */
+  'payments:note': ['support', 'admin'],
+  /** Search accounts */
+  'users:read': ['support', 'admin'],
+  /** Change roles */
+  'users:manage': ['admin'],
+}
+
+/** @typedef {keyof typeof PERMISSIONS} Permission */
+
+/**
+ * @param {string | null | undefined} role
+ * @param {Permission} permission
+ * @returns {boolean}
+ */
+export function can(role, permission) {
+  return Boolean(role && PERMISSIONS[permission]?.includes(/** @type {Role} */ (role)))
+}
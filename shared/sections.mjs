@@ -0,0 +1,78 @@
+/**
+ * shared/sections.mjs
+ * What each plan shows on a CV, and the text helpers every renderer uses, so the on-screen
+ * template (MarlonTemplatePreview.tsx) and server exports (server/pdf, server/docx.mjs) print the same content.
+ * - Étudiant: Résumé, Expérience, Éducation
+ * - Professionnel: + Compétences, Certifications
+ * - Avancé: + Faits marquants de carrière, Réalisations
+ * The Marlon template does not print certifications and achievements; the DOCX export does.
+ */
+
+/** @typedef {'student' | 'pro' | 'advanced'} Plan */
+
+/**
+ * @typedef {{
+ *   summary: boolean, highlights: boolean, skills: boolean, experience: boolean, education: boolean,
+ *   certifications: boolean, achievements: boolean
+ * }} SectionFlags
+ */
+
+/**
+ * Sections displayed for a plan.
+ * @param {Plan} plan
+ * @returns {SectionFlags}
+ */
+export function allowedSections(plan) {
+  return {
+    summary: true,
+    highlights: plan === 'advanced',
+    skills: plan === 'pro' || plan === 'advanced',
+    experience: true,
+    education: true,
+    certifications: plan === 'pro' || plan === 'advanced',
+    achievements: plan === 'advanced',
+  }
+}
+
+/**
+ * Formate une période "start – end" avec traduction de "Present".
+ * @param {string} [start]
+ * @param {string} [end]
+ * @param {string} [presentLabel]
+ */
+export function formatPeriod(start, end, presentLabel = 'Present') {
+  const s = (start || '').trim()
+  const eRaw = (end || '').trim()
+  const isPresent = eRaw.toLowerCase() === 'present'
+  const e = isPresent ? presentLabel : eRaw
+
+  if (s && e) return `${s} – ${e}`
+  if (s && !eRaw) return `${s} – ${presentLabel}`
+  if (!s && e) return e
+  return ''
+}
+
+/**
+ * Convertit un texte multilignes en puces.
+ * @param {string} [text]
+ * @returns {string[]}
+ */
+export function toBullets(text) {
+  if (!text) return []
+  return text
+    .split('\n')
+    .map((l) => l.trim().replace(/^[-*•]\s?/, ''))
+    .filter(Boolean)
+}
+
+/**
+ * Liste des compétences, sans doublons ni vides: depuis la liste du CV, ou depuis un texte séparé
+ * par des virgules ou des retours à la ligne (champ du formulaire, données d'avant la v2 de shared/resume.mjs).
+ * @param {string | string[]} [skills]
+ * @returns {string[]}
+ */
+export function parseSkills(skills) {
+  if (!skills) return []
+  const list = Array.isArray(skills) ? skills : skills.split(/[,\n]/)
+  return Array.from(new Set(list.map((s) => String(s).trim()).filter(Boolean)))
+}
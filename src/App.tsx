@@ -26,53 +26,76 @@ import './lib/i18nUxPatch'
 import './lib/i18nMorePatch'
 import './lib/i18nButtonsPatch'
 import './lib/i18nPaymentPatch'
+import './lib/i18nCvsPatch'
+import './lib/i18nConsentPatch'
+import './lib/i18nExportPatch'
+import './lib/i18nImportPatch'
+import './lib/i18nValidationPatch'
 
 import { HashRouter, Route, Routes, useLocation } from 'react-router'
 import HomePage from './pages/Home'
 import AuthPage from './pages/Auth'
+import CvLibraryPage from './pages/CvLibrary'
+import AdminPage from './pages/Admin'
 import Header from './components/Header'
 import React, { useEffect } from 'react'
-import { initGA, trackPage } from './lib/analytics'
+import { hasAnalyticsConsent, initGA, recordVisit, setGADisabled, trackPage } from './lib/analytics'
+import { initEvents } from './lib/events'
+import { CONSENT_CHANGED_EVENT, syncConsent } from './lib/consent'
 import { GA_MEASUREMENT_ID, ENABLE_GA } from './config/analytics'
 import ConsentBanner from './components/ConsentBanner'
+import { useAuthStore } from './stores/auth'
 
 /**
  * AnalyticsListener
- * - Waits for user consent before initializing GA.
- * - Listens to a custom 'ga-consent-changed' window event so the ConsentBanner can trigger GA initialization dynamically.
+ * - Waits for the "analytics" consent category before initializing GA.
+ * - Listens to CONSENT_CHANGED_EVENT (lib/consent.ts) to start GA, or stop it when consent is withdrawn.
+ * - On sign-in, aligns the consent of this device with the one stored on the account.
  * - Sends page_view events on route changes only when gtag is initialized.
+ * - Records each route change with the first-party visit beacon (admin dashboard).
+ * - Starts the first-party event queue (lib/events.ts), which itself waits for consent.
  */
 function AnalyticsListener() {
   const location = useLocation()
+  const token = useAuthStore((s) => s.token)
 
   useEffect(() => {
-    // Helper: check persisted consent in localStorage
-    const hasConsent = localStorage.getItem('ga_consent') === 'true'
+    initEvents(() => useAuthStore.getState().token)
 
-    if (ENABLE_GA && hasConsent) {
+    if (ENABLE_GA && hasAnalyticsConsent()) {
       initGA(GA_MEASUREMENT_ID)
     } else if (!ENABLE_GA) {
       // eslint-disable-next-line no-console
       console.info('[analytics] GA disabled (set GA_MEASUREMENT_ID in src/config/analytics.ts)')
     }
 
-    // Listen for consent changes triggered by the ConsentBanner
-    function onConsentChange(e: Event) {
-      const detail = (e as CustomEvent<boolean>).detail
-      if (ENABLE_GA && detail === true) {
-        initGA(GA_MEASUREMENT_ID)
-      }
+    // Listen for consent changes (ConsentBanner, Footer link, account sync)
+    function onConsentChange() {
+      if (!ENABLE_GA) return
+      const granted = hasAnalyticsConsent()
+      setGADisabled(GA_MEASUREMENT_ID, !granted)
+      if (granted) initGA(GA_MEASUREMENT_ID)
     }
 
-    window.addEventListener('ga-consent-changed', onConsentChange as EventListener)
+    window.addEventListener(CONSENT_CHANGED_EVENT, onConsentChange)
 
     return () => {
-      window.removeEventListener('ga-consent-changed', onConsentChange as EventListener)
+      window.removeEventListener(CONSENT_CHANGED_EVENT, onConsentChange)
     }
     // We intentionally do not depend on initGA to avoid re-initializing unexpectedly.
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // Same consent on every device of the account
+  useEffect(() => {
+    if (token) void syncConsent(token)
+  }, [token])
+
+  // First-party visit counter (sent only with analytics consent, see recordVisit)
+  useEffect(() => {
+    recordVisit(useAuthStore.getState().token)
+  }, [location.pathname])
+
   useEffect(() => {
     const path = `${location.pathname}${location.search}${location.hash || ''}`
     // Only attempt to track when GA is enabled and gtag is initialized.
@@ -87,7 +110,7 @@ function AnalyticsListener() {
 /**
  * App
  * Renders the router with a single, accessible LanguageSwitcher placed in the Header.
- * Adds a ConsentBanner at the root so users can accept/decline analytics.
+ * Adds a ConsentBanner at the root so users can choose which optional categories to allow.
  */
 export default function App() {
   return (
@@ -104,9 +127,11 @@ export default function App() {
         <Routes>
           <Route path="/" element={<HomePage />} />
           <Route path="/auth" element={<AuthPage />} />
+          <Route path="/cvs" element={<CvLibraryPage />} />
+          <Route path="/admin" element={<AdminPage />} />
         </Routes>
 
-        {/* Consent banner (renders only when consent not yet given or explicitly declined) */}
+        {/* Consent banner (shows until the current policy is answered) + preferences dialog */}
         <ConsentBanner />
       </div>
     </HashRouter>
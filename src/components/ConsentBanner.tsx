@@ -1,137 +1,212 @@
 /**
  * ConsentBanner.tsx
- * A small, privacy-first consent banner for Google Analytics.
- * - Persists user choice in localStorage under key 'ga_consent'.
- * - Dispatches a 'ga-consent-changed' CustomEvent on window so other parts (AnalyticsListener) can react.
- * - Keeps UI minimal and accessible; uses Tailwind for styling.
+ * A small, privacy-first consent manager: banner + preferences dialog by category.
+ * - Categories: necessary (always on), analytics (GA + first-party events), marketing (see shared/consent.mjs).
+ * - The banner shows until the visitor answers the current policy version (re-prompts after a policy change).
+ * - The dialog can be reopened from the Footer (openConsentPreferences).
+ * - Choices are saved by lib/consent.ts (localStorage + account when signed in) which notifies the app.
  */
 
 import React, { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Info, X } from 'lucide-react'
+import Modal from './Modal'
+import { useAuthStore } from '../stores/auth'
+import {
+  CONSENT_CHANGED_EVENT,
+  CONSENT_OPEN_EVENT,
+  getConsent,
+  needsConsentPrompt,
+  openConsentPreferences,
+  saveConsent,
+  type ConsentChoices,
+} from '../lib/consent'
 
 /**
- * getStoredConsent
- * Reads the persisted consent value from localStorage.
- *
- * @returns boolean | null - true = accepted, false = declined, null = not set
+ * CategoryRow
+ * One consent category with its description and switch.
  */
-function getStoredConsent(): boolean | null {
-  const v = localStorage.getItem('ga_consent')
-  if (v === 'true') return true
-  if (v === 'false') return false
-  return null
-}
-
-/**
- * persistConsent
- * Persists user's choice in localStorage and notifies the app via a custom event.
- *
- * @param consent - user's consent (true = accept, false = decline)
- */
-function persistConsent(consent: boolean) {
-  localStorage.setItem('ga_consent', consent ? 'true' : 'false')
-  const evt = new CustomEvent<boolean>('ga-consent-changed', { detail: consent })
-  window.dispatchEvent(evt)
+function CategoryRow({
+  title,
+  description,
+  checked,
+  disabled,
+  onChange,
+}: {
+  title: string
+  description: string
+  checked: boolean
+  disabled?: boolean
+  onChange?: (next: boolean) => void
+}) {
+  return (
+    <label className="flex items-start justify-between gap-4 rounded border border-neutral-200 p-3">
+      <span>
+        <span className="block text-sm font-medium text-neutral-900">{title}</span>
+        <span className="mt-0.5 block text-xs text-neutral-600">{description}</span>
+      </span>
+      <input
+        type="checkbox"
+        role="switch"
+        className="mt-1 h-4 w-4 accent-[rgb(60,77,42)]"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onChange?.(e.target.checked)}
+      />
+    </label>
+  )
 }
 
 /**
  * ConsentBanner
- * - Renders a fixed bottom banner asking for analytics consent.
- * - If the user already chose, the banner is hidden.
+ * - Renders a fixed bottom banner asking for consent, and the preferences dialog.
+ * - If the user already answered the current policy, only the dialog remains available.
  */
 export default function ConsentBanner(): JSX.Element | null {
   const { t } = useTranslation()
-  const [consent, setConsent] = useState<boolean | null>(null)
+  const token = useAuthStore((s) => s.token)
   const [visible, setVisible] = useState(false)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [choices, setChoices] = useState<ConsentChoices>({ analytics: false, marketing: false })
 
   useEffect(() => {
-    const stored = getStoredConsent()
-    setConsent(stored)
-    setVisible(stored === null)
+    setVisible(needsConsentPrompt())
+
+    // Another tab, the Footer link or the account sync may change the answer
+    const onChanged = () => setVisible(needsConsentPrompt())
+    const onOpen = () => {
+      const current = getConsent()
+      setChoices({ analytics: Boolean(current?.analytics), marketing: Boolean(current?.marketing) })
+      setDialogOpen(true)
+    }
+    window.addEventListener(CONSENT_CHANGED_EVENT, onChanged)
+    window.addEventListener(CONSENT_OPEN_EVENT, onOpen)
+    return () => {
+      window.removeEventListener(CONSENT_CHANGED_EVENT, onChanged)
+      window.removeEventListener(CONSENT_OPEN_EVENT, onOpen)
+    }
   }, [])
 
   /**
-   * handleAccept
-   * Records acceptance and hides the banner.
+   * decide
+   * Saves the choices and hides the banner and dialog.
    */
-  function handleAccept() {
-    persistConsent(true)
-    setConsent(true)
+  function decide(next: ConsentChoices) {
+    saveConsent(next, token)
     setVisible(false)
+    setDialogOpen(false)
   }
 
-  /**
-   * handleDecline
-   * Records decline and hides the banner (we still persist the decision to avoid asking repeatedly).
-   */
-  function handleDecline() {
-    persistConsent(false)
-    setConsent(false)
-    setVisible(false)
-  }
+  return (
+    <>
+      {visible ? (
+        <div
+          role="dialog"
+          aria-live="polite"
+          aria-label={t('consent.label', 'Cookie consent')}
+          className="fixed bottom-4 left-4 right-4 z-50 mx-auto max-w-3xl rounded-lg border border-neutral-200 bg-white p-4 shadow-lg md:left-auto md:right-8"
+        >
+          <div className="flex items-start gap-3">
+            <div className="mt-1">
+              <div className="rounded bg-[rgb(60,77,42)] p-2 text-white">
+                <Info className="h-4 w-4" />
+              </div>
+            </div>
 
-  if (!visible) return null
+            <div className="flex-1">
+              <p className="text-sm font-medium text-neutral-900">
+                {t('consent.title', 'We value your privacy — may we use optional cookies?')}
+              </p>
+              <p className="mt-1 text-xs text-neutral-600">
+                {t(
+                  'consent.description',
+                  'Necessary storage keeps you signed in and saves your drafts. With your consent, we also measure usage to improve the app. You can change your choice at any time from the footer.'
+                )}
+              </p>
 
-  return (
-    <div
-      role="dialog"
-      aria-live="polite"
-      aria-label={t('consent.label', 'Analytics consent')}
-      className="fixed bottom-4 left-4 right-4 z-50 mx-auto max-w-3xl rounded-lg border border-neutral-200 bg-white p-4 shadow-lg md:left-auto md:right-8"
-    >
-      <div className="flex items-start gap-3">
-        <div className="mt-1">
-          <div className="rounded bg-[rgb(60,77,42)] p-2 text-white">
-            <Info className="h-4 w-4" />
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => decide({ analytics: true, marketing: true })}
+                  className="inline-flex items-center gap-2 rounded bg-[rgb(60,77,42)] px-3 py-1.5 text-sm font-medium text-white hover:bg-[rgb(50,64,35)] focus:outline-none focus-visible:ring-2 focus-visible:ring-[rgb(60,77,42)]/40"
+                >
+                  {t('consent.acceptAll', 'Accept all')}
+                </button>
+
+                <button
+                  type="button"
+                  onClick={() => decide({ analytics: false, marketing: false })}
+                  className="inline-flex items-center gap-2 rounded border border-neutral-200 bg-white px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-50 focus:outline-none"
+                >
+                  {t('consent.rejectAll', 'Necessary only')}
+                </button>
+
+                <button
+                  type="button"
+                  onClick={openConsentPreferences}
+                  className="text-sm text-neutral-700 underline underline-offset-4 hover:text-neutral-900"
+                >
+                  {t('consent.customize', 'Customize')}
+                </button>
+
+                <button
+                  type="button"
+                  onClick={() => decide({ analytics: false, marketing: false })}
+                  aria-label={t('consent.dismiss', 'Dismiss')}
+                  className="ml-auto inline-flex items-center rounded p-2 text-neutral-500 hover:bg-neutral-100"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
           </div>
         </div>
+      ) : null}
 
-        <div className="flex-1">
-          <p className="text-sm font-medium text-neutral-900">
-            {t(
-              'consent.title',
-              'We value your privacy — may we enable analytics to improve the app?'
+      <Modal open={dialogOpen} onOpenChange={setDialogOpen} title={t('consent.preferences', 'Cookie preferences')}>
+        <div className="space-y-3">
+          <CategoryRow
+            title={t('consent.necessary.title', 'Necessary')}
+            description={t(
+              'consent.necessary.description',
+              'Sign-in, saved drafts and offline changes. Always on: the app does not work without them.'
             )}
-          </p>
-          <p className="mt-1 text-xs text-neutral-600">
-            {t(
-              'consent.description',
-              'Analytics helps us understand usage. You can change this later in your browser storage.'
+            checked
+            disabled
+          />
+          <CategoryRow
+            title={t('consent.analytics.title', 'Analytics')}
+            description={t(
+              'consent.analytics.description',
+              'Google Analytics and our own anonymous usage events (steps, plans, payments, downloads).'
             )}
-          </p>
-
-          <div className="mt-3 flex items-center gap-2">
-            <button
-              type="button"
-              onClick={handleAccept}
-              className="inline-flex items-center gap-2 rounded bg-[rgb(60,77,42)] px-3 py-1.5 text-sm font-medium text-white hover:bg-[rgb(50,64,35)] focus:outline-none focus-visible:ring-2 focus-visible:ring-[rgb(60,77,42)]/40"
-            >
-              {t('consent.accept', 'Enable analytics')}
-            </button>
-
+            checked={choices.analytics}
+            onChange={(analytics) => setChoices((c) => ({ ...c, analytics }))}
+          />
+          <CategoryRow
+            title={t('consent.marketing.title', 'Marketing')}
+            description={t('consent.marketing.description', 'Measuring our advertising campaigns.')}
+            checked={choices.marketing}
+            onChange={(marketing) => setChoices((c) => ({ ...c, marketing }))}
+          />
+          <div className="flex flex-wrap justify-end gap-2 pt-1">
             <button
               type="button"
-              onClick={handleDecline}
-              className="inline-flex items-center gap-2 rounded border border-neutral-200 bg-white px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-50 focus:outline-none"
+              onClick={() => decide({ analytics: false, marketing: false })}
+              className="rounded border border-neutral-200 bg-white px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
             >
-              {t('consent.decline', 'No, thanks')}
+              {t('consent.rejectAll', 'Necessary only')}
             </button>
-
             <button
               type="button"
-              onClick={() => {
-                persistConsent(false)
-                setVisible(false)
-              }}
-              aria-label={t('consent.dismiss', 'Dismiss')}
-              className="ml-auto inline-flex items-center rounded p-2 text-neutral-500 hover:bg-neutral-100"
+              onClick={() => decide(choices)}
+              className="rounded bg-[rgb(60,77,42)] px-3 py-1.5 text-sm font-medium text-white hover:bg-[rgb(50,64,35)]"
             >
-              <X className="h-4 w-4" />
+              {t('consent.save', 'Save my choices')}
             </button>
           </div>
         </div>
-      </div>
-    </div>
+      </Modal>
+    </>
   )
-}
\ No newline at end of file
+}
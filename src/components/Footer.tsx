@@ -3,9 +3,11 @@
  * - Surface translucide + bordure.
  * - Lisible, responsive, accessible.
  * - Caché sur mobile, visible sur desktop/tablet.
+ * - Lien « Cookies » pour rouvrir les préférences de consentement.
  */
 
 import { useTranslation } from 'react-i18next'
+import { openConsentPreferences } from '../lib/consent'
 
 /** Footer global */
 export default function Footer() {
@@ -37,6 +39,13 @@ export default function Footer() {
           >
             {t('footer.legal')}
           </a>
+          <button
+            type="button"
+            onClick={openConsentPreferences}
+            className="underline-offset-4 hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--focus-ring)]"
+          >
+            {t('consent.footerLink', 'Cookies')}
+          </button>
         </nav>
       </div>
     </footer>
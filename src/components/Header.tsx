@@ -4,6 +4,7 @@
  * - Displays the provided transparent brand image via BrandLogo.
  * - Adds a "Jobs" button adjacent to the Share/Partager button and opens a full-screen Jobs modal (no route change).
  * - Keeps share menu and language switcher on the right.
+ * - Staff (support, admin) get an "Admin" link to the #/admin area.
  */
 
 import React, { useState } from 'react'
@@ -16,6 +17,7 @@ import JobsModal from './jobs/JobsModal'
 import { trackEvent } from '../lib/analytics'
 import { useAuthStore } from '../stores/auth'
 import { Link, useNavigate } from 'react-router'
+import { can } from '../../shared/roles.mjs'
 
 /**
  * Header
@@ -70,6 +72,24 @@ export function Header() {
 
           <LanguageSwitcher />
 
+          {can(user?.role, 'admin:access') ? (
+            <Link
+              to="/admin"
+              className="rounded border border-[rgba(98,120,85,0.5)] px-3 py-1.5 text-sm text-neutral-900 hover:border-[rgb(60,77,42)]"
+            >
+              Admin
+            </Link>
+          ) : null}
+
+          {user ? (
+            <Link
+              to="/cvs"
+              className="rounded border border-[rgba(98,120,85,0.5)] px-3 py-1.5 text-sm text-neutral-900 hover:border-[rgb(60,77,42)]"
+            >
+              {t('cvs.title', 'Mes CV')}
+            </Link>
+          ) : null}
+
           {user ? (
             <button
               type="button"
@@ -1,93 +1,185 @@
 /**
  * AdminDashboard.tsx
  * Composition du tableau de bord admin (KPIs, graphiques, paiements).
- * - Données simulées pour la démonstration.
+ * - Données réelles agrégées par le serveur (/api/admin), par jour UTC.
+ * - Période sélectionnable: 7 / 14 / 30 / 90 derniers jours ou dates libres.
+ * - Conversion = entonnoir d'événements first-party (FunnelChart); rétention par cohorte d'inscription.
+ * - Paiements filtrables et exportables (PaymentsPanel); séries journalières exportables en CSV.
+ * - Sections affichées selon les permissions du rôle (le support ne voit que paiements et comptes).
  */
 
-import { useMemo } from 'react'
-import { Eye, Users, CreditCard, TrendingUp } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Eye, Users, CreditCard, TrendingUp, UserPlus, FileText } from 'lucide-react'
 import KpiCard from './KpiCard'
 import VisitsChart from './VisitsChart'
 import RevenueChart from './RevenueChart'
-import PaymentsTable from './PaymentsTable'
-import type { AdminStats, PaymentRecord, VisitPoint } from '../../types/admin'
-
-/** Génère une série de visites pour N jours. */
-function generateVisits(days = 14): VisitPoint[] {
-  const out: VisitPoint[] = []
-  const now = new Date()
-  for (let i = days - 1; i >= 0; i--) {
-    const d = new Date(now)
-    d.setDate(now.getDate() - i)
-    const date = d.toISOString().slice(0, 10)
-    const base = 200 + Math.round(Math.random() * 200)
-    const season = Math.sin((i / days) * Math.PI) * 60
-    out.push({ date, visits: Math.max(60, Math.round(base + season)) })
-  }
-  return out
+import FunnelChart from './FunnelChart'
+import CohortRetention from './CohortRetention'
+import PaymentsPanel from './PaymentsPanel'
+import TeamPanel from './TeamPanel'
+import { useAuthStore } from '../../stores/auth'
+import { downloadVisitsCsv, fetchAdminStats, fetchCohorts, fetchFunnel } from '../../lib/adminApi'
+import type { AdminStatsResponse, CohortReport, DateRange, FunnelReport } from '../../types/admin'
+import { can, type Role } from '../../../shared/roles.mjs'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PRESETS = [7, 14, 30, 90]
+
+/** Jour UTC (YYYY-MM-DD), comme côté serveur. */
+function utcDay(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10)
 }
 
-/** Génère des paiements de démo. */
-function generatePayments(count = 10): PaymentRecord[] {
-  const plans: Array<'student' | 'pro' | 'advanced'> = ['student', 'pro', 'advanced']
-  const statuses: Array<'paid' | 'refunded' | 'failed'> = ['paid', 'refunded', 'failed']
-  const names = ['Aïcha', 'Benoît', 'Chantal', 'David', 'Emma', 'Fara', 'Gabriel', 'Hugo', 'Imane', 'Jules']
-
-  const arr: PaymentRecord[] = []
-  for (let i = 0; i < count; i++) {
-    const plan = plans[Math.floor(Math.random() * plans.length)]
-    const status = statuses[Math.floor(Math.random() * statuses.length)]
-    const amount = plan === 'student' ? 1 : plan === 'pro' ? 2 : 3
-    const d = new Date()
-    d.setDate(d.getDate() - Math.floor(Math.random() * 7))
-    d.setHours(9 + Math.floor(Math.random() * 9))
-    d.setMinutes(Math.floor(Math.random() * 60))
-    arr.push({
-      id: `P-${String(i + 1).padStart(4, '0')}`,
-      customer: names[i % names.length],
-      email: `${names[i % names.length].toLowerCase()}@exemple.com`,
-      plan,
-      amount,
-      status,
-      date: d.toISOString().slice(0, 16).replace('T', ' '),
-    })
-  }
-  return arr
+/** Les `days` derniers jours, aujourd'hui inclus. */
+function lastDays(days: number): DateRange {
+  const now = Date.now()
+  return { from: utcDay(now - (days - 1) * DAY_MS), to: utcDay(now) }
 }
 
-/** Calcule les KPIs depuis les visites et paiements. */
-function computeStats(visits: VisitPoint[], payments: PaymentRecord[]): AdminStats {
-  const totalVisits = visits.reduce((s, v) => s + v.visits, 0)
-  const activeUsers = Math.round(totalVisits * 0.3)
-  const totalRevenue = payments.filter((p) => p.status === 'paid').reduce((s, p) => s + p.amount, 0)
-  const conversionRate = totalVisits ? totalRevenue / totalVisits : 0
-  return { totalVisits, activeUsers, totalRevenue, conversionRate }
+/** Props du dashboard. */
+export interface AdminDashboardProps {
+  role: Role
 }
 
-/** Dashboard Admin (données simulées). */
-export default function AdminDashboard() {
-  const visits = useMemo(() => generateVisits(14), [])
-  const payments = useMemo(() => generatePayments(12), [])
-  const stats = useMemo(() => computeStats(visits, payments), [visits, payments])
+/** Dashboard Admin. */
+export default function AdminDashboard({ role }: AdminDashboardProps) {
+  const showStats = can(role, 'stats:read')
+  const showPayments = can(role, 'payments:read')
+  const showTeam = can(role, 'users:read')
+  const token = useAuthStore((s) => s.token)
+  const [range, setRange] = useState<DateRange>(() => lastDays(14))
+  const [stats, setStats] = useState<AdminStatsResponse | null>(null)
+  const [funnel, setFunnel] = useState<FunnelReport | null>(null)
+  const [cohorts, setCohorts] = useState<CohortReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!token || !showStats || !range.from || !range.to) return
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    Promise.all([fetchAdminStats(token, range), fetchFunnel(token, range), fetchCohorts(token, range)])
+      .then(([s, f, c]) => {
+        if (cancelled) return
+        setStats(s)
+        setFunnel(f)
+        setCohorts(c)
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Statistiques indisponibles.'))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [token, range, showStats])
+
+  const exportVisits = () => {
+    if (!token) return
+    downloadVisitsCsv(token, range).catch((e) => setError(e instanceof Error ? e.message : 'Export impossible.'))
+  }
+
+  const totals = stats?.totals
+  const activePreset = PRESETS.find((d) => {
+    const r = lastDays(d)
+    return r.from === range.from && r.to === range.to
+  })
 
   return (
     <div className="mx-auto w-full max-w-6xl space-y-4 px-4 py-4 md:py-6">
-      {/* KPIs */}
-      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 md:grid-cols-4">
-        <KpiCard title="Visites" value={stats.totalVisits.toLocaleString('fr-FR')} icon={<Eye className="h-5 w-5" />} />
-        <KpiCard title="Utilisateurs actifs" value={stats.activeUsers.toLocaleString('fr-FR')} icon={<Users className="h-5 w-5" />} />
-        <KpiCard title="Revenu total" value={`$${stats.totalRevenue.toFixed(2)}`} icon={<CreditCard className="h-5 w-5" />} />
-        <KpiCard title="Conversion" value={`${(stats.conversionRate * 100).toFixed(2)}%`} icon={<TrendingUp className="h-5 w-5" />} />
+      {/* Période */}
+      <div className="flex flex-wrap items-end gap-2">
+        {PRESETS.map((d) => (
+          <button
+            key={d}
+            type="button"
+            onClick={() => setRange(lastDays(d))}
+            className={`rounded border px-3 py-1.5 text-sm ${
+              activePreset === d ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-300 hover:bg-slate-50'
+            }`}
+          >
+            {d} j
+          </button>
+        ))}
+        <label className="text-xs text-slate-600">
+          Du
+          <input
+            type="date"
+            className="ml-1 rounded border border-slate-300 px-2 py-1 text-sm"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))}
+          />
+        </label>
+        <label className="text-xs text-slate-600">
+          au
+          <input
+            type="date"
+            className="ml-1 rounded border border-slate-300 px-2 py-1 text-sm"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))}
+          />
+        </label>
+        {loading ? <span className="text-xs text-slate-500">Chargement…</span> : null}
+        {showStats ? (
+          <button
+            type="button"
+            onClick={exportVisits}
+            className="ml-auto rounded border border-slate-300 px-3 py-1.5 text-sm hover:bg-slate-50"
+          >
+            Exporter les visites (CSV)
+          </button>
+        ) : null}
       </div>
 
+      {error ? <p className="text-sm text-rose-700">{error}</p> : null}
+
+      {/* KPIs */}
+      {showStats ? (
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 md:grid-cols-3">
+          <KpiCard
+            title="Visites"
+            value={(totals?.visits ?? 0).toLocaleString('fr-FR')}
+            sub={`${(totals?.pageViews ?? 0).toLocaleString('fr-FR')} pages vues`}
+            icon={<Eye className="h-5 w-5" />}
+          />
+          <KpiCard title="Utilisateurs actifs" value={(totals?.activeUsers ?? 0).toLocaleString('fr-FR')} icon={<Users className="h-5 w-5" />} />
+          <KpiCard title="Inscriptions" value={(totals?.signups ?? 0).toLocaleString('fr-FR')} icon={<UserPlus className="h-5 w-5" />} />
+          <KpiCard
+            title="Revenu total"
+            value={`$${(totals?.revenue ?? 0).toFixed(2)}`}
+            sub={`${totals?.payments ?? 0} paiement(s), ${totals?.failedPayments ?? 0} échec(s)`}
+            icon={<CreditCard className="h-5 w-5" />}
+          />
+          <KpiCard
+            title="Conversion"
+            value={`${((funnel?.conversionRate ?? 0) * 100).toFixed(2)}%`}
+            sub="sessions payées / formulaires commencés"
+            icon={<TrendingUp className="h-5 w-5" />}
+          />
+          <KpiCard title="CV créés" value={(totals?.cvsCreated ?? 0).toLocaleString('fr-FR')} icon={<FileText className="h-5 w-5" />} />
+        </div>
+      ) : null}
+
       {/* Graphiques */}
-      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
-        <VisitsChart data={visits} />
-        <RevenueChart payments={payments} />
-      </div>
+      {showStats ? (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-3">
+          <VisitsChart data={stats?.days ?? []} />
+          <RevenueChart data={stats?.days ?? []} />
+          <CohortRetention report={cohorts} />
+        </div>
+      ) : null}
+
+      {/* Entonnoir */}
+      {showStats ? (
+        <FunnelChart report={funnel} />
+      ) : null}
 
       {/* Tableau paiements */}
-      <PaymentsTable payments={payments.slice(0, 8)} />
+      {showPayments ? <PaymentsPanel range={range} role={role} /> : null}
+
+      {/* Comptes et rôles */}
+      {showTeam ? <TeamPanel /> : null}
     </div>
   )
 }
@@ -1,39 +1,39 @@
 /**
  * AdminScreen.tsx
- * Superposition plein écran pour l'espace administrateur.
- * - Contient un header fixe et le dashboard.
+ * Mise en page plein écran de l'espace administrateur (route #/admin, voir pages/Admin.tsx).
+ * - Header fixe avec le rôle connecté et le retour au site, puis le dashboard.
  */
 
+import { Link } from 'react-router'
 import AdminDashboard from './AdminDashboard'
+import type { Role } from '../../../shared/roles.mjs'
 
 /** Props de l'écran admin. */
 export interface AdminScreenProps {
-  /** Ouvert/fermé. */
-  open: boolean
-  /** Callback de fermeture. */
-  onClose: () => void
+  /** Rôle de l'utilisateur connecté (support ou admin). */
+  role: Role
 }
 
-/** Superposition Admin (sans routing). */
-export default function AdminScreen({ open, onClose }: AdminScreenProps) {
-  if (!open) return null
+/** Espace Admin. */
+export default function AdminScreen({ role }: AdminScreenProps) {
   return (
     <div className="fixed inset-0 z-50 flex flex-col bg-white">
       {/* Barre supérieure */}
       <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3 md:px-6">
-        <div className="text-base font-semibold text-slate-900">Espace administrateur</div>
-        <button
-          type="button"
-          onClick={onClose}
-          className="rounded border border-slate-300 px-3 py-1.5 text-sm hover:bg-slate-50"
-        >
-          Fermer
-        </button>
+        <div className="text-base font-semibold text-slate-900">
+          Espace administrateur
+          <span className="ml-2 rounded border border-slate-300 px-2 py-0.5 text-xs font-normal text-slate-600">
+            {role === 'admin' ? 'Admin' : 'Support'}
+          </span>
+        </div>
+        <Link to="/" className="rounded border border-slate-300 px-3 py-1.5 text-sm hover:bg-slate-50">
+          Retour au site
+        </Link>
       </div>
 
       {/* Contenu */}
       <div className="flex-1 overflow-auto">
-        <AdminDashboard />
+        <AdminDashboard role={role} />
       </div>
     </div>
   )
@@ -0,0 +1,77 @@
+/**
+ * CohortRetention.tsx
+ * Rétention hebdomadaire des comptes par semaine d'inscription (cohortes).
+ * - Semaine 0 = semaine d'inscription; S1, S2… = part des membres revenus sur le site cette semaine-là.
+ * - Cellules teintées selon le taux; vides pour les semaines pas encore écoulées.
+ */
+
+import type { CohortReport } from '../../types/admin'
+
+/** Props du tableau de cohortes. */
+export interface CohortRetentionProps {
+  title?: string
+  report: CohortReport | null
+}
+
+/** Fond vert plus soutenu quand la rétention est forte. */
+function cellStyle(rate: number) {
+  return { backgroundColor: `rgba(16, 185, 129, ${0.08 + rate * 0.6})` }
+}
+
+/** Carte cohortes. */
+export default function CohortRetention({ title = 'Rétention par cohorte', report }: CohortRetentionProps) {
+  const weeks = report?.weeks ?? 0
+  const cohorts = report?.cohorts ?? []
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-3 shadow-sm">
+      <div className="mb-2 text-sm font-semibold text-slate-900">{title}</div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full border-collapse text-xs">
+          <thead>
+            <tr className="text-left text-slate-600">
+              <th className="border-b border-slate-200 py-1.5 pr-2 font-medium">Semaine</th>
+              <th className="border-b border-slate-200 py-1.5 px-2 text-right font-medium">Comptes</th>
+              {Array.from({ length: weeks }, (_, k) => (
+                <th key={k} className="border-b border-slate-200 py-1.5 px-2 text-right font-medium">
+                  S{k}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {cohorts.length === 0 ? (
+              <tr>
+                <td colSpan={weeks + 2} className="py-3 text-center text-slate-500">
+                  Aucune cohorte sur la période.
+                </td>
+              </tr>
+            ) : null}
+            {cohorts.map((c) => (
+              <tr key={c.week} className="border-b border-slate-100">
+                <td className="py-1.5 pr-2 text-slate-800">
+                  {new Date(`${c.week}T00:00:00Z`).toLocaleDateString('fr-FR', { day: '2-digit', month: 'short', timeZone: 'UTC' })}
+                </td>
+                <td className="py-1.5 px-2 text-right text-slate-900">{c.users}</td>
+                {c.active.map((n, k) =>
+                  n === null || c.users === 0 ? (
+                    <td key={k} className="py-1.5 px-2" />
+                  ) : (
+                    <td
+                      key={k}
+                      className="py-1.5 px-2 text-right text-slate-900"
+                      style={cellStyle(n / c.users)}
+                      title={`${n} / ${c.users}`}
+                    >
+                      {Math.round((n / c.users) * 100)}%
+                    </td>
+                  )
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
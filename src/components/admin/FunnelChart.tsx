@@ -0,0 +1,127 @@
+/**
+ * FunnelChart.tsx
+ * Entonnoir de conversion (événements first-party): formulaire → aperçu → plan → paiement → payé → téléchargé.
+ * - Barres horizontales des sessions par étape, avec le taux de passage depuis l'étape précédente.
+ * - Ventilation optionnelle par plan, langue, pays ou opérateur de paiement (tableau).
+ */
+
+import { useState } from 'react'
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, LabelList } from 'recharts'
+import type { FunnelDimension, FunnelReport, FunnelStage } from '../../types/admin'
+
+const STAGE_LABELS: Record<FunnelStage, string> = {
+  form_started: 'Formulaire',
+  preview: 'Aperçu',
+  plan_chosen: 'Plan choisi',
+  payment_started: 'Paiement lancé',
+  paid: 'Payé',
+  downloaded: 'Téléchargé',
+}
+
+const DIMENSIONS: { value: FunnelDimension; label: string }[] = [
+  { value: 'plan', label: 'Plan' },
+  { value: 'language', label: 'Langue' },
+  { value: 'country', label: 'Pays' },
+  { value: 'provider', label: 'Opérateur' },
+]
+
+/** Pourcentage lisible, "—" sans base. */
+function percent(part: number, whole: number) {
+  return whole ? `${((part / whole) * 100).toFixed(1)}%` : '—'
+}
+
+/** Props de l'entonnoir. */
+export interface FunnelChartProps {
+  title?: string
+  report: FunnelReport | null
+}
+
+/** Carte entonnoir + ventilation. */
+export default function FunnelChart({ title = 'Entonnoir de conversion', report }: FunnelChartProps) {
+  const [dimension, setDimension] = useState<FunnelDimension | ''>('')
+  const stages = report?.stages ?? []
+  const rows = stages.map((s, i) => ({
+    stage: STAGE_LABELS[s.stage],
+    sessions: s.sessions,
+    rate: i === 0 ? '' : percent(s.sessions, stages[i - 1].sessions),
+  }))
+  const breakdown = dimension && report ? report.breakdowns[dimension] : []
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-3 shadow-sm">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-slate-900">{title}</div>
+        <label className="text-xs text-slate-600">
+          Ventiler par
+          <select
+            className="ml-1 rounded border border-slate-300 px-2 py-1 text-sm"
+            value={dimension}
+            onChange={(e) => setDimension(e.target.value as FunnelDimension | '')}
+          >
+            <option value="">—</option>
+            {DIMENSIONS.map((d) => (
+              <option key={d.value} value={d.value}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {stages[0]?.sessions ? (
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={rows} layout="vertical" margin={{ left: 24, right: 48 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" horizontal={false} />
+              <XAxis type="number" tick={{ fontSize: 12 }} stroke="#64748b" allowDecimals={false} />
+              <YAxis type="category" dataKey="stage" tick={{ fontSize: 12 }} stroke="#64748b" width={96} />
+              <Tooltip contentStyle={{ fontSize: 12 }} formatter={(v: any) => [v, 'Sessions']} />
+              <Bar dataKey="sessions" fill="#10b981" radius={[0, 4, 4, 0]}>
+                <LabelList dataKey="rate" position="right" style={{ fontSize: 11, fill: '#475569' }} />
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="py-6 text-center text-sm text-slate-500">
+          Aucun événement sur la période (les visiteurs doivent accepter la mesure d’audience).
+        </p>
+      )}
+
+      {breakdown.length ? (
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full border-collapse text-sm">
+            <thead>
+              <tr className="text-left text-slate-600">
+                <th className="border-b border-slate-200 py-2 pr-3 font-medium">
+                  {DIMENSIONS.find((d) => d.value === dimension)?.label}
+                </th>
+                {stages.map((s) => (
+                  <th key={s.stage} className="border-b border-slate-200 py-2 px-3 text-right font-medium">
+                    {STAGE_LABELS[s.stage]}
+                  </th>
+                ))}
+                <th className="border-b border-slate-200 py-2 pl-3 text-right font-medium">Conversion</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.map((row) => (
+                <tr key={row.value} className="border-b border-slate-100">
+                  <td className="py-2 pr-3 text-slate-900">{row.value === 'unknown' ? 'Inconnu' : row.value}</td>
+                  {row.sessions.map((n, i) => (
+                    <td key={stages[i]?.stage ?? i} className="py-2 px-3 text-right text-slate-800">
+                      {n}
+                    </td>
+                  ))}
+                  <td className="py-2 pl-3 text-right font-medium text-slate-900">
+                    {percent(row.sessions[4] ?? 0, row.sessions[0] ?? 0)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+/**
+ * PaymentActionDialog.tsx
+ * Boîte de dialogue des actions du personnel sur un paiement: rembourser, signaler un litige, noter.
+ * - Affiche le détail (remboursement, litige, notes) et le journal d'audit du paiement.
+ * - Le remboursement est total; l'accès au téléchargement est retiré une fois le remboursement abouti.
+ */
+
+import { useEffect, useState } from 'react'
+import Modal from '../Modal'
+import { useAuthStore } from '../../stores/auth'
+import { fetchAdminPayment, runPaymentAction } from '../../lib/adminApi'
+import type { AuditEntry, PaymentAction, PaymentDetail, PaymentRecord } from '../../types/admin'
+
+const TITLES: Record<PaymentAction, string> = {
+  refund: 'Rembourser le paiement',
+  dispute: 'Signaler un litige',
+  note: 'Ajouter une note',
+}
+
+const SUBMIT_LABELS: Record<PaymentAction, string> = {
+  refund: 'Rembourser',
+  dispute: 'Signaler',
+  note: 'Enregistrer la note',
+}
+
+const AUDIT_LABELS: Record<string, string> = {
+  'payment.refund.requested': 'Remboursement demandé',
+  'payment.refund.completed': 'Remboursement effectué',
+  'payment.dispute': 'Litige signalé',
+  'payment.note': 'Note ajoutée',
+}
+
+/** Props de la boîte de dialogue. */
+export interface PaymentActionDialogProps {
+  payment: PaymentRecord | null
+  action: PaymentAction
+  onClose: () => void
+  /** Ligne mise à jour après l'action. */
+  onDone: (payment: PaymentRecord) => void
+}
+
+/** Dialogue d'action sur un paiement. */
+export default function PaymentActionDialog({ payment, action, onClose, onDone }: PaymentActionDialogProps) {
+  const token = useAuthStore((s) => s.token)
+  const [detail, setDetail] = useState<PaymentDetail | null>(null)
+  const [audit, setAudit] = useState<AuditEntry[]>([])
+  const [text, setText] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setText('')
+    setError(null)
+    setDetail(null)
+    setAudit([])
+    if (!token || !payment) return
+    let cancelled = false
+    fetchAdminPayment(token, payment.id)
+      .then((res) => {
+        if (cancelled) return
+        setDetail(res.payment)
+        setAudit(res.audit)
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Détail indisponible.'))
+    return () => {
+      cancelled = true
+    }
+  }, [token, payment])
+
+  const submit = async () => {
+    if (!token || !payment) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await runPaymentAction(token, payment.id, action, text.trim())
+      onDone(res.payment)
+      onClose()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Action impossible.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const textRequired = action !== 'refund'
+
+  return (
+    <Modal open={!!payment} onOpenChange={(next) => !next && onClose()} title={TITLES[action]}>
+      {payment ? (
+        <div className="space-y-3 text-sm text-slate-800">
+          <p>
+            <span className="font-medium">{payment.customer}</span> · {payment.plan} · {payment.amount.toFixed(2)}{' '}
+            {payment.currency} · {new Date(payment.createdAt).toLocaleString('fr-FR')}
+          </p>
+
+          {action === 'refund' ? (
+            <p className="rounded border border-amber-200 bg-amber-50 p-2 text-amber-900">
+              Remboursement total via {payment.provider || payment.method}. L’accès au téléchargement acheté avec ce
+              paiement sera retiré dès que le remboursement aboutit.
+            </p>
+          ) : null}
+
+          {detail?.dispute ? (
+            <p className="text-xs text-slate-600">
+              Litige signalé le {new Date(detail.dispute.openedAt).toLocaleString('fr-FR')} : {detail.dispute.reason}
+            </p>
+          ) : null}
+          {detail?.refund?.status === 'failed' ? (
+            <p className="text-xs text-rose-700">
+              Dernier remboursement refusé{detail.refund.failureReason?.failureMessage ? ` : ${detail.refund.failureReason.failureMessage}` : ''}
+            </p>
+          ) : null}
+
+          <label className="block">
+            <span className="mb-1 block text-xs font-medium text-slate-700">
+              {action === 'note' ? 'Note' : textRequired ? 'Motif' : 'Motif (facultatif)'}
+            </span>
+            <textarea
+              className="w-full rounded border border-slate-300 px-2 py-1"
+              rows={3}
+              maxLength={1000}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </label>
+
+          {error ? <p className="text-rose-700">{error}</p> : null}
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onClose} className="rounded border border-slate-300 px-3 py-1.5 hover:bg-slate-50">
+              Annuler
+            </button>
+            <button
+              type="button"
+              disabled={busy || (textRequired && !text.trim())}
+              onClick={submit}
+              className={`rounded px-3 py-1.5 text-white disabled:opacity-50 ${
+                action === 'refund' ? 'bg-rose-700 hover:bg-rose-800' : 'bg-slate-900 hover:bg-slate-800'
+              }`}
+            >
+              {busy ? '...' : SUBMIT_LABELS[action]}
+            </button>
+          </div>
+
+          {detail?.notes.length ? (
+            <div>
+              <div className="mb-1 text-xs font-semibold text-slate-700">Notes</div>
+              <ul className="max-h-32 space-y-1 overflow-y-auto text-xs">
+                {detail.notes.map((n) => (
+                  <li key={n.id} className="rounded bg-slate-50 p-2">
+                    <span className="text-slate-500">
+                      {new Date(n.at).toLocaleString('fr-FR')} · {n.authorName || n.authorId}
+                    </span>
+                    <div className="whitespace-pre-wrap">{n.text}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          {audit.length ? (
+            <div>
+              <div className="mb-1 text-xs font-semibold text-slate-700">Journal</div>
+              <ul className="max-h-32 space-y-0.5 overflow-y-auto text-xs text-slate-600">
+                {audit.map((e) => (
+                  <li key={e.id}>
+                    {new Date(e.at).toLocaleString('fr-FR')} · {AUDIT_LABELS[e.action] || e.action} ·{' '}
+                    {e.actorId ? e.actorName || e.actorId : 'opérateur de paiement'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </Modal>
+  )
+}
@@ -0,0 +1,190 @@
+/**
+ * PaymentsPanel.tsx
+ * Liste des paiements pour la finance: filtres, recherche, tri, pagination serveur et export CSV.
+ * - Filtres: plan, statut, opérateur, pays (valeurs présentes sur la période) et recherche client.
+ * - L'export CSV reprend exactement les filtres et le tri affichés, sans limite de pages.
+ */
+
+import { useEffect, useState } from 'react'
+import PaymentsTable from './PaymentsTable'
+import { useAuthStore } from '../../stores/auth'
+import { downloadPaymentsCsv, fetchAdminPayments } from '../../lib/adminApi'
+import type { DateRange, PaymentFilters, PaymentSort, PaymentsPage, PaymentStatus } from '../../types/admin'
+import type { Role } from '../../../shared/roles.mjs'
+
+const PAGE_SIZE = 20
+
+const STATUS_OPTIONS: { value: PaymentStatus; label: string }[] = [
+  { value: 'paid', label: 'Payé' },
+  { value: 'pending', label: 'En attente' },
+  { value: 'refunded', label: 'Remboursé' },
+  { value: 'failed', label: 'Échec' },
+]
+
+const SELECT_CLASS = 'rounded border border-slate-300 px-2 py-1 text-sm'
+
+/** Props du panneau. */
+export interface PaymentsPanelProps {
+  range: DateRange
+  role: Role
+}
+
+/** Panneau paiements (filtres + tableau + pagination). */
+export default function PaymentsPanel({ range, role }: PaymentsPanelProps) {
+  const token = useAuthStore((s) => s.token)
+  const [filters, setFilters] = useState<PaymentFilters>({})
+  const [search, setSearch] = useState('')
+  const [sort, setSort] = useState<PaymentSort>({ sort: 'createdAt', dir: 'desc' })
+  const [page, setPage] = useState(1)
+  const [data, setData] = useState<PaymentsPage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
+
+  // Nouveaux filtres ou nouveau tri: retour en page 1
+  const setFilter = <K extends keyof PaymentFilters>(key: K, value: PaymentFilters[K]) => {
+    setFilters((f) => ({ ...f, [key]: value }))
+    setPage(1)
+  }
+  const changeSort = (next: PaymentSort) => {
+    setSort(next)
+    setPage(1)
+  }
+
+  // Recherche appliquée après une pause de frappe
+  useEffect(() => {
+    const id = setTimeout(() => {
+      if ((filters.q ?? '') !== search.trim()) setFilter('q', search.trim())
+    }, 300)
+    return () => clearTimeout(id)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search])
+
+  useEffect(() => setPage(1), [range])
+
+  useEffect(() => {
+    if (!token || !range.from || !range.to) return
+    let cancelled = false
+    setError(null)
+    fetchAdminPayments(token, range, filters, sort, page, PAGE_SIZE)
+      .then((res) => !cancelled && setData(res))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Paiements indisponibles.'))
+    return () => {
+      cancelled = true
+    }
+  }, [token, range, filters, sort, page])
+
+  const exportCsv = async () => {
+    if (!token) return
+    setExporting(true)
+    setError(null)
+    try {
+      await downloadPaymentsCsv(token, range, filters, sort)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Export impossible.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const total = data?.total ?? 0
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  const toolbar = (
+    <div className="mb-2 flex flex-wrap items-center gap-2">
+      <input
+        type="search"
+        className="w-56 rounded border border-slate-300 px-2 py-1 text-sm"
+        placeholder="Client, e-mail, téléphone, ID"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+      <select className={SELECT_CLASS} value={filters.plan ?? ''} onChange={(e) => setFilter('plan', e.target.value as PaymentFilters['plan'])}>
+        <option value="">Tous les plans</option>
+        {data?.facets.plans.map((plan) => (
+          <option key={plan} value={plan} className="capitalize">
+            {plan}
+          </option>
+        ))}
+      </select>
+      <select
+        className={SELECT_CLASS}
+        value={filters.status ?? ''}
+        onChange={(e) => setFilter('status', e.target.value as PaymentFilters['status'])}
+      >
+        <option value="">Tous les statuts</option>
+        {STATUS_OPTIONS.map((s) => (
+          <option key={s.value} value={s.value}>
+            {s.label}
+          </option>
+        ))}
+      </select>
+      <select className={SELECT_CLASS} value={filters.provider ?? ''} onChange={(e) => setFilter('provider', e.target.value)}>
+        <option value="">Tous les opérateurs</option>
+        {data?.facets.providers.map((provider) => (
+          <option key={provider} value={provider}>
+            {provider}
+          </option>
+        ))}
+      </select>
+      <select className={SELECT_CLASS} value={filters.country ?? ''} onChange={(e) => setFilter('country', e.target.value)}>
+        <option value="">Tous les pays</option>
+        {data?.facets.countries.map((country) => (
+          <option key={country} value={country}>
+            {country}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={exportCsv}
+        disabled={exporting || total === 0}
+        className="ml-auto rounded border border-slate-300 px-3 py-1 text-sm hover:bg-slate-50 disabled:opacity-50"
+      >
+        {exporting ? 'Export…' : 'Exporter CSV'}
+      </button>
+      {error ? <p className="w-full text-sm text-rose-700">{error}</p> : null}
+    </div>
+  )
+
+  const footer = (
+    <div className="mt-2 flex items-center justify-between text-xs text-slate-600">
+      <span>{total.toLocaleString('fr-FR')} paiement(s)</span>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          disabled={page <= 1}
+          onClick={() => setPage((p) => p - 1)}
+          className="rounded border border-slate-300 px-2 py-0.5 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Précédent
+        </button>
+        <span>
+          Page {page} / {pages}
+        </span>
+        <button
+          type="button"
+          disabled={page >= pages}
+          onClick={() => setPage((p) => p + 1)}
+          className="rounded border border-slate-300 px-2 py-0.5 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Suivant
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <PaymentsTable
+      title="Paiements"
+      payments={data?.payments ?? []}
+      role={role}
+      onChanged={(updated) =>
+        setData((d) => d && { ...d, payments: d.payments.map((p) => (p.id === updated.id ? updated : p)) })
+      }
+      sort={sort}
+      onSortChange={changeSort}
+      toolbar={toolbar}
+      footer={footer}
+    />
+  )
+}
@@ -1,21 +1,34 @@
 /**
  * PaymentsTable.tsx
- * Tableau des derniers paiements (démo).
- * - Affiche client, plan, montant, statut, date.
+ * Tableau des derniers paiements.
+ * - Affiche client, plan, montant, moyen de paiement, statut, date.
+ * - Actions selon le rôle: rembourser (paiements payés), signaler un litige, ajouter une note.
+ * - Tri optionnel par montant ou date; filtres et pagination fournis par PaymentsPanel (toolbar / footer).
  */
 
-import type { PaymentRecord } from '../../types/admin'
+import { useState, type ReactNode } from 'react'
+import PaymentActionDialog from './PaymentActionDialog'
+import type { PaymentAction, PaymentRecord, PaymentSort } from '../../types/admin'
+import { can, type Role } from '../../../shared/roles.mjs'
+
+const STATUS_LABELS: Record<PaymentRecord['status'], string> = {
+  paid: 'Payé',
+  pending: 'En attente',
+  refunded: 'Remboursé',
+  failed: 'Échec',
+}
 
 /** Badge statut. */
 function StatusBadge({ status }: { status: PaymentRecord['status'] }) {
   const map: Record<PaymentRecord['status'], string> = {
     paid: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+    pending: 'bg-slate-100 text-slate-700 border-slate-200',
     refunded: 'bg-amber-100 text-amber-900 border-amber-200',
     failed: 'bg-rose-100 text-rose-900 border-rose-200',
   }
   return (
     <span className={`inline-flex items-center rounded border px-2 py-0.5 text-xs ${map[status]}`}>
-      {status === 'paid' ? 'Payé' : status === 'refunded' ? 'Remboursé' : 'Échec'}
+      {STATUS_LABELS[status]}
     </span>
   )
 }
@@ -24,42 +37,137 @@ function StatusBadge({ status }: { status: PaymentRecord['status'] }) {
 export interface PaymentsTableProps {
   title?: string
   payments: PaymentRecord[]
+  /** Rôle du personnel connecté; sans rôle, pas de colonne d'actions. */
+  role?: Role
+  /** Ligne mise à jour après une action. */
+  onChanged?: (payment: PaymentRecord) => void
+  /** Tri courant; sans onSortChange, les en-têtes ne sont pas cliquables. */
+  sort?: PaymentSort
+  onSortChange?: (sort: PaymentSort) => void
+  /** Filtres (au-dessus) et pagination (en dessous). */
+  toolbar?: ReactNode
+  footer?: ReactNode
 }
 
 /** Tableau responsive des paiements. */
-export default function PaymentsTable({ title = 'Derniers paiements', payments }: PaymentsTableProps) {
+export default function PaymentsTable({
+  title = 'Derniers paiements',
+  payments,
+  role,
+  onChanged,
+  sort,
+  onSortChange,
+  toolbar,
+  footer,
+}: PaymentsTableProps) {
+  const [pending, setPending] = useState<{ payment: PaymentRecord; action: PaymentAction } | null>(null)
+  const canRefund = can(role, 'payments:refund')
+  const canDispute = can(role, 'payments:dispute')
+  const canNote = can(role, 'payments:note')
+  const showActions = canRefund || canDispute || canNote
+  const columns = showActions ? 6 : 5
+
+  const actionButton = (payment: PaymentRecord, action: PaymentAction, label: string) => (
+    <button
+      type="button"
+      onClick={() => setPending({ payment, action })}
+      className={`rounded border px-2 py-0.5 text-xs hover:bg-slate-50 ${
+        action === 'refund' ? 'border-rose-300 text-rose-800' : 'border-slate-300 text-slate-700'
+      }`}
+    >
+      {label}
+    </button>
+  )
+
+  /** En-tête triable: un clic inverse le sens, une autre colonne repart en décroissant. */
+  const sortHeader = (key: PaymentSort['sort'], label: string) => {
+    if (!onSortChange) return label
+    const active = sort?.sort === key
+    return (
+      <button
+        type="button"
+        className="font-medium hover:text-slate-900"
+        onClick={() => onSortChange({ sort: key, dir: active && sort?.dir === 'desc' ? 'asc' : 'desc' })}
+      >
+        {label}
+        {active ? (sort?.dir === 'asc' ? ' ↑' : ' ↓') : ''}
+      </button>
+    )
+  }
+
   return (
     <div className="rounded-lg border border-slate-200 bg-white p-3 shadow-sm">
       <div className="mb-2 text-sm font-semibold text-slate-900">{title}</div>
+      {toolbar}
       <div className="overflow-x-auto">
         <table className="min-w-full border-collapse text-sm">
           <thead>
             <tr className="text-left text-slate-600">
               <th className="border-b border-slate-200 py-2 pr-3 font-medium">Client</th>
               <th className="border-b border-slate-200 py-2 px-3 font-medium">Plan</th>
-              <th className="border-b border-slate-200 py-2 px-3 font-medium">Montant</th>
+              <th className="border-b border-slate-200 py-2 px-3 font-medium">{sortHeader('amount', 'Montant')}</th>
               <th className="border-b border-slate-200 py-2 px-3 font-medium">Statut</th>
-              <th className="border-b border-slate-200 py-2 pl-3 font-medium">Date</th>
+              <th className="border-b border-slate-200 py-2 pl-3 font-medium">{sortHeader('createdAt', 'Date')}</th>
+              {showActions ? <th className="border-b border-slate-200 py-2 pl-3 font-medium">Actions</th> : null}
             </tr>
           </thead>
           <tbody>
+            {payments.length === 0 ? (
+              <tr>
+                <td colSpan={columns} className="py-3 text-center text-slate-500">
+                  Aucun paiement ne correspond.
+                </td>
+              </tr>
+            ) : null}
             {payments.map((p) => (
               <tr key={p.id} className="border-b border-slate-100">
                 <td className="py-2 pr-3">
                   <div className="font-medium text-slate-900">{p.customer}</div>
-                  {p.email ? <div className="text-xs text-slate-500">{p.email}</div> : null}
+                  {p.email || p.phone ? (
+                    <div className="text-xs text-slate-500">
+                      {p.email || p.phone}
+                      {p.country ? ` · ${p.country}` : ''}
+                    </div>
+                  ) : null}
                 </td>
                 <td className="py-2 px-3 text-slate-800 capitalize">{p.plan}</td>
-                <td className="py-2 px-3 text-slate-900">${p.amount.toFixed(2)}</td>
+                <td className="py-2 px-3 text-slate-900">
+                  {p.amount.toFixed(2)} {p.currency}
+                  <div className="text-xs text-slate-500">{p.provider || p.method}</div>
+                </td>
                 <td className="py-2 px-3">
                   <StatusBadge status={p.status} />
+                  {p.refundStatus === 'pending' ? <div className="text-xs text-amber-800">Remboursement en cours</div> : null}
+                  {p.refundStatus === 'failed' && p.status === 'paid' ? (
+                    <div className="text-xs text-rose-700">Remboursement refusé</div>
+                  ) : null}
+                  {p.disputed ? <div className="text-xs font-medium text-rose-800">Litige</div> : null}
+                  {p.notesCount ? <div className="text-xs text-slate-500">{p.notesCount} note(s)</div> : null}
                 </td>
-                <td className="py-2 pl-3 text-slate-700">{p.date}</td>
+                <td className="py-2 pl-3 text-slate-700">{new Date(p.createdAt).toLocaleString('fr-FR')}</td>
+                {showActions ? (
+                  <td className="py-2 pl-3">
+                    <div className="flex flex-wrap gap-1">
+                      {canRefund && p.status === 'paid' && p.refundStatus !== 'pending'
+                        ? actionButton(p, 'refund', 'Rembourser')
+                        : null}
+                      {canDispute && !p.disputed ? actionButton(p, 'dispute', 'Litige') : null}
+                      {canNote ? actionButton(p, 'note', 'Note') : null}
+                    </div>
+                  </td>
+                ) : null}
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+      {footer}
+      <PaymentActionDialog
+        payment={pending?.payment ?? null}
+        action={pending?.action ?? 'note'}
+        onClose={() => setPending(null)}
+        onDone={(payment) => onChanged?.(payment)}
+      />
     </div>
   )
 }
@@ -1,50 +1,52 @@
 /**
  * RevenueChart.tsx
- * Graphique barres du revenu par plan (Student/Pro/Advanced).
- * - Agrège les paiements réussis.
+ * Graphique barres du revenu par jour, empilé par plan (Student/Pro/Advanced).
+ * - Paiements aboutis uniquement (agrégés par le serveur).
  */
 
-import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts'
-import type { PaymentRecord } from '../../types/admin'
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts'
+import type { DayStats } from '../../types/admin'
 
 /** Props du graphique de revenu. */
 export interface RevenueChartProps {
   title?: string
-  payments: PaymentRecord[]
+  data: DayStats[]
 }
 
-/** Carte graphique barres. */
-export default function RevenueChart({ title = 'Revenu par plan', payments }: RevenueChartProps) {
-  /** Agrège le revenu par plan (paid uniquement). */
-  const totals = payments.reduce(
-    (acc, p) => {
-      if (p.status !== 'paid') return acc
-      acc[p.plan] = (acc[p.plan] || 0) + p.amount
-      return acc
-    },
-    {} as Record<string, number>
-  )
+const PLANS = [
+  { key: 'student', label: 'Student', color: '#6ee7b7' },
+  { key: 'pro', label: 'Pro', color: '#10b981' },
+  { key: 'advanced', label: 'Advanced', color: '#047857' },
+] as const
 
-  const data = [
-    { plan: 'Student', amount: totals['student'] || 0 },
-    { plan: 'Pro', amount: totals['pro'] || 0 },
-    { plan: 'Advanced', amount: totals['advanced'] || 0 },
-  ]
+/** Carte graphique barres. */
+export default function RevenueChart({ title = 'Revenu par plan', data }: RevenueChartProps) {
+  const rows = data.map((d) => ({ date: d.date, ...d.revenueByPlan }))
 
   return (
     <div className="rounded-lg border border-slate-200 bg-white p-3 shadow-sm">
       <div className="mb-2 text-sm font-semibold text-slate-900">{title}</div>
       <div className="h-56 w-full">
         <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={data}>
+          <BarChart data={rows}>
             <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-            <XAxis dataKey="plan" tick={{ fontSize: 12 }} stroke="#64748b" />
+            <XAxis dataKey="date" tick={{ fontSize: 12 }} stroke="#64748b" />
             <YAxis tick={{ fontSize: 12 }} stroke="#64748b" />
             <Tooltip
               contentStyle={{ fontSize: 12 }}
-              formatter={(v: any) => [`$${Number(v).toFixed(2)}`, 'Revenu']}
+              formatter={(v: any, name: any) => [`$${Number(v).toFixed(2)}`, name]}
             />
-            <Bar dataKey="amount" fill="#10b981" radius={[4, 4, 0, 0]} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {PLANS.map((p, i) => (
+              <Bar
+                key={p.key}
+                dataKey={p.key}
+                name={p.label}
+                stackId="revenue"
+                fill={p.color}
+                radius={i === PLANS.length - 1 ? [4, 4, 0, 0] : undefined}
+              />
+            ))}
           </BarChart>
         </ResponsiveContainer>
       </div>
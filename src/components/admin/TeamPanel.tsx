@@ -0,0 +1,117 @@
+/**
+ * TeamPanel.tsx
+ * Recherche de comptes et gestion des rôles (utilisateur, support, admin).
+ * - Le support peut rechercher; seuls les admins modifient les rôles.
+ * - Les numéros listés dans ADMIN_PHONES restent admin (rôle verrouillé).
+ */
+
+import { useEffect, useState } from 'react'
+import { useAuthStore } from '../../stores/auth'
+import { fetchAdminUsers, updateUserRole } from '../../lib/adminApi'
+import { ROLES, can, type Role } from '../../../shared/roles.mjs'
+import type { AdminUser } from '../../types/admin'
+
+const ROLE_LABELS: Record<Role, string> = {
+  user: 'Utilisateur',
+  support: 'Support',
+  admin: 'Admin',
+}
+
+/** Panneau équipe. */
+export default function TeamPanel() {
+  const { token, user: me } = useAuthStore()
+  const canManage = can(me?.role, 'users:manage')
+  const [query, setQuery] = useState('')
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!token) return
+    let cancelled = false
+    const id = setTimeout(() => {
+      fetchAdminUsers(token, query)
+        .then((res) => !cancelled && setUsers(res.users))
+        .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Recherche impossible.'))
+    }, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(id)
+    }
+  }, [token, query])
+
+  const changeRole = async (target: AdminUser, role: Role) => {
+    if (!token) return
+    setBusyId(target.id)
+    setError(null)
+    try {
+      const res = await updateUserRole(token, target.id, role)
+      setUsers((list) => list.map((u) => (u.id === target.id ? { ...u, ...res.user } : u)))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Modification impossible.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-3 shadow-sm">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-slate-900">Équipe et comptes</div>
+        <input
+          type="search"
+          className="w-64 rounded border border-slate-300 px-2 py-1 text-sm"
+          placeholder="Téléphone, e-mail ou nom"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+      {error ? <p className="mb-2 text-sm text-rose-700">{error}</p> : null}
+      <div className="overflow-x-auto">
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="text-left text-slate-600">
+              <th className="border-b border-slate-200 py-2 pr-3 font-medium">Compte</th>
+              <th className="border-b border-slate-200 py-2 px-3 font-medium">Inscrit le</th>
+              <th className="border-b border-slate-200 py-2 pl-3 font-medium">Rôle</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((u) => (
+              <tr key={u.id} className="border-b border-slate-100">
+                <td className="py-2 pr-3">
+                  <div className="font-medium text-slate-900">{u.name || u.phone}</div>
+                  <div className="text-xs text-slate-500">{[u.phone, u.email].filter(Boolean).join(' · ')}</div>
+                </td>
+                <td className="py-2 px-3 text-slate-700">
+                  {u.createdAt ? new Date(u.createdAt).toLocaleDateString('fr-FR') : '—'}
+                </td>
+                <td className="py-2 pl-3">
+                  {canManage && !u.roleLocked && u.id !== me?.id ? (
+                    <select
+                      className="rounded border border-slate-300 px-2 py-1 text-sm"
+                      value={u.role || 'user'}
+                      disabled={busyId === u.id}
+                      onChange={(e) => changeRole(u, e.target.value as Role)}
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {ROLE_LABELS[r]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-slate-800">
+                      {ROLE_LABELS[u.role || 'user']}
+                      {u.roleLocked ? ' (ADMIN_PHONES)' : ''}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
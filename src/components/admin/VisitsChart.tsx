@@ -1,20 +1,27 @@
 /**
  * VisitsChart.tsx
- * Graphique de visites par jour (ligne) basé sur Recharts.
+ * Graphique d'activité par jour (lignes) basé sur Recharts.
+ * - Visites, inscriptions et CV créés sur la période choisie.
  * - Responsive, palette sobre.
  */
 
-import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts'
-import type { VisitPoint } from '../../types/admin'
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, Legend } from 'recharts'
+import type { DayStats } from '../../types/admin'
 
 /** Props du graphique de visites. */
 export interface VisitsChartProps {
   title?: string
-  data: VisitPoint[]
+  data: DayStats[]
 }
 
-/** Graphique ligne des visites quotidiennes. */
-export default function VisitsChart({ title = 'Visites', data }: VisitsChartProps) {
+const SERIES: Array<{ key: keyof DayStats; label: string; color: string }> = [
+  { key: 'visits', label: 'Visites', color: '#2563eb' },
+  { key: 'signups', label: 'Inscriptions', color: '#f59e0b' },
+  { key: 'cvsCreated', label: 'CV créés', color: '#10b981' },
+]
+
+/** Graphique lignes de l'activité quotidienne. */
+export default function VisitsChart({ title = 'Activité', data }: VisitsChartProps) {
   return (
     <div className="rounded-lg border border-slate-200 bg-white p-3 shadow-sm">
       <div className="mb-2 text-sm font-semibold text-slate-900">{title}</div>
@@ -24,12 +31,19 @@ export default function VisitsChart({ title = 'Visites', data }: VisitsChartProp
             <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
             <XAxis dataKey="date" tick={{ fontSize: 12 }} stroke="#64748b" />
             <YAxis allowDecimals={false} tick={{ fontSize: 12 }} stroke="#64748b" />
-            <Tooltip
-              contentStyle={{ fontSize: 12 }}
-              labelStyle={{ fontWeight: 600 }}
-              formatter={(v: any) => [String(v), 'Visites']}
-            />
-            <Line type="monotone" dataKey="visits" stroke="#2563eb" strokeWidth={2} dot={false} />
+            <Tooltip contentStyle={{ fontSize: 12 }} labelStyle={{ fontWeight: 600 }} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {SERIES.map((s) => (
+              <Line
+                key={s.key}
+                type="monotone"
+                dataKey={s.key}
+                name={s.label}
+                stroke={s.color}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
           </LineChart>
         </ResponsiveContainer>
       </div>
@@ -0,0 +1,132 @@
+/**
+ * CvCard.tsx
+ * Carte d'un CV de la bibliothèque « Mes CV ».
+ * - Miniature A4 via ThumbnailSheet + ResumePreview (variante selon le plan).
+ * - Renommage en place, actions Ouvrir / Dupliquer / Exporter (JSON Resume) / Supprimer.
+ * - Signale le CV actuellement chargé dans le formulaire.
+ */
+
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import ThumbnailSheet from '../preview/ThumbnailSheet'
+import { ResumePreview } from '../resume/ResumePreview'
+import PlanBadge from '../PlanBadge'
+import PrimaryButton from '../controls/PrimaryButton'
+import type { UserCvRecord } from '../../lib/cvApi'
+
+export interface CvCardProps {
+  cv: UserCvRecord
+  /** CV chargé dans le formulaire */
+  active: boolean
+  busy?: boolean
+  onOpen: () => void
+  onRename: (title: string) => Promise<void>
+  onDuplicate: () => void
+  /** Téléchargement au format JSON Resume */
+  onExport: () => void
+  onDelete: () => void
+}
+
+export default function CvCard({ cv, active, busy, onOpen, onRename, onDuplicate, onExport, onDelete }: CvCardProps) {
+  const { t } = useTranslation()
+  const [editing, setEditing] = useState(false)
+  const [title, setTitle] = useState(cv.title)
+
+  const commitRename = async () => {
+    const next = title.trim()
+    setEditing(false)
+    if (!next || next === cv.title) {
+      setTitle(cv.title)
+      return
+    }
+    await onRename(next).catch(() => setTitle(cv.title))
+  }
+
+  return (
+    <article
+      className={`flex flex-col rounded-lg border bg-white/90 p-3 ${
+        active ? 'border-[rgb(60,77,42)] ring-2 ring-[rgb(60,77,42)]/30' : 'border-[rgba(98,120,85,0.35)]'
+      }`}
+    >
+      <div className="relative max-h-72 overflow-hidden">
+        <ThumbnailSheet>
+          <ResumePreview
+            data={cv.data}
+            withPhoto={cv.withPhoto}
+            plan={cv.plan}
+            variant={cv.plan === 'advanced' ? 'advancedAccent' : 'default'}
+          />
+        </ThumbnailSheet>
+        <PlanBadge plan={cv.plan} />
+      </div>
+
+      <div className="mt-3 flex-1">
+        {editing ? (
+          <input
+            autoFocus
+            className="u-input w-full"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename()
+              if (e.key === 'Escape') {
+                setTitle(cv.title)
+                setEditing(false)
+              }
+            }}
+            aria-label={t('cvs.rename', 'Renommer')}
+          />
+        ) : (
+          <button
+            type="button"
+            className="text-left text-sm font-semibold text-neutral-900 hover:underline"
+            title={t('cvs.rename', 'Renommer')}
+            onClick={() => setEditing(true)}
+          >
+            {cv.title}
+          </button>
+        )}
+        <p className="mt-1 text-xs text-neutral-700">
+          {(cv.data?.language || '').toUpperCase()} · {new Date(cv.updatedAt).toLocaleString()}
+        </p>
+        {active ? (
+          <p className="mt-1 text-xs font-medium text-[rgb(60,77,42)]">
+            {t('cvs.activeHint', 'Chargé dans le formulaire')}
+          </p>
+        ) : null}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <PrimaryButton type="button" size="sm" disabled={busy} onClick={onOpen}>
+          {active ? t('cvs.continue', 'Continuer') : t('cvs.open', 'Ouvrir')}
+        </PrimaryButton>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={onDuplicate}
+          className="rounded border border-[rgba(98,120,85,0.5)] px-3 py-1 text-sm hover:border-[rgb(60,77,42)] disabled:opacity-50"
+        >
+          {t('cvs.duplicate', 'Dupliquer')}
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={onExport}
+          title={t('cvs.exportJsonHint', 'Format JSON Resume, réimportable ici ou dans d’autres outils')}
+          className="rounded border border-[rgba(98,120,85,0.5)] px-3 py-1 text-sm hover:border-[rgb(60,77,42)] disabled:opacity-50"
+        >
+          {t('cvs.exportJson', 'Exporter (JSON)')}
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={onDelete}
+          className="rounded border border-red-300 px-3 py-1 text-sm text-red-700 hover:border-red-500 disabled:opacity-50"
+        >
+          {t('cvs.delete', 'Supprimer')}
+        </button>
+      </div>
+    </article>
+  )
+}
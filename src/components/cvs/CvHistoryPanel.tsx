@@ -0,0 +1,247 @@
+/**
+ * CvHistoryPanel.tsx
+ * Historique des versions d'un CV de la bibliothèque (journal tenu par le serveur).
+ * - Liste des versions (date, plan, origine: création, modification, restauration).
+ * - Différence champ par champ entre la version choisie et le formulaire ou une autre version.
+ * - « Restaurer » rétablit la version choisie (la restauration est elle-même historisée).
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import Modal from '../Modal'
+import PrimaryButton from '../controls/PrimaryButton'
+import PrimarySelect from '../controls/PrimarySelect'
+import { getCvRevision, listCvRevisions, type CvPayload, type CvRevision, type CvRevisionSummary, type UserCvRecord } from '../../lib/cvApi'
+import { diffResume, type ResumeFieldChange } from '../../lib/resumeDiff'
+import { useCvsStore } from '../../stores/cvs'
+
+/** Cible de comparaison: le formulaire en cours, ou l'id d'une autre version. */
+const CURRENT = 'current'
+
+const PLAN_LABELS: Record<string, string> = { student: 'Simple', pro: 'Pro', advanced: 'Avancé' }
+
+/** Libellés des rubriques (clés du formulaire). */
+const SECTION_LABELS: Record<string, [string, string]> = {
+  fullName: ['form.fullName', 'Nom complet'],
+  headline: ['form.headline', 'Titre'],
+  email: ['form.email', 'E-mail'],
+  phone: ['form.phone', 'Téléphone'],
+  location: ['form.location', 'Localisation'],
+  country: ['form.country', 'Pays'],
+  summary: ['form.summary', 'Résumé'],
+  skills: ['form.skills', 'Compétences'],
+  photoUrl: ['form.photoUrl', 'Photo'],
+  domain: ['form.domain', 'Domaine'],
+  language: ['form.language', 'Langue'],
+  cvType: ['history.cvType', 'Type de CV'],
+  experiences: ['form.experience', 'Expérience'],
+  education: ['form.education', 'Formation'],
+  certifications: ['form.certifications', 'Certifications'],
+  achievements: ['history.achievements', 'Réalisations'],
+  highlights: ['history.highlights', 'Points forts'],
+}
+
+export interface CvHistoryPanelProps {
+  open: boolean
+  onOpenChange: (next: boolean) => void
+  token: string
+  cv: UserCvRecord
+  /** Contenu actuel du formulaire (comparaison par défaut) */
+  current: CvPayload
+  /** Appelé avec le CV restauré, à recharger dans le formulaire */
+  onRestored: (cv: UserCvRecord) => void
+}
+
+export default function CvHistoryPanel({ open, onOpenChange, token, cv, current, onRestored }: CvHistoryPanelProps) {
+  const { t } = useTranslation()
+  const restoreRevision = useCvsStore((s) => s.restoreRevision)
+  const [revisions, setRevisions] = useState<CvRevisionSummary[]>([])
+  /** Versions complètes déjà chargées, par id */
+  const [loaded, setLoaded] = useState<Record<string, CvRevision>>({})
+  const requested = useRef(new Set<string>())
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareTo, setCompareTo] = useState(CURRENT)
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    // La dernière version peut avoir été complétée depuis (autosave regroupée): on recharge tout
+    requested.current.clear()
+    setLoaded({})
+    listCvRevisions(token, cv.id)
+      .then(({ revisions }) => {
+        if (cancelled) return
+        setRevisions(revisions)
+        // Par défaut: la version précédant la version actuelle
+        setSelectedId(revisions[1]?.id ?? revisions[0]?.id ?? null)
+        setCompareTo(CURRENT)
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Historique indisponible.'))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [open, token, cv.id, cv.updatedAt])
+
+  /** Charge à la demande les données des versions comparées. */
+  useEffect(() => {
+    const wanted = [selectedId, compareTo === CURRENT ? null : compareTo].filter(
+      (id): id is string => !!id && !requested.current.has(id)
+    )
+    wanted.forEach((id) => {
+      requested.current.add(id)
+      getCvRevision(token, cv.id, id)
+        .then(({ revision }) => setLoaded((prev) => ({ ...prev, [id]: revision })))
+        .catch((e) => {
+          requested.current.delete(id)
+          setError(e instanceof Error ? e.message : 'Version indisponible.')
+        })
+    })
+  }, [revisions, selectedId, compareTo, token, cv.id])
+
+  const selected = selectedId ? loaded[selectedId] : undefined
+  const target = compareTo === CURRENT ? current : loaded[compareTo]
+
+  const changes = useMemo<ResumeFieldChange[]>(() => {
+    if (!selected || !target) return []
+    const meta: ResumeFieldChange[] = []
+    if (selected.plan !== target.plan) {
+      meta.push({
+        path: 'plan',
+        section: 'cvType',
+        kind: 'changed',
+        before: PLAN_LABELS[selected.plan],
+        after: PLAN_LABELS[target.plan],
+      })
+    }
+    return [...meta, ...diffResume(selected.data, target.data)]
+  }, [selected, target])
+
+  const label = (change: ResumeFieldChange) => {
+    if (change.path === 'plan') return t('cvs.plan', 'Plan')
+    const [key, fallback] = SECTION_LABELS[change.section] || [`history.${change.section}`, change.section]
+    const section = t(key, fallback)
+    if (change.index === undefined) return section
+    return [`${section} #${change.index + 1}`, change.field].filter(Boolean).join(' · ')
+  }
+
+  const describe = (revision: CvRevisionSummary) =>
+    [
+      new Date(revision.createdAt).toLocaleString(),
+      PLAN_LABELS[revision.plan],
+      revision.reason === 'create'
+        ? t('history.reason.create', 'création')
+        : revision.reason === 'restore'
+          ? t('history.reason.restore', 'restauration')
+          : revision.reason === 'save'
+            ? t('history.reason.save', 'enregistrement')
+            : null,
+    ]
+      .filter(Boolean)
+      .join(' · ')
+
+  const restore = async () => {
+    if (!selectedId) return
+    setRestoring(true)
+    try {
+      onRestored(await restoreRevision(token, cv.id, selectedId))
+      onOpenChange(false)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Impossible de restaurer cette version.')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange} title={t('history.title', 'Historique : {{title}}', { title: cv.title })}>
+      {loading ? <p className="text-sm text-neutral-700">Chargement…</p> : null}
+      {!loading && revisions.length === 0 ? (
+        <p className="text-sm text-neutral-700">{t('history.empty', 'Aucune version enregistrée pour ce CV.')}</p>
+      ) : null}
+
+      {revisions.length ? (
+        <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+          <ul className="max-h-80 space-y-1 overflow-y-auto pr-1">
+            {revisions.map((revision, i) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full rounded border px-2 py-1 text-left text-xs ${
+                    revision.id === selectedId
+                      ? 'border-[rgb(60,77,42)] bg-[rgba(230,235,220,0.8)]'
+                      : 'border-[rgba(98,120,85,0.35)] hover:border-[rgb(60,77,42)]'
+                  }`}
+                >
+                  <span className="block font-medium text-neutral-900">
+                    {i === 0 ? t('history.latest', 'Dernière version') : revision.title}
+                  </span>
+                  <span className="block text-neutral-600">{describe(revision)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="min-w-0">
+            <label className="block">
+              <span className="mb-1 block text-xs font-medium text-neutral-800">
+                {t('history.compareTo', 'Comparer avec')}
+              </span>
+              <PrimarySelect value={compareTo} onChange={setCompareTo} aria-label={t('history.compareTo', 'Comparer avec')}>
+                <option value={CURRENT}>{t('history.currentForm', 'Formulaire en cours')}</option>
+                {revisions
+                  .filter((r) => r.id !== selectedId)
+                  .map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {describe(r)}
+                    </option>
+                  ))}
+              </PrimarySelect>
+            </label>
+
+            <div className="mt-3 max-h-72 overflow-y-auto rounded border border-[rgba(98,120,85,0.35)]">
+              {!selected || !target ? (
+                <p className="p-3 text-xs text-neutral-600">Chargement…</p>
+              ) : changes.length === 0 ? (
+                <p className="p-3 text-xs text-neutral-600">{t('history.identical', 'Aucune différence.')}</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="bg-[rgba(230,235,220,0.8)] text-left">
+                    <tr>
+                      <th className="p-2 font-medium">{t('history.field', 'Champ')}</th>
+                      <th className="p-2 font-medium">{t('history.selected', 'Version choisie')}</th>
+                      <th className="p-2 font-medium">{t('history.compared', 'Comparée')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change) => (
+                      <tr key={change.path} className="border-t border-[rgba(98,120,85,0.2)] align-top">
+                        <td className="p-2 font-medium text-neutral-800">{label(change)}</td>
+                        <td className="whitespace-pre-wrap break-words p-2 text-red-800">{change.before || '—'}</td>
+                        <td className="whitespace-pre-wrap break-words p-2 text-green-800">{change.after || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <p className="mt-3 text-sm text-red-600">{error}</p> : null}
+
+      <div className="mt-4 flex justify-end">
+        <PrimaryButton type="button" size="sm" disabled={!selectedId || restoring} onClick={restore}>
+          {restoring ? '...' : t('history.restore', 'Restaurer cette version')}
+        </PrimaryButton>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,83 @@
+/**
+ * SyncConflictDialog.tsx
+ * Choix proposé quand un CV a été modifié sur le serveur (autre appareil) pendant que
+ * des modifications locales attendaient d'être envoyées.
+ * - Garder ma version (écrase le serveur), garder la version du serveur, ou garder les deux.
+ */
+
+import { useTranslation } from 'react-i18next'
+import Modal from '../Modal'
+import PrimaryButton from '../controls/PrimaryButton'
+import type { CvPayload, UserCvRecord } from '../../lib/cvApi'
+import type { ConflictChoice } from '../../stores/cvs'
+
+export interface SyncConflictDialogProps {
+  conflict: { local: CvPayload; server: UserCvRecord } | null
+  onResolve: (choice: ConflictChoice) => void
+}
+
+/** Résumé lisible d'une version pour comparer d'un coup d'œil. */
+function summary(data: CvPayload['data']) {
+  return [
+    data.fullName || '—',
+    data.headline,
+    `${(data.experiences || []).length} exp.`,
+    `${(data.education || []).length} form.`,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+export default function SyncConflictDialog({ conflict, onResolve }: SyncConflictDialogProps) {
+  const { t } = useTranslation()
+  if (!conflict) return null
+  const { local, server } = conflict
+
+  return (
+    <Modal
+      open
+      onOpenChange={() => {
+        // Le choix est obligatoire: la modification reste en attente tant qu'il n'est pas fait
+      }}
+      title={t('sync.conflict.title', 'Ce CV a été modifié ailleurs')}
+    >
+      <p className="text-sm text-neutral-800">
+        {t(
+          'sync.conflict.body',
+          '« {{title}} » a été modifié sur un autre appareil pendant que vos changements attendaient la connexion.',
+          { title: server.title }
+        )}
+      </p>
+      <div className="mt-3 grid gap-3 sm:grid-cols-2">
+        <div className="rounded border border-[rgba(98,120,85,0.35)] p-3">
+          <h4 className="text-sm font-semibold">{t('sync.conflict.local', 'Ma version (cet appareil)')}</h4>
+          <p className="mt-1 text-xs text-neutral-700">{summary(local.data)}</p>
+        </div>
+        <div className="rounded border border-[rgba(98,120,85,0.35)] p-3">
+          <h4 className="text-sm font-semibold">{t('sync.conflict.server', 'Version du serveur')}</h4>
+          <p className="mt-1 text-xs text-neutral-700">{summary(server.data)}</p>
+          <p className="mt-1 text-xs text-neutral-500">{new Date(server.updatedAt).toLocaleString()}</p>
+        </div>
+      </div>
+      <div className="mt-4 flex flex-wrap justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => onResolve('both')}
+          className="rounded border border-[rgba(98,120,85,0.5)] px-3 py-1 text-sm hover:border-[rgb(60,77,42)]"
+        >
+          {t('sync.conflict.keepBoth', 'Garder les deux')}
+        </button>
+        <button
+          type="button"
+          onClick={() => onResolve('server')}
+          className="rounded border border-[rgba(98,120,85,0.5)] px-3 py-1 text-sm hover:border-[rgb(60,77,42)]"
+        >
+          {t('sync.conflict.keepServer', 'Garder la version du serveur')}
+        </button>
+        <PrimaryButton type="button" size="sm" onClick={() => onResolve('local')}>
+          {t('sync.conflict.keepLocal', 'Garder ma version')}
+        </PrimaryButton>
+      </div>
+    </Modal>
+  )
+}
@@ -1,6 +1,7 @@
 /**
  * DownloadCta.tsx
  * CTA unique et centré "Télécharger le PDF" avec gating par paiement.
+ * - Le statut payé provient du jeton d'entitlement signé par le serveur (jamais des paramètres d'URL).
  * - Avant paiement: clique => redirection vers plateforme de paiement (ou simulation).
  * - Après paiement: clique => déclenche l'export PDF.
  * - Affiche les statuts: redirection, succès, erreur.
@@ -9,11 +10,17 @@
 import React from 'react'
 import { useTranslation } from 'react-i18next'
 import PrimaryButton from '../controls/PrimaryButton'
+import type { ResumePlan } from '../../types/resume'
+import { hasEntitlement } from '../../lib/entitlements'
 
 /** Props pour DownloadCta */
 export interface DownloadCtaProps {
-  /** Paiement confirmé ? */
-  paid: boolean
+  /** Jeton d'entitlement signé par le serveur (GET /api/entitlements) */
+  entitlementToken: string | null
+  /** Plan à exporter */
+  plan: ResumePlan
+  /** CV enregistré concerné (optionnel) */
+  cvId?: string | null
   /** Redirection/paiement en cours */
   paying: boolean
   /** Message d'erreur éventuel */
@@ -35,7 +42,9 @@ export interface DownloadCtaProps {
  * Un bouton principal centré, avec messages d'état.
  */
 export default function DownloadCta({
-  paid,
+  entitlementToken,
+  plan,
+  cvId,
   paying,
   error,
   onPay,
@@ -45,6 +54,7 @@ export default function DownloadCta({
   onOpenPreview,
 }: DownloadCtaProps) {
   const { t } = useTranslation()
+  const paid = hasEntitlement(entitlementToken, plan, cvId)
 
   const handleClick = () => {
     if (paying) return
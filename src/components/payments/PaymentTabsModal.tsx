@@ -1,6 +1,7 @@
 /**
  * PaymentTabsModal.tsx
  * Tabbed payment modal for Card or Mobile Money with masking and validation.
+ * - Card: redirects to Stripe Checkout (no card details are collected in the app).
  * - Localized labels via i18nPaymentPatch (EN/FR/SW/PT/AR).
  * - If paid: primary button downloads the PDF (unless export is blocked).
  * - If not paid: validates inputs, then calls onPay (may redirect or simulate).
@@ -30,53 +31,7 @@ export interface PaymentTabsModalProps {
   paymentError?: string | null
 }
 
-/** Luhn checksum validation for card numbers. */
-function luhn(num: string): boolean {
-  let sum = 0
-  let shouldDouble = false
-  for (let i = num.length - 1; i >= 0; i--) {
-    let digit = Number(num[i])
-    if (shouldDouble) {
-      digit *= 2
-      if (digit > 9) digit -= 9
-    }
-    sum += digit
-    shouldDouble = !shouldDouble
-  }
-  return sum % 10 === 0
-}
-
 /** Format helpers (masking). */
-function onlyDigits(s: string): string {
-  return s.replace(/\D+/g, '')
-}
-function formatCardNumber(s: string): string {
-  const digits = onlyDigits(s).slice(0, 19)
-  return digits.replace(/(\d{4})(?=\d)/g, '$1 ')
-}
-function formatExpiry(s: string): string {
-  const d = onlyDigits(s).slice(0, 4)
-  if (d.length <= 2) return d
-  return d.slice(0, 2) + ' / ' + d.slice(2)
-}
-function parseExpiryToDate(exp: string): { mm: number; yy: number } | null {
-  const m = onlyDigits(exp)
-  if (m.length < 3) return null
-  const mm = Number(m.slice(0, 2))
-  const yy = Number(m.slice(2, 4))
-  if (mm < 1 || mm > 12) return null
-  return { mm, yy }
-}
-function isExpiryValidFuture(exp: string): boolean {
-  const parsed = parseExpiryToDate(exp)
-  if (!parsed) return false
-  const { mm, yy } = parsed
-  const fullYear = 2000 + yy
-  const now = new Date()
-  const endOfMonth = new Date(fullYear, mm, 0) // last day of month
-  // Consider valid through the end of the expiry month
-  return endOfMonth >= new Date(now.getFullYear(), now.getMonth(), 1)
-}
 function formatPhoneIntl(s: string): string {
   // Keep + and digits, then group lightly: +XXX XXX XXX XXX
   let cleaned = s.replace(/[^\d+]/g, '')
@@ -121,19 +76,7 @@ export default function PaymentTabsModal(props: PaymentTabsModalProps) {
   // Tabs
   const [tab, setTab] = useState<'card' | 'mobile'>('mobile')
 
-  // Card form state
-  const [name, setName] = useState('')
-  const [number, setNumber] = useState('')
-  const [expiry, setExpiry] = useState('')
-  const [cvc, setCvc] = useState('')
-
-  const [touched, setTouched] = useState({
-    name: false,
-    number: false,
-    expiry: false,
-    cvc: false,
-    phone: false,
-  })
+  const [touched, setTouched] = useState({ phone: false })
 
   // Mobile form state
   const [provider, setProvider] = useState<MobileMoneyProvider>('mtn')
@@ -141,19 +84,7 @@ export default function PaymentTabsModal(props: PaymentTabsModalProps) {
 
   const [busy, setBusy] = useState(false)
 
-  /** Validation rules */
-  const validName = useMemo(() => /^[A-Za-zÀ-ÖØ-öø-ÿ' -]{3,}$/.test(name.trim()), [name])
-  const digitsOnly = useMemo(() => number.replace(/\s+/g, ''), [number])
-  const validNumber = useMemo(() => {
-    const len = digitsOnly.length
-    if (len < 13 || len > 19) return false
-    if (!/^\d+$/.test(digitsOnly)) return false
-    return luhn(digitsOnly)
-  }, [digitsOnly])
-  const validExpiry = useMemo(() => isExpiryValidFuture(expiry), [expiry])
-  const validCvc = useMemo(() => /^\d{3,4}$/.test(cvc), [cvc])
-  const cardValid = validName && validNumber && validExpiry && validCvc
-
+  /** Validation rules (card details are collected by Stripe Checkout) */
   const validPhone = useMemo(() => {
     const count = phoneDigitsCount(phone)
     return count >= 8 && count <= 15
@@ -170,12 +101,8 @@ export default function PaymentTabsModal(props: PaymentTabsModalProps) {
     if (!next) {
       setBusy(false)
       setTab('mobile')
-      setName('')
-      setNumber('')
-      setExpiry('')
-      setCvc('')
       setPhone(phonePrefill || '')
-      setTouched({ name: false, number: false, expiry: false, cvc: false, phone: false })
+      setTouched({ phone: false })
     }
   }
 
@@ -187,14 +114,8 @@ export default function PaymentTabsModal(props: PaymentTabsModalProps) {
       return
     }
     // Validate current tab
-    if ((tab === 'card' && !cardValid) || (tab === 'mobile' && !mobileValid)) {
-      setTouched({
-        name: true,
-        number: true,
-        expiry: true,
-        cvc: true,
-        phone: true
-      })
+    if (tab === 'mobile' && !mobileValid) {
+      setTouched({ phone: true })
       return
     }
     setBusy(true)
@@ -211,7 +132,7 @@ export default function PaymentTabsModal(props: PaymentTabsModalProps) {
     }
   }
 
-  const primaryDisabled = busy || (paid && !!exportBlocked) || (!paid && (tab === 'card' ? !cardValid : !mobileValid))
+  const primaryDisabled = busy || (paid && !!exportBlocked) || (!paid && tab === 'mobile' && !mobileValid)
   const primaryLabel = paid ? t('payment.primary.download') : t('payment.primary.pay')
 
   // Get status message and styling
@@ -312,69 +233,10 @@ export default function PaymentTabsModal(props: PaymentTabsModalProps) {
 
           {/* Card form */}
           <Tabs.Content value="card" className="mt-3">
-            <form className="grid grid-cols-1 gap-3" onSubmit={(e) => e.preventDefault()}>
-              <label className="block">
-                <span className="mb-1 block text-sm font-medium">{t('payment.card.name')}</span>
-                <input
-                  type="text"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  onBlur={() => setTouched((s) => ({ ...s, name: true }))}
-                  placeholder="Jane Doe"
-                  className={`w-full rounded border bg-white px-3 py-2 text-sm outline-none ${touched.name && !validName ? 'border-red-500 focus:border-red-600' : 'border-neutral-300 focus:border-neutral-900'}`}
-                />
-                {touched.name && !validName ? (
-                  <span className="mt-1 block text-xs text-red-600">{t('payment.validation.name')}</span>
-                ) : null}
-              </label>
-              <label className="block">
-                <span className="mb-1 block text-sm font-medium">{t('payment.card.number')}</span>
-                <input
-                  type="text"
-                  inputMode="numeric"
-                  value={number}
-                  onChange={(e) => setNumber(formatCardNumber(e.target.value))}
-                  onBlur={() => setTouched((s) => ({ ...s, number: true }))}
-                  placeholder="4242 4242 4242 4242"
-                  className={`w-full rounded border bg-white px-3 py-2 text-sm outline-none ${touched.number && !validNumber ? 'border-red-500 focus:border-red-600' : 'border-neutral-300 focus:border-neutral-900'}`}
-                />
-                {touched.number && !validNumber ? (
-                  <span className="mt-1 block text-xs text-red-600">{t('payment.validation.cardNumber')}</span>
-                ) : null}
-              </label>
-              <div className="grid grid-cols-2 gap-3">
-                <label className="block">
-                  <span className="mb-1 block text-sm font-medium">{t('payment.card.expiry')}</span>
-                  <input
-                    type="text"
-                    inputMode="numeric"
-                    value={expiry}
-                    onChange={(e) => setExpiry(formatExpiry(e.target.value))}
-                    onBlur={() => setTouched((s) => ({ ...s, expiry: true }))}
-                    placeholder="MM / YY"
-                    className={`w-full rounded border bg-white px-3 py-2 text-sm outline-none ${touched.expiry && !validExpiry ? 'border-red-500 focus:border-red-600' : 'border-neutral-300 focus:border-neutral-900'}`}
-                  />
-                  {touched.expiry && !validExpiry ? (
-                    <span className="mt-1 block text-xs text-red-600">{t('payment.validation.expiry')}</span>
-                  ) : null}
-                </label>
-                <label className="block">
-                  <span className="mb-1 block text-sm font-medium">{t('payment.card.cvc')}</span>
-                  <input
-                    type="password"
-                    inputMode="numeric"
-                    value={cvc}
-                    onChange={(e) => setCvc(onlyDigits(e.target.value).slice(0, 4))}
-                    onBlur={() => setTouched((s) => ({ ...s, cvc: true }))}
-                    placeholder="CVC"
-                    className={`w-full rounded border bg-white px-3 py-2 text-sm outline-none ${touched.cvc && !validCvc ? 'border-red-500 focus:border-red-600' : 'border-neutral-300 focus:border-neutral-900'}`}
-                  />
-                  {touched.cvc && !validCvc ? (
-                    <span className="mt-1 block text-xs text-red-600">{t('payment.validation.cvc')}</span>
-                  ) : null}
-                </label>
-              </div>
-            </form>
+            <p className="rounded border border-neutral-200 bg-neutral-50 p-3 text-sm text-neutral-700">
+              {t('payment.secureStripe', 'Paiement sécurisé géré par Stripe Checkout.')}{' '}
+              {t('payment.note.redirect')}
+            </p>
           </Tabs.Content>
 
           {/* Mobile money form */}
@@ -0,0 +1,130 @@
+/**
+ * AtsReport.tsx
+ * "ATS check" card shown in PreviewScreen before payment.
+ * - Lists the problems found by lib/ats.ts (errors first), or confirms the CV reads well.
+ * - "What an ATS reads": the linear plain-text version of the CV for the selected plan.
+ * - Plain-text / Markdown downloads (lib/textExport.ts), unlocked with the plan like the PDF.
+ */
+
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react'
+import type { ResumeData, ResumePlan } from '../../types/resume'
+import { checkAts, type AtsIssue } from '../../lib/ats'
+import { exportLabels } from '../../lib/cvExport'
+import { downloadCvText, resumeToText } from '../../lib/textExport'
+
+export interface AtsReportProps {
+  data: ResumeData
+  plan: ResumePlan
+  withPhoto: boolean
+  /** Unlocks the text downloads */
+  paid: boolean
+  /** File name without extension */
+  title?: string
+}
+
+/** Card with the ATS issues of the CV and its linear text exports. */
+export default function AtsReport({ data, plan, withPhoto, paid, title }: AtsReportProps) {
+  const { t } = useTranslation()
+  const issues = useMemo(() => checkAts(data, plan, withPhoto), [data, plan, withPhoto])
+  const plainText = useMemo(() => resumeToText(data, plan, 'text'), [data, plan])
+  const errors = issues.filter((i) => i.severity === 'error').length
+
+  /** Translated message of an issue (section keys and contact fields are translated too). */
+  const message = (issue: AtsIssue) => {
+    const labels = exportLabels() as Record<string, string>
+    const params = { ...issue.params }
+    if (typeof params.section === 'string') params.section = labels[params.section] || params.section
+    if (typeof params.field === 'string') params.field = t(`ats.field.${params.field}`, params.field)
+    switch (issue.code) {
+      case 'imageOnly':
+        return t('ats.imageOnly', 'Your CV only contains a photo: ATS software cannot read images.')
+      case 'missingContact':
+        return t('ats.missingContact', { ...params, defaultValue: 'Missing contact detail: {{field}}.' })
+      case 'dateFormat':
+        return t('ats.dateFormat', {
+          ...params,
+          defaultValue: '{{section}} – “{{item}}”: the date “{{value}}” is not in the YYYY-MM format.',
+        })
+      case 'longBullet':
+        return t('ats.longBullet', {
+          ...params,
+          defaultValue: '{{section}} – “{{item}}” is {{length}} characters long (max {{max}}).',
+        })
+      case 'missingSection':
+        return t('ats.missingSection', { ...params, defaultValue: 'No “{{section}}” section.' })
+    }
+  }
+
+  return (
+    <section className="rounded-lg border border-neutral-200 bg-white p-3" aria-labelledby="ats-report-title">
+      <div className="flex items-center justify-between gap-2">
+        <h3 id="ats-report-title" className="text-sm font-semibold text-neutral-900">
+          {t('ats.title', 'ATS check')}
+        </h3>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+            issues.length === 0
+              ? 'bg-emerald-50 text-emerald-700'
+              : errors > 0
+                ? 'bg-red-50 text-red-700'
+                : 'bg-amber-50 text-amber-700'
+          }`}
+        >
+          {issues.length === 0
+            ? t('ats.ok', 'Readable')
+            : t('ats.count', {
+                errors,
+                warnings: issues.length - errors,
+                defaultValue: '{{errors}} error(s), {{warnings}} warning(s)',
+              })}
+        </span>
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="mt-2 flex items-start gap-2 text-xs text-neutral-700">
+          <CheckCircle2 className="mt-0.5 h-4 w-4 flex-none text-emerald-600" />
+          {t('ats.none', 'No problem found: applicant tracking systems can read this CV.')}
+        </p>
+      ) : (
+        <ul className="mt-2 space-y-1.5">
+          {issues.map((issue, i) => (
+            <li key={i} className="flex items-start gap-2 text-xs text-neutral-800">
+              {issue.severity === 'error' ? (
+                <XCircle className="mt-0.5 h-4 w-4 flex-none text-red-600" aria-label={t('ats.error', 'Error')} />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-4 w-4 flex-none text-amber-600" aria-label={t('ats.warning', 'Warning')} />
+              )}
+              <span>{message(issue)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="mt-3">
+        <summary className="cursor-pointer text-xs font-medium text-neutral-700">
+          {t('ats.showText', 'What an ATS reads')}
+        </summary>
+        <pre className="mt-2 max-h-60 overflow-auto whitespace-pre-wrap rounded bg-neutral-50 p-2 text-[11px] leading-snug text-neutral-800">
+          {plainText}
+        </pre>
+      </details>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {(['text', 'markdown'] as const).map((format) => (
+          <button
+            key={format}
+            type="button"
+            disabled={!paid}
+            title={paid ? undefined : t('ats.exportLocked', 'Available once this plan is paid')}
+            onClick={() => downloadCvText(data, plan, format, title)}
+            className="rounded border border-neutral-300 bg-white px-2.5 py-1 text-xs font-medium text-neutral-800 hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {format === 'text' ? t('ats.downloadText', 'Plain text (.txt)') : t('ats.downloadMarkdown', 'Markdown (.md)')}
+          </button>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -4,6 +4,8 @@
  * - Renders a live ResumePreview inside a ThumbnailSheet for a faithful visual.
  * - Ensures a printable DOM with id="resume-sheet" exists (renders PrintSheet if missing).
  * - Exposes a prominent Download PDF button which calls printPdf targeting #resume-sheet.
+ * - Offers a Word (.docx) download next to it, generated by the server once the plan is paid
+ *   (same sections per plan as the PDF, see shared/sections.mjs).
  *
  * Notes:
  * - This component uses the existing PrintSheet/printPdf approach to guarantee the PDF
@@ -20,6 +22,9 @@ import PrintSheet from '../PrintSheet'
 import { enhanceResumeForPreview } from '../../lib/enhance'
 import { printPdf } from '../../lib/pdf'
 import PrimaryButton from '../controls/PrimaryButton'
+import { downloadCvDocx } from '../../lib/cvExport'
+import { hasEntitlement } from '../../lib/entitlements'
+import { useAuthStore } from '../../stores/auth'
 
 /**
  * Props for PreviewAndDownload
@@ -31,6 +36,10 @@ export interface PreviewAndDownloadProps {
   withPhoto: boolean
   /** Selected plan (controls tiny variations in preview) */
   plan: ResumePlan
+  /** Signed entitlement token (GET /api/entitlements); unlocks the Word download */
+  entitlementToken?: string | null
+  /** Library CV being edited, for entitlements bound to one CV */
+  cvId?: string | null
 }
 
 /**
@@ -39,9 +48,13 @@ export interface PreviewAndDownloadProps {
  * of the preview. If an element with id="resume-sheet" does not exist already,
  * this component renders a PrintSheet so printPdf has something to target.
  */
-export default function PreviewAndDownload({ data, withPhoto, plan }: PreviewAndDownloadProps) {
+export default function PreviewAndDownload({ data, withPhoto, plan, entitlementToken = null, cvId = null }: PreviewAndDownloadProps) {
   const { t } = useTranslation()
+  const token = useAuthStore((s) => s.token)
   const [downloading, setDownloading] = useState(false)
+  const [downloadingDocx, setDownloadingDocx] = useState(false)
+  const [docxError, setDocxError] = useState<string | null>(null)
+  const docxAllowed = Boolean(token) && hasEntitlement(entitlementToken, plan, cvId)
   const [printSheetMounted, setPrintSheetMounted] = useState(false)
 
   // Prepare enhanced preview data for on-screen rendering and (optionally) for print sheet.
@@ -80,6 +93,28 @@ export default function PreviewAndDownload({ data, withPhoto, plan }: PreviewAnd
     }
   }
 
+  /** Download the Word version generated by the server (entitlement checked there too). */
+  const handleDownloadDocx = async () => {
+    if (!token || !docxAllowed) return
+    setDownloadingDocx(true)
+    setDocxError(null)
+    try {
+      await downloadCvDocx({
+        token,
+        entitlementToken,
+        data: prepared,
+        plan,
+        withPhoto,
+        cvId,
+        title: `${data.fullName || 'CV'} - ${data.headline || 'Mako'}`,
+      })
+    } catch (err) {
+      setDocxError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setDownloadingDocx(false)
+    }
+  }
+
   return (
     <div className="w-full">
       <div className="rounded-lg border border-neutral-200 bg-white p-4 shadow-sm">
@@ -111,8 +146,22 @@ export default function PreviewAndDownload({ data, withPhoto, plan }: PreviewAnd
             >
               {downloading ? t('common.downloading', 'Downloading…') : t('preview.downloadPdf', 'Download PDF')}
             </PrimaryButton>
+            <button
+              type="button"
+              onClick={handleDownloadDocx}
+              disabled={!docxAllowed || downloadingDocx}
+              title={docxAllowed ? undefined : t('preview.docxLocked', 'Available once this plan is paid')}
+              className="rounded border border-neutral-300 bg-white px-4 py-2 text-sm font-medium text-neutral-800 hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {downloadingDocx ? t('common.downloading', 'Downloading…') : t('preview.downloadDocx', 'Download Word (.docx)')}
+            </button>
           </div>
         </div>
+        {docxError ? (
+          <p role="alert" className="mt-2 text-right text-sm text-red-600">
+            {docxError}
+          </p>
+        ) : null}
       </div>
 
       {/* Render a local PrintSheet only when no global resume-sheet exists.
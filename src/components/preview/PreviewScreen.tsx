@@ -4,6 +4,8 @@
  * - Auto-opens payment modal when entering preview if not paid.
  * - Localized labels and pricing summary.
  * - Fixes missing handler and properly wires PaymentTabsModal.
+ * - The download itself is delegated to the parent (server-rendered PDF, see lib/pdf.ts downloadCvPdf).
+ * - Shows the ATS check (AtsReport) under the CTA, before payment.
  */
 
 import { useEffect, useMemo, useState } from 'react'
@@ -12,9 +14,10 @@ import ThumbnailSheet from './ThumbnailSheet'
 import { PricingTier } from '../../components/PricingTier'
 import { ResumePreview } from '../../components/resume/ResumePreview'
 import type { PaymentState, ResumeData, ResumePlan } from '../../types/resume'
-import { downloadPdf } from '../../lib/pdf'
+import { track } from '../../lib/events'
 import { enhanceResumeForPreview } from '../../lib/enhance'
 import PaymentTabsModal from '../../components/payments/PaymentTabsModal'
+import AtsReport from './AtsReport'
 import type { PaymentIntentPayload } from '../../types/payments'
 
 /** Filter some sections according to plan (light preview trimming). */
@@ -56,6 +59,8 @@ export interface PreviewScreenProps {
   exportBlockedTitle?: string
   paymentStatus?: 'idle' | 'pending' | 'processing' | 'completed' | 'failed'
   paymentError?: string | null
+  /** Downloads the PDF of the current plan (entitlement checked by the server) */
+  onDownloadPdf: () => Promise<void>
 }
 
 /** PreviewScreen component */
@@ -70,7 +75,8 @@ export default function PreviewScreen({
   exportBlocked,
   exportBlockedTitle,
   paymentStatus = 'idle',
-  paymentError = null
+  paymentError = null,
+  onDownloadPdf
 }: PreviewScreenProps) {
   const { t } = useTranslation()
   const [downloading, setDownloading] = useState(false)
@@ -102,15 +108,13 @@ export default function PreviewScreen({
 
   if (!open) return null
 
-  /** Download the on-page resume as a PDF with a consistent document title, then close. */
+  /** Download the resume as a PDF, then close. */
   const printNow = async () => {
     if (exportBlocked) return
     setDownloading(true)
+    track('pdf_download', { plan: payment.plan, source: 'preview' })
     try {
-      await downloadPdf({
-        containerId: 'resume-sheet',
-        title: `${data.fullName || 'CV'} - ${data.headline || 'Mako'}`
-      })
+      await onDownloadPdf()
       onClose()
     } finally {
       setDownloading(false)
@@ -220,6 +224,16 @@ export default function PreviewScreen({
               {downloading ? '…' : payment.paid ? t('payment.downloadPdf') : t('payment.confirmAndPay')}
             </button>
           </div>
+
+          <div className="mt-4">
+            <AtsReport
+              data={data}
+              plan={payment.plan}
+              withPhoto={withPhoto}
+              paid={payment.paid}
+              title={`${data.fullName || 'CV'} - ${data.headline || 'Mako'}`}
+            />
+          </div>
         </aside>
       </div>
 
@@ -2,7 +2,7 @@
  * EducationFormList.tsx
  * Editable list for Education with native month pickers for start/end.
  * - Fields: degree, school, start (YYYY-MM), end (YYYY-MM or Present), description.
- * - Validates end >= start when both are valid (YYYY-MM) and end !== "Present".
+ * - Date errors (format, end >= start) come from the form validation (lib/resumeValidation.ts, FieldIssue).
  * - UX: "Present" toggle for ongoing studies, consistent with Experience form.
  * - Update: compact sizing for Degree, School, Start (Début) and End (Fin) to improve visual hierarchy.
  */
@@ -12,42 +12,14 @@ import type { EducationItem } from '../../types/resume'
 import InfoTooltip from '../InfoTooltip'
 import addBtnStyles from '../controls/AddButton.module.css'
 import MonthInput from '../controls/MonthInput'
+import { isPresentValue } from '../../lib/dates'
+import FieldIssue from './FieldIssue'
 
 interface Props {
   items: EducationItem[]
   onChange: (next: EducationItem[]) => void
 }
 
-/** Indicates if end is the special "Present" value. */
-function isPresentValue(v?: string) {
-  return (v || '').trim().toLowerCase() === 'present'
-}
-
-/** YYYY-MM basic check (01..12). */
-function isYearMonth(v?: string): boolean {
-  const s = (v || '').trim()
-  if (!/^\d{4}-\d{2}$/.test(s)) return false
-  const [, mm] = s.split('-')
-  const m = Number(mm)
-  return m >= 1 && m <= 12
-}
-
-/** Turns YYYY-MM into comparable integer (YYYY*100 + MM). */
-function parseYearMonthToKey(v?: string): number | null {
-  if (!isYearMonth(v)) return null
-  const [yy, mm] = (v as string).split('-')
-  return Number(yy) * 100 + Number(mm)
-}
-
-/** Returns true when end < start (invalid order). */
-function isDateOrderInvalid(start?: string, end?: string): boolean {
-  if (isPresentValue(end)) return false
-  const startKey = parseYearMonthToKey(start)
-  const endKey = parseYearMonthToKey(end)
-  if (startKey == null || endKey == null) return false
-  return endKey < startKey
-}
-
 /**
  * Education list component with month pickers and Present toggle.
  * - Compact visual size applied to "Diplôme", "Établissement", "Début", "Fin" inputs.
@@ -84,8 +56,6 @@ export default function EducationFormList({ items, onChange }: Props) {
     <div className="space-y-3">
       {items.map((it, idx) => {
         const present = isPresentValue(it.end)
-        const dateOrderInvalid = isDateOrderInvalid(it.start, it.end)
-        const endInputErrorId = `edu-${idx}-date-error`
 
         return (
           <div key={idx} className="rounded border border-[rgba(98,120,85,0.5)] p-3 bg-white">
@@ -118,46 +88,45 @@ export default function EducationFormList({ items, onChange }: Props) {
               </label>
 
               {/* Début (compact) */}
-              <MonthInput
-                label={t('educationForm.start', 'Début')}
-                value={it.start || ''}
-                onChange={(v) => update(idx, { start: v })}
-                aria-label={t('educationForm.start', 'Début')}
-                size="sm"
-              />
-
-              {/* Fin (compact) + Present toggle (compact) */}
-              <div className="grid grid-cols-[1fr_auto] items-end gap-2">
+              <div>
                 <MonthInput
-                  label={t('educationForm.end', 'Fin')}
-                  value={present ? '' : (it.end || '')}
-                  onChange={(v) => update(idx, { end: v })}
-                  aria-label={t('educationForm.end', 'Fin')}
-                  disabled={present}
-                  errorText={
-                    dateOrderInvalid
-                      ? t(
-                        'educationForm.dateOrderHint',
-                        'La date de fin doit être ≥ à la date de début (format YYYY-MM).'
-                      )
-                      : undefined
-                  }
-                  id={endInputErrorId}
+                  label={t('educationForm.start', 'Début')}
+                  value={it.start || ''}
+                  onChange={(v) => update(idx, { start: v })}
+                  aria-label={t('educationForm.start', 'Début')}
                   size="sm"
+                  name={`education.${idx}.start`}
                 />
-                {/* Compact Present toggle to match smaller controls */}
-                <button
-                  type="button"
-                  onClick={() => togglePresent(idx)}
-                  className={`min-h-[36px] self-end rounded border px-2 text-xs sm:text-sm bg-[rgba(230,235,220,0.6)] ${
-                    present
-                      ? 'border-[rgb(60,77,42)] text-[rgb(60,77,42)] hover:border-[rgb(50,64,35)]'
-                      : 'border-[rgba(98,120,85,0.5)] text-neutral-800 hover:border-[rgb(60,77,42)]'
-                  }`}
-                  title="Basculer Present"
-                >
-                  {present ? 'Present ✓' : 'Present'}
-                </button>
+                <FieldIssue name={`education.${idx}.start`} />
+              </div>
+
+              {/* Fin (compact) + Present toggle (compact) */}
+              <div>
+                <div className="grid grid-cols-[1fr_auto] items-end gap-2">
+                  <MonthInput
+                    label={t('educationForm.end', 'Fin')}
+                    value={present ? '' : (it.end || '')}
+                    onChange={(v) => update(idx, { end: v })}
+                    aria-label={t('educationForm.end', 'Fin')}
+                    disabled={present}
+                    name={`education.${idx}.end`}
+                    size="sm"
+                  />
+                  {/* Compact Present toggle to match smaller controls */}
+                  <button
+                    type="button"
+                    onClick={() => togglePresent(idx)}
+                    className={`min-h-[36px] self-end rounded border px-2 text-xs sm:text-sm bg-[rgba(230,235,220,0.6)] ${
+                      present
+                        ? 'border-[rgb(60,77,42)] text-[rgb(60,77,42)] hover:border-[rgb(50,64,35)]'
+                        : 'border-[rgba(98,120,85,0.5)] text-neutral-800 hover:border-[rgb(60,77,42)]'
+                    }`}
+                    title="Basculer Present"
+                  >
+                    {present ? 'Present ✓' : 'Present'}
+                  </button>
+                </div>
+                <FieldIssue name={`education.${idx}.end`} />
               </div>
             </div>
 
@@ -3,7 +3,8 @@
  * Liste éditable d'expériences professionnelles.
  * - Champs: title, company, start, end (+ bouton "Present"), description.
  * - Options: génération de puces (IA) via getExperienceBullets(lang, domain, role).
- * - Validation douce: si start/end au format YYYY-MM et end !== "Present", alors end ≥ start.
+ * - Validation (lib/resumeValidation.ts) affichée sous les champs via FieldIssue: format et ordre des dates,
+ *   période sans poste, puces trop longues.
  * - Aide: icône info avec infobulle sur les formats de date acceptés.
  * - Mobile: champs en 16px, boutons min 44px pour confort tactile.
  * - Thème: olive (boutons primaires olive, survols border olive)
@@ -16,6 +17,8 @@ import { getExperienceBullets, getSuggestedExperiences } from '../../lib/suggest
 import InfoTooltip from '../InfoTooltip'
 import addBtnStyles from '../controls/AddButton.module.css'
 import MonthInput from '../controls/MonthInput'
+import { isPresentValue } from '../../lib/dates'
+import FieldIssue from './FieldIssue'
 
 interface Props {
   /** Liste des expériences */
@@ -28,44 +31,6 @@ interface Props {
   domain: ResumeDomain
 }
 
-/** Indique si la valeur "fin" représente un emploi en cours. */
-function isPresentValue(v?: string) {
-  return (v || '').trim().toLowerCase() === 'present'
-}
-
-/** Vérifie si une chaîne suit le format YYYY-MM et un mois valide 01-12. */
-function isYearMonth(v?: string): boolean {
-  const s = (v || '').trim()
-  if (!/^\d{4}-\d{2}$/.test(s)) return false
-  const [, mm] = s.split('-')
-  const m = Number(mm)
-  return m >= 1 && m <= 12
-}
-
-/**
- * Transforme YYYY-MM en entier comparable (YYYY * 100 + MM).
- * Retourne null si format invalide.
- */
-function parseYearMonthToKey(v?: string): number | null {
-  if (!isYearMonth(v)) return null
-  const [yy, mm] = (v as string).split('-')
-  return Number(yy) * 100 + Number(mm)
-}
-
-/**
- * Détermine si l'ordre Start/End est invalide.
- * - Si l'un est vide ou invalide, on ne lève pas d'erreur (contrôle optionnel).
- * - Si end === "Present", pas d'erreur.
- * - Sinon, compare startKey et endKey.
- */
-function isDateOrderInvalid(start?: string, end?: string): boolean {
-  if (isPresentValue(end)) return false
-  const startKey = parseYearMonthToKey(start)
-  const endKey = parseYearMonthToKey(end)
-  if (startKey == null || endKey == null) return false
-  return endKey < startKey
-}
-
 /**
  * Composant de liste d'expérience avec ajout/suppression, IA, "Present" et validation d'ordre chronologique.
  * Ajoute une icône info pour documenter les formats de date acceptés.
@@ -114,8 +79,6 @@ export function ExperienceFormList({ items, onChange, lang, domain }: Props) {
     <div className="space-y-3">
       {items.map((it, idx) => {
         const present = isPresentValue(it.end)
-        const dateOrderInvalid = isDateOrderInvalid(it.start, it.end)
-        const endInputErrorId = `exp-${idx}-date-error`
         return (
           <div key={idx} className="rounded border border-[rgba(98,120,85,0.5)] p-3 bg-white">
             <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
@@ -144,42 +107,41 @@ export function ExperienceFormList({ items, onChange, lang, domain }: Props) {
                 />
               </label>
 
-              <MonthInput
-                label={t('experienceForm.start')}
-                value={it.start || ''}
-                onChange={(v) => update(idx, { start: v })}
-                aria-label={t('experienceForm.start')}
-              />
-
-              <div className="grid grid-cols-[1fr_auto] items-end gap-2">
+              <div>
                 <MonthInput
-                  label={t('experienceForm.end')}
-                  value={present ? '' : (it.end || '')}
-                  onChange={(v) => update(idx, { end: v })}
-                  aria-label={t('experienceForm.end')}
-                  disabled={present}
-                  errorText={
-                    dateOrderInvalid
-                      ? t(
-                        'experienceForm.dateOrderHint',
-                        'La date de fin doit être ≥ à la date de début (format YYYY-MM).'
-                      )
-                      : undefined
-                  }
-                  id={endInputErrorId}
+                  label={t('experienceForm.start')}
+                  value={it.start || ''}
+                  onChange={(v) => update(idx, { start: v })}
+                  aria-label={t('experienceForm.start')}
+                  name={`experiences.${idx}.start`}
                 />
-                <button
-                  type="button"
-                  onClick={() => togglePresent(idx)}
-                  className={`min-h-[44px] self-end rounded border px-3 text-sm bg-[rgba(230,235,220,0.6)] ${
-                    present
-                      ? 'border-[rgb(60,77,42)] text-[rgb(60,77,42)] hover:border-[rgb(50,64,35)]'
-                      : 'border-[rgba(98,120,85,0.5)] text-neutral-800 hover:border-[rgb(60,77,42)]'
-                  }`}
-                  title="Basculer Present"
-                >
-                  {present ? 'Present ✓' : 'Present'}
-                </button>
+                <FieldIssue name={`experiences.${idx}.start`} />
+              </div>
+
+              <div>
+                <div className="grid grid-cols-[1fr_auto] items-end gap-2">
+                  <MonthInput
+                    label={t('experienceForm.end')}
+                    value={present ? '' : (it.end || '')}
+                    onChange={(v) => update(idx, { end: v })}
+                    aria-label={t('experienceForm.end')}
+                    disabled={present}
+                    name={`experiences.${idx}.end`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => togglePresent(idx)}
+                    className={`min-h-[44px] self-end rounded border px-3 text-sm bg-[rgba(230,235,220,0.6)] ${
+                      present
+                        ? 'border-[rgb(60,77,42)] text-[rgb(60,77,42)] hover:border-[rgb(50,64,35)]'
+                        : 'border-[rgba(98,120,85,0.5)] text-neutral-800 hover:border-[rgb(60,77,42)]'
+                    }`}
+                    title="Basculer Present"
+                  >
+                    {present ? 'Present ✓' : 'Present'}
+                  </button>
+                </div>
+                <FieldIssue name={`experiences.${idx}.end`} />
               </div>
             </div>
 
@@ -191,11 +153,13 @@ export function ExperienceFormList({ items, onChange, lang, domain }: Props) {
                 rows={4}
                 className="w-full rounded border border-[rgba(98,120,85,0.5)] px-3 py-2 text-base outline-none focus:border-[rgb(60,77,42)] sm:text-sm"
                 value={it.description}
+                name={`experiences.${idx}.description`}
                 onChange={(e) => update(idx, { description: e.target.value })}
                 placeholder={`• Réalisation 1
 • Réalisation 2
 • Réalisation 3`}
               />
+              <FieldIssue name={`experiences.${idx}.description`} />
             </label>
 
             <div className="mt-2 flex flex-wrap justify-between gap-2">
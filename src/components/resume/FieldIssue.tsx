@@ -0,0 +1,31 @@
+/**
+ * FieldIssue.tsx
+ * Message de validation d'un champ de ResumeForm sous un contrôle existant (MonthInput, textarea…).
+ * - Lit l'erreur du formulaire react-hook-form de ResumeForm (lib/resumeValidation.ts → useForm({ errors }))
+ *   et l'affiche avec FormMessage (ui/form.tsx); un avertissement est en orange, une erreur en rouge.
+ * - N'affiche rien quand le champ est valide.
+ */
+
+import { useFormContext, type FieldError, type FieldPath } from 'react-hook-form'
+import type { ResumeData } from '../../types/resume'
+import { FormField, FormItem, FormMessage } from '../ui/form'
+
+/** Classes du message: orange pour un avertissement, rouge pour une erreur. */
+export function issueClassName(error?: FieldError) {
+  return `mt-1 text-xs ${error?.type === 'warning' ? 'text-amber-700' : 'text-red-600'}`
+}
+
+export default function FieldIssue({ name }: { name: FieldPath<ResumeData> }) {
+  const { control } = useFormContext<ResumeData>()
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ fieldState }) => (
+        <FormItem className="space-y-0">
+          <FormMessage className={issueClassName(fieldState.error)} />
+        </FormItem>
+      )}
+    />
+  )
+}
@@ -0,0 +1,303 @@
+/**
+ * ImportCvDialog.tsx
+ * Import d'un CV existant (PDF ou DOCX) dans le formulaire.
+ * - Étape 1: choix du fichier, analysé par le serveur (server/import) sans service d'IA externe.
+ * - Étape 2: relecture des valeurs extraites, chacune avec son indice de confiance; les valeurs
+ *   peu sûres sont décochées. Seules les valeurs cochées remplacent celles du formulaire.
+ */
+
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { FileUp } from 'lucide-react'
+import Modal from '../Modal'
+import PrimaryButton from '../controls/PrimaryButton'
+import type { ResumeData } from '../../types/resume'
+import { useAuthStore } from '../../stores/auth'
+import { formatPeriod } from '../../../shared/sections.mjs'
+import {
+  applyCvImport,
+  defaultImportSelection,
+  importCvFile,
+  importFileType,
+  IMPORTED_FIELDS,
+  MAX_IMPORT_SIZE,
+  type CvImportResult,
+  type ImportConfidence,
+  type ImportedListKey,
+  type ImportSelection,
+} from '../../lib/cvImport'
+
+export interface ImportCvDialogProps {
+  open: boolean
+  onOpenChange: (next: boolean) => void
+  /** Valeur actuelle du formulaire */
+  value: ResumeData
+  /** Reçoit le CV avec les valeurs importées */
+  onApply: (next: ResumeData) => void
+}
+
+const CONFIDENCE_STYLES: Record<ImportConfidence, string> = {
+  high: 'bg-emerald-50 text-emerald-700',
+  medium: 'bg-amber-50 text-amber-700',
+  low: 'bg-red-50 text-red-700',
+}
+
+/** Pastille "Sûr / À vérifier / Incertain". */
+function ConfidenceBadge({ confidence }: { confidence: ImportConfidence }) {
+  const { t } = useTranslation()
+  const labels: Record<ImportConfidence, string> = {
+    high: t('import.confidence.high', 'Reliable'),
+    medium: t('import.confidence.medium', 'Check'),
+    low: t('import.confidence.low', 'Uncertain'),
+  }
+  return (
+    <span className={`flex-none rounded-full px-2 py-0.5 text-[11px] font-medium ${CONFIDENCE_STYLES[confidence]}`}>
+      {labels[confidence]}
+    </span>
+  )
+}
+
+/** Ligne cochable: libellé, valeur extraite et confiance. */
+function ReviewRow({
+  checked,
+  onToggle,
+  label,
+  detail,
+  confidence,
+}: {
+  checked: boolean
+  onToggle: (next: boolean) => void
+  label: string
+  detail?: string
+  confidence: ImportConfidence
+}) {
+  return (
+    <li>
+      <label className="flex cursor-pointer items-start gap-2 rounded px-1 py-1.5 hover:bg-neutral-50">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="mt-0.5 h-4 w-4 flex-none"
+        />
+        <span className="min-w-0 flex-1">
+          <span className="block text-sm text-neutral-900">{label}</span>
+          {detail ? <span className="block truncate text-xs text-neutral-600">{detail}</span> : null}
+        </span>
+        <ConfidenceBadge confidence={confidence} />
+      </label>
+    </li>
+  )
+}
+
+export default function ImportCvDialog({ open, onOpenChange, value, onApply }: ImportCvDialogProps) {
+  const { t } = useTranslation()
+  const token = useAuthStore((s) => s.token)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<CvImportResult | null>(null)
+  const [selection, setSelection] = useState<ImportSelection>({})
+
+  const reset = () => {
+    setLoading(false)
+    setError(null)
+    setResult(null)
+    setSelection({})
+  }
+
+  const close = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const onFile = async (file: File | undefined) => {
+    if (!file || !token) return
+    setError(null)
+    if (!importFileType(file)) {
+      setError(t('import.badType', 'Choose a PDF or Word (.docx) file.'))
+      return
+    }
+    if (file.size > MAX_IMPORT_SIZE) {
+      setError(t('import.tooLarge', 'This file is larger than 10 MB.'))
+      return
+    }
+    setLoading(true)
+    try {
+      const parsed = await importCvFile(token, file)
+      setResult(parsed)
+      setSelection(defaultImportSelection(parsed))
+    } catch (e: any) {
+      setError(e?.message || t('import.failed', 'The file could not be imported.'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggle = (key: string) => (next: boolean) => setSelection((s) => ({ ...s, [key]: next }))
+  const present = t('preview.present', 'Present')
+  const fieldLabels: Record<string, string> = {
+    fullName: t('form.fullName'),
+    headline: t('form.headline'),
+    email: t('form.email'),
+    phone: t('form.phone'),
+    location: t('form.location'),
+    linkedin: t('preview.linkedin', 'LinkedIn'),
+    summary: t('form.summary', 'Résumé professionnel'),
+    skills: t('form.skills', 'Compétences (séparées par des virgules)'),
+  }
+  const lists: Array<{ key: ImportedListKey; title: string; rows: Array<{ label: string; detail: string }> }> = result
+    ? [
+        {
+          key: 'experiences',
+          title: t('form.experience'),
+          rows: result.experiences.map(({ value: e }) => ({
+            label: [e.title, e.company].filter(Boolean).join(' — ') || '—',
+            detail: formatPeriod(e.start, e.end, present),
+          })),
+        },
+        {
+          key: 'education',
+          title: t('form.education'),
+          rows: result.education.map(({ value: e }) => ({
+            label: [e.degree, e.school].filter(Boolean).join(' — ') || '—',
+            detail: formatPeriod(e.start, e.end, present),
+          })),
+        },
+        {
+          key: 'certifications',
+          title: t('form.certifications'),
+          rows: result.certifications.map(({ value: c }) => ({
+            label: [c.name, c.issuer].filter(Boolean).join(' — ') || '—',
+            detail: c.date || '',
+          })),
+        },
+      ]
+    : []
+  const foundFields = result ? IMPORTED_FIELDS.filter((key) => result.fields[key]) : []
+  const nothingFound = result !== null && foundFields.length === 0 && lists.every((l) => l.rows.length === 0)
+  const anySelected = Object.values(selection).some(Boolean)
+
+  return (
+    <Modal open={open} onOpenChange={close} title={t('import.title', 'Import an existing CV')}>
+      {!result ? (
+        <div className="mt-3 space-y-3">
+          <p className="text-sm text-neutral-700">
+            {t(
+              'import.intro',
+              'Upload your current CV (PDF or Word). Its text is read on our server, without any AI service, and the file is not kept. You review every value before it replaces what is in the form.'
+            )}
+          </p>
+          {token ? (
+            <label className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed border-neutral-300 px-4 py-6 text-center hover:border-neutral-400">
+              <FileUp className="h-6 w-6 text-neutral-600" aria-hidden />
+              <span className="text-sm font-medium text-neutral-800">
+                {loading ? t('import.reading', 'Reading your CV…') : t('import.choose', 'Choose a PDF or DOCX file')}
+              </span>
+              <input
+                type="file"
+                accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                className="sr-only"
+                disabled={loading}
+                onChange={(e) => {
+                  void onFile(e.target.files?.[0])
+                  e.target.value = ''
+                }}
+              />
+            </label>
+          ) : (
+            <p className="rounded bg-neutral-50 p-3 text-sm text-neutral-700">
+              {t('import.signIn', 'Sign in to import a CV.')}
+            </p>
+          )}
+          {error ? (
+            <p className="text-sm text-red-700" role="alert">
+              {error}
+            </p>
+          ) : null}
+        </div>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {nothingFound ? (
+            <p className="text-sm text-neutral-700">
+              {t('import.nothing', 'Nothing could be recognised in this file. Try another version of your CV.')}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-neutral-700">
+                {t(
+                  'import.review',
+                  'Check the values found in your CV. Only the ticked values will replace those of the form; uncertain ones are unticked.'
+                )}
+              </p>
+              <div className="max-h-[55vh] space-y-3 overflow-auto pr-1">
+                {foundFields.length > 0 ? (
+                  <ul className="divide-y divide-neutral-100">
+                    {foundFields.map((key) => (
+                      <ReviewRow
+                        key={key}
+                        checked={Boolean(selection[`fields.${key}`])}
+                        onToggle={toggle(`fields.${key}`)}
+                        label={fieldLabels[key]}
+                        detail={result.fields[key]!.value}
+                        confidence={result.fields[key]!.confidence}
+                      />
+                    ))}
+                  </ul>
+                ) : null}
+                {lists
+                  .filter((list) => list.rows.length > 0)
+                  .map((list) => (
+                    <div key={list.key}>
+                      <h4 className="mb-1 text-xs font-semibold uppercase tracking-wide text-neutral-700">
+                        {list.title}
+                      </h4>
+                      <ul className="divide-y divide-neutral-100">
+                        {list.rows.map((row, i) => (
+                          <ReviewRow
+                            key={i}
+                            checked={Boolean(selection[`${list.key}.${i}`])}
+                            onToggle={toggle(`${list.key}.${i}`)}
+                            label={row.label}
+                            detail={row.detail}
+                            confidence={result[list.key][i].confidence}
+                          />
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+              </div>
+              <p className="text-xs text-neutral-600">
+                {t(
+                  'import.listsNote',
+                  'Ticked experiences, education and certifications replace the whole list of the form.'
+                )}
+              </p>
+            </>
+          )}
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              type="button"
+              onClick={reset}
+              className="rounded border border-neutral-300 bg-white px-3 py-1.5 text-sm font-medium text-neutral-800 hover:bg-neutral-50"
+            >
+              {t('import.another', 'Choose another file')}
+            </button>
+            {!nothingFound ? (
+              <PrimaryButton
+                type="button"
+                size="sm"
+                disabled={!anySelected}
+                onClick={() => {
+                  onApply(applyCvImport(value, result, selection))
+                  close(false)
+                }}
+              >
+                {t('import.apply', 'Replace the ticked fields')}
+              </PrimaryButton>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,159 @@
+/**
+ * LinkedInImportDialog.tsx
+ * Import de l'export de données LinkedIn (archive ZIP de fichiers CSV) dans le formulaire.
+ * - L'archive est lue dans le navigateur (lib/linkedinImport.ts): rien n'est envoyé au serveur.
+ * - Avant d'appliquer, résumé de ce qui sera ajouté et de ce qui est déjà présent (doublons ignorés).
+ */
+
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Linkedin } from 'lucide-react'
+import Modal from '../Modal'
+import PrimaryButton from '../controls/PrimaryButton'
+import type { ResumeData } from '../../types/resume'
+import { mergeLinkedInImport, readLinkedInExport, type LinkedInExport } from '../../lib/linkedinImport'
+
+export interface LinkedInImportDialogProps {
+  open: boolean
+  onOpenChange: (next: boolean) => void
+  /** Valeur actuelle du formulaire */
+  value: ResumeData
+  /** Reçoit le CV complété */
+  onApply: (next: ResumeData) => void
+}
+
+export default function LinkedInImportDialog({ open, onOpenChange, value, onApply }: LinkedInImportDialogProps) {
+  const { t } = useTranslation()
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [linkedin, setLinkedin] = useState<LinkedInExport | null>(null)
+
+  const merged = useMemo(() => (linkedin ? mergeLinkedInImport(value, linkedin) : null), [value, linkedin])
+
+  const close = (next: boolean) => {
+    if (!next) {
+      setLinkedin(null)
+      setError(null)
+    }
+    onOpenChange(next)
+  }
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    setLoading(true)
+    try {
+      setLinkedin(await readLinkedInExport(file))
+    } catch {
+      setError(t('linkedin.unreadable', 'This file is not a LinkedIn data export (ZIP).'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const rows = merged
+    ? ([
+        ['experiences', t('form.experience')],
+        ['education', t('form.education')],
+        ['certifications', t('form.certifications')],
+        ['skills', t('form.skills', 'Compétences (séparées par des virgules)')],
+      ] as const)
+    : []
+  const nothingNew = merged !== null && Object.values(merged.report.added).every((n) => n === 0)
+  const nothingFound =
+    linkedin !== null &&
+    linkedin.experiences.length + linkedin.education.length + linkedin.certifications.length + linkedin.skills.length === 0
+
+  return (
+    <Modal open={open} onOpenChange={close} title={t('linkedin.title', 'Import from LinkedIn')}>
+      {!merged ? (
+        <div className="mt-3 space-y-3">
+          <p className="text-sm text-neutral-700">
+            {t(
+              'linkedin.intro',
+              'On LinkedIn, open Settings → Data privacy → Get a copy of your data, and download the archive. Choose that ZIP file here: it is read on your device and nothing is sent.'
+            )}
+          </p>
+          <label className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed border-neutral-300 px-4 py-6 text-center hover:border-neutral-400">
+            <Linkedin className="h-6 w-6 text-neutral-600" aria-hidden />
+            <span className="text-sm font-medium text-neutral-800">
+              {loading ? t('linkedin.reading', 'Reading the archive…') : t('linkedin.choose', 'Choose the LinkedIn ZIP file')}
+            </span>
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              className="sr-only"
+              disabled={loading}
+              onChange={(e) => {
+                void onFile(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+          </label>
+          {error ? (
+            <p className="text-sm text-red-700" role="alert">
+              {error}
+            </p>
+          ) : null}
+        </div>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {nothingFound ? (
+            <p className="text-sm text-neutral-700">
+              {t('linkedin.empty', 'The archive contains no position, education, certification or skill.')}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-neutral-700">
+                {t(
+                  'linkedin.review',
+                  'What LinkedIn adds to your CV. Entries already in the form are not duplicated; only their empty fields are completed.'
+                )}
+              </p>
+              <ul className="divide-y divide-neutral-100 rounded border border-neutral-200">
+                {rows.map(([key, label]) => (
+                  <li key={key} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <span className="text-neutral-900">{label}</span>
+                    <span className="text-right text-neutral-700">
+                      {t('linkedin.added', { count: merged.report.added[key], defaultValue: '{{count}} new' })}
+                      {merged.report.duplicates[key] > 0 ? (
+                        <span className="ml-2 text-xs text-neutral-500">
+                          {t('linkedin.duplicates', {
+                            count: merged.report.duplicates[key],
+                            defaultValue: '({{count}} already there)',
+                          })}
+                        </span>
+                      ) : null}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setLinkedin(null)}
+              className="rounded border border-neutral-300 bg-white px-3 py-1.5 text-sm font-medium text-neutral-800 hover:bg-neutral-50"
+            >
+              {t('import.another', 'Choose another file')}
+            </button>
+            {!nothingFound ? (
+              <PrimaryButton
+                type="button"
+                size="sm"
+                disabled={nothingNew && Object.values(merged.report.duplicates).every((n) => n === 0)}
+                onClick={() => {
+                  onApply(merged.data)
+                  close(false)
+                }}
+              >
+                {t('linkedin.apply', 'Add to my CV')}
+              </PrimaryButton>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
@@ -4,6 +4,10 @@
  * - Conserve: Langue, Domaine, Modèle (avec/sans photo), Informations de contact,
  *   Expérience, Éducation, Certifications.
  * - Ajoute: Career Highlights (points forts de carrière) en liste dynamique.
+ * - Import d'un CV existant (PDF/DOCX) via ImportCvDialog, relu avant de remplacer les champs,
+ *   ou de l'export de données LinkedIn via LinkedInImportDialog (sans doublons); émis par onReplace.
+ * - Validation en ligne (lib/resumeValidation.ts): les problèmes deviennent les erreurs d'un formulaire
+ *   react-hook-form, affichées par les primitives ui/form.tsx (FormField, FormMessage, FieldIssue).
  * - Mobile: tailles de police 16px sur mobile pour éviter le zoom iOS, meilleurs touch targets.
  * - Thème: olive (boutons primaires olive, survols border olive).
  *
@@ -12,7 +16,8 @@
 
 import type { ResumeData, ResumeDomain } from '../../types/resume'
 import { useTranslation } from 'react-i18next'
-import { useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { FileUp, Linkedin } from 'lucide-react'
 import { ExperienceFormList } from './ExperienceFormList'
 import EducationFormList from './EducationFormList'
 import CertificationFormList from './CertificationFormList'
@@ -21,6 +26,14 @@ import PrimaryButton from '../controls/PrimaryButton'
 import PrimarySelect from '../controls/PrimarySelect'
 import { COUNTRIES_FR } from '../../data/countries.fr'
 import PhotoUploader from '../controls/PhotoUploader'
+import ImportCvDialog from './ImportCvDialog'
+import LinkedInImportDialog from './LinkedInImportDialog'
+import { parseSkills } from '../../../shared/sections.mjs'
+import { useForm, useFormContext, type FieldPath } from 'react-hook-form'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../ui/form'
+import { issueClassName } from './FieldIssue'
+import { validationMessage } from './validationMessage'
+import { toFieldErrors, validateResume } from '../../lib/resumeValidation'
 
 /** Props du composant ResumeForm */
 interface Props {
@@ -30,6 +43,8 @@ interface Props {
   withPhoto: boolean
   /** Emet la valeur mise à jour */
   onChange: (next: ResumeData) => void
+  /** Import qui remplace les champs: enregistré comme une version à part (défaut: onChange) */
+  onReplace?: (next: ResumeData) => void
   /** Bascule le template (photo/sans photo) */
   onTogglePhoto: (val: boolean) => void
   /** Action pour passer à l'étape suivante */
@@ -39,31 +54,46 @@ interface Props {
 /**
  * Champ input standard.
  * - Utilise .u-input (hover/focus unifiés).
+ * - `name`: chemin du champ dans le CV, pour son message de validation.
  */
 function Field({
+  name,
   label,
   value,
   onChange,
   placeholder,
   type = 'text',
 }: {
+  name: FieldPath<ResumeData>
   label: string
   value: string
   onChange: (v: string) => void
   placeholder?: string
   type?: string
 }) {
+  const { control } = useFormContext<ResumeData>()
   return (
-    <label className="block">
-      <span className="mb-1 block text-sm font-medium text-neutral-800">{label}</span>
-      <input
-        type={type}
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={placeholder}
-        className="u-input w-full"
-      />
-    </label>
+    <FormField
+      control={control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem className="space-y-0">
+          <FormLabel className="mb-1 block text-sm font-medium text-neutral-800">{label}</FormLabel>
+          <FormControl>
+            <input
+              ref={field.ref}
+              name={name}
+              type={type}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder={placeholder}
+              className="u-input w-full"
+            />
+          </FormControl>
+          <FormMessage className={issueClassName(fieldState.error)} />
+        </FormItem>
+      )}
+    />
   )
 }
 
@@ -73,29 +103,79 @@ function Field({
  * - Utilise .u-textarea (hover/focus unifiés).
  */
 function TextAreaField({
+  name,
   label,
   value,
   onChange,
   placeholder,
   rows = 4,
 }: {
+  name: FieldPath<ResumeData>
   label: string
   value: string
   onChange: (v: string) => void
   placeholder?: string
   rows?: number
 }) {
+  const { control } = useFormContext<ResumeData>()
   return (
-    <label className="block">
-      <span className="mb-1 block text-sm font-medium text-neutral-800">{label}</span>
-      <textarea
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={placeholder}
-        rows={rows}
-        className="u-textarea w-full"
-      />
-    </label>
+    <FormField
+      control={control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem className="space-y-0">
+          <FormLabel className="mb-1 block text-sm font-medium text-neutral-800">{label}</FormLabel>
+          <FormControl>
+            <textarea
+              ref={field.ref}
+              name={name}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder={placeholder}
+              rows={rows}
+              className="u-textarea w-full"
+            />
+          </FormControl>
+          <FormMessage className={issueClassName(fieldState.error)} />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+/**
+ * SkillsField
+ * Les compétences sont une liste (shared/resume.mjs) saisie comme un texte séparé par des virgules.
+ * - Le texte tapé est gardé tel quel (virgule finale, espaces) tant qu'il correspond à la liste;
+ *   il est réécrit quand la liste change ailleurs (import, IA).
+ */
+function SkillsField({
+  label,
+  value,
+  onChange,
+  placeholder,
+}: {
+  label: string
+  value: string[]
+  onChange: (v: string[]) => void
+  placeholder?: string
+}) {
+  const [text, setText] = useState(() => value.join(', '))
+  useEffect(() => {
+    setText((current) => (parseSkills(current).join(',') === parseSkills(value).join(',') ? current : value.join(', ')))
+  }, [value])
+
+  return (
+    <Field
+      name="skills"
+      label={label}
+      value={text}
+      onChange={(v) => {
+        setText(v)
+        onChange(parseSkills(v))
+      }}
+      placeholder={placeholder}
+    />
   )
 }
 
@@ -104,8 +184,10 @@ function TextAreaField({
  * - Le résumé et les compétences affichés dans l'aperçu sont strictement ceux saisis ici.
  * - Aucune complétion/IA n'intervient sur ces deux champs.
  */
-export function ResumeForm({ value, onChange, withPhoto, onTogglePhoto, onNext }: Props) {
+export function ResumeForm({ value, onChange, onReplace = onChange, withPhoto, onTogglePhoto, onNext }: Props) {
   const { t } = useTranslation()
+  const [importOpen, setImportOpen] = useState(false)
+  const [linkedinOpen, setLinkedinOpen] = useState(false)
 
   /** Options de domaine localisées */
   const domainOptions = useMemo(
@@ -128,194 +210,238 @@ export function ResumeForm({ value, onChange, withPhoto, onTogglePhoto, onNext }
   const certifications = value.certifications ?? []
   const highlights = value.highlights ?? []
 
+  /** Problèmes en ligne; les champs requis vides sont signalés par le score de complétude (CompletenessScore). */
+  const errors = useMemo(
+    () =>
+      toFieldErrors(
+        validateResume(value).filter((issue) => issue.code !== 'required'),
+        (issue) => validationMessage(t, issue)
+      ),
+    [value, t]
+  )
+  const form = useForm<ResumeData>({ errors, shouldFocusError: false })
+
   return (
-    <div className="space-y-4">
-      {/* Langue + Template (photo / sans) + Domaine */}
-      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
-        {/* Langue */}
-        <label className="block">
-          <span className="mb-1 block text-sm font-medium">{t('form.language')}</span>
-          <PrimarySelect
-            value={value.language}
-            onChange={(val) => onChange({ ...value, language: val as any })}
-            aria-label={t('form.language')}
-          >
-            <option value="fr">Français</option>
-            <option value="en">English</option>
-            <option value="sw">Swahili</option>
-            <option value="pt">Português</option>
-            <option value="mg">Malagasy</option>
-          </PrimarySelect>
-        </label>
+    <Form {...form}>
+      <div className="space-y-4">
+        {/* Import d'un CV existant */}
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-neutral-200 bg-neutral-50 px-3 py-2">
+          <span className="text-sm text-neutral-700">{t('import.prompt', 'Already have a CV?')}</span>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setImportOpen(true)}
+              className="inline-flex items-center gap-1.5 rounded border border-neutral-300 bg-white px-2.5 py-1 text-sm font-medium text-neutral-800 hover:bg-neutral-50"
+            >
+              <FileUp className="h-4 w-4" aria-hidden />
+              {t('import.open', 'Import PDF / Word')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setLinkedinOpen(true)}
+              className="inline-flex items-center gap-1.5 rounded border border-neutral-300 bg-white px-2.5 py-1 text-sm font-medium text-neutral-800 hover:bg-neutral-50"
+            >
+              <Linkedin className="h-4 w-4" aria-hidden />
+              {t('linkedin.open', 'Import from LinkedIn')}
+            </button>
+          </div>
+        </div>
+        <ImportCvDialog open={importOpen} onOpenChange={setImportOpen} value={value} onApply={onReplace} />
+        <LinkedInImportDialog open={linkedinOpen} onOpenChange={setLinkedinOpen} value={value} onApply={onReplace} />
 
-        {/* Domaine */}
-        <label className="block">
-          <span className="mb-1 block text-sm font-medium">{t('form.domain')}</span>
-          <PrimarySelect
-            value={value.domain}
-            onChange={(val) => onChange({ ...value, domain: val as any })}
-            aria-label={t('form.domain')}
-          >
-            {domainOptions.map((opt) => (
-              <option key={opt.value} value={opt.value}>
-                {opt.label}
-              </option>
-            ))}
-          </PrimarySelect>
-        </label>
+        {/* Langue + Template (photo / sans) + Domaine */}
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          {/* Langue */}
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium">{t('form.language')}</span>
+            <PrimarySelect
+              value={value.language}
+              onChange={(val) => onChange({ ...value, language: val as any })}
+              aria-label={t('form.language')}
+            >
+              <option value="fr">Français</option>
+              <option value="en">English</option>
+              <option value="sw">Swahili</option>
+              <option value="pt">Português</option>
+              <option value="mg">Malagasy</option>
+            </PrimarySelect>
+          </label>
 
-        {/* Modèle photo / sans photo */}
-        <label className="block">
-          <span className="mb-1 block text-sm font-medium">
-            {withPhoto ? t('form.templatePhoto') : t('form.templateNoPhoto')}
-          </span>
-          <PrimaryButton
-            type="button"
-            onClick={() => onTogglePhoto(!withPhoto)}
-            className="w-full"
-            size="sm"
-            aria-label={withPhoto ? t('form.templatePhoto') : t('form.templateNoPhoto')}
-          >
-            {withPhoto
-              ? t('form.toggle.toWithoutPhoto', '→ Without photo')
-              : t('form.toggle.toWithPhoto', '→ With photo')}
-          </PrimaryButton>
-        </label>
-      </div>
+          {/* Domaine */}
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium">{t('form.domain')}</span>
+            <PrimarySelect
+              value={value.domain}
+              onChange={(val) => onChange({ ...value, domain: val as any })}
+              aria-label={t('form.domain')}
+            >
+              {domainOptions.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </PrimarySelect>
+          </label>
 
-      {/* Informations de base — vertical alignment, equal widths */}
-      <div className="grid grid-cols-1 gap-3">
-        <Field
-          label={t('form.fullName')}
-          value={value.fullName}
-          onChange={(v) => onChange({ ...value, fullName: v })}
-          placeholder={t('form.placeholders.fullName', 'e.g., Aïcha K.')}
-        />
-        <Field
-          label={t('form.headline')}
-          value={value.headline}
-          onChange={(v) => onChange({ ...value, headline: v })}
-          placeholder={t('form.placeholders.headline', 'e.g., Frontend Developer')}
-        />
-        {/* Pays placé avant l'e-mail pour refléter la priorité demandée */}
-        <label className="block">
-          <span className="mb-1 block text-sm font-medium text-neutral-800">{t('form.country', 'Country')}</span>
-          <select
-            className="u-select w-full"
-            value={value.country ?? ''}
-            onChange={(e) => onChange({ ...value, country: e.target.value })}
-            aria-label={t('form.country', 'Country')}
-          >
-            <option value="">{t('form.selectCountry', 'Select a country')}</option>
-            {COUNTRIES_FR.map((name) => (
-              <option key={name} value={name}>
-                {name}
-              </option>
-            ))}
-          </select>
-        </label>
-        <Field
-          label={t('form.email')}
-          value={value.email}
-          onChange={(v) => onChange({ ...value, email: v })}
-          type="email"
-          placeholder={t('form.placeholders.email', 'you@example.com')}
-        />
-        <Field
-          label={t('form.phone')}
-          value={value.phone}
-          onChange={(v) => onChange({ ...value, phone: v })}
-          placeholder={t('form.placeholders.phone', '+243 99 999 9999')}
-        />
-        {/* Adresse */}
-        <Field
-          label={t('form.location')}
-          value={value.location}
-          onChange={(v) => onChange({ ...value, location: v })}
-          placeholder={t('form.placeholders.location', 'Kinshasa, DRC')}
-        />
-        {withPhoto ? (
-          <PhotoUploader
-            label={t('form.photoUrl')}
-            value={value.photoUrl || ''}
-            onChange={(next) => onChange({ ...value, photoUrl: next || '' })}
-          />
-        ) : null}
-      </div>
+          {/* Modèle photo / sans photo */}
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium">
+              {withPhoto ? t('form.templatePhoto') : t('form.templateNoPhoto')}
+            </span>
+            <PrimaryButton
+              type="button"
+              onClick={() => onTogglePhoto(!withPhoto)}
+              className="w-full"
+              size="sm"
+              aria-label={withPhoto ? t('form.templatePhoto') : t('form.templateNoPhoto')}
+            >
+              {withPhoto
+                ? t('form.toggle.toWithoutPhoto', '→ Without photo')
+                : t('form.toggle.toWithPhoto', '→ With photo')}
+            </PrimaryButton>
+          </label>
+        </div>
 
-      {/* Résumé + Compétences */}
-      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-        <div className="sm:col-span-2">
-          <TextAreaField
-            label={t('form.summary', 'Résumé professionnel')}
-            value={value.summary}
-            onChange={(v) => onChange({ ...value, summary: v })}
-            placeholder={t('form.placeholders.summary')}
-            rows={4}
+        {/* Informations de base — vertical alignment, equal widths */}
+        <div className="grid grid-cols-1 gap-3">
+          <Field
+            name="fullName"
+            label={t('form.fullName')}
+            value={value.fullName}
+            onChange={(v) => onChange({ ...value, fullName: v })}
+            placeholder={t('form.placeholders.fullName', 'e.g., Aïcha K.')}
           />
-        </div>
-        <div className="sm:col-span-2">
           <Field
-            label={t('form.skills', 'Compétences (séparées par des virgules)')}
-            value={value.skills}
-            onChange={(v) => onChange({ ...value, skills: v })}
-            placeholder={t('form.placeholders.skills', 'e.g., React, TypeScript, UI Design')}
+            name="headline"
+            label={t('form.headline')}
+            value={value.headline}
+            onChange={(v) => onChange({ ...value, headline: v })}
+            placeholder={t('form.placeholders.headline', 'e.g., Frontend Developer')}
+          />
+          {/* Pays placé avant l'e-mail pour refléter la priorité demandée */}
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-neutral-800">{t('form.country', 'Country')}</span>
+            <select
+              className="u-select w-full"
+              value={value.country ?? ''}
+              onChange={(e) => onChange({ ...value, country: e.target.value })}
+              aria-label={t('form.country', 'Country')}
+            >
+              <option value="">{t('form.selectCountry', 'Select a country')}</option>
+              {COUNTRIES_FR.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <Field
+            name="email"
+            label={t('form.email')}
+            value={value.email}
+            onChange={(v) => onChange({ ...value, email: v })}
+            type="email"
+            placeholder={t('form.placeholders.email', 'you@example.com')}
+          />
+          <Field
+            name="phone"
+            label={t('form.phone')}
+            value={value.phone}
+            onChange={(v) => onChange({ ...value, phone: v })}
+            placeholder={t('form.placeholders.phone', '+243 99 999 9999')}
+          />
+          {/* Adresse */}
+          <Field
+            name="location"
+            label={t('form.location')}
+            value={value.location}
+            onChange={(v) => onChange({ ...value, location: v })}
+            placeholder={t('form.placeholders.location', 'Kinshasa, DRC')}
           />
-          <p className="mt-1 text-xs text-neutral-700">{t('form.skillsHint')}</p>
+          {withPhoto ? (
+            <PhotoUploader
+              label={t('form.photoUrl')}
+              value={value.photoUrl || ''}
+              onChange={(next) => onChange({ ...value, photoUrl: next || '' })}
+            />
+          ) : null}
         </div>
-      </div>
 
-      {/* Expérience professionnelle */}
-      <div className="pt-1">
-        <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide">
-          {t('form.experience')}
-        </h4>
-        <ExperienceFormList
-          items={experiences}
-          onChange={(items) => onChange({ ...value, experiences: items })}
-          lang={value.language}
-          domain={value.domain}
-        />
-      </div>
+        {/* Résumé + Compétences */}
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <div className="sm:col-span-2">
+            <TextAreaField
+              name="summary"
+              label={t('form.summary', 'Résumé professionnel')}
+              value={value.summary}
+              onChange={(v) => onChange({ ...value, summary: v })}
+              placeholder={t('form.placeholders.summary')}
+              rows={4}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <SkillsField
+              label={t('form.skills', 'Compétences (séparées par des virgules)')}
+              value={value.skills}
+              onChange={(v) => onChange({ ...value, skills: v })}
+              placeholder={t('form.placeholders.skills', 'e.g., React, TypeScript, UI Design')}
+            />
+            <p className="mt-1 text-xs text-neutral-700">{t('form.skillsHint')}</p>
+          </div>
+        </div>
 
-      {/* Éducation / Études */}
-      <div className="pt-1">
-        <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide">
-          {t('form.education')}
-        </h4>
-        <EducationFormList
-          items={education}
-          onChange={(items) => onChange({ ...value, education: items })}
-        />
-      </div>
+        {/* Expérience professionnelle */}
+        <div id="resume-experiences" className="pt-1">
+          <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide">
+            {t('form.experience')}
+          </h4>
+          <ExperienceFormList
+            items={experiences}
+            onChange={(items) => onChange({ ...value, experiences: items })}
+            lang={value.language}
+            domain={value.domain}
+          />
+        </div>
 
-      {/* Certifications */}
-      <div className="pt-1">
-        <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide">
-          {t('form.certifications')}
-        </h4>
-        <CertificationFormList
-          items={certifications}
-          onChange={(items) => onChange({ ...value, certifications: items })}
-        />
-      </div>
+        {/* Éducation / Études */}
+        <div id="resume-education" className="pt-1">
+          <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide">
+            {t('form.education')}
+          </h4>
+          <EducationFormList
+            items={education}
+            onChange={(items) => onChange({ ...value, education: items })}
+          />
+        </div>
 
-      {/* Career Highlights */}
-      <div className="pt-1">
-        <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide">
-          {t('highlightsForm.label', 'Career Highlights')}
-        </h4>
-        <HighlightsFormList
-          items={highlights}
-          onChange={(items) => onChange({ ...value, highlights: items })}
-        />
-      </div>
+        {/* Certifications */}
+        <div className="pt-1">
+          <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide">
+            {t('form.certifications')}
+          </h4>
+          <CertificationFormList
+            items={certifications}
+            onChange={(items) => onChange({ ...value, certifications: items })}
+          />
+        </div>
+
+        {/* Career Highlights */}
+        <div id="resume-highlights" className="pt-1">
+          <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide">
+            {t('highlightsForm.label', 'Career Highlights')}
+          </h4>
+          <HighlightsFormList
+            items={highlights}
+            onChange={(items) => onChange({ ...value, highlights: items })}
+          />
+        </div>
 
-      <div className="pt-2">
-        <PrimaryButton type="button" onClick={onNext}>
-          {t('form.continue')}
-        </PrimaryButton>
+        <div className="pt-2">
+          <PrimaryButton type="button" onClick={onNext}>
+            {t('form.continue')}
+          </PrimaryButton>
+        </div>
       </div>
-    </div>
+    </Form>
   )
 }
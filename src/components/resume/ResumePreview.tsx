@@ -19,6 +19,7 @@ import type {
 import PlanBadge from '../PlanBadge'
 import ExperiencePreviewList from '../preview/ExperiencePreviewList'
 import { enhanceResumeForPreview } from '../../lib/enhance'
+import { parseSkills } from '../../../shared/sections.mjs'
 
 /** Retourne des classes utilitaires pour la variante visuelle. */
 function variantClasses(variant: 'default' | 'advancedAccent') {
@@ -55,12 +56,6 @@ function toBullets(text?: string): string[] {
     .filter(Boolean)
 }
 
-/** Transforme une chaîne de compétences en liste unique. */
-function parseSkills(skills?: string): string[] {
-  if (!skills) return []
-  return Array.from(new Set(skills.split(',').map((s) => s.trim()).filter(Boolean)))
-}
-
 /** Détection d'une description exploitable. */
 function hasMeaningfulDescription(desc?: string): boolean {
   const text = (desc || '').replace(/\r/g, '')
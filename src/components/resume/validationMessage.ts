@@ -0,0 +1,51 @@
+/**
+ * validationMessage.ts
+ * Texte traduit d'un problème de validation du formulaire (lib/resumeValidation.ts), clés validation.<code>.
+ * - Partagé par les messages en ligne de ResumeForm et les conseils de CompletenessScore.
+ */
+
+import type { TFunction } from 'i18next'
+import type { ValidationIssue } from '../../lib/resumeValidation'
+
+/** Libellé du champ ou de la rubrique d'un message « requis ». */
+const FIELD_LABEL_KEYS: Record<string, [string, string]> = {
+  fullName: ['form.fullName', 'Nom complet'],
+  headline: ['form.headline', 'Intitulé'],
+  email: ['form.email', 'E-mail'],
+  phone: ['form.phone', 'Téléphone'],
+  summary: ['form.summary', 'Résumé professionnel'],
+  skills: ['preview.skills', 'Compétences'],
+  experiences: ['form.experience', 'Expérience'],
+  education: ['form.education', 'Éducation'],
+  highlights: ['highlightsForm.label', 'Faits marquants de carrière'],
+}
+
+export function validationMessage(t: TFunction, issue: ValidationIssue): string {
+  const params = { ...issue.params }
+  switch (issue.code) {
+    case 'required': {
+      const [key, fallback] = FIELD_LABEL_KEYS[String(params.field)] || [String(params.field), String(params.field)]
+      return t('validation.required', { field: t(key, fallback), defaultValue: 'Fill in “{{field}}”.' })
+    }
+    case 'emailFormat':
+      return t('validation.emailFormat', 'This e-mail address is not valid (example: name@domain.com).')
+    case 'phoneFormat':
+      return params.country
+        ? t('validation.phoneFormat', { ...params, defaultValue: 'This is not a valid phone number for {{country}}.' })
+        : t('validation.phoneFormatIntl', 'This phone number is not valid: use the international format (+243 …).')
+    case 'dateFormat':
+      return t('validation.dateFormat', { ...params, defaultValue: '“{{value}}” is not a date in the YYYY-MM format.' })
+    case 'dateOrder':
+      return t('experienceForm.dateOrderHint', 'La date de fin doit être ≥ à la date de début (format YYYY-MM).')
+    case 'dateGap':
+      return t('validation.dateGap', {
+        ...params,
+        defaultValue: '{{months}} months without a position before this one: explain the gap (training, project…).',
+      })
+    case 'bulletLength':
+      return t('validation.bulletLength', {
+        ...params,
+        defaultValue: 'A bullet is {{length}} characters long: keep each one under {{max}}.',
+      })
+  }
+}
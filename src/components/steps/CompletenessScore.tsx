@@ -0,0 +1,80 @@
+/**
+ * CompletenessScore.tsx
+ * Score de complétude du CV affiché sous l'indicateur d'étapes, avec des conseils concrets.
+ * - Score et conseils calculés par lib/resumeValidation.ts (champs requis du type de CV, erreurs, avertissements).
+ * - Les trois premiers conseils sont visibles; un clic amène au champ concerné du formulaire.
+ */
+
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { ResumeData } from '../../types/resume'
+import { completenessOf, validateResume } from '../../lib/resumeValidation'
+import { validationMessage } from '../resume/validationMessage'
+
+interface Props {
+  data: ResumeData
+}
+
+const MAX_TIPS = 3
+
+/** Fait défiler jusqu'au champ (attribut name) ou à la rubrique (id resume-<path>) et lui donne le focus. */
+function focusField(path: string) {
+  const el = document.getElementsByName(path)[0] ?? document.getElementById(`resume-${path}`)
+  if (!el) return
+  el.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  el.focus({ preventScroll: true })
+}
+
+export function CompletenessScore({ data }: Props) {
+  const { t } = useTranslation()
+  const { score, tips } = useMemo(() => completenessOf(data, validateResume(data)), [data])
+  const color = score >= 80 ? 'bg-[rgb(60,77,42)]' : score >= 50 ? 'bg-amber-500' : 'bg-red-500'
+
+  return (
+    <div className="mx-auto mt-2 max-w-6xl px-4">
+      <div className="flex items-center gap-3">
+        <span className="shrink-0 text-sm font-medium text-neutral-800">
+          {t('completeness.label', { score, defaultValue: 'CV {{score}}% complete' })}
+        </span>
+        <div
+          className="h-2 flex-1 overflow-hidden rounded-full bg-neutral-200"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={score}
+          aria-label={t('completeness.title', 'Completeness')}
+        >
+          <div className={`h-full rounded-full ${color} transition-all`} style={{ width: `${score}%` }} />
+        </div>
+      </div>
+      {tips.length > 0 ? (
+        <ul className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+          {tips.slice(0, MAX_TIPS).map((tip) => (
+            <li key={`${tip.code}-${tip.path}`}>
+              <button
+                type="button"
+                onClick={() => focusField(tip.path)}
+                className={`text-left underline-offset-2 hover:underline ${
+                  tip.severity === 'warning' ? 'text-amber-800' : 'text-neutral-800'
+                }`}
+              >
+                {validationMessage(t, tip)}
+              </button>
+            </li>
+          ))}
+          {tips.length > MAX_TIPS ? (
+            <li className="text-neutral-600">
+              {t('completeness.more', { count: tips.length - MAX_TIPS, defaultValue: '+{{count}} more' })}
+            </li>
+          ) : null}
+        </ul>
+      ) : (
+        <p className="mt-1 text-xs text-[rgb(60,77,42)]">
+          {t('completeness.done', 'Everything is filled in: your CV is ready.')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default CompletenessScore
@@ -4,6 +4,7 @@
  * - Étudiant ($1): Résumé, Expérience, Éducation
  * - Professionnel ($2): Résumé, Compétences, Expérience, Éducation
  * - Avancé ($3): Résumé, Faits marquants de carrière, Compétences, Expérience, Éducation
+ *   (règles partagées avec les exports serveur: shared/sections.mjs)
  * - Header: nom + titre + contacts (Email • Téléphone • Localisation • LinkedIn), photo optionnelle à gauche (desktop).
  * - Impression fidèle: id "resume-sheet".
  */
@@ -12,47 +13,7 @@ import React, { useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import type { ResumeData, ResumePlan, ExperienceItem, EducationItem } from '../../types/resume'
 import PlanBadge from '../PlanBadge'
-
-/** Formate une période "start – end" avec traduction de "Present". */
-function formatPeriod(start?: string, end?: string, presentLabel: string = 'Present'): string {
-  const s = (start || '').trim()
-  const eRaw = (end || '').trim()
-  const isPresent = eRaw.toLowerCase() === 'present'
-  const e = isPresent ? presentLabel : eRaw
-
-  if (s && e) return `${s} – ${e}`
-  if (s && !eRaw) return `${s} – ${presentLabel}`
-  if (!s && e) return e
-  return ''
-}
-
-/** Convertit un texte multilignes en puces. */
-function toBullets(text?: string): string[] {
-  if (!text) return []
-  return text
-    .split('\n')
-    .map((l) => l.trim().replace(/^[-*•]\s?/, ''))
-    .filter(Boolean)
-}
-
-/** Parse les compétences séparées par des virgules. */
-function parseSkills(skills?: string): string[] {
-  if (!skills) return []
-  return Array.from(new Set(skills.split(',').map((s) => s.trim()).filter(Boolean)))
-}
-
-/**
- * Détermine quelles sections doivent être affichées selon le plan choisi.
- */
-function allowedSections(plan: ResumePlan) {
-  return {
-    summary: true,
-    highlights: plan === 'advanced',
-    skills: plan === 'pro' || plan === 'advanced',
-    experience: true,
-    education: true,
-  }
-}
+import { allowedSections, formatPeriod, parseSkills, toBullets } from '../../../shared/sections.mjs'
 
 /**
  * Returns subtle ring classes per plan to visually distinguish the active model.
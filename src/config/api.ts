@@ -1,8 +1,11 @@
 /**
  * Centralized API configuration
  * Automatically detects production vs development based on hostname
+ * Set API_BASE_URL at build time (e.g. http://localhost:8080) to develop against server.mjs
  */
 
+const localApiBase = process.env.API_BASE_URL || ''
+
 const getApiBase = (): string => {
   // Check if we're running on localhost (development)
   if (typeof window !== 'undefined') {
@@ -19,8 +22,8 @@ const getApiBase = (): string => {
     }
   }
   
-  // Development: use localhost backend
-  return 'https://ethanbackend.vercel.app'
+  // Development: use the local backend when configured, otherwise the hosted one
+  return localApiBase || 'https://ethanbackend.vercel.app'
 }
 
 export const API_BASE = getApiBase()
@@ -51,6 +51,7 @@ export function getPaymentLink(plan: ResumePlan): string | null {
  * getSuccessUrl
  * Returns the application URL where the payment provider should redirect on success.
  * Format: <origin><pathname>#?paid=1&plan={plan}
+ * The hash only tells the app to refresh its entitlements; it never unlocks a download by itself.
  *
  * @param plan ResumePlan
  * @returns string
@@ -0,0 +1,26 @@
+import * as React from "react"
+import { useCvsStore } from "../stores/cvs"
+
+/**
+ * Keeps the offline CV queue moving: flushes on mount and whenever connectivity returns.
+ */
+export function useCvSync(token: string | null) {
+  const flush = useCvsStore((s) => s.flush)
+  const setOnline = useCvsStore((s) => s.setOnline)
+
+  React.useEffect(() => {
+    if (!token) return
+    const onOnline = () => {
+      setOnline(true)
+      flush(token)
+    }
+    const onOffline = () => setOnline(false)
+    window.addEventListener("online", onOnline)
+    window.addEventListener("offline", onOffline)
+    flush(token)
+    return () => {
+      window.removeEventListener("online", onOnline)
+      window.removeEventListener("offline", onOffline)
+    }
+  }, [token, flush, setOnline])
+}
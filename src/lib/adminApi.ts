@@ -0,0 +1,124 @@
+/**
+ * adminApi.ts
+ * Client helpers for the admin API (admin role only, 403 otherwise).
+ * - fetchAdminStats: GET /api/admin/stats → daily series + totals over a date range.
+ * - fetchFunnel / fetchCohorts: conversion funnel (first-party events) and weekly cohort retention.
+ * - fetchAdminPayments: GET /api/admin/payments → one page of the filtered payments of the range.
+ * - downloadPaymentsCsv / downloadVisitsCsv: CSV exports of the same filters / of the daily series.
+ * - fetchAdminUsers / updateUserRole: staff management (support can search, only admins change roles).
+ * - fetchAdminPayment / runPaymentAction: payment detail (notes, audit trail) and refund / dispute / note.
+ */
+
+import type {
+  AdminStatsResponse,
+  AdminUser,
+  AuditEntry,
+  CohortReport,
+  DateRange,
+  FunnelReport,
+  PaymentAction,
+  PaymentDetail,
+  PaymentFilters,
+  PaymentRecord,
+  PaymentSort,
+  PaymentsPage,
+} from '../types/admin'
+import type { Role } from '../../shared/roles.mjs'
+import { API_BASE } from '../config/api'
+
+async function adminRequest<T>(token: string, path: string, init?: RequestInit) {
+  const res = await fetch(`${API_BASE}/api/admin${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+  })
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body?.error || 'Request failed')
+  return body as T
+}
+
+/** Query string without empty values. */
+function toQuery(params: Record<string, string | number | undefined>) {
+  return new URLSearchParams(
+    Object.entries(params)
+      .filter(([, v]) => v !== undefined && v !== '')
+      .map(([k, v]) => [k, String(v)])
+  )
+}
+
+function adminGet<T>(token: string, path: string, params: Record<string, string | number | undefined>) {
+  return adminRequest<T>(token, `${path}?${toQuery(params)}`)
+}
+
+/** Fetches a CSV export (authenticated) and saves it under the server-provided name. */
+async function downloadCsv(token: string, path: string, params: Record<string, string | number | undefined>) {
+  const res = await fetch(`${API_BASE}/api/admin${path}?${toQuery(params)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}))
+    throw new Error(body?.error || 'Export failed')
+  }
+  const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '')?.[1] || 'export.csv'
+  const url = URL.createObjectURL(await res.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function fetchAdminStats(token: string, range: DateRange) {
+  return adminGet<AdminStatsResponse>(token, '/stats', { ...range })
+}
+
+export function fetchFunnel(token: string, range: DateRange) {
+  return adminGet<FunnelReport>(token, '/funnel', { ...range })
+}
+
+export function fetchCohorts(token: string, range: DateRange) {
+  return adminGet<CohortReport>(token, '/cohorts', { ...range })
+}
+
+export function fetchAdminPayments(
+  token: string,
+  range: DateRange,
+  filters: PaymentFilters,
+  sort: PaymentSort,
+  page = 1,
+  pageSize = 20
+) {
+  return adminGet<PaymentsPage>(token, '/payments', { ...range, ...filters, ...sort, page, pageSize })
+}
+
+export function downloadPaymentsCsv(token: string, range: DateRange, filters: PaymentFilters, sort: PaymentSort) {
+  return downloadCsv(token, '/payments.csv', { ...range, ...filters, ...sort })
+}
+
+export function downloadVisitsCsv(token: string, range: DateRange) {
+  return downloadCsv(token, '/visits.csv', { ...range })
+}
+
+export function fetchAdminUsers(token: string, q = '') {
+  return adminGet<{ users: AdminUser[] }>(token, '/users', { q })
+}
+
+export function updateUserRole(token: string, id: string, role: Role) {
+  return adminRequest<{ user: AdminUser }>(token, `/users/${encodeURIComponent(id)}/role`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  })
+}
+
+export function fetchAdminPayment(token: string, id: string) {
+  return adminRequest<{ payment: PaymentDetail; audit: AuditEntry[] }>(token, `/payments/${encodeURIComponent(id)}`)
+}
+
+const ACTION_PATHS: Record<PaymentAction, string> = { refund: 'refund', dispute: 'dispute', note: 'notes' }
+
+/** Refund / dispute take a reason, a note takes its text. */
+export function runPaymentAction(token: string, id: string, action: PaymentAction, text: string) {
+  return adminRequest<{ payment: PaymentRecord }>(token, `/payments/${encodeURIComponent(id)}/${ACTION_PATHS[action]}`, {
+    method: 'POST',
+    body: JSON.stringify(action === 'note' ? { text } : { reason: text }),
+  })
+}
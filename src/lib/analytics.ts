@@ -5,10 +5,19 @@
  * - initGA(measurementId): injects gtag script and prepares window.gtag.
  * - trackPage(path): records a page_view event (we disable automatic page view in config).
  * - trackEvent(params): record a custom event.
+ * - recordVisit(token): first-party page view beacon for the admin dashboard (POST /api/analytics/visit).
+ *   First-party measurement too (shared/consent.mjs): nothing is sent without analytics consent.
+ * - hasAnalyticsConsent(): the "analytics" consent category (lib/consent.ts), also honoured by the event queue.
+ * - setGADisabled(measurementId, disabled): stops gtag from sending once analytics consent is withdrawn.
  *
  * This is intentionally minimal: it avoids adding libraries and works by injecting the official gtag.js script.
  */
 
+import { API_BASE } from '../config/api'
+import { hasConsent } from './consent'
+
+const VISIT_SESSION_KEY = 'mako_visit_session'
+
 /**
  * Minimal type for an event payload.
  */
@@ -93,4 +102,53 @@ export function trackEvent(params: EventParams): void {
     event_label: label,
     value,
   })
-}
\ No newline at end of file
+}
+/** True once the visitor accepted the analytics category (ConsentBanner). */
+export function hasAnalyticsConsent(): boolean {
+  return hasConsent('analytics')
+}
+
+/**
+ * Toggle gtag's opt-out flag (gtag.js cannot be unloaded once injected).
+ *
+ * @param measurementId - GA4 Measurement ID
+ * @param disabled - true to stop sending hits
+ */
+export function setGADisabled(measurementId: string, disabled: boolean): void {
+  ;(window as any)[`ga-disable-${measurementId}`] = disabled
+}
+
+/** Random id for this tab, forgotten when the tab closes. */
+export function visitSessionId(): string {
+  let id = sessionStorage.getItem(VISIT_SESSION_KEY)
+  if (!id) {
+    id = Math.random().toString(36).slice(2) + Date.now().toString(36)
+    sessionStorage.setItem(VISIT_SESSION_KEY, id)
+  }
+  return id
+}
+
+/**
+ * Record a page view on our own server (visits / active users in the admin dashboard).
+ * Does nothing without analytics consent.
+ *
+ * @param token - access token of the signed-in user, if any (counts the user as active)
+ */
+export function recordVisit(token?: string | null): void {
+  if (!hasAnalyticsConsent()) return
+  try {
+    fetch(`${API_BASE}/api/analytics/visit`, {
+      method: 'POST',
+      keepalive: true,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ sessionId: visitSessionId() }),
+    }).catch(() => {
+      // visits are best effort
+    })
+  } catch {
+    // sessionStorage unavailable (private mode, sandboxed iframe)
+  }
+}
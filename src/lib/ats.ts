@@ -0,0 +1,109 @@
+/**
+ * ats.ts
+ * "ATS check": what an applicant tracking system may fail to read in a CV, computed on the
+ * linear version of the CV (textExport.ts) for the selected plan.
+ * - imageOnly: the photo is the only content (an ATS reads no image).
+ * - missingContact: name, email, phone (errors), location (warning).
+ * - dateFormat: experience/education dates not in YYYY-MM (isYearMonth) nor "Present".
+ * - longBullet: bullets longer than MAX_BULLET_LENGTH characters.
+ * - missingSection: no Experience / Education heading (errors), no Summary / Skills (warnings).
+ * Messages are translated by the component (keys ats.<code>).
+ */
+
+import type { ResumeData, ResumePlan } from '../types/resume'
+import { allowedSections } from '../../shared/sections.mjs'
+import { isPresentValue, isYearMonth } from './dates'
+import { linearizeResume, type LinearSection } from './textExport'
+
+/** Beyond this, a bullet reads as a paragraph and is often truncated by ATS parsers. */
+export const MAX_BULLET_LENGTH = 200
+
+export type AtsSeverity = 'error' | 'warning'
+
+export type AtsIssueCode = 'imageOnly' | 'missingContact' | 'dateFormat' | 'longBullet' | 'missingSection'
+
+export interface AtsIssue {
+  code: AtsIssueCode
+  severity: AtsSeverity
+  /** Interpolation values of the message (field, section, item, value…) */
+  params: Record<string, string | number>
+}
+
+/** Short excerpt used to point at an item in a message. */
+function excerpt(text: string, max = 40) {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+/**
+ * Runs the ATS checks on a CV.
+ *
+ * @param data - CV data
+ * @param plan - plan deciding the visible sections
+ * @param withPhoto - whether the photo is printed
+ * @returns issues, errors first
+ */
+export function checkAts(data: ResumeData, plan: ResumePlan, withPhoto: boolean): AtsIssue[] {
+  const cv = linearizeResume(data, plan)
+  const show = allowedSections(plan)
+  const issues: AtsIssue[] = []
+  const sectionOf = (key: LinearSection['key']) => cv.sections.find((s) => s.key === key)
+
+  if (withPhoto && (data.photoUrl || '').trim() && cv.sections.length === 0) {
+    issues.push({ code: 'imageOnly', severity: 'error', params: {} })
+  }
+
+  const contacts: Array<[string, string | undefined, AtsSeverity]> = [
+    ['name', data.fullName, 'error'],
+    ['email', data.email, 'error'],
+    ['phone', data.phone, 'error'],
+    ['location', data.location, 'warning'],
+  ]
+  for (const [field, value, severity] of contacts) {
+    if (!(value || '').trim()) issues.push({ code: 'missingContact', severity, params: { field } })
+  }
+
+  const dated: Array<[LinearSection['key'], Array<{ start?: string; end?: string; label: string }>]> = [
+    ['experience', (data.experiences || []).map((e) => ({ ...e, label: e.title || e.company || '' }))],
+    ['education', (data.education || []).map((e) => ({ ...e, label: e.degree || e.school || '' }))],
+  ]
+  for (const [key, items] of dated) {
+    items.forEach((item, index) => {
+      const bad = [item.start, item.end]
+        .map((v) => (v || '').trim())
+        .filter((v) => v && !isYearMonth(v) && !isPresentValue(v))
+      for (const value of bad) {
+        issues.push({
+          code: 'dateFormat',
+          severity: 'warning',
+          params: { section: key, item: excerpt(item.label) || `#${index + 1}`, value },
+        })
+      }
+    })
+  }
+
+  for (const section of cv.sections) {
+    for (const item of section.items) {
+      for (const b of item.bullets) {
+        if (b.length > MAX_BULLET_LENGTH) {
+          issues.push({
+            code: 'longBullet',
+            severity: 'warning',
+            params: { section: section.key, item: excerpt(b), length: b.length, max: MAX_BULLET_LENGTH },
+          })
+        }
+      }
+    }
+  }
+
+  const required: Array<[LinearSection['key'], AtsSeverity]> = [
+    ['experience', 'error'],
+    ['education', 'error'],
+    ['summary', 'warning'],
+    ['skills', 'warning'],
+  ]
+  for (const [key, severity] of required) {
+    if (show[key] && !sectionOf(key)) issues.push({ code: 'missingSection', severity, params: { section: key } })
+  }
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+}
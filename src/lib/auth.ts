@@ -1,4 +1,4 @@
-import type { AuthResponse } from '../types/auth'
+import type { AuthResponse, LoginPayload, SignupPayload } from '../types/auth'
 import { API_BASE } from '../config/api'
 
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
@@ -16,14 +16,14 @@ async function request<T>(path: string, options?: RequestInit): Promise<T> {
   return body as T
 }
 
-export function signup(payload: { phone: string; password: string; name?: string }) {
+export function signup(payload: SignupPayload) {
   return request<AuthResponse>('/api/auth/signup', {
     method: 'POST',
     body: JSON.stringify(payload),
   })
 }
 
-export function login(payload: { phone: string; password: string }) {
+export function login(payload: LoginPayload) {
   return request<AuthResponse>('/api/auth/login', {
     method: 'POST',
     body: JSON.stringify(payload),
@@ -36,3 +36,39 @@ export function me(token: string) {
   })
 }
 
+
+export function refresh(refreshToken: string) {
+  return request<AuthResponse>('/api/auth/refresh', {
+    method: 'POST',
+    body: JSON.stringify({ refreshToken }),
+  })
+}
+
+export function logout(refreshToken: string) {
+  return request<{ ok: true }>('/api/auth/logout', {
+    method: 'POST',
+    body: JSON.stringify({ refreshToken }),
+  })
+}
+
+/** Texts a one-time code (passwordless login or password reset). */
+export function requestOtp(payload: { phone: string; country?: string; purpose: 'login' | 'reset' }) {
+  return request<{ ok: true }>('/api/auth/otp/request', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  })
+}
+
+export function verifyOtp(payload: { phone: string; country?: string; code: string }) {
+  return request<AuthResponse>('/api/auth/otp/verify', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  })
+}
+
+export function resetPassword(payload: { phone: string; country?: string; code: string; password: string }) {
+  return request<AuthResponse>('/api/auth/password/reset', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  })
+}
@@ -0,0 +1,125 @@
+/**
+ * consent.ts
+ * Category-based consent (necessary / analytics / marketing, see shared/consent.mjs).
+ *
+ * - The answer is kept in localStorage ('mako_consent') as a versioned record; the older single
+ *   'ga_consent' boolean is read once as a version 0 answer (pre-fills the dialog, re-prompts).
+ * - saveConsent() fires CONSENT_CHANGED_EVENT on window (AnalyticsListener, event queue) and, when signed in,
+ *   stores the answer on the server; syncConsent() reconciles both at sign-in (most recent answer wins).
+ * - openConsentPreferences() reopens the preferences dialog (Footer link).
+ */
+
+import { API_BASE } from '../config/api'
+import {
+  CONSENT_VERSION,
+  normalizeConsent,
+  type ConsentCategory,
+  type ConsentRecord,
+} from '../../shared/consent.mjs'
+
+export type { ConsentCategory, ConsentRecord }
+export type ConsentChoices = Pick<ConsentRecord, 'analytics' | 'marketing'>
+
+const CONSENT_KEY = 'mako_consent'
+const LEGACY_KEY = 'ga_consent'
+
+/** Fired on window with the new record as detail. */
+export const CONSENT_CHANGED_EVENT = 'consent-changed'
+/** Fired on window to reopen the preferences dialog. */
+export const CONSENT_OPEN_EVENT = 'consent-preferences-open'
+
+/** Stored answer (any version), or null when the visitor never answered. */
+export function getConsent(): ConsentRecord | null {
+  try {
+    const stored = normalizeConsent(JSON.parse(localStorage.getItem(CONSENT_KEY) || 'null'))
+    if (stored) return stored
+    const legacy = localStorage.getItem(LEGACY_KEY)
+    if (legacy === 'true' || legacy === 'false') {
+      return { version: 0, analytics: legacy === 'true', marketing: false, updatedAt: 0 }
+    }
+  } catch {
+    // storage unavailable or corrupted: treated as no answer
+  }
+  return null
+}
+
+/** True when the banner must ask (no answer, or an answer to an older policy). */
+export function needsConsentPrompt(): boolean {
+  const record = getConsent()
+  return !record || record.version < CONSENT_VERSION
+}
+
+/** Whether a category may be used now; only answers to the current policy count. */
+export function hasConsent(category: ConsentCategory): boolean {
+  if (category === 'necessary') return true
+  const record = getConsent()
+  return Boolean(record && record.version === CONSENT_VERSION && record[category])
+}
+
+/** Persists a record locally and notifies listeners. */
+function applyConsent(record: ConsentRecord) {
+  try {
+    localStorage.setItem(CONSENT_KEY, JSON.stringify(record))
+    localStorage.removeItem(LEGACY_KEY)
+  } catch {
+    // the choice still applies to this page
+  }
+  window.dispatchEvent(new CustomEvent<ConsentRecord>(CONSENT_CHANGED_EVENT, { detail: record }))
+}
+
+async function consentRequest(token: string, init?: RequestInit) {
+  const res = await fetch(`${API_BASE}/api/consent`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+  })
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body?.error || 'Consent request failed')
+  return normalizeConsent(body.consent)
+}
+
+/**
+ * Records the visitor's choices for the current policy.
+ *
+ * @param choices - analytics / marketing (necessary is always on)
+ * @param token - access token when signed in: the answer is also stored on the account
+ */
+export async function saveConsent(choices: ConsentChoices, token?: string | null): Promise<ConsentRecord> {
+  const record: ConsentRecord = { version: CONSENT_VERSION, ...choices, updatedAt: Date.now() }
+  applyConsent(record)
+  if (!token) return record
+  try {
+    const saved = await consentRequest(token, { method: 'PUT', body: JSON.stringify(record) })
+    if (saved) applyConsent(saved)
+    return saved || record
+  } catch {
+    // kept locally; syncConsent pushes it at the next sign-in
+    return record
+  }
+}
+
+/**
+ * Aligns this device with the account: the most recent answer to the current policy wins.
+ *
+ * @param token - access token of the signed-in user
+ */
+export async function syncConsent(token: string): Promise<void> {
+  try {
+    const server = await consentRequest(token)
+    const local = getConsent()
+    const localCurrent = local && local.version === CONSENT_VERSION ? local : null
+    const serverCurrent = server && server.version === CONSENT_VERSION ? server : null
+    if (serverCurrent && (!localCurrent || serverCurrent.updatedAt > localCurrent.updatedAt)) {
+      applyConsent(serverCurrent)
+    } else if (localCurrent && (!serverCurrent || localCurrent.updatedAt > serverCurrent.updatedAt)) {
+      const saved = await consentRequest(token, { method: 'PUT', body: JSON.stringify(localCurrent) })
+      if (saved) applyConsent(saved)
+    }
+  } catch {
+    // offline or signed out meanwhile: the local answer keeps applying
+  }
+}
+
+/** Reopens the preferences dialog (ConsentBanner listens). */
+export function openConsentPreferences(): void {
+  window.dispatchEvent(new Event(CONSENT_OPEN_EVENT))
+}
@@ -0,0 +1,88 @@
+/**
+ * src/lib/cvApi.test.mjs
+ * The CV API client against the real cvs router (server/cvs.mjs): the requests it builds must carry
+ * both the caller's Authorization header and the JSON content type, or express.json leaves the body empty.
+ * Runs with `npm test` (node:test, TypeScript through tsx); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+
+const TOKEN = 'token-1'
+
+let dataDir
+let server
+let api
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-cvapi-'))
+  process.chdir(dataDir)
+  const { createCvRouter } = await import('../../server/cvs.mjs')
+
+  const requireUser = (req, res, next) => {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) return res.status(401).json({ error: 'Unauthorized' })
+    req.user = { id: 'user-1' }
+    next()
+  }
+  const app = express()
+  app.use(express.json())
+  app.use('/api/cv', createCvRouter(requireUser))
+  server = app.listen(0)
+
+  // API_BASE is read when src/config/api.ts is first imported
+  process.env.API_BASE_URL = `http://localhost:${server.address().port}`
+  api = await import('./cvApi.ts')
+})
+
+after(async () => {
+  server?.close()
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+const payload = (fullName) => ({
+  data: { fullName, headline: 'Comptable', skills: ['Excel'] },
+  withPhoto: false,
+  plan: 'student',
+})
+
+describe('cvApi', () => {
+  test('creates, updates, lists and deletes CVs with the bearer token', async () => {
+    const { cv } = await api.saveUserCv(TOKEN, payload('Amani Kalala'))
+    assert.equal(cv.title, 'Amani Kalala - Comptable')
+    assert.deepEqual(cv.data.skills, ['Excel'])
+
+    const renamed = await api.updateUserCv(TOKEN, cv.id, { title: 'Mon CV', baseUpdatedAt: cv.updatedAt })
+    assert.equal(renamed.cv.title, 'Mon CV')
+    assert.equal((await api.getUserCv(TOKEN, cv.id)).cv.title, 'Mon CV')
+
+    const { cvs } = await api.listUserCvs(TOKEN)
+    assert.deepEqual(
+      cvs.map((c) => c.id),
+      [cv.id]
+    )
+
+    await api.deleteUserCv(TOKEN, cv.id)
+    assert.equal((await api.listUserCvs(TOKEN)).cvs.length, 0)
+  })
+
+  test('rejects with a CvApiError carrying the status and body', async () => {
+    const { cv } = await api.saveUserCv(TOKEN, payload('Amani Kalala'))
+    await api.updateUserCv(TOKEN, cv.id, { title: 'Autre appareil' })
+
+    // Edited elsewhere since baseUpdatedAt: 409 with the current record
+    const conflict = await api.updateUserCv(TOKEN, cv.id, { title: 'Ici', baseUpdatedAt: cv.updatedAt - 1 }).catch((e) => e)
+    assert.ok(conflict instanceof api.CvApiError)
+    assert.equal(conflict.status, 409)
+    assert.equal(conflict.body.cv.title, 'Autre appareil')
+
+    const unauthorized = await api.listUserCvs('expired').catch((e) => e)
+    assert.ok(unauthorized instanceof api.CvApiError)
+    assert.equal(unauthorized.status, 401)
+    assert.equal(unauthorized.message, 'Unauthorized')
+  })
+})
@@ -6,20 +6,50 @@ export interface UserCvRecord {
   title: string
   plan: ResumePlan
   withPhoto: boolean
+  /** Absent on records saved before creation dates were tracked */
+  createdAt?: number
   updatedAt: number
   data: ResumeData
 }
 
+/** Body of an error answer: the message, and the current record with a 409 conflict. */
+export interface CvApiErrorBody {
+  error?: string
+  cv?: UserCvRecord
+}
+
+/** Error answered by the API (as opposed to a network failure, which rejects with a TypeError). */
+export class CvApiError extends Error {
+  status: number
+  body: CvApiErrorBody
+
+  constructor(message: string, status: number, body: CvApiErrorBody) {
+    super(message)
+    this.name = 'CvApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+/** Fields sent when saving a CV. */
+export interface CvPayload {
+  data: ResumeData
+  withPhoto: boolean
+  plan: ResumePlan
+  title?: string
+}
+
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
+  // Callers pass their own headers (Authorization): merge them last so the JSON content type stays
   const res = await fetch(`${API_BASE}${path}`, {
+    ...options,
     headers: {
       'Content-Type': 'application/json',
-      ...(options?.headers || {}),
+      ...options?.headers,
     },
-    ...options,
   })
   const body = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error(body?.error || 'Request failed')
+  if (!res.ok) throw new CvApiError(body?.error || 'Request failed', res.status, body)
   return body as T
 }
 
@@ -45,3 +75,71 @@ export function saveUserCv(token: string, payload: { data: ResumeData; withPhoto
   })
 }
 
+
+export function getUserCv(token: string, id: string) {
+  return request<{ cv: UserCvRecord }>(`/api/cv/${encodeURIComponent(id)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+}
+
+export function updateUserCv(
+  token: string,
+  id: string,
+  payload: Partial<CvPayload> & {
+    /** updatedAt of the edited version: the server answers 409 (body.cv) if it changed since */
+    baseUpdatedAt?: number
+    /** Explicit save: logged as its own revision, never folded into autosaves */
+    checkpoint?: boolean
+  }
+) {
+  return request<{ cv: UserCvRecord }>(`/api/cv/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${token}` },
+    body: JSON.stringify(payload),
+  })
+}
+
+export function deleteUserCv(token: string, id: string) {
+  return request<{ ok: true }>(`/api/cv/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${token}` },
+  })
+}
+
+/** Entry of a CV's revision log (see server/revisions.mjs). */
+export interface CvRevisionSummary {
+  id: string
+  cvId: string
+  /** When this version was written (updatedAt of the CV at that time) */
+  createdAt: number
+  reason: 'create' | 'update' | 'save' | 'restore'
+  /** Revision brought back, for reason 'restore' */
+  restoredFrom?: string
+  title: string
+  plan: ResumePlan
+  withPhoto: boolean
+}
+
+export interface CvRevision extends CvRevisionSummary {
+  data: ResumeData
+}
+
+export function listCvRevisions(token: string, id: string) {
+  return request<{ revisions: CvRevisionSummary[] }>(`/api/cv/${encodeURIComponent(id)}/revisions`, {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+}
+
+export function getCvRevision(token: string, id: string, revisionId: string) {
+  return request<{ revision: CvRevision }>(
+    `/api/cv/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revisionId)}`,
+    { headers: { Authorization: `Bearer ${token}` } }
+  )
+}
+
+export function restoreCvRevision(token: string, id: string, revisionId: string) {
+  return request<{ cv: UserCvRecord }>(
+    `/api/cv/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revisionId)}/restore`,
+    { method: 'POST', headers: { Authorization: `Bearer ${token}` } }
+  )
+}
@@ -0,0 +1,82 @@
+/**
+ * cvExport.ts
+ * Client side of the server CV exports (server/pdf, server/docx.mjs).
+ * - requestCvExport: POSTs the CV, plan and translated section labels with the entitlement token.
+ * - saveCvExport: turns the response into a downloaded file, or throws the server error (403…).
+ * - downloadCvDocx: Word version of the CV (see downloadCvPdf in pdf.ts for the PDF).
+ * - exportLabels: translated section titles, shared with the text export (textExport.ts).
+ */
+
+import type { ResumeData, ResumePlan } from '../types/resume'
+import { API_BASE } from '../config/api'
+import i18n from './i18n'
+
+/** Options communes aux exports serveur. */
+export interface CvExportOptions {
+  /** Jeton d'accès (Bearer) */
+  token: string
+  /** Jeton signé de GET /api/entitlements */
+  entitlementToken: string | null
+  data: ResumeData
+  plan: ResumePlan
+  withPhoto: boolean
+  /** CV de la bibliothèque: droits liés à ce CV, et le serveur exporte sa version enregistrée (pas `data`) */
+  cvId?: string | null
+  /** Titre du fichier sans extension */
+  title?: string
+}
+
+/** Libellés des rubriques dans la langue de l'interface (identiques à l'aperçu). */
+export function exportLabels() {
+  const t = i18n.t.bind(i18n)
+  return {
+    summary: t('preview.summary', 'Résumé'),
+    highlights: t('highlightsForm.label', 'Faits marquants de carrière'),
+    skills: t('preview.skills', 'Compétences'),
+    experience: t('preview.experience', 'Expérience'),
+    achievements: t('preview.otherAchievements', 'Autres réussites'),
+    education: t('preview.education', 'Éducation'),
+    certifications: t('preview.certifications', 'Certifications'),
+    present: t('preview.present', 'Present'),
+    linkedin: t('preview.linkedin', 'LinkedIn'),
+    credentialId: t('preview.idLabel', 'ID'),
+  }
+}
+
+/**
+ * POSTs an export request; rejects only when the server cannot be reached.
+ *
+ * @param path - export route (/api/pdf, /api/docx)
+ * @param extra - route-specific fields (e.g. template)
+ */
+export function requestCvExport(
+  path: string,
+  { token, entitlementToken, data, plan, withPhoto, cvId }: CvExportOptions,
+  extra: Record<string, unknown> = {}
+) {
+  return fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ ...extra, data, plan, withPhoto, cvId: cvId || null, labels: exportLabels(), entitlementToken }),
+  })
+}
+
+/** Saves a successful export response as `<title>.<extension>`; throws the server error otherwise. */
+export async function saveCvExport(res: Response, extension: string, title?: string) {
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}))
+    throw new Error(body?.error || 'Export failed')
+  }
+  const url = URL.createObjectURL(await res.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${title || 'CV-Mako'}.${extension}`
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/** Télécharge le CV au format Word (.docx), généré par le serveur après contrôle des droits. */
+export async function downloadCvDocx(options: CvExportOptions) {
+  const res = await requestCvExport('/api/docx', options)
+  await saveCvExport(res, 'docx', options.title)
+}
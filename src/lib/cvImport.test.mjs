@@ -0,0 +1,104 @@
+/**
+ * src/lib/cvImport.test.mjs
+ * Client side of the CV import against the real import router (server/import): a DOCX fixture is
+ * uploaded, the guesses are preselected by confidence and only the kept values reach the form.
+ * Runs with `npm test` (node:test, TypeScript through tsx).
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import express from 'express'
+import JSZip from 'jszip'
+
+const TOKEN = 'token-1'
+
+let server
+let cvImport
+
+before(async () => {
+  const { createImportRouter } = await import('../../server/import/index.mjs')
+  const requireUser = (req, res, next) => {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) return res.status(401).json({ error: 'Unauthorized' })
+    next()
+  }
+  const app = express()
+  app.use('/api/import', createImportRouter(requireUser))
+  server = app.listen(0)
+
+  // API_BASE is read when src/config/api.ts is first imported
+  process.env.API_BASE_URL = `http://localhost:${server.address().port}`
+  cvImport = await import('./cvImport.ts')
+})
+
+after(() => {
+  server?.close()
+})
+
+/** Word document with one paragraph per line. */
+async function docxFile(lines, name = 'cv.docx') {
+  const body = lines.map((line) => `<w:p><w:r><w:t>${line}</w:t></w:r></w:p>`).join('<w:p/>')
+  const zip = new JSZip()
+  zip.file('word/document.xml', `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`)
+  return new File([await zip.generateAsync({ type: 'uint8array' })], name)
+}
+
+const CV_LINES = [
+  'Amani Kalala',
+  'Comptable senior',
+  'amani@example.com | +243 812 345 678 | Kinshasa',
+  'Expérience professionnelle',
+  'Comptable, Rawbank',
+  'Jan 2020 - Present',
+  'Formation',
+  'Licence en comptabilité, Université de Kinshasa',
+  '2014 - 2018',
+  'Compétences',
+  'Excel, SAGE, Fiscalité',
+]
+
+const FORM = {
+  fullName: '',
+  headline: 'Ancien titre',
+  email: '',
+  skills: ['Word'],
+  experiences: [],
+  education: [{ degree: 'Baccalauréat', school: 'Collège Boboto', start: '2010-09', end: '2014-06' }],
+}
+
+describe('CV import', () => {
+  test('uploads a DOCX by its extension and returns the parsed fields with their confidence', async () => {
+    const result = await cvImport.importCvFile(TOKEN, await docxFile(CV_LINES))
+    assert.deepEqual(result.fields.fullName, { value: 'Amani Kalala', confidence: 'high' })
+    assert.equal(result.experiences.length, 1)
+    assert.equal(result.education[0].confidence, 'low')
+  })
+
+  test('preselects high and medium confidence values, and writes only the kept ones', async () => {
+    const result = await cvImport.importCvFile(TOKEN, await docxFile(CV_LINES))
+    const selection = cvImport.defaultImportSelection(result)
+    assert.equal(selection['fields.fullName'], true)
+    assert.equal(selection['experiences.0'], true)
+    // Low confidence: left for the user to check
+    assert.equal(selection['education.0'], false)
+
+    const next = cvImport.applyCvImport(FORM, result, { ...selection, 'fields.headline': false })
+    assert.equal(next.fullName, 'Amani Kalala')
+    assert.equal(next.email, 'amani@example.com')
+    assert.equal(next.headline, 'Ancien titre')
+    assert.deepEqual(next.skills, ['Excel', 'SAGE', 'Fiscalité'])
+    assert.equal(next.experiences[0].start, '2020-01')
+    // No education entry kept: the form keeps its own
+    assert.deepEqual(next.education, FORM.education)
+    assert.equal(FORM.fullName, '')
+  })
+
+  test('rejects other file types before uploading, and relays the server errors', async () => {
+    assert.equal(cvImport.importFileType(new File(['x'], 'cv.txt', { type: 'text/plain' })), null)
+    assert.equal(cvImport.importFileType(new File(['x'], 'CV.PDF')), cvImport.PDF_TYPE)
+    await assert.rejects(cvImport.importCvFile(TOKEN, new File(['x'], 'cv.txt')), /Unsupported file type/)
+    await assert.rejects(
+      cvImport.importCvFile(TOKEN, new File(['not a zip'], 'cv.docx')),
+      /The file could not be read/
+    )
+  })
+})
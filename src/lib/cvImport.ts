@@ -0,0 +1,124 @@
+/**
+ * cvImport.ts
+ * Client side of the CV import (server/import): upload of an existing PDF/DOCX, then the reviewed
+ * fields are written into the form.
+ * - importCvFile: sends the file as is and returns the parsed fields with their confidence.
+ * - applyCvImport: overwrites only the fields the user kept; a list (experiences…) is replaced by
+ *   its kept entries, and left untouched when none is kept.
+ */
+
+import type { CertificationItem, EducationItem, ExperienceItem, ResumeData } from '../types/resume'
+import { API_BASE } from '../config/api'
+import { parseSkills } from '../../shared/sections.mjs'
+
+export const PDF_TYPE = 'application/pdf'
+export const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+/** Taille maximale acceptée par le serveur. */
+export const MAX_IMPORT_SIZE = 10 * 1024 * 1024
+
+export type ImportConfidence = 'high' | 'medium' | 'low'
+
+/** Valeur extraite du fichier, avec le degré de confiance du parseur. */
+export interface ImportedValue<T> {
+  value: T
+  confidence: ImportConfidence
+}
+
+/** Champs texte du formulaire que l'import sait remplir. */
+export type ImportedFieldKey = 'fullName' | 'headline' | 'email' | 'phone' | 'location' | 'linkedin' | 'summary' | 'skills'
+
+export const IMPORTED_FIELDS: ImportedFieldKey[] = [
+  'fullName',
+  'headline',
+  'email',
+  'phone',
+  'location',
+  'linkedin',
+  'summary',
+  'skills',
+]
+
+/** Réponse de POST /api/import. */
+export interface CvImportResult {
+  fields: Partial<Record<ImportedFieldKey, ImportedValue<string>>>
+  experiences: ImportedValue<ExperienceItem>[]
+  education: ImportedValue<EducationItem>[]
+  certifications: ImportedValue<CertificationItem>[]
+}
+
+export type ImportedListKey = 'experiences' | 'education' | 'certifications'
+
+/** Choix de l'utilisateur: clés "fields.email", "experiences.0"… cochées. */
+export type ImportSelection = Record<string, boolean>
+
+/** Type MIME du fichier, déduit de l'extension quand le navigateur n'en donne pas. */
+export function importFileType(file: File): string | null {
+  const name = file.name.toLowerCase()
+  if (file.type === PDF_TYPE || name.endsWith('.pdf')) return PDF_TYPE
+  if (file.type === DOCX_TYPE || name.endsWith('.docx')) return DOCX_TYPE
+  return null
+}
+
+/**
+ * Sends a CV file to the server parser.
+ *
+ * @param token - Bearer token
+ * @param file - PDF or DOCX chosen by the user
+ * @throws Error with the server message (unreadable file, scanned PDF…)
+ */
+export async function importCvFile(token: string, file: File): Promise<CvImportResult> {
+  const type = importFileType(file)
+  if (!type) throw new Error('Unsupported file type')
+  const res = await fetch(`${API_BASE}/api/import`, {
+    method: 'POST',
+    headers: { 'Content-Type': type, Authorization: `Bearer ${token}` },
+    body: file,
+  })
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body?.error || 'Import failed')
+  return body as CvImportResult
+}
+
+/** Pré-sélection: les valeurs de confiance haute ou moyenne sont cochées, les faibles à vérifier. */
+export function defaultImportSelection(result: CvImportResult): ImportSelection {
+  const selection: ImportSelection = {}
+  for (const key of IMPORTED_FIELDS) {
+    const field = result.fields[key]
+    if (field) selection[`fields.${key}`] = field.confidence !== 'low'
+  }
+  for (const list of ['experiences', 'education', 'certifications'] as ImportedListKey[]) {
+    result[list].forEach((item, i) => {
+      selection[`${list}.${i}`] = item.confidence !== 'low'
+    })
+  }
+  return selection
+}
+
+/**
+ * Writes the kept values into the CV.
+ *
+ * @param data - current form value
+ * @param result - parsed file
+ * @param selection - kept values (see defaultImportSelection)
+ */
+export function applyCvImport(data: ResumeData, result: CvImportResult, selection: ImportSelection): ResumeData {
+  const next: ResumeData = { ...data }
+  for (const key of IMPORTED_FIELDS) {
+    const field = result.fields[key]
+    if (!field || !selection[`fields.${key}`]) continue
+    // Les compétences sont lues comme un texte séparé par des virgules
+    if (key === 'skills') next.skills = parseSkills(field.value)
+    else next[key] = field.value
+  }
+  const kept = <T>(list: ImportedListKey, items: ImportedValue<T>[]) =>
+    items.filter((_, i) => selection[`${list}.${i}`]).map((item) => item.value)
+
+  const experiences = kept('experiences', result.experiences)
+  if (experiences.length > 0) next.experiences = experiences
+  const education = kept('education', result.education)
+  if (education.length > 0) next.education = education
+  const certifications = kept('certifications', result.certifications)
+  if (certifications.length > 0) next.certifications = certifications
+  return next
+}
@@ -0,0 +1,27 @@
+/**
+ * dates.ts
+ * Périodes des expériences et formations: "YYYY-MM", ou "Present" pour la fin d'un poste en cours.
+ * - Les règles sont celles du schéma partagé (shared/resume.mjs: yearMonthSchema, periodSchema).
+ * - Utilisé par les formulaires (ExperienceFormList, EducationFormList) et le rapport ATS (lib/ats.ts).
+ */
+
+import { PRESENT, periodSchema, yearMonthSchema } from '../../shared/resume.mjs'
+
+/** Indique si la valeur "fin" représente un emploi (ou des études) en cours. */
+export function isPresentValue(v?: string) {
+  return (v || '').trim().toLowerCase() === PRESENT.toLowerCase()
+}
+
+/** Vérifie si une chaîne suit le format YYYY-MM et un mois valide 01-12. */
+export function isYearMonth(v?: string): boolean {
+  return yearMonthSchema.safeParse((v || '').trim()).success
+}
+
+/**
+ * Détermine si l'ordre Start/End est invalide.
+ * - Si l'un est vide ou invalide, on ne lève pas d'erreur (contrôle optionnel).
+ * - Si end === "Present", pas d'erreur.
+ */
+export function isDateOrderInvalid(start?: string, end?: string): boolean {
+  return !periodSchema.safeParse({ start, end }).success
+}
@@ -12,6 +12,7 @@
 
 import type { ResumeData, ExperienceItem } from '../types/resume'
 import { getSuggestionsForDomain, getExperienceBullets } from './suggestions'
+import { parseSkills } from '../../shared/sections.mjs'
 
 /**
  * Nettoie/améliore légèrement le contenu saisi par l'utilisateur.
@@ -22,18 +23,12 @@ import { getSuggestionsForDomain, getExperienceBullets } from './suggestions'
 export function enhanceLocally(data: ResumeData): ResumeData {
   const cleanSummary = (data.summary || '').replace(/\s+/g, ' ').trim()
 
-  const skills = (data.skills || '')
-    .split(',')
-    .map((s) => s.trim())
-    .filter(Boolean)
-
-  const dedup = Array.from(new Set(skills))
-  const capitalized = dedup.map((s) => (s.length ? s[0].toUpperCase() + s.slice(1) : s))
+  const capitalized = parseSkills(data.skills).map((s) => s[0].toUpperCase() + s.slice(1))
 
   return {
     ...data,
     summary: cleanSummary,
-    skills: capitalized.join(', ')
+    skills: parseSkills(capitalized)
   }
 }
 
@@ -131,7 +126,8 @@ export function enhanceResumeForPreview(
     (data.summary || '').trim() && !options?.forceSummary
       ? (data.summary || '').trim()
       : generatePersonalizedSummary(data)
-  const skills = (data.skills || '').trim() || suggestion.skills
+  const current = parseSkills(data.skills)
+  const skills = current.length > 0 ? current : parseSkills(suggestion.skills)
 
   // Améliorer les expériences pour l'aperçu (toujours)
   const experiences = (data.experiences || []).map((exp) => {
@@ -160,10 +156,7 @@ export function generatePersonalizedSummary(data: ResumeData): string {
   const lang = data.language as 'fr' | 'en' | 'sw' | 'pt' | 'mg' | 'ar'
   const name = (data.fullName || '').trim()
   const role = (data.headline || '').trim()
-  const skills = (data.skills || '')
-    .split(',')
-    .map((s) => s.trim())
-  const skillsTop = skills.filter(Boolean).slice(0, 4)
+  const skillsTop = parseSkills(data.skills).slice(0, 4)
   const expTitles = (data.experiences || [])
     .map((e) => (e.title || '').trim())
     .filter(Boolean)
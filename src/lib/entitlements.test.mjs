@@ -0,0 +1,100 @@
+/**
+ * src/lib/entitlements.test.mjs
+ * The client payment path end to end, as Home runs it: save the form to "Mes CV" (useCvsStore.save),
+ * pay for that cvId with the mobile-money simulator, then fetch the entitlement token and check what it unlocks.
+ * Runs with `npm test` (node:test, TypeScript through tsx); data is written to a temporary working directory.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+
+const TOKEN = 'token-1'
+
+let dataDir
+let server
+let baseUrl
+let useCvsStore
+let fetchEntitlements
+let hasEntitlement
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-client-payment-'))
+  process.chdir(dataDir)
+  process.env.ENTITLEMENT_SECRET = 'test-secret'
+  const { createCvRouter } = await import('../../server/cvs.mjs')
+  const { createPaymentsRouter } = await import('../../server/payments/index.mjs')
+  const { createSimulatorAdapter } = await import('../../server/payments/simulator.mjs')
+  const { createEntitlementsRouter } = await import('../../server/entitlements.mjs')
+
+  const requireUser = (req, res, next) => {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) return res.status(401).json({ error: 'Unauthorized' })
+    req.user = { id: 'user-1' }
+    next()
+  }
+  const app = express()
+  app.use(express.json())
+  app.use('/api/cv', createCvRouter(requireUser))
+  app.use('/api/payments', createPaymentsRouter(requireUser, { adapter: createSimulatorAdapter() }))
+  app.use('/api/entitlements', createEntitlementsRouter(requireUser))
+  server = app.listen(0)
+  baseUrl = `http://localhost:${server.address().port}`
+
+  // The store persists to localStorage; API_BASE is read when src/config/api.ts is first imported
+  const items = new Map()
+  globalThis.localStorage = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, String(value)),
+    removeItem: (key) => items.delete(key),
+  }
+  process.env.API_BASE_URL = baseUrl
+  ;({ useCvsStore } = await import('../stores/cvs.ts'))
+  ;({ fetchEntitlements, hasEntitlement } = await import('./entitlements.ts'))
+})
+
+after(async () => {
+  useCvsStore.getState().reset()
+  server?.close()
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+async function api(urlPath, body) {
+  const res = await fetch(`${baseUrl}${urlPath}`, {
+    method: body ? 'POST' : 'GET',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` },
+    body: body && JSON.stringify(body),
+  })
+  return res.json()
+}
+
+describe('client payment path', () => {
+  test('a saved CV is paid for by its cvId and unlocked by the fetched entitlement token', async () => {
+    const store = useCvsStore.getState()
+    store.setOwner('user-1')
+    await store.save(TOKEN, {
+      data: { fullName: 'Amani Kalala', headline: 'Comptable', skills: ['Excel'] },
+      withPhoto: false,
+      plan: 'pro',
+    })
+    const { activeCvId: cvId, cvs } = useCvsStore.getState()
+    assert.ok(cvs.some((c) => c.id === cvId))
+
+    const payment = await api('/api/payments/create', { plan: 'pro', cvId, phone: '243810000001', provider: 'vodacom' })
+    assert.equal(payment.status, 'pending')
+    assert.equal((await api(`/api/payments/status/${payment.depositId}`)).status, 'processing')
+    assert.equal((await api(`/api/payments/status/${payment.depositId}`)).status, 'completed')
+
+    const { entitlements, token } = await fetchEntitlements(TOKEN)
+    assert.equal(entitlements.length, 1)
+    assert.equal(entitlements[0].cvId, cvId)
+    assert.equal(hasEntitlement(token, 'pro', cvId), true)
+    assert.equal(hasEntitlement(token, 'student', cvId), true)
+    assert.equal(hasEntitlement(token, 'advanced', cvId), false)
+    assert.equal(hasEntitlement(token, 'pro', 'another-cv'), false)
+    assert.equal(hasEntitlement(token, 'pro', null), false)
+  })
+})
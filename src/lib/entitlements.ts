@@ -0,0 +1,60 @@
+/**
+ * entitlements.ts
+ * Client helpers for server-issued download entitlements.
+ * - fetchEntitlements: GET /api/entitlements → active entitlements + signed token.
+ * - hasEntitlement: reads the token claims to decide whether a plan/CV can be exported.
+ *
+ * The token is signed by the server; the browser only reads its claims to drive the UI.
+ * Server-side exports verify the signature before serving anything.
+ */
+
+import type { ResumePlan } from '../types/resume'
+import type { Entitlement, EntitlementScope } from '../types/payments'
+import { API_BASE } from '../config/api'
+
+/** Claims carried by the entitlement token. */
+export interface EntitlementClaims {
+  sub: string
+  exp: number
+  ent: Array<{ id: string; plan: ResumePlan; cvId: string | null; scope?: EntitlementScope }>
+}
+
+const PLAN_RANK: Record<ResumePlan, number> = { student: 1, pro: 2, advanced: 3 }
+
+export async function fetchEntitlements(token: string) {
+  const res = await fetch(`${API_BASE}/api/entitlements`, {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body?.error || 'Request failed')
+  return body as { entitlements: Entitlement[]; token: string }
+}
+
+/** Decodes the token payload; returns null when malformed or expired. */
+export function readEntitlementToken(token?: string | null): EntitlementClaims | null {
+  if (!token) return null
+  try {
+    const payload = token.split('.')[1] || ''
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    const claims = JSON.parse(json) as EntitlementClaims
+    if (!claims.exp || claims.exp * 1000 <= Date.now()) return null
+    return claims
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether the token unlocks `plan` for `cvId`.
+ * A plan covers cheaper plans; only an 'account' entitlement (paid before payments required a saved CV)
+ * covers any CV.
+ */
+export function hasEntitlement(token: string | null | undefined, plan: ResumePlan, cvId?: string | null): boolean {
+  const claims = readEntitlementToken(token)
+  if (!claims) return false
+  return (claims.ent || []).some(
+    (e) =>
+      PLAN_RANK[e.plan] >= PLAN_RANK[plan] &&
+      ((e.scope || (e.cvId ? 'cv' : 'account')) === 'account' || (Boolean(cvId) && e.cvId === cvId))
+  )
+}
@@ -0,0 +1,157 @@
+/**
+ * events.ts
+ * First-party product events (catalog in shared/events.mjs) sent in batches to POST /api/events.
+ *
+ * - track(name, props): typed against the catalog; also forwarded to GA (ignored while gtag is off).
+ * - Nothing is queued without the "analytics" consent category (lib/consent.ts); withdrawing it clears the queue.
+ * - The queue is kept in localStorage so events survive a reload or a payment redirect.
+ * - Flushed FLUSH_DELAY_MS after an event, at once when a batch is full, and when the tab is hidden.
+ * - Network and 5xx / 429 failures retry with exponential backoff; other 4xx answers drop the batch.
+ */
+
+import { API_BASE } from '../config/api'
+import { hasAnalyticsConsent, trackEvent, visitSessionId } from './analytics'
+import { CONSENT_CHANGED_EVENT } from './consent'
+import { MAX_EVENTS_PER_BATCH, type EventCatalog, type EventName } from '../../shared/events.mjs'
+
+const QUEUE_KEY = 'mako_event_queue'
+const MAX_QUEUE = 500
+const FLUSH_DELAY_MS = 5000
+const MAX_BACKOFF_MS = 60_000
+
+interface QueuedEvent {
+  id: string
+  name: EventName
+  at: number
+  /** Interface language when the event happened (funnel breakdown) */
+  lang?: string
+  props: Record<string, unknown>
+}
+
+let queue: QueuedEvent[] = []
+let timer: ReturnType<typeof setTimeout> | null = null
+let sending = false
+let failures = 0
+let initialized = false
+let getToken: () => string | null | undefined = () => null
+
+function loadQueue(): QueuedEvent[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function persist() {
+  try {
+    if (queue.length) localStorage.setItem(QUEUE_KEY, JSON.stringify(queue))
+    else localStorage.removeItem(QUEUE_KEY)
+  } catch {
+    // storage full or unavailable: the in-memory queue still works for this page
+  }
+}
+
+function newId() {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+}
+
+/** Plans a flush; an earlier one already planned is kept unless `delay` is 0. */
+function schedule(delay: number) {
+  if (timer) {
+    if (delay > 0) return
+    clearTimeout(timer)
+  }
+  timer = setTimeout(() => {
+    timer = null
+    flushEvents()
+  }, delay)
+}
+
+function clearQueue() {
+  queue = []
+  persist()
+  if (timer) clearTimeout(timer)
+  timer = null
+}
+
+/** Sends the oldest batch; `keepalive` lets the request outlive a closing tab. */
+export async function flushEvents(keepalive = false): Promise<void> {
+  if (sending || !queue.length) return
+  if (!hasAnalyticsConsent()) return clearQueue()
+
+  const batch = queue.slice(0, MAX_EVENTS_PER_BATCH)
+  const token = getToken()
+  let sessionId: string | undefined
+  try {
+    sessionId = visitSessionId()
+  } catch {
+    // sessionStorage unavailable: events are sent without a session
+  }
+
+  sending = true
+  try {
+    const res = await fetch(`${API_BASE}/api/events`, {
+      method: 'POST',
+      keepalive,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ sessionId, events: batch }),
+    })
+    if (res.status >= 500 || res.status === 429) throw new Error(`HTTP ${res.status}`)
+    // Accepted, or refused for good (4xx): either way this batch is done
+    const done = new Set(batch.map((e) => e.id))
+    queue = queue.filter((e) => !done.has(e.id))
+    persist()
+    failures = 0
+    if (queue.length) schedule(0)
+  } catch {
+    failures += 1
+    schedule(Math.min(1000 * 2 ** failures, MAX_BACKOFF_MS))
+  } finally {
+    sending = false
+  }
+}
+
+/**
+ * Records a product event.
+ *
+ * @param name - event of the catalog
+ * @param props - its properties (see EventCatalog in shared/events.mjs)
+ */
+export function track<K extends EventName>(name: K, props: EventCatalog[K]): void {
+  trackEvent({ action: name, category: 'product', label: Object.values(props).join(':') })
+  if (!hasAnalyticsConsent()) return
+
+  queue.push({ id: newId(), name, at: Date.now(), lang: document.documentElement.lang || undefined, props })
+  if (queue.length > MAX_QUEUE) queue = queue.slice(-MAX_QUEUE)
+  persist()
+  schedule(queue.length >= MAX_EVENTS_PER_BATCH ? 0 : FLUSH_DELAY_MS)
+}
+
+/**
+ * Starts the queue once per page: reloads pending events and flushes on tab hide / reconnect.
+ *
+ * @param tokenGetter - current access token, so events of signed-in users are attributed to them
+ */
+export function initEvents(tokenGetter: () => string | null | undefined): void {
+  getToken = tokenGetter
+  if (initialized) return
+  initialized = true
+
+  queue = loadQueue()
+  if (queue.length) schedule(0)
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushEvents(true)
+  })
+  window.addEventListener('online', () => schedule(0))
+  window.addEventListener(CONSENT_CHANGED_EVENT, () => {
+    if (!hasAnalyticsConsent()) clearQueue()
+  })
+}
@@ -0,0 +1,106 @@
+/**
+ * i18nConsentPatch.ts
+ * Runtime i18n resources for the consent manager (components/ConsentBanner.tsx) and its Footer link.
+ * - Adds keys for EN, FR, SW, PT.
+ * - Loaded centrally by App.tsx to avoid per-component imports.
+ */
+
+import i18n from './i18n'
+
+const resources = {
+  en: {
+    translation: {
+      'consent.label': 'Cookie consent',
+      'consent.title': 'We value your privacy — may we use optional cookies?',
+      'consent.description':
+        'Necessary storage keeps you signed in and saves your drafts. With your consent, we also measure usage to improve the app. You can change your choice at any time from the footer.',
+      'consent.acceptAll': 'Accept all',
+      'consent.rejectAll': 'Necessary only',
+      'consent.customize': 'Customize',
+      'consent.dismiss': 'Dismiss',
+      'consent.preferences': 'Cookie preferences',
+      'consent.necessary.title': 'Necessary',
+      'consent.necessary.description': 'Sign-in, saved drafts and offline changes. Always on: the app does not work without them.',
+      'consent.analytics.title': 'Analytics',
+      'consent.analytics.description': 'Google Analytics and our own anonymous usage events (steps, plans, payments, downloads).',
+      'consent.marketing.title': 'Marketing',
+      'consent.marketing.description': 'Measuring our advertising campaigns.',
+      'consent.save': 'Save my choices',
+      'consent.footerLink': 'Cookies'
+    }
+  },
+  fr: {
+    translation: {
+      'consent.label': 'Consentement aux cookies',
+      'consent.title': 'Votre vie privée compte — pouvons-nous utiliser des cookies facultatifs ?',
+      'consent.description':
+        'Le stockage nécessaire vous garde connecté et enregistre vos brouillons. Avec votre accord, nous mesurons aussi l’usage pour améliorer l’application. Vous pouvez changer d’avis à tout moment depuis le pied de page.',
+      'consent.acceptAll': 'Tout accepter',
+      'consent.rejectAll': 'Nécessaires uniquement',
+      'consent.customize': 'Personnaliser',
+      'consent.dismiss': 'Fermer',
+      'consent.preferences': 'Préférences cookies',
+      'consent.necessary.title': 'Nécessaires',
+      'consent.necessary.description':
+        'Connexion, brouillons enregistrés et modifications hors ligne. Toujours actifs : l’application ne fonctionne pas sans eux.',
+      'consent.analytics.title': 'Mesure d’audience',
+      'consent.analytics.description':
+        'Google Analytics et nos propres événements d’usage anonymes (étapes, formules, paiements, téléchargements).',
+      'consent.marketing.title': 'Marketing',
+      'consent.marketing.description': 'Mesure de nos campagnes publicitaires.',
+      'consent.save': 'Enregistrer mes choix',
+      'consent.footerLink': 'Cookies'
+    }
+  },
+  sw: {
+    translation: {
+      'consent.label': 'Idhini ya vidakuzi',
+      'consent.title': 'Tunajali faragha yako — tunaweza kutumia vidakuzi vya hiari?',
+      'consent.description':
+        'Hifadhi muhimu inakuweka umeingia na kuhifadhi rasimu zako. Ukikubali, tunapima pia matumizi ili kuboresha programu. Unaweza kubadilisha chaguo lako wakati wowote kutoka chini ya ukurasa.',
+      'consent.acceptAll': 'Kubali zote',
+      'consent.rejectAll': 'Muhimu tu',
+      'consent.customize': 'Chagua mwenyewe',
+      'consent.dismiss': 'Funga',
+      'consent.preferences': 'Mapendeleo ya vidakuzi',
+      'consent.necessary.title': 'Muhimu',
+      'consent.necessary.description':
+        'Kuingia, rasimu zilizohifadhiwa na mabadiliko nje ya mtandao. Huwa hai kila wakati: programu haifanyi kazi bila hivyo.',
+      'consent.analytics.title': 'Takwimu',
+      'consent.analytics.description':
+        'Google Analytics na matukio yetu ya matumizi yasiyo na jina (hatua, mipango, malipo, upakuaji).',
+      'consent.marketing.title': 'Masoko',
+      'consent.marketing.description': 'Kupima kampeni zetu za matangazo.',
+      'consent.save': 'Hifadhi chaguo zangu',
+      'consent.footerLink': 'Vidakuzi'
+    }
+  },
+  pt: {
+    translation: {
+      'consent.label': 'Consentimento de cookies',
+      'consent.title': 'Valorizamos a sua privacidade — podemos usar cookies opcionais?',
+      'consent.description':
+        'O armazenamento necessário mantém a sua sessão e guarda os seus rascunhos. Com o seu consentimento, também medimos a utilização para melhorar a aplicação. Pode alterar a sua escolha a qualquer momento no rodapé.',
+      'consent.acceptAll': 'Aceitar todos',
+      'consent.rejectAll': 'Apenas necessários',
+      'consent.customize': 'Personalizar',
+      'consent.dismiss': 'Fechar',
+      'consent.preferences': 'Preferências de cookies',
+      'consent.necessary.title': 'Necessários',
+      'consent.necessary.description':
+        'Início de sessão, rascunhos guardados e alterações offline. Sempre ativos: a aplicação não funciona sem eles.',
+      'consent.analytics.title': 'Análise',
+      'consent.analytics.description':
+        'Google Analytics e os nossos próprios eventos de utilização anónimos (etapas, planos, pagamentos, transferências).',
+      'consent.marketing.title': 'Marketing',
+      'consent.marketing.description': 'Medição das nossas campanhas publicitárias.',
+      'consent.save': 'Guardar as minhas escolhas',
+      'consent.footerLink': 'Cookies'
+    }
+  }
+}
+
+/** Register resources if not already present. */
+Object.entries(resources).forEach(([lng, bundle]) => {
+  i18n.addResourceBundle(lng, 'translation', (bundle as any).translation, true, true)
+})
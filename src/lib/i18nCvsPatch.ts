@@ -0,0 +1,237 @@
+/**
+ * i18nCvsPatch.ts
+ * Runtime i18n resources for the "My CVs" library (pages/CvLibrary.tsx), the loaded-CV bar in Home,
+ * offline sync (status, conflict dialog) and the version history panel.
+ * - Adds keys for EN, FR, SW, PT.
+ * - Loaded centrally by App.tsx to avoid per-component imports.
+ */
+
+import i18n from './i18n'
+
+const resources = {
+  en: {
+    translation: {
+      'cvs.title': 'My CVs',
+      'cvs.loaded': 'Loaded CV: {{title}}',
+      'cvs.unsaved': 'Draft not saved in My CVs',
+      'cvs.noneLoaded': 'No CV from your library is loaded in the form.',
+      'cvs.save': 'Save',
+      'cvs.saveNew': 'Save to My CVs',
+      'cvs.current': 'loaded',
+      'cvs.activeHint': 'Loaded in the form',
+      'cvs.open': 'Open',
+      'cvs.continue': 'Continue',
+      'cvs.rename': 'Rename',
+      'cvs.duplicate': 'Duplicate',
+      'cvs.duplicateTitle': 'Duplicate CV',
+      'cvs.duplicateHint': 'Content is copied as is: remember to translate the texts into the new language.',
+      'cvs.delete': 'Delete',
+      'cvs.confirmDelete': 'Delete “{{title}}”?',
+      'cvs.plan': 'Plan',
+      'cvs.back': 'Back to the form',
+      'cvs.empty': 'No saved CV yet. Use “Save to My CVs” from the form.',
+      'cvs.exportJson': 'Export (JSON)',
+      'cvs.exportJsonHint': 'JSON Resume format, can be imported here or in other tools',
+      'cvs.importJson': 'Import (JSON Resume)',
+      'cvs.importJsonHint': 'JSON Resume file (jsonresume.org), for example exported from Mako',
+      'cvs.importJsonInvalid': 'This file is not valid JSON.',
+      'sync.offline': 'Offline — {{count}} change(s) pending',
+      'sync.pending': 'Syncing…',
+      'sync.synced': 'Synced',
+      'sync.conflict.title': 'This CV was changed elsewhere',
+      'sync.conflict.body': '“{{title}}” was changed on another device while your changes were waiting for a connection.',
+      'sync.conflict.local': 'My version (this device)',
+      'sync.conflict.server': 'Server version',
+      'sync.conflict.keepLocal': 'Keep my version',
+      'sync.conflict.keepServer': 'Keep the server version',
+      'sync.conflict.keepBoth': 'Keep both',
+      'history.open': 'History',
+      'history.title': 'History: {{title}}',
+      'history.empty': 'No saved versions for this CV yet.',
+      'history.latest': 'Latest version',
+      'history.compareTo': 'Compare with',
+      'history.currentForm': 'Current form',
+      'history.identical': 'No differences.',
+      'history.field': 'Field',
+      'history.selected': 'Selected version',
+      'history.compared': 'Compared',
+      'history.restore': 'Restore this version',
+      'history.reason.create': 'created',
+      'history.reason.restore': 'restored',
+      'history.reason.save': 'saved',
+      'history.cvType': 'CV type',
+      'history.achievements': 'Achievements',
+      'history.highlights': 'Highlights'
+    }
+  },
+  fr: {
+    translation: {
+      'cvs.title': 'Mes CV',
+      'cvs.loaded': 'CV chargé : {{title}}',
+      'cvs.unsaved': 'Brouillon non enregistré dans Mes CV',
+      'cvs.noneLoaded': 'Aucun CV de la bibliothèque n’est chargé dans le formulaire.',
+      'cvs.save': 'Enregistrer',
+      'cvs.saveNew': 'Enregistrer dans Mes CV',
+      'cvs.current': 'chargé',
+      'cvs.activeHint': 'Chargé dans le formulaire',
+      'cvs.open': 'Ouvrir',
+      'cvs.continue': 'Continuer',
+      'cvs.rename': 'Renommer',
+      'cvs.duplicate': 'Dupliquer',
+      'cvs.duplicateTitle': 'Dupliquer le CV',
+      'cvs.duplicateHint': 'Le contenu est copié tel quel : pensez à traduire les textes dans la nouvelle langue.',
+      'cvs.delete': 'Supprimer',
+      'cvs.confirmDelete': 'Supprimer « {{title}} » ?',
+      'cvs.plan': 'Plan',
+      'cvs.back': 'Retour au formulaire',
+      'cvs.empty': 'Aucun CV sauvegardé pour le moment. Utilisez « Enregistrer dans Mes CV » depuis le formulaire.',
+      'cvs.exportJson': 'Exporter (JSON)',
+      'cvs.exportJsonHint': 'Format JSON Resume, réimportable ici ou dans d’autres outils',
+      'cvs.importJson': 'Importer (JSON Resume)',
+      'cvs.importJsonHint': 'Fichier JSON Resume (jsonresume.org), par exemple exporté depuis Mako',
+      'cvs.importJsonInvalid': 'Ce fichier n’est pas un JSON valide.',
+      'sync.offline': 'Hors ligne — {{count}} modification(s) en attente',
+      'sync.pending': 'Synchronisation…',
+      'sync.synced': 'Synchronisé',
+      'sync.conflict.title': 'Ce CV a été modifié ailleurs',
+      'sync.conflict.body': '« {{title}} » a été modifié sur un autre appareil pendant que vos changements attendaient la connexion.',
+      'sync.conflict.local': 'Ma version (cet appareil)',
+      'sync.conflict.server': 'Version du serveur',
+      'sync.conflict.keepLocal': 'Garder ma version',
+      'sync.conflict.keepServer': 'Garder la version du serveur',
+      'sync.conflict.keepBoth': 'Garder les deux',
+      'history.open': 'Historique',
+      'history.title': 'Historique : {{title}}',
+      'history.empty': 'Aucune version enregistrée pour ce CV.',
+      'history.latest': 'Dernière version',
+      'history.compareTo': 'Comparer avec',
+      'history.currentForm': 'Formulaire en cours',
+      'history.identical': 'Aucune différence.',
+      'history.field': 'Champ',
+      'history.selected': 'Version choisie',
+      'history.compared': 'Comparée',
+      'history.restore': 'Restaurer cette version',
+      'history.reason.create': 'création',
+      'history.reason.restore': 'restauration',
+      'history.reason.save': 'enregistrement',
+      'history.cvType': 'Type de CV',
+      'history.achievements': 'Réalisations',
+      'history.highlights': 'Points forts'
+    }
+  },
+  sw: {
+    translation: {
+      'cvs.title': 'CV zangu',
+      'cvs.loaded': 'CV iliyopakiwa: {{title}}',
+      'cvs.unsaved': 'Rasimu haijahifadhiwa kwenye CV zangu',
+      'cvs.noneLoaded': 'Hakuna CV kutoka maktaba iliyopakiwa kwenye fomu.',
+      'cvs.save': 'Hifadhi',
+      'cvs.saveNew': 'Hifadhi kwenye CV zangu',
+      'cvs.current': 'imepakiwa',
+      'cvs.activeHint': 'Imepakiwa kwenye fomu',
+      'cvs.open': 'Fungua',
+      'cvs.continue': 'Endelea',
+      'cvs.rename': 'Badilisha jina',
+      'cvs.duplicate': 'Nakili',
+      'cvs.duplicateTitle': 'Nakili CV',
+      'cvs.duplicateHint': 'Maudhui yanakiliwa kama yalivyo: kumbuka kutafsiri maandishi kwa lugha mpya.',
+      'cvs.delete': 'Futa',
+      'cvs.confirmDelete': 'Futa “{{title}}”?',
+      'cvs.plan': 'Mpango',
+      'cvs.back': 'Rudi kwenye fomu',
+      'cvs.empty': 'Bado hakuna CV iliyohifadhiwa. Tumia “Hifadhi kwenye CV zangu” kwenye fomu.',
+      'cvs.exportJson': 'Hamisha (JSON)',
+      'cvs.exportJsonHint': 'Muundo wa JSON Resume, unaweza kuletwa hapa au kwenye zana nyingine',
+      'cvs.importJson': 'Leta (JSON Resume)',
+      'cvs.importJsonHint': 'Faili ya JSON Resume (jsonresume.org), kwa mfano iliyohamishwa kutoka Mako',
+      'cvs.importJsonInvalid': 'Faili hii si JSON halali.',
+      'sync.offline': 'Nje ya mtandao — mabadiliko {{count}} yanasubiri',
+      'sync.pending': 'Inasawazisha…',
+      'sync.synced': 'Imesawazishwa',
+      'sync.conflict.title': 'CV hii imebadilishwa kwingine',
+      'sync.conflict.body': '“{{title}}” ilibadilishwa kwenye kifaa kingine wakati mabadiliko yako yakisubiri mtandao.',
+      'sync.conflict.local': 'Toleo langu (kifaa hiki)',
+      'sync.conflict.server': 'Toleo la seva',
+      'sync.conflict.keepLocal': 'Weka toleo langu',
+      'sync.conflict.keepServer': 'Weka toleo la seva',
+      'sync.conflict.keepBoth': 'Weka yote mawili',
+      'history.open': 'Historia',
+      'history.title': 'Historia: {{title}}',
+      'history.empty': 'Bado hakuna matoleo yaliyohifadhiwa ya CV hii.',
+      'history.latest': 'Toleo la hivi karibuni',
+      'history.compareTo': 'Linganisha na',
+      'history.currentForm': 'Fomu ya sasa',
+      'history.identical': 'Hakuna tofauti.',
+      'history.field': 'Sehemu',
+      'history.selected': 'Toleo lililochaguliwa',
+      'history.compared': 'Linganishwa',
+      'history.restore': 'Rejesha toleo hili',
+      'history.reason.create': 'imeundwa',
+      'history.reason.restore': 'imerejeshwa',
+      'history.reason.save': 'imehifadhiwa',
+      'history.cvType': 'Aina ya CV',
+      'history.achievements': 'Mafanikio',
+      'history.highlights': 'Mambo muhimu'
+    }
+  },
+  pt: {
+    translation: {
+      'cvs.title': 'Meus CVs',
+      'cvs.loaded': 'CV carregado: {{title}}',
+      'cvs.unsaved': 'Rascunho não salvo em Meus CVs',
+      'cvs.noneLoaded': 'Nenhum CV da biblioteca está carregado no formulário.',
+      'cvs.save': 'Salvar',
+      'cvs.saveNew': 'Salvar em Meus CVs',
+      'cvs.current': 'carregado',
+      'cvs.activeHint': 'Carregado no formulário',
+      'cvs.open': 'Abrir',
+      'cvs.continue': 'Continuar',
+      'cvs.rename': 'Renomear',
+      'cvs.duplicate': 'Duplicar',
+      'cvs.duplicateTitle': 'Duplicar CV',
+      'cvs.duplicateHint': 'O conteúdo é copiado tal como está: lembre-se de traduzir os textos para o novo idioma.',
+      'cvs.delete': 'Excluir',
+      'cvs.confirmDelete': 'Excluir “{{title}}”?',
+      'cvs.plan': 'Plano',
+      'cvs.back': 'Voltar ao formulário',
+      'cvs.empty': 'Nenhum CV salvo ainda. Use “Salvar em Meus CVs” no formulário.',
+      'cvs.exportJson': 'Exportar (JSON)',
+      'cvs.exportJsonHint': 'Formato JSON Resume, pode ser importado aqui ou noutras ferramentas',
+      'cvs.importJson': 'Importar (JSON Resume)',
+      'cvs.importJsonHint': 'Ficheiro JSON Resume (jsonresume.org), por exemplo exportado do Mako',
+      'cvs.importJsonInvalid': 'Este ficheiro não é um JSON válido.',
+      'sync.offline': 'Offline — {{count}} alteração(ões) pendente(s)',
+      'sync.pending': 'Sincronizando…',
+      'sync.synced': 'Sincronizado',
+      'sync.conflict.title': 'Este CV foi alterado em outro lugar',
+      'sync.conflict.body': '“{{title}}” foi alterado em outro dispositivo enquanto suas alterações aguardavam conexão.',
+      'sync.conflict.local': 'Minha versão (este dispositivo)',
+      'sync.conflict.server': 'Versão do servidor',
+      'sync.conflict.keepLocal': 'Manter minha versão',
+      'sync.conflict.keepServer': 'Manter a versão do servidor',
+      'sync.conflict.keepBoth': 'Manter as duas',
+      'history.open': 'Histórico',
+      'history.title': 'Histórico: {{title}}',
+      'history.empty': 'Ainda não há versões salvas deste CV.',
+      'history.latest': 'Última versão',
+      'history.compareTo': 'Comparar com',
+      'history.currentForm': 'Formulário atual',
+      'history.identical': 'Sem diferenças.',
+      'history.field': 'Campo',
+      'history.selected': 'Versão escolhida',
+      'history.compared': 'Comparada',
+      'history.restore': 'Restaurar esta versão',
+      'history.reason.create': 'criação',
+      'history.reason.restore': 'restauração',
+      'history.reason.save': 'gravação',
+      'history.cvType': 'Tipo de CV',
+      'history.achievements': 'Realizações',
+      'history.highlights': 'Destaques'
+    }
+  }
+}
+
+/** Register resources if not already present. */
+Object.entries(resources).forEach(([lng, bundle]) => {
+  i18n.addResourceBundle(lng, 'translation', (bundle as any).translation, true, true)
+})
@@ -0,0 +1,121 @@
+/**
+ * i18nExportPatch.ts
+ * Runtime i18n resources for CV exports other than the PDF (Word download in PreviewAndDownload)
+ * and for the ATS check with its plain-text / Markdown export (PreviewScreen → AtsReport).
+ * - Adds keys for EN, FR, SW, PT.
+ * - Loaded centrally by App.tsx to avoid per-component imports.
+ */
+
+import i18n from './i18n'
+
+const resources = {
+  en: {
+    translation: {
+      'preview.downloadDocx': 'Download Word (.docx)',
+      'preview.docxLocked': 'Available once this plan is paid',
+      'preview.exportSaveFailed': 'The CV could not be saved to “My CVs” before the export.',
+      'ats.title': 'ATS check',
+      'ats.ok': 'Readable',
+      'ats.count': '{{errors}} error(s), {{warnings}} warning(s)',
+      'ats.none': 'No problem found: applicant tracking systems can read this CV.',
+      'ats.error': 'Error',
+      'ats.warning': 'Warning',
+      'ats.imageOnly': 'Your CV only contains a photo: ATS software cannot read images. Add your experience and education as text.',
+      'ats.missingContact': 'Missing contact detail: {{field}}.',
+      'ats.dateFormat': '{{section}} – “{{item}}”: the date “{{value}}” is not in the YYYY-MM format.',
+      'ats.longBullet': '{{section}} – “{{item}}” is {{length}} characters long (max {{max}}). Split it into shorter bullets.',
+      'ats.missingSection': 'No “{{section}}” section: ATS software looks for this standard heading.',
+      'ats.field.name': 'full name',
+      'ats.field.email': 'email',
+      'ats.field.phone': 'phone',
+      'ats.field.location': 'location',
+      'ats.showText': 'What an ATS reads',
+      'ats.downloadText': 'Plain text (.txt)',
+      'ats.downloadMarkdown': 'Markdown (.md)',
+      'ats.exportLocked': 'Available once this plan is paid'
+    }
+  },
+  fr: {
+    translation: {
+      'preview.downloadDocx': 'Télécharger en Word (.docx)',
+      'preview.docxLocked': 'Disponible une fois ce plan payé',
+      'preview.exportSaveFailed': "Le CV n'a pas pu être enregistré dans « Mes CV » avant l'export.",
+      'ats.title': 'Contrôle ATS',
+      'ats.ok': 'Lisible',
+      'ats.count': '{{errors}} erreur(s), {{warnings}} avertissement(s)',
+      'ats.none': 'Aucun problème : les logiciels de recrutement (ATS) peuvent lire ce CV.',
+      'ats.error': 'Erreur',
+      'ats.warning': 'Avertissement',
+      'ats.imageOnly': 'Votre CV ne contient qu’une photo : les ATS ne lisent pas les images. Ajoutez vos expériences et formations en texte.',
+      'ats.missingContact': 'Coordonnée manquante : {{field}}.',
+      'ats.dateFormat': '{{section}} – « {{item}} » : la date « {{value}} » n’est pas au format AAAA-MM.',
+      'ats.longBullet': '{{section}} – « {{item}} » fait {{length}} caractères (max {{max}}). Découpez-la en puces plus courtes.',
+      'ats.missingSection': 'Pas de rubrique « {{section}} » : les ATS recherchent cet intitulé standard.',
+      'ats.field.name': 'nom complet',
+      'ats.field.email': 'e-mail',
+      'ats.field.phone': 'téléphone',
+      'ats.field.location': 'localisation',
+      'ats.showText': 'Ce que lit un ATS',
+      'ats.downloadText': 'Texte brut (.txt)',
+      'ats.downloadMarkdown': 'Markdown (.md)',
+      'ats.exportLocked': 'Disponible une fois ce plan payé'
+    }
+  },
+  sw: {
+    translation: {
+      'preview.downloadDocx': 'Pakua Word (.docx)',
+      'preview.docxLocked': 'Inapatikana baada ya kulipia mpango huu',
+      'preview.exportSaveFailed': 'CV haikuweza kuhifadhiwa kwenye “CV zangu” kabla ya kupakua.',
+      'ats.title': 'Ukaguzi wa ATS',
+      'ats.ok': 'Inasomeka',
+      'ats.count': 'Makosa {{errors}}, tahadhari {{warnings}}',
+      'ats.none': 'Hakuna tatizo: mifumo ya kufuatilia waombaji (ATS) inaweza kusoma CV hii.',
+      'ats.error': 'Kosa',
+      'ats.warning': 'Tahadhari',
+      'ats.imageOnly': 'CV yako ina picha tu: programu za ATS haziwezi kusoma picha. Ongeza uzoefu na elimu yako kwa maandishi.',
+      'ats.missingContact': 'Taarifa ya mawasiliano inakosekana: {{field}}.',
+      'ats.dateFormat': '{{section}} – “{{item}}”: tarehe “{{value}}” haiko katika muundo wa YYYY-MM.',
+      'ats.longBullet': '{{section}} – “{{item}}” ina herufi {{length}} (upeo {{max}}). Igawanye katika vitone vifupi.',
+      'ats.missingSection': 'Hakuna sehemu ya “{{section}}”: programu za ATS hutafuta kichwa hiki cha kawaida.',
+      'ats.field.name': 'jina kamili',
+      'ats.field.email': 'barua pepe',
+      'ats.field.phone': 'simu',
+      'ats.field.location': 'mahali',
+      'ats.showText': 'Kile ATS inasoma',
+      'ats.downloadText': 'Maandishi (.txt)',
+      'ats.downloadMarkdown': 'Markdown (.md)',
+      'ats.exportLocked': 'Inapatikana baada ya kulipia mpango huu'
+    }
+  },
+  pt: {
+    translation: {
+      'preview.downloadDocx': 'Baixar Word (.docx)',
+      'preview.docxLocked': 'Disponível depois de pagar este plano',
+      'preview.exportSaveFailed': 'Não foi possível guardar o CV em “Os meus CV” antes da exportação.',
+      'ats.title': 'Verificação ATS',
+      'ats.ok': 'Legível',
+      'ats.count': '{{errors}} erro(s), {{warnings}} aviso(s)',
+      'ats.none': 'Nenhum problema: os sistemas de recrutamento (ATS) conseguem ler este CV.',
+      'ats.error': 'Erro',
+      'ats.warning': 'Aviso',
+      'ats.imageOnly': 'O seu CV contém apenas uma foto: os ATS não leem imagens. Adicione a sua experiência e formação em texto.',
+      'ats.missingContact': 'Contacto em falta: {{field}}.',
+      'ats.dateFormat': '{{section}} – “{{item}}”: a data “{{value}}” não está no formato AAAA-MM.',
+      'ats.longBullet': '{{section}} – “{{item}}” tem {{length}} caracteres (máx. {{max}}). Divida-o em tópicos mais curtos.',
+      'ats.missingSection': 'Sem secção “{{section}}”: os ATS procuram este título padrão.',
+      'ats.field.name': 'nome completo',
+      'ats.field.email': 'e-mail',
+      'ats.field.phone': 'telefone',
+      'ats.field.location': 'localização',
+      'ats.showText': 'O que um ATS lê',
+      'ats.downloadText': 'Texto simples (.txt)',
+      'ats.downloadMarkdown': 'Markdown (.md)',
+      'ats.exportLocked': 'Disponível depois de pagar este plano'
+    }
+  }
+}
+
+/** Register resources if not already present. */
+Object.entries(resources).forEach(([lng, bundle]) => {
+  i18n.addResourceBundle(lng, 'translation', (bundle as any).translation, true, true)
+})
@@ -0,0 +1,167 @@
+/**
+ * i18nImportPatch.ts
+ * Runtime i18n resources for the import of an existing PDF/DOCX CV (ResumeForm → ImportCvDialog)
+ * and of the LinkedIn data export (ResumeForm → LinkedInImportDialog).
+ * - Adds keys for EN, FR, SW, PT.
+ * - Loaded centrally by App.tsx to avoid per-component imports.
+ */
+
+import i18n from './i18n'
+
+const resources = {
+  en: {
+    translation: {
+      'import.prompt': 'Already have a CV?',
+      'import.open': 'Import PDF / Word',
+      'import.title': 'Import an existing CV',
+      'import.intro':
+        'Upload your current CV (PDF or Word). Its text is read on our server, without any AI service, and the file is not kept. You review every value before it replaces what is in the form.',
+      'import.choose': 'Choose a PDF or DOCX file',
+      'import.reading': 'Reading your CV…',
+      'import.signIn': 'Sign in to import a CV.',
+      'import.badType': 'Choose a PDF or Word (.docx) file.',
+      'import.tooLarge': 'This file is larger than 10 MB.',
+      'import.failed': 'The file could not be imported.',
+      'import.nothing': 'Nothing could be recognised in this file. Try another version of your CV.',
+      'import.review':
+        'Check the values found in your CV. Only the ticked values will replace those of the form; uncertain ones are unticked.',
+      'import.listsNote': 'Ticked experiences, education and certifications replace the whole list of the form.',
+      'import.another': 'Choose another file',
+      'import.apply': 'Replace the ticked fields',
+      'import.confidence.high': 'Reliable',
+      'import.confidence.medium': 'Check',
+      'import.confidence.low': 'Uncertain',
+      'linkedin.open': 'Import from LinkedIn',
+      'linkedin.title': 'Import from LinkedIn',
+      'linkedin.intro':
+        'On LinkedIn, open Settings → Data privacy → Get a copy of your data, and download the archive. Choose that ZIP file here: it is read on your device and nothing is sent.',
+      'linkedin.choose': 'Choose the LinkedIn ZIP file',
+      'linkedin.reading': 'Reading the archive…',
+      'linkedin.unreadable': 'This file is not a LinkedIn data export (ZIP).',
+      'linkedin.empty': 'The archive contains no position, education, certification or skill.',
+      'linkedin.review':
+        'What LinkedIn adds to your CV. Entries already in the form are not duplicated; only their empty fields are completed.',
+      'linkedin.added': '{{count}} new',
+      'linkedin.duplicates': '({{count}} already there)',
+      'linkedin.apply': 'Add to my CV'
+    }
+  },
+  fr: {
+    translation: {
+      'import.prompt': 'Vous avez déjà un CV ?',
+      'import.open': 'Importer un PDF / Word',
+      'import.title': 'Importer un CV existant',
+      'import.intro':
+        "Envoyez votre CV actuel (PDF ou Word). Son texte est lu sur notre serveur, sans service d'IA, et le fichier n'est pas conservé. Vous vérifiez chaque valeur avant qu'elle ne remplace le contenu du formulaire.",
+      'import.choose': 'Choisir un fichier PDF ou DOCX',
+      'import.reading': 'Lecture de votre CV…',
+      'import.signIn': 'Connectez-vous pour importer un CV.',
+      'import.badType': 'Choisissez un fichier PDF ou Word (.docx).',
+      'import.tooLarge': 'Ce fichier dépasse 10 Mo.',
+      'import.failed': "Le fichier n'a pas pu être importé.",
+      'import.nothing': "Rien n'a pu être reconnu dans ce fichier. Essayez une autre version de votre CV.",
+      'import.review':
+        'Vérifiez les valeurs trouvées dans votre CV. Seules les valeurs cochées remplaceront celles du formulaire ; les valeurs incertaines sont décochées.',
+      'import.listsNote':
+        'Les expériences, formations et certifications cochées remplacent toute la liste du formulaire.',
+      'import.another': 'Choisir un autre fichier',
+      'import.apply': 'Remplacer les champs cochés',
+      'import.confidence.high': 'Fiable',
+      'import.confidence.medium': 'À vérifier',
+      'import.confidence.low': 'Incertain',
+      'linkedin.open': 'Importer depuis LinkedIn',
+      'linkedin.title': 'Importer depuis LinkedIn',
+      'linkedin.intro':
+        "Sur LinkedIn, ouvrez Préférences → Confidentialité des données → Obtenir une copie de vos données, puis téléchargez l'archive. Choisissez ce fichier ZIP ici : il est lu sur votre appareil et rien n'est envoyé.",
+      'linkedin.choose': 'Choisir le fichier ZIP LinkedIn',
+      'linkedin.reading': "Lecture de l'archive…",
+      'linkedin.unreadable': "Ce fichier n'est pas un export de données LinkedIn (ZIP).",
+      'linkedin.empty': "L'archive ne contient aucun poste, formation, certification ni compétence.",
+      'linkedin.review':
+        'Ce que LinkedIn ajoute à votre CV. Les éléments déjà présents dans le formulaire ne sont pas dupliqués ; seuls leurs champs vides sont complétés.',
+      'linkedin.added': '{{count}} nouveau(x)',
+      'linkedin.duplicates': '({{count}} déjà présent(s))',
+      'linkedin.apply': 'Ajouter à mon CV'
+    }
+  },
+  sw: {
+    translation: {
+      'import.prompt': 'Tayari una CV?',
+      'import.open': 'Leta PDF / Word',
+      'import.title': 'Leta CV iliyopo',
+      'import.intro':
+        'Pakia CV yako ya sasa (PDF au Word). Maandishi yake husomwa kwenye seva yetu, bila huduma yoyote ya AI, na faili haihifadhiwi. Unakagua kila thamani kabla haijachukua nafasi ya kilichomo kwenye fomu.',
+      'import.choose': 'Chagua faili ya PDF au DOCX',
+      'import.reading': 'Tunasoma CV yako…',
+      'import.signIn': 'Ingia ili kuleta CV.',
+      'import.badType': 'Chagua faili ya PDF au Word (.docx).',
+      'import.tooLarge': 'Faili hii ni kubwa kuliko MB 10.',
+      'import.failed': 'Faili haikuweza kuletwa.',
+      'import.nothing': 'Hakuna kilichotambuliwa kwenye faili hii. Jaribu toleo lingine la CV yako.',
+      'import.review':
+        'Kagua thamani zilizopatikana kwenye CV yako. Ni thamani zilizowekewa alama pekee zitakazochukua nafasi ya zile za fomu; zisizo na uhakika hazijawekewa alama.',
+      'import.listsNote': 'Uzoefu, elimu na vyeti vilivyowekewa alama huchukua nafasi ya orodha nzima ya fomu.',
+      'import.another': 'Chagua faili nyingine',
+      'import.apply': 'Badilisha sehemu zilizowekewa alama',
+      'import.confidence.high': 'Ya kuaminika',
+      'import.confidence.medium': 'Kagua',
+      'import.confidence.low': 'Haina uhakika',
+      'linkedin.open': 'Leta kutoka LinkedIn',
+      'linkedin.title': 'Leta kutoka LinkedIn',
+      'linkedin.intro':
+        'Kwenye LinkedIn, fungua Mipangilio → Faragha ya data → Pata nakala ya data yako, kisha pakua kumbukumbu. Chagua faili hiyo ya ZIP hapa: inasomwa kwenye kifaa chako na hakuna kinachotumwa.',
+      'linkedin.choose': 'Chagua faili ya ZIP ya LinkedIn',
+      'linkedin.reading': 'Tunasoma kumbukumbu…',
+      'linkedin.unreadable': 'Faili hii si data iliyohamishwa kutoka LinkedIn (ZIP).',
+      'linkedin.empty': 'Kumbukumbu haina kazi, elimu, cheti wala ujuzi wowote.',
+      'linkedin.review':
+        'Kile LinkedIn inaongeza kwenye CV yako. Vilivyomo tayari kwenye fomu havirudiwi; sehemu zao tupu pekee ndizo hujazwa.',
+      'linkedin.added': '{{count}} mpya',
+      'linkedin.duplicates': '({{count}} vipo tayari)',
+      'linkedin.apply': 'Ongeza kwenye CV yangu'
+    }
+  },
+  pt: {
+    translation: {
+      'import.prompt': 'Já tem um CV?',
+      'import.open': 'Importar PDF / Word',
+      'import.title': 'Importar um CV existente',
+      'import.intro':
+        'Envie o seu CV atual (PDF ou Word). O texto é lido no nosso servidor, sem qualquer serviço de IA, e o ficheiro não é guardado. Revê cada valor antes de substituir o conteúdo do formulário.',
+      'import.choose': 'Escolher um ficheiro PDF ou DOCX',
+      'import.reading': 'A ler o seu CV…',
+      'import.signIn': 'Inicie sessão para importar um CV.',
+      'import.badType': 'Escolha um ficheiro PDF ou Word (.docx).',
+      'import.tooLarge': 'Este ficheiro tem mais de 10 MB.',
+      'import.failed': 'Não foi possível importar o ficheiro.',
+      'import.nothing': 'Nada foi reconhecido neste ficheiro. Experimente outra versão do seu CV.',
+      'import.review':
+        'Verifique os valores encontrados no seu CV. Apenas os valores assinalados substituirão os do formulário; os incertos não estão assinalados.',
+      'import.listsNote':
+        'As experiências, formações e certificações assinaladas substituem toda a lista do formulário.',
+      'import.another': 'Escolher outro ficheiro',
+      'import.apply': 'Substituir os campos assinalados',
+      'import.confidence.high': 'Fiável',
+      'import.confidence.medium': 'Verificar',
+      'import.confidence.low': 'Incerto',
+      'linkedin.open': 'Importar do LinkedIn',
+      'linkedin.title': 'Importar do LinkedIn',
+      'linkedin.intro':
+        'No LinkedIn, abra Definições → Privacidade dos dados → Obter uma cópia dos seus dados e transfira o arquivo. Escolha esse ficheiro ZIP aqui: é lido no seu dispositivo e nada é enviado.',
+      'linkedin.choose': 'Escolher o ficheiro ZIP do LinkedIn',
+      'linkedin.reading': 'A ler o arquivo…',
+      'linkedin.unreadable': 'Este ficheiro não é uma exportação de dados do LinkedIn (ZIP).',
+      'linkedin.empty': 'O arquivo não contém nenhum cargo, formação, certificação ou competência.',
+      'linkedin.review':
+        'O que o LinkedIn acrescenta ao seu CV. Os elementos já presentes no formulário não são duplicados; apenas os campos vazios são completados.',
+      'linkedin.added': '{{count}} novo(s)',
+      'linkedin.duplicates': '({{count}} já presente(s))',
+      'linkedin.apply': 'Adicionar ao meu CV'
+    }
+  }
+}
+
+/** Register resources if not already present. */
+Object.entries(resources).forEach(([lng, bundle]) => {
+  i18n.addResourceBundle(lng, 'translation', (bundle as any).translation, true, true)
+})
@@ -12,6 +12,7 @@ const resources = {
   en: {
     translation: {
       'payment.modal.title': 'Payment',
+      'payment.saveCvFirst': 'Your CV could not be saved to “My CVs”: a payment unlocks one saved CV.',
       'payment.info.plan': 'Plan',
       'payment.info.total': 'Total',
       'payment.tabs.card': 'Card',
@@ -36,6 +37,7 @@ const resources = {
   fr: {
     translation: {
       'payment.modal.title': 'Paiement',
+      'payment.saveCvFirst': "Le CV n'a pas pu être enregistré dans « Mes CV » : un paiement débloque un CV enregistré.",
       'payment.info.plan': 'Forfait',
       'payment.info.total': 'Total',
       'payment.tabs.card': 'Carte',
@@ -60,6 +62,7 @@ const resources = {
   sw: {
     translation: {
       'payment.modal.title': 'Malipo',
+      'payment.saveCvFirst': 'CV yako haikuweza kuhifadhiwa kwenye “CV zangu”: malipo yanafungua CV moja iliyohifadhiwa.',
       'payment.info.plan': 'Mpango',
       'payment.info.total': 'Jumla',
       'payment.tabs.card': 'Kadi',
@@ -84,6 +87,7 @@ const resources = {
   pt: {
     translation: {
       'payment.modal.title': 'Pagamento',
+      'payment.saveCvFirst': 'Não foi possível guardar o CV em “Os meus CV”: um pagamento desbloqueia um CV guardado.',
       'payment.info.plan': 'Plano',
       'payment.info.total': 'Total',
       'payment.tabs.card': 'Cartão',
@@ -108,6 +112,7 @@ const resources = {
   ar: {
     translation: {
       'payment.modal.title': 'الدفع',
+      'payment.saveCvFirst': 'تعذر حفظ السيرة الذاتية في «سيري الذاتية»: الدفع يفتح سيرة ذاتية محفوظة واحدة.',
       'payment.info.plan': 'الخطة',
       'payment.info.total': 'الإجمالي',
       'payment.tabs.card': 'بطاقة',
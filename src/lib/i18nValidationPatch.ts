@@ -0,0 +1,78 @@
+/**
+ * i18nValidationPatch.ts
+ * Runtime i18n resources for the form validation (lib/resumeValidation.ts): inline messages of
+ * ResumeForm and the completeness score shown under the step indicator (CompletenessScore).
+ * - Adds keys for EN, FR, SW, PT.
+ * - Loaded centrally by App.tsx to avoid per-component imports.
+ */
+
+import i18n from './i18n'
+
+const resources = {
+  en: {
+    translation: {
+      'validation.required': 'Fill in “{{field}}”.',
+      'validation.emailFormat': 'This e-mail address is not valid (example: name@domain.com).',
+      'validation.phoneFormat': 'This is not a valid phone number for {{country}}.',
+      'validation.phoneFormatIntl': 'This phone number is not valid: use the international format (+243 …).',
+      'validation.dateFormat': '“{{value}}” is not a date in the YYYY-MM format.',
+      'validation.dateGap': '{{months}} months without a position before this one: explain the gap (training, project…).',
+      'validation.bulletLength': 'A bullet is {{length}} characters long: keep each one under {{max}}.',
+      'completeness.title': 'Completeness',
+      'completeness.label': 'CV {{score}}% complete',
+      'completeness.more': '+{{count}} more',
+      'completeness.done': 'Everything is filled in: your CV is ready.'
+    }
+  },
+  fr: {
+    translation: {
+      'validation.required': 'Renseignez « {{field}} ».',
+      'validation.emailFormat': "Cette adresse e-mail n'est pas valide (exemple : nom@domaine.com).",
+      'validation.phoneFormat': "Ce numéro de téléphone n'est pas valide pour le pays {{country}}.",
+      'validation.phoneFormatIntl': "Ce numéro de téléphone n'est pas valide : utilisez le format international (+243 …).",
+      'validation.dateFormat': "« {{value}} » n'est pas une date au format AAAA-MM.",
+      'validation.dateGap':
+        '{{months}} mois sans poste avant celui-ci : expliquez cette période (formation, projet…).',
+      'validation.bulletLength': 'Une puce fait {{length}} caractères : gardez chacune sous {{max}}.',
+      'completeness.title': 'Complétude',
+      'completeness.label': 'CV complet à {{score}} %',
+      'completeness.more': '+{{count}} autre(s)',
+      'completeness.done': 'Tout est renseigné : votre CV est prêt.'
+    }
+  },
+  sw: {
+    translation: {
+      'validation.required': 'Jaza “{{field}}”.',
+      'validation.emailFormat': 'Anwani hii ya barua pepe si sahihi (mfano: jina@kikoa.com).',
+      'validation.phoneFormat': 'Namba hii ya simu si sahihi kwa {{country}}.',
+      'validation.phoneFormatIntl': 'Namba hii ya simu si sahihi: tumia muundo wa kimataifa (+255 …).',
+      'validation.dateFormat': '“{{value}}” si tarehe katika muundo wa YYYY-MM.',
+      'validation.dateGap': 'Miezi {{months}} bila kazi kabla ya hii: eleza kipindi hicho (mafunzo, mradi…).',
+      'validation.bulletLength': 'Kipengele kina herufi {{length}}: weka kila kimoja chini ya {{max}}.',
+      'completeness.title': 'Ukamilifu',
+      'completeness.label': 'CV imekamilika {{score}}%',
+      'completeness.more': '+{{count}} zaidi',
+      'completeness.done': 'Kila kitu kimejazwa: CV yako iko tayari.'
+    }
+  },
+  pt: {
+    translation: {
+      'validation.required': 'Preencha “{{field}}”.',
+      'validation.emailFormat': 'Este endereço de e-mail não é válido (exemplo: nome@dominio.com).',
+      'validation.phoneFormat': 'Este número de telefone não é válido para {{country}}.',
+      'validation.phoneFormatIntl': 'Este número de telefone não é válido: use o formato internacional (+244 …).',
+      'validation.dateFormat': '“{{value}}” não é uma data no formato AAAA-MM.',
+      'validation.dateGap': '{{months}} meses sem emprego antes deste: explique o período (formação, projeto…).',
+      'validation.bulletLength': 'Um tópico tem {{length}} caracteres: mantenha cada um abaixo de {{max}}.',
+      'completeness.title': 'Completude',
+      'completeness.label': 'CV {{score}}% completo',
+      'completeness.more': '+{{count}} outro(s)',
+      'completeness.done': 'Tudo preenchido: o seu CV está pronto.'
+    }
+  }
+}
+
+/** Register resources if not already present. */
+Object.entries(resources).forEach(([lng, bundle]) => {
+  i18n.addResourceBundle(lng, 'translation', (bundle as any).translation, true, true)
+})
@@ -0,0 +1,141 @@
+/**
+ * src/lib/jsonResume.test.mjs
+ * JSON Resume import/export of the CV library: a round trip in either direction (Mako → JSON Resume → Mako,
+ * and a document from another tool → Mako → JSON Resume) must give back exactly what went in.
+ * Runs with `npm test` (node:test, TypeScript through tsx).
+ */
+
+import { before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+
+let jsonResume
+let readResume
+
+before(async () => {
+  jsonResume = await import('./jsonResume.ts')
+  ;({ readResume } = await import('../../shared/resume.mjs'))
+})
+
+/** Every field of ResumeData filled, including values JSON Resume cannot hold as such. */
+const FULL_CV = {
+  version: 2,
+  fullName: 'Amani Kalala',
+  headline: 'Comptable senior',
+  email: 'amani@example.com',
+  phone: '+243812345678',
+  location: 'Kinshasa, RD Congo',
+  linkedin: 'https://www.linkedin.com/in/amani',
+  summary: 'Dix ans de comptabilité bancaire.',
+  skills: ['Excel', 'SAGE', 'Fiscalité'],
+  country: 'CD',
+  photoUrl: 'data:image/png;base64,AAAA',
+  domain: 'finance',
+  language: 'fr',
+  cvType: 'advanced',
+  experiences: [
+    {
+      title: 'Comptable senior',
+      company: 'Rawbank',
+      start: '2021-03',
+      end: 'Present',
+      description: 'Clôtures mensuelles\nRapports IFRS',
+    },
+    // Free-text date and a bullet character: kept through the extension block
+    { title: 'Assistant comptable', company: 'Vodacom Congo', start: 'sept. 2018', end: '2021-02', description: '• Saisie' },
+  ],
+  education: [
+    {
+      degree: 'Licence, Comptabilité',
+      school: 'Université de Kinshasa',
+      start: '2014-10',
+      end: '2018-07',
+      description: 'Mention distinction',
+    },
+  ],
+  certifications: [
+    { name: 'ACCA Foundations', issuer: 'ACCA', date: '2020-06', credentialId: 'F-123', credentialUrl: 'https://acca.example' },
+  ],
+  achievements: [{ title: 'Audit sans réserve', description: 'Trois exercices de suite' }],
+  highlights: ['10 ans de banque', 'Normes IFRS'],
+}
+
+/** A JSON Resume written by another tool, with sections and properties Mako does not show. */
+const FOREIGN_DOCUMENT = {
+  $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+  basics: {
+    name: 'Neema Mwangi',
+    label: 'Data analyst',
+    email: 'neema@example.com',
+    url: 'https://neema.example',
+    location: { city: 'Nairobi', countryCode: 'KE' },
+    profiles: [
+      { network: 'GitHub', username: 'neema' },
+      { network: 'LinkedIn', url: 'https://www.linkedin.com/in/neema' },
+    ],
+  },
+  work: [
+    {
+      name: 'Safaricom',
+      position: 'Analyst',
+      url: 'https://safaricom.example',
+      startDate: '2020-02-01',
+      summary: 'M-Pesa reporting',
+      highlights: ['Dashboards'],
+    },
+  ],
+  education: [{ institution: 'University of Nairobi', area: 'Statistics', studyType: 'BSc', startDate: '2015', endDate: '2019' }],
+  skills: [{ name: 'Data', level: 'Advanced', keywords: ['SQL', 'Python'] }],
+  languages: [{ language: 'Swahili', fluency: 'Native' }],
+  projects: [{ name: 'Open data portal', startDate: '2021-06' }],
+}
+
+describe('JSON Resume round trip', () => {
+  test('export then import gives back identical ResumeData, plan, photo choice and title', () => {
+    const data = readResume(FULL_CV)
+    const file = JSON.parse(JSON.stringify(jsonResume.exportJsonResume({ data, plan: 'advanced', withPhoto: true, title: 'Mon CV' })))
+    assert.ok(jsonResume.jsonResumeSchema.safeParse(file).success)
+
+    const imported = jsonResume.importJsonResume(file)
+    assert.deepEqual(imported.data, data)
+    assert.equal(imported.plan, 'advanced')
+    assert.equal(imported.withPhoto, true)
+    assert.equal(imported.title, 'Mon CV')
+  })
+
+  test('writes standard properties that other tools read', () => {
+    const file = jsonResume.exportJsonResume({ data: readResume(FULL_CV), plan: 'advanced', withPhoto: true })
+    assert.equal(file.basics.name, 'Amani Kalala')
+    assert.deepEqual(file.basics.profiles, [{ network: 'LinkedIn', url: 'https://www.linkedin.com/in/amani' }])
+    assert.deepEqual(file.work[0], {
+      name: 'Rawbank',
+      position: 'Comptable senior',
+      startDate: '2021-03',
+      highlights: ['Clôtures mensuelles', 'Rapports IFRS'],
+    })
+    assert.deepEqual(file.skills, [{ name: 'Excel' }, { name: 'SAGE' }, { name: 'Fiscalité' }])
+  })
+
+  test('a document from another tool is exported back unchanged, sections Mako does not show included', () => {
+    const { data, plan } = jsonResume.importJsonResume(structuredClone(FOREIGN_DOCUMENT))
+    assert.equal(plan, undefined)
+    assert.equal(data.fullName, 'Neema Mwangi')
+    assert.equal(data.location, 'Nairobi, KE')
+    assert.equal(data.linkedin, 'https://www.linkedin.com/in/neema')
+    assert.deepEqual(data.skills, ['SQL', 'Python'])
+    assert.equal(data.experiences[0].description, 'M-Pesa reporting\nDashboards')
+    assert.equal(data.education[0].degree, 'BSc, Statistics')
+
+    const { [jsonResume.MAKO_EXTENSION_KEY]: extension, ...exported } = jsonResume.exportJsonResume({
+      data,
+      plan: 'student',
+      withPhoto: false,
+    })
+    assert.equal(extension.plan, 'student')
+    assert.deepEqual(exported, FOREIGN_DOCUMENT)
+  })
+
+  test('rejects a document that does not follow the schema', () => {
+    assert.throws(() => jsonResume.importJsonResume({ basics: { name: 42 } }), /Invalid JSON Resume — basics\.name/)
+    assert.throws(() => jsonResume.importJsonResume({ work: 'Rawbank' }), /Invalid JSON Resume — work/)
+  })
+})
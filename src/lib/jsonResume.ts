@@ -0,0 +1,422 @@
+/**
+ * jsonResume.ts
+ * Conversion between ResumeData and the JSON Resume standard (https://jsonresume.org/schema), for
+ * the import/export of the CV library.
+ * - Each Mako field is mapped to the JSON Resume properties it reads and writes (FieldMap):
+ *   experiences ↔ work, education ↔ education, certifications ↔ certificates,
+ *   achievements ↔ awards, skills ↔ skills[], contact details ↔ basics.
+ * - Export: what JSON Resume cannot hold (domain, language, career highlights, credential IDs, dates
+ *   that are not YYYY-MM…) goes to the "x-mako" extension block, with the plan and title of the CV.
+ * - Import: the document is validated with zod; its sections and properties that Mako cannot show
+ *   (projects, volunteer, work URLs…) are kept in ResumeData.jsonResume and written back on export.
+ * A round trip in either direction loses nothing as long as the values were not edited in between.
+ */
+
+import { z } from 'zod'
+import type { ResumeData, ResumePlan } from '../types/resume'
+import { parseSkills, toBullets } from '../../shared/sections.mjs'
+import { isPresentValue } from './dates'
+import { readResume } from '../../shared/resume.mjs'
+
+export const JSON_RESUME_SCHEMA_URL =
+  'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json'
+
+/** Clé du bloc d'extension propre à Mako. */
+export const MAKO_EXTENSION_KEY = 'x-mako'
+
+type Json = Record<string, unknown>
+
+const text = z.string().optional()
+
+/** JSON Resume properties read by Mako; everything else passes through untouched. */
+const itemSchema = <T extends z.ZodRawShape>(shape: T) => z.object(shape).partial().passthrough()
+
+const makoExtensionSchema = z.object({
+  version: z.number().int().positive(),
+  title: text,
+  plan: z.enum(['student', 'pro', 'advanced']).optional(),
+  withPhoto: z.boolean().optional(),
+  /** Champs de ResumeData qui diffèrent de leur lecture JSON Resume */
+  fields: z.record(z.union([z.string(), z.array(z.string())])).optional(),
+  /** Même chose, élément par élément, pour les listes (null = élément identique) */
+  items: z.record(z.array(z.record(z.string()).nullable())).optional(),
+})
+
+export const jsonResumeSchema = z
+  .object({
+    $schema: text,
+    basics: itemSchema({
+      name: text,
+      label: text,
+      image: text,
+      email: text,
+      phone: text,
+      url: text,
+      summary: text,
+      location: z.union([
+        z.string(),
+        itemSchema({ address: text, postalCode: text, city: text, countryCode: text, region: text }),
+      ]),
+      profiles: z.array(itemSchema({ network: text, username: text, url: text })),
+    }).optional(),
+    work: z
+      .array(
+        itemSchema({
+          name: text,
+          position: text,
+          startDate: text,
+          endDate: text,
+          summary: text,
+          highlights: z.array(z.string()),
+        })
+      )
+      .optional(),
+    education: z
+      .array(itemSchema({ institution: text, area: text, studyType: text, startDate: text, endDate: text }))
+      .optional(),
+    certificates: z.array(itemSchema({ name: text, issuer: text, date: text, url: text })).optional(),
+    awards: z.array(itemSchema({ title: text, summary: text })).optional(),
+    skills: z.array(itemSchema({ name: text, keywords: z.array(z.string()) })).optional(),
+    [MAKO_EXTENSION_KEY]: makoExtensionSchema.optional(),
+  })
+  .passthrough()
+
+export type JsonResume = z.infer<typeof jsonResumeSchema>
+export type MakoExtension = z.infer<typeof makoExtensionSchema>
+
+/** CV importé: les données, et le plan/titre quand le fichier vient de Mako. */
+export interface JsonResumeImport {
+  data: ResumeData
+  plan?: ResumePlan
+  withPhoto?: boolean
+  title?: string
+}
+
+/**
+ * A ResumeData field and the JSON Resume properties it comes from.
+ * On export, the original properties are kept whenever they still read as the field value.
+ */
+interface FieldMap {
+  field: string
+  read: (json: Json) => string
+  write: (value: string, base?: Json) => Json
+}
+
+function str(value: unknown) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function list(value: unknown): Json[] {
+  return Array.isArray(value) ? value.filter((v): v is Json => !!v && typeof v === 'object') : []
+}
+
+function obj(value: unknown): Json | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Json) : undefined
+}
+
+/** JSON Resume date (ISO 8601: YYYY-MM-DD, YYYY-MM or YYYY) → YYYY-MM; other values unchanged. */
+function readDate(value: unknown) {
+  const v = str(value)
+  const m = v.match(/^(\d{4})(?:-(\d{2}))?(?:-\d{2})?$/)
+  return m ? `${m[1]}-${m[2] || '01'}` : v
+}
+
+/** YYYY-MM stays; "Present" or empty → no date (JSON Resume: no end date = ongoing). */
+function writeDate(value: string) {
+  return value && !isPresentValue(value) ? value : undefined
+}
+
+/** Plain property ↔ field. */
+function prop(field: string, key: string): FieldMap {
+  return { field, read: (j) => str(j[key]), write: (v) => ({ [key]: v || undefined }) }
+}
+
+function dateProp(field: string, key: string): FieldMap {
+  return { field, read: (j) => readDate(j[key]), write: (v) => ({ [key]: writeDate(v) }) }
+}
+
+const BASICS: FieldMap[] = [
+  prop('fullName', 'name'),
+  prop('headline', 'label'),
+  prop('email', 'email'),
+  prop('phone', 'phone'),
+  prop('summary', 'summary'),
+  prop('photoUrl', 'image'),
+  {
+    field: 'location',
+    read: (j) => {
+      if (typeof j.location === 'string') return j.location.trim()
+      const l = obj(j.location) || {}
+      return [l.address, l.city, l.region, l.countryCode].map(str).filter(Boolean).join(', ')
+    },
+    write: (v) => ({ location: v ? { address: v } : undefined }),
+  },
+  {
+    field: 'linkedin',
+    read: (j) => {
+      const p = list(j.profiles).find((p) => /linkedin/i.test(str(p.network)))
+      if (!p) return ''
+      return str(p.url) || (str(p.username) ? `https://www.linkedin.com/in/${str(p.username)}` : '')
+    },
+    write: (v, base) => {
+      const others = list(base?.profiles).filter((p) => !/linkedin/i.test(str(p.network)))
+      const profiles = v ? [...others, { network: 'LinkedIn', url: v }] : others
+      return { profiles: profiles.length > 0 ? profiles : undefined }
+    },
+  },
+]
+
+const DOCUMENT: FieldMap[] = [
+  {
+    field: 'skills',
+    read: (j) => {
+      const names = list(j.skills).flatMap((s) =>
+        Array.isArray(s.keywords) && s.keywords.length > 0 ? s.keywords.map(str) : [str(s.name)]
+      )
+      return Array.from(new Set(names.filter(Boolean))).join(', ')
+    },
+    write: (v) => {
+      const skills = parseSkills(v)
+      return { skills: skills.length > 0 ? skills.map((name) => ({ name })) : undefined }
+    },
+  },
+]
+
+const WORK: FieldMap[] = [
+  prop('company', 'name'),
+  prop('title', 'position'),
+  dateProp('start', 'startDate'),
+  {
+    field: 'end',
+    read: (j) => (str(j.endDate) ? readDate(j.endDate) : str(j.startDate) ? 'Present' : ''),
+    write: (v) => ({ endDate: writeDate(v) }),
+  },
+  {
+    field: 'description',
+    read: (j) => [str(j.summary), ...(Array.isArray(j.highlights) ? j.highlights.map(str) : [])].filter(Boolean).join('\n'),
+    write: (v) => {
+      const highlights = toBullets(v)
+      return { summary: undefined, highlights: highlights.length > 0 ? highlights : undefined }
+    },
+  },
+]
+
+const EDUCATION: FieldMap[] = [
+  prop('school', 'institution'),
+  {
+    field: 'degree',
+    read: (j) => [str(j.studyType), str(j.area)].filter(Boolean).join(', '),
+    write: (v) => ({ studyType: v || undefined, area: undefined }),
+  },
+  dateProp('start', 'startDate'),
+  dateProp('end', 'endDate'),
+]
+
+const CERTIFICATES: FieldMap[] = [
+  prop('name', 'name'),
+  prop('issuer', 'issuer'),
+  dateProp('date', 'date'),
+  prop('credentialUrl', 'url'),
+]
+
+const AWARDS: FieldMap[] = [prop('title', 'title'), prop('description', 'summary')]
+
+/** Sections de la liste: champ ResumeData, section JSON Resume, correspondances (la 1re identifie l'élément). */
+const LISTS = [
+  { field: 'experiences', section: 'work', maps: WORK },
+  { field: 'education', section: 'education', maps: EDUCATION },
+  { field: 'certifications', section: 'certificates', maps: CERTIFICATES },
+  { field: 'achievements', section: 'awards', maps: AWARDS },
+] as const
+
+/** Champs simples de ResumeData comparés pour le bloc d'extension. */
+const SCALAR_FIELDS = [
+  'fullName',
+  'headline',
+  'email',
+  'phone',
+  'location',
+  'linkedin',
+  'summary',
+  'skills',
+  'photoUrl',
+  'country',
+  'domain',
+  'language',
+  'cvType',
+  'highlights',
+] as const
+
+function readItem(maps: FieldMap[], json: Json): Record<string, string> {
+  return Object.fromEntries(maps.map((m) => [m.field, m.read(json)]))
+}
+
+/** Writes an item over its original JSON (if any): properties still matching the value are kept. */
+function writeItem(maps: FieldMap[], item: Record<string, unknown>, base?: Json): Json {
+  const out: Json = { ...(base || {}) }
+  for (const m of maps) {
+    const value = str(item[m.field])
+    if (base && m.read(base) === value) continue
+    Object.assign(out, m.write(value, base))
+  }
+  return out
+}
+
+function writeList(maps: FieldMap[], items: Array<Record<string, unknown>>, base: unknown) {
+  const originals = list(base)
+  return items.map((item, i) => {
+    // The original is reused only for the same entry (same company, school…)
+    const original = originals[i]
+    const same = original && maps[0].read(original) === str(item[maps[0].field])
+    return writeItem(maps, item, same ? original : undefined)
+  })
+}
+
+/** ResumeData → JSON Resume, without the extension block. */
+function toJsonResume(data: ResumeData, base?: Json): Json {
+  const doc: Json = { $schema: JSON_RESUME_SCHEMA_URL, ...(base || {}) }
+  const fields = data as unknown as Record<string, unknown>
+  doc.basics = writeItem(BASICS, fields, obj(base?.basics))
+  doc.skills = writeItem(DOCUMENT, { skills: parseSkills(data.skills).join(', ') }, base).skills
+  for (const { field, section, maps } of LISTS) {
+    const items = (fields[field] as Array<Record<string, unknown>>) || []
+    doc[section] = items.length > 0 || base?.[section] ? writeList(maps, items, base?.[section]) : undefined
+  }
+  // Drops the undefined properties
+  return JSON.parse(JSON.stringify(doc))
+}
+
+/** JSON Resume → ResumeData (without the extension block). */
+function fromJsonResume(doc: Json): ResumeData {
+  const basics = readItem(BASICS, obj(doc.basics) || {})
+  const data = {
+    ...basics,
+    skills: parseSkills(readItem(DOCUMENT, doc).skills),
+    country: '',
+    domain: 'general',
+    language: 'en',
+    cvType: 'simple',
+    highlights: [],
+  } as Record<string, unknown>
+  for (const { field, section, maps } of LISTS) {
+    data[field] = list(doc[section]).map((item) => readItem(maps, item))
+  }
+  return data as unknown as ResumeData
+}
+
+/** JSON with sorted keys, so that two documents compare whatever their property order. */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+    return `{${entries
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value ?? '')
+}
+
+function same(a: unknown, b: unknown) {
+  return canonical(a) === canonical(b)
+}
+
+/** What `data` has that its JSON Resume reading (`back`) lost. */
+function extensionOf(data: ResumeData, back: ResumeData): Pick<MakoExtension, 'fields' | 'items'> {
+  const fields: NonNullable<MakoExtension['fields']> = {}
+  const source = data as unknown as Record<string, unknown>
+  const read = back as unknown as Record<string, unknown>
+  for (const key of SCALAR_FIELDS) {
+    const value = source[key]
+    if (value !== undefined && !same(value, read[key])) fields[key] = value as string | string[]
+  }
+  const items: NonNullable<MakoExtension['items']> = {}
+  for (const { field } of LISTS) {
+    const mine = (source[field] as Array<Record<string, unknown>>) || []
+    const theirs = (read[field] as Array<Record<string, unknown>>) || []
+    const diffs = mine.map((item, i) => {
+      const diff: Record<string, string> = {}
+      for (const [key, value] of Object.entries(item)) {
+        if (typeof value === 'string' && !same(value, theirs[i]?.[key])) diff[key] = value
+      }
+      return Object.keys(diff).length > 0 ? diff : null
+    })
+    if (diffs.some(Boolean)) items[field] = diffs
+  }
+  return {
+    ...(Object.keys(fields).length > 0 ? { fields } : {}),
+    ...(Object.keys(items).length > 0 ? { items } : {}),
+  }
+}
+
+/** Applies the extension block to the data read from JSON Resume. */
+function applyExtension(data: ResumeData, extension?: MakoExtension): ResumeData {
+  if (!extension) return data
+  const next = { ...data } as unknown as Record<string, unknown>
+  for (const key of SCALAR_FIELDS) {
+    const value = extension.fields?.[key]
+    if (value === undefined) continue
+    // skills: une liste, ou un texte dans les fichiers exportés avant la v2 de shared/resume.mjs
+    if (key === 'skills') next[key] = parseSkills(value)
+    else if (key === 'highlights' ? Array.isArray(value) : typeof value === 'string') next[key] = value
+  }
+  for (const { field } of LISTS) {
+    const diffs = extension.items?.[field]
+    const items = (next[field] as Array<Record<string, unknown>>) || []
+    // Only when the list was not edited outside Mako (same number of entries)
+    if (!diffs || diffs.length !== items.length) continue
+    next[field] = items.map((item, i) => (diffs[i] ? { ...item, ...diffs[i] } : item))
+  }
+  return next as unknown as ResumeData
+}
+
+/**
+ * Exports a CV as a JSON Resume document.
+ *
+ * @param cv - CV of the library (data, plan, photo choice, title)
+ */
+export function exportJsonResume(cv: { data: ResumeData; plan: ResumePlan; withPhoto: boolean; title?: string }): Json {
+  const std = toJsonResume(cv.data, cv.data.jsonResume)
+  const extension: MakoExtension = {
+    version: 1,
+    title: cv.title,
+    plan: cv.plan,
+    withPhoto: cv.withPhoto,
+    ...extensionOf(cv.data, fromJsonResume(std)),
+  }
+  return { ...std, [MAKO_EXTENSION_KEY]: extension }
+}
+
+/**
+ * Imports a JSON Resume document (from Mako or any other tool).
+ *
+ * @param input - parsed JSON
+ * @throws Error listing the first schema problems
+ */
+export function importJsonResume(input: unknown): JsonResumeImport {
+  const parsed = jsonResumeSchema.safeParse(input)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 3).map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+    throw new Error(`Invalid JSON Resume — ${issues.join('; ')}`)
+  }
+  const { [MAKO_EXTENSION_KEY]: extension, ...doc } = parsed.data as Json & { [MAKO_EXTENSION_KEY]?: MakoExtension }
+  const data = readResume(applyExtension(fromJsonResume(doc), extension))
+
+  // Keeps what Mako does not show, unless the document is exactly what Mako would write
+  const kept = JSON.parse(JSON.stringify(doc)) as Json
+  if (obj(kept.basics)) delete (kept.basics as Json).image
+  if (!same(toJsonResume(data), doc)) data.jsonResume = kept
+
+  return { data, plan: extension?.plan, withPhoto: extension?.withPhoto, title: extension?.title }
+}
+
+/** Télécharge le CV au format JSON Resume (.json). */
+export function downloadJsonResume(cv: { data: ResumeData; plan: ResumePlan; withPhoto: boolean; title?: string }) {
+  const json = JSON.stringify(exportJsonResume(cv), null, 2)
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${cv.title || 'CV-Mako'}.json`
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
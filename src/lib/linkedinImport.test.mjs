@@ -0,0 +1,144 @@
+/**
+ * src/lib/linkedinImport.test.mjs
+ * LinkedIn data-export import on a fixture archive: CSV parsing, date conversion, and the merge into
+ * the form that completes known entries instead of duplicating them.
+ * Runs with `npm test` (node:test, TypeScript through tsx).
+ */
+
+import { before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import JSZip from 'jszip'
+
+let linkedin
+
+before(async () => {
+  linkedin = await import('./linkedinImport.ts')
+})
+
+/** CSV files as LinkedIn writes them: BOM, CRLF, quoted cells, "Notes:" lines before some headers. */
+const FIXTURE = {
+  'Positions.csv': [
+    '\uFEFFCompany Name,Title,Description,Location,Started On,Finished On',
+    'Rawbank,Comptable senior,"Clôtures mensuelles',
+    'Rapports ""IFRS""",Kinshasa,Mar 2021,',
+    'Vodacom Congo,Assistant comptable,,Kinshasa,Sep 2018,Feb 2021',
+  ].join('\r\n'),
+  'Education.csv': [
+    'School Name,Start Date,End Date,Notes,Degree Name,Activities',
+    'Université de Kinshasa,2014,2018,,Licence en comptabilité,Club finance',
+  ].join('\r\n'),
+  'Certifications.csv': [
+    'Notes:',
+    '"Certifications listed on your profile"',
+    '',
+    'Name,Url,Authority,Started On,Finished On,License Number',
+    'ACCA Foundations,https://acca.example/cert,ACCA,Jun 2020,,F-123',
+  ].join('\r\n'),
+  'Skills.csv': ['Name', 'Excel', 'SAGE', 'Fiscalité', 'excel'].join('\r\n'),
+  'Profile.csv': 'First Name,Last Name\r\nAmani,Kalala',
+}
+
+async function exportArchive(files = FIXTURE) {
+  const zip = new JSZip()
+  for (const [name, content] of Object.entries(files)) zip.file(`Basic_LinkedInDataExport_01-01-2026/${name}`, content)
+  return new Blob([await zip.generateAsync({ type: 'uint8array' })])
+}
+
+describe('parseCsv', () => {
+  test('handles quotes, doubled quotes, line breaks inside quotes and blank lines', () => {
+    assert.deepEqual(linkedin.parseCsv('a,"b,c","say ""hi"""\n"multi\nline",,x\n\n'), [
+      ['a', 'b,c', 'say "hi"'],
+      ['multi\nline', '', 'x'],
+    ])
+  })
+})
+
+describe('linkedInDate', () => {
+  test('converts LinkedIn dates to YYYY-MM', () => {
+    assert.equal(linkedin.linkedInDate('Mar 2019'), '2019-03')
+    assert.equal(linkedin.linkedInDate('Sept. 2019'), '2019-09')
+    assert.equal(linkedin.linkedInDate('2019'), '2019-01')
+    assert.equal(linkedin.linkedInDate('2019-07-15'), '2019-07')
+    assert.equal(linkedin.linkedInDate(''), '')
+    assert.equal(linkedin.linkedInDate('bientôt'), '')
+  })
+})
+
+describe('readLinkedInExport', () => {
+  test('maps positions, education, certifications and skills from the archive', async () => {
+    const data = await linkedin.readLinkedInExport(await exportArchive())
+    assert.deepEqual(data.experiences, [
+      {
+        title: 'Comptable senior',
+        company: 'Rawbank',
+        start: '2021-03',
+        end: 'Present',
+        description: 'Clôtures mensuelles\r\nRapports "IFRS"',
+      },
+      { title: 'Assistant comptable', company: 'Vodacom Congo', start: '2018-09', end: '2021-02', description: '' },
+    ])
+    assert.deepEqual(data.education, [
+      {
+        degree: 'Licence en comptabilité',
+        school: 'Université de Kinshasa',
+        start: '2014-01',
+        end: '2018-01',
+        description: 'Club finance',
+      },
+    ])
+    assert.deepEqual(data.certifications, [
+      {
+        name: 'ACCA Foundations',
+        issuer: 'ACCA',
+        date: '2020-06',
+        credentialId: 'F-123',
+        credentialUrl: 'https://acca.example/cert',
+      },
+    ])
+    assert.deepEqual(data.skills, ['Excel', 'SAGE', 'Fiscalité', 'excel'])
+  })
+
+  test('rejects an archive without LinkedIn data', async () => {
+    await assert.rejects(linkedin.readLinkedInExport(await exportArchive({ 'readme.txt': 'x' })), /No LinkedIn data/)
+  })
+})
+
+describe('mergeLinkedInImport', () => {
+  const FORM = {
+    fullName: 'Amani Kalala',
+    skills: ['excel', 'Comptabilité'],
+    experiences: [
+      // Same position written differently: completed, not duplicated
+      { title: 'Comptable Senior', company: 'RAWBANK', start: '2021-03', end: '', description: 'Mon texte' },
+      { title: '', company: '', start: '', end: '', description: '' },
+    ],
+    education: [],
+    certifications: [{ name: 'Permis B', issuer: 'RDC', date: '2015-01', credentialId: '', credentialUrl: '' }],
+  }
+
+  test('adds what is new and only completes the empty fields of known entries', async () => {
+    const imported = await linkedin.readLinkedInExport(await exportArchive())
+    const { data, report } = linkedin.mergeLinkedInImport(FORM, imported)
+
+    assert.deepEqual(data.experiences, [
+      { title: 'Comptable Senior', company: 'RAWBANK', start: '2021-03', end: 'Present', description: 'Mon texte' },
+      imported.experiences[1],
+    ])
+    assert.deepEqual(data.education, imported.education)
+    assert.deepEqual(data.certifications, [FORM.certifications[0], imported.certifications[0]])
+    assert.deepEqual(data.skills, ['excel', 'Comptabilité', 'SAGE', 'Fiscalité'])
+    assert.deepEqual(report, {
+      added: { experiences: 1, education: 1, certifications: 1, skills: 2 },
+      duplicates: { experiences: 1, education: 0, certifications: 0, skills: 2 },
+    })
+    assert.equal(data.fullName, 'Amani Kalala')
+  })
+
+  test('importing the same export twice changes nothing the second time', async () => {
+    const imported = await linkedin.readLinkedInExport(await exportArchive())
+    const once = linkedin.mergeLinkedInImport(FORM, imported).data
+    const { data, report } = linkedin.mergeLinkedInImport(once, imported)
+    assert.deepEqual(data, once)
+    assert.deepEqual(report.added, { experiences: 0, education: 0, certifications: 0, skills: 0 })
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * linkedinImport.ts
+ * Import of the LinkedIn data export ("Get a copy of your data" → ZIP of CSV files), read in the browser.
+ * - Positions.csv → experiences, Education.csv → education, Certifications.csv → certifications,
+ *   Skills.csv → skills. Other files of the archive are ignored.
+ * - LinkedIn dates ("Mar 2019", "2019") become YYYY-MM; a position without end date is "Present".
+ * - mergeLinkedInImport de-duplicates against the form: an entry already present (same title and
+ *   company, degree and school, name and issuer) only gets its empty fields completed.
+ */
+
+import JSZip from 'jszip'
+import type { CertificationItem, EducationItem, ExperienceItem, ResumeData } from '../types/resume'
+import { parseSkills } from '../../shared/sections.mjs'
+
+/** Contenu utile de l'export LinkedIn. */
+export interface LinkedInExport {
+  experiences: ExperienceItem[]
+  education: EducationItem[]
+  certifications: CertificationItem[]
+  skills: string[]
+}
+
+/** Ce que la fusion a ajouté ou complété, pour le résumé affiché avant/après l'import. */
+export interface LinkedInMergeReport {
+  added: Record<'experiences' | 'education' | 'certifications' | 'skills', number>
+  duplicates: Record<'experiences' | 'education' | 'certifications' | 'skills', number>
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, doubled quotes, line breaks inside quotes).
+ * @returns rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const src = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i]
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (c === '"') quoted = false
+      else cell += c
+    } else if (c === '"') quoted = true
+    else if (c === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else cell += c
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((v) => v.trim()))
+}
+
+/**
+ * CSV rows as objects keyed by column name. Some exports start with "Notes:" lines before the
+ * header, so the header is the first row containing `column`.
+ */
+function csvRecords(text: string, column: string): Array<Record<string, string>> {
+  const rows = parseCsv(text)
+  const start = rows.findIndex((r) => r.some((v) => v.trim() === column))
+  if (start < 0) return []
+  const header = rows[start].map((h) => h.trim())
+  return rows.slice(start + 1).map((r) => Object.fromEntries(header.map((h, i) => [h, (r[i] || '').trim()])))
+}
+
+/** "Mar 2019" → "2019-03", "2019" → "2019-01", "" → "". */
+export function linkedInDate(value?: string): string {
+  const v = (value || '').trim()
+  let m = v.match(/^([A-Za-z]{3})[a-z]*\.?\s+(\d{4})$/)
+  if (m) {
+    const month = MONTHS.indexOf(m[1].toLowerCase()) + 1
+    if (month > 0) return `${m[2]}-${String(month).padStart(2, '0')}`
+  }
+  m = v.match(/^(\d{4})(?:-(\d{2}))?/)
+  if (m) return `${m[1]}-${m[2] || '01'}`
+  return ''
+}
+
+/** Fichier de l'archive par nom, quel que soit le dossier ou la casse. */
+async function readEntry(zip: JSZip, name: string): Promise<string | null> {
+  const file = Object.values(zip.files).find((f) => !f.dir && f.name.split('/').pop()?.toLowerCase() === name)
+  return file ? file.async('string') : null
+}
+
+/**
+ * Reads a LinkedIn data export.
+ *
+ * @param file - the ZIP downloaded from LinkedIn
+ * @throws Error when the file is not a ZIP or holds none of the expected CSV files
+ */
+export async function readLinkedInExport(file: Blob): Promise<LinkedInExport> {
+  const zip = await JSZip.loadAsync(file)
+  const [positions, education, certifications, skills] = await Promise.all(
+    ['positions.csv', 'education.csv', 'certifications.csv', 'skills.csv'].map((n) => readEntry(zip, n))
+  )
+  if (!positions && !education && !certifications && !skills) {
+    throw new Error('No LinkedIn data found in this archive')
+  }
+
+  return {
+    experiences: csvRecords(positions || '', 'Company Name').map((r) => ({
+      title: r['Title'] || '',
+      company: r['Company Name'] || '',
+      start: linkedInDate(r['Started On']),
+      end: linkedInDate(r['Finished On']) || 'Present',
+      description: r['Description'] || '',
+    })),
+    education: csvRecords(education || '', 'School Name').map((r) => ({
+      degree: r['Degree Name'] || '',
+      school: r['School Name'] || '',
+      start: linkedInDate(r['Start Date']),
+      end: linkedInDate(r['End Date']),
+      description: [r['Notes'], r['Activities']].filter(Boolean).join('\n'),
+    })),
+    certifications: csvRecords(certifications || '', 'Name').map((r) => ({
+      name: r['Name'] || '',
+      issuer: r['Authority'] || '',
+      date: linkedInDate(r['Started On']),
+      credentialId: r['License Number'] || '',
+      credentialUrl: r['Url'] || '',
+    })),
+    skills: csvRecords(skills || '', 'Name')
+      .map((r) => r['Name'])
+      .filter(Boolean),
+  }
+}
+
+/** Clé de comparaison: sans accents, casse ni ponctuation. */
+function dedupeKey(...parts: Array<string | undefined>) {
+  return parts
+    .map((p) =>
+      (p || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+    )
+    .join('|')
+}
+
+function isEmptyItem(item: object) {
+  return Object.values(item).every((v) => !String(v ?? '').trim())
+}
+
+/**
+ * Adds the imported items that the list does not have; a duplicate only completes empty fields.
+ * Empty placeholder rows of the form are dropped when something is imported.
+ */
+function mergeList<T extends object>(current: T[], imported: T[], key: (item: T) => string) {
+  const list = current.filter((item) => !isEmptyItem(item))
+  let added = 0
+  let duplicates = 0
+  for (const item of imported) {
+    const k = key(item)
+    const index = list.findIndex((existing) => key(existing) === k)
+    if (index < 0) {
+      list.push(item)
+      added++
+      continue
+    }
+    duplicates++
+    const existing = list[index] as Record<string, unknown>
+    const filled = { ...existing }
+    for (const [field, value] of Object.entries(item)) {
+      if (!String(existing[field] ?? '').trim() && value) filled[field] = value
+    }
+    list[index] = filled as T
+  }
+  return { list: added > 0 || duplicates > 0 ? list : current, added, duplicates }
+}
+
+/**
+ * Merges a LinkedIn export into the CV without duplicating what the form already has.
+ *
+ * @param data - current form value
+ * @param linkedin - read export (readLinkedInExport)
+ */
+export function mergeLinkedInImport(
+  data: ResumeData,
+  linkedin: LinkedInExport
+): { data: ResumeData; report: LinkedInMergeReport } {
+  const experiences = mergeList(data.experiences || [], linkedin.experiences, (e) => dedupeKey(e.title, e.company))
+  const education = mergeList(data.education || [], linkedin.education, (e) => dedupeKey(e.degree, e.school))
+  const certifications = mergeList(data.certifications || [], linkedin.certifications, (c) =>
+    dedupeKey(c.name, c.issuer)
+  )
+
+  const skills = parseSkills(data.skills)
+  const known = new Set(skills.map((s) => dedupeKey(s)))
+  const newSkills = linkedin.skills.filter((s) => {
+    const k = dedupeKey(s)
+    if (known.has(k)) return false
+    known.add(k)
+    return true
+  })
+
+  return {
+    data: {
+      ...data,
+      experiences: experiences.list,
+      education: education.list,
+      certifications: certifications.list,
+      skills: newSkills.length > 0 ? [...skills, ...newSkills] : data.skills,
+    },
+    report: {
+      added: {
+        experiences: experiences.added,
+        education: education.added,
+        certifications: certifications.added,
+        skills: newSkills.length,
+      },
+      duplicates: {
+        experiences: experiences.duplicates,
+        education: education.duplicates,
+        certifications: certifications.duplicates,
+        skills: linkedin.skills.length - newSkills.length,
+      },
+    },
+  }
+}
@@ -1,11 +1,14 @@
 /**
  * Fonctions utilitaires pour la génération de PDF.
  * - `printPdf`: utilise la boîte de dialogue d'impression du navigateur.
- * - `downloadPdf`: génère un vrai fichier PDF via html2pdf.js.
+ * - `downloadPdf`: génère un PDF image (html2canvas) via html2pdf.js.
+ * - `downloadCvPdf`: PDF vectoriel rendu par le serveur (POST /api/pdf, texte sélectionnable, lisible par les ATS),
+ *   servi seulement avec un jeton d'entitlement valide. Hors ligne, repli sur `downloadPdf`.
  */
 
 import type { PdfOptions } from '../types/resume'
 import html2pdf from 'html2pdf.js'
+import { requestCvExport, saveCvExport, type CvExportOptions } from './cvExport'
 
 /**
  * Déclenche l'impression du conteneur spécifié (ancienne approche).
@@ -52,3 +55,19 @@ export async function downloadPdf({ containerId, title }: PdfOptions) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   await (html2pdf as any)().from(el).set(opt).save()
 }
+
+/**
+ * Télécharge le CV en PDF vectoriel généré par le serveur.
+ * - Erreur (403, données invalides…) → exception avec le message du serveur.
+ * - Serveur injoignable → PDF image depuis `#resume-sheet` (comportement précédent).
+ */
+export async function downloadCvPdf({ template = 'marlon', ...options }: CvExportOptions & { template?: 'marlon' }) {
+  let res: Response
+  try {
+    res = await requestCvExport('/api/pdf', options, { template })
+  } catch {
+    await downloadPdf({ containerId: 'resume-sheet', title: options.title })
+    return
+  }
+  await saveCvExport(res, 'pdf', options.title)
+}
@@ -12,6 +12,7 @@ import type {
   EducationItem,
   CertificationItem,
 } from '../types/resume'
+import { parseSkills } from '../../shared/sections.mjs'
 
 /** Indique si une chaîne contient du texte non vide. */
 export function nonEmpty(v?: string): boolean {
@@ -27,11 +28,8 @@ export function toBullets(text?: string): string[] {
     .filter(Boolean)
 }
 
-/** Transforme une chaîne de compétences en liste unique (trim + dédoublonnage). */
-export function parseSkills(skills?: string): string[] {
-  if (!skills) return []
-  return Array.from(new Set(skills.split(',').map((s) => s.trim()).filter(Boolean)))
-}
+/** Liste des compétences, unique (trim + dédoublonnage). */
+export { parseSkills }
 
 /** Détection d'une description exploitable (après nettoyage / split). */
 export function hasMeaningfulDescription(desc?: string): boolean {
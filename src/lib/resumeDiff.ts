@@ -0,0 +1,89 @@
+/**
+ * resumeDiff.ts
+ * Différence champ par champ entre deux versions de ResumeData (historique des CV).
+ * - Champs simples comparés comme texte; listes (expériences, formations…) comparées élément par élément.
+ * - La photo (data URL) n'est jamais affichée: seule sa présence/modification est signalée.
+ */
+
+import type { ResumeData } from '../types/resume'
+
+export type ResumeChangeKind = 'added' | 'removed' | 'changed'
+
+export interface ResumeFieldChange {
+  /** Chemin lisible, ex. `experiences[1].title` */
+  path: string
+  section: keyof ResumeData
+  /** Position dans une liste (0-based) */
+  index?: number
+  /** Champ d'un élément de liste */
+  field?: string
+  kind: ResumeChangeKind
+  before: string
+  after: string
+}
+
+const PHOTO_PLACEHOLDER = '(photo)'
+
+function asText(value: unknown): string {
+  if (value == null) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>)
+      .map(asText)
+      .filter(Boolean)
+      .join(' · ')
+  }
+  return String(value)
+}
+
+function kindOf(before: string, after: string): ResumeChangeKind {
+  if (!before) return 'added'
+  if (!after) return 'removed'
+  return 'changed'
+}
+
+function diffList(section: keyof ResumeData, a: unknown[], b: unknown[], out: ResumeFieldChange[]) {
+  for (let index = 0; index < Math.max(a.length, b.length); index++) {
+    const before = a[index]
+    const after = b[index]
+    const isItem = (v: unknown) => v != null && typeof v === 'object'
+    if (isItem(before) && isItem(after)) {
+      const left = before as Record<string, unknown>
+      const right = after as Record<string, unknown>
+      for (const field of new Set([...Object.keys(left), ...Object.keys(right)])) {
+        const x = asText(left[field])
+        const y = asText(right[field])
+        if (x !== y) {
+          out.push({ path: `${section}[${index}].${field}`, section, index, field, kind: kindOf(x, y), before: x, after: y })
+        }
+      }
+      continue
+    }
+    const x = asText(before)
+    const y = asText(after)
+    if (x !== y) out.push({ path: `${section}[${index}]`, section, index, kind: kindOf(x, y), before: x, after: y })
+  }
+}
+
+/** Liste des champs qui diffèrent entre `before` et `after` (vide si identiques). */
+export function diffResume(before: Partial<ResumeData>, after: Partial<ResumeData>): ResumeFieldChange[] {
+  const out: ResumeFieldChange[] = []
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]) as Set<keyof ResumeData>
+  for (const section of keys) {
+    const a = before?.[section]
+    const b = after?.[section]
+    if (Array.isArray(a) || Array.isArray(b)) {
+      diffList(section, Array.isArray(a) ? a : [], Array.isArray(b) ? b : [], out)
+      continue
+    }
+    let x = asText(a)
+    let y = asText(b)
+    if (x === y) continue
+    if (section === 'photoUrl') {
+      x = x && PHOTO_PLACEHOLDER
+      y = y && PHOTO_PLACEHOLDER
+    }
+    out.push({ path: String(section), section, kind: kindOf(x, y), before: x, after: y })
+  }
+  return out
+}
@@ -0,0 +1,228 @@
+/**
+ * resumeValidation.ts
+ * Field-level validation of the form (ResumeForm), on top of the shared schema (shared/resume.mjs).
+ * - required: the fields each CV type needs (REQUIRED_FIELDS); shown as completeness tips, not inline.
+ * - emailFormat, phoneFormat: the phone is checked against the numbering plan of the selected
+ *   country when it is one of shared/phone.mjs, otherwise as a generic international number.
+ * - dateFormat, dateOrder: experience/education periods (YYYY-MM or "Present", end ≥ start).
+ * - dateGap: more than MAX_GAP_MONTHS without a position between two experiences (warning).
+ * - bulletLength: experience bullets longer than MAX_BULLET_LENGTH (warning, same limit as lib/ats.ts).
+ * Paths are react-hook-form paths ("experiences.1.end"); messages are translated by the component
+ * (keys validation.<code>, see components/resume/validationMessage.ts).
+ */
+
+import type { FieldErrors } from 'react-hook-form'
+import { z } from 'zod'
+import type { CVType, ResumeData } from '../types/resume'
+import { PRESENT, periodSchema, yearMonthSchema } from '../../shared/resume.mjs'
+import { toBullets } from '../../shared/sections.mjs'
+import { normalizePhone } from '../../shared/phone.mjs'
+import { MAX_BULLET_LENGTH } from './ats'
+import { isMeaningfulEducation, isMeaningfulExp, nonEmpty, parseSkills } from './previewUtils'
+
+/** A longer break between two positions is pointed out (recruiters ask about it). */
+export const MAX_GAP_MONTHS = 6
+
+export type ValidationSeverity = 'error' | 'warning'
+
+export type ValidationCode =
+  | 'required'
+  | 'emailFormat'
+  | 'phoneFormat'
+  | 'dateFormat'
+  | 'dateOrder'
+  | 'dateGap'
+  | 'bulletLength'
+
+export interface ValidationIssue {
+  /** Form path, ex. `email` or `experiences.1.end` */
+  path: string
+  code: ValidationCode
+  severity: ValidationSeverity
+  /** Interpolation values of the message (field, country, months, length…) */
+  params: Record<string, string | number>
+}
+
+type RequiredField = 'fullName' | 'headline' | 'email' | 'phone' | 'summary' | 'skills' | 'experiences' | 'education' | 'highlights'
+
+/** Fields a CV type needs to be complete (the sections its plan prints, shared/sections.mjs). */
+export const REQUIRED_FIELDS: Record<CVType, RequiredField[]> = {
+  simple: ['fullName', 'headline', 'email', 'phone', 'summary', 'experiences', 'education'],
+  structured: ['fullName', 'headline', 'email', 'phone', 'summary', 'skills', 'experiences', 'education'],
+  advanced: ['fullName', 'headline', 'email', 'phone', 'summary', 'skills', 'experiences', 'education', 'highlights'],
+}
+
+/** Form countries (COUNTRIES_FR) whose numbering plan is known (shared/phone.mjs). */
+const PHONE_COUNTRY_BY_NAME: Record<string, string> = {
+  'Congo (République démocratique du Congo)': 'CD',
+  Madagascar: 'MG',
+  'Congo (République du Congo)': 'CG',
+  Cameroun: 'CM',
+  'Côte d’Ivoire': 'CI',
+  Sénégal: 'SN',
+  Rwanda: 'RW',
+  Burundi: 'BI',
+  Ouganda: 'UG',
+  Kenya: 'KE',
+  Tanzanie: 'TZ',
+  Zambie: 'ZM',
+  France: 'FR',
+  Belgique: 'BE',
+}
+
+const emailSchema = z.string().email()
+
+/** International number of another country: 6 to 15 digits, usual separators. */
+function isGenericPhone(value: string) {
+  const digits = value.replace(/\D/g, '')
+  return /^\+?[\d\s().-]+$/.test(value) && digits.length >= 6 && digits.length <= 15
+}
+
+function isFilled(data: ResumeData, field: RequiredField) {
+  switch (field) {
+    case 'skills':
+      return parseSkills(data.skills).length > 0
+    case 'experiences':
+      return (data.experiences || []).some(isMeaningfulExp)
+    case 'education':
+      return (data.education || []).some(isMeaningfulEducation)
+    case 'highlights':
+      return (data.highlights || []).some(nonEmpty)
+    default:
+      return nonEmpty(data[field])
+  }
+}
+
+/** Number of months from `from` to `to` (YYYY-MM). */
+function monthsBetween(from: string, to: string) {
+  return (Number(to.slice(0, 4)) - Number(from.slice(0, 4))) * 12 + Number(to.slice(5, 7)) - Number(from.slice(5, 7))
+}
+
+function dateIssues(
+  section: 'experiences' | 'education',
+  items: Array<{ start?: string; end?: string }>,
+  issues: ValidationIssue[]
+) {
+  items.forEach((item, index) => {
+    for (const key of ['start', 'end'] as const) {
+      const value = (item[key] || '').trim()
+      if (!value || yearMonthSchema.safeParse(value).success) continue
+      if (key === 'end' && value.toLowerCase() === PRESENT.toLowerCase()) continue
+      issues.push({ path: `${section}.${index}.${key}`, code: 'dateFormat', severity: 'error', params: { value } })
+    }
+    if (!periodSchema.safeParse(item).success) {
+      issues.push({ path: `${section}.${index}.end`, code: 'dateOrder', severity: 'error', params: {} })
+    }
+  })
+}
+
+/** Breaks of more than MAX_GAP_MONTHS between consecutive experiences (in date order). */
+function gapIssues(items: ResumeData['experiences'], issues: ValidationIssue[]) {
+  const dated = items
+    .map((item, index) => ({ index, start: (item.start || '').trim(), end: (item.end || '').trim() }))
+    .filter((e) => yearMonthSchema.safeParse(e.start).success)
+    .sort((a, b) => a.start.localeCompare(b.start))
+  let latestEnd: string | null = null
+  for (const e of dated) {
+    if (latestEnd) {
+      const months = monthsBetween(latestEnd, e.start)
+      if (months > MAX_GAP_MONTHS) {
+        issues.push({ path: `experiences.${e.index}.start`, code: 'dateGap', severity: 'warning', params: { months } })
+      }
+    }
+    // A current position covers everything after it
+    if (e.end.toLowerCase() === PRESENT.toLowerCase()) return
+    if (yearMonthSchema.safeParse(e.end).success && (!latestEnd || e.end > latestEnd)) latestEnd = e.end
+  }
+}
+
+/**
+ * Validates the form.
+ *
+ * @param data - CV data
+ * @returns issues in form order, errors and warnings mixed
+ */
+export function validateResume(data: ResumeData): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  for (const field of REQUIRED_FIELDS[data.cvType] || REQUIRED_FIELDS.simple) {
+    if (!isFilled(data, field)) issues.push({ path: field, code: 'required', severity: 'error', params: { field } })
+  }
+
+  const email = (data.email || '').trim()
+  if (email && !emailSchema.safeParse(email).success) {
+    issues.push({ path: 'email', code: 'emailFormat', severity: 'error', params: {} })
+  }
+
+  const phone = (data.phone || '').trim()
+  const phoneCountry = PHONE_COUNTRY_BY_NAME[data.country || '']
+  if (phone && !(phoneCountry ? normalizePhone(phone, phoneCountry) : isGenericPhone(phone))) {
+    issues.push({ path: 'phone', code: 'phoneFormat', severity: 'error', params: { country: phoneCountry ? data.country || '' : '' } })
+  }
+
+  const experiences = data.experiences || []
+  dateIssues('experiences', experiences, issues)
+  dateIssues('education', data.education || [], issues)
+  gapIssues(experiences, issues)
+
+  experiences.forEach((item, index) => {
+    const longest = Math.max(0, ...toBullets(item.description).map((b) => b.length))
+    if (longest > MAX_BULLET_LENGTH) {
+      issues.push({
+        path: `experiences.${index}.description`,
+        code: 'bulletLength',
+        severity: 'warning',
+        params: { length: longest, max: MAX_BULLET_LENGTH },
+      })
+    }
+  })
+
+  return issues
+}
+
+/** True when an issue blocks the PDF export (Home: invalid dates, message dates.exportBlocked). */
+export function isBlocking(issue: ValidationIssue) {
+  return issue.code === 'dateFormat' || issue.code === 'dateOrder'
+}
+
+/**
+ * Issues as react-hook-form errors (useForm({ errors })), for the ui/form.tsx primitives.
+ * The first issue of a path wins; `type` carries the severity.
+ */
+export function toFieldErrors(issues: ValidationIssue[], message: (issue: ValidationIssue) => string): FieldErrors<ResumeData> {
+  const errors: Record<string, any> = {}
+  for (const issue of issues) {
+    const keys = issue.path.split('.')
+    let node = errors
+    keys.slice(0, -1).forEach((key, i) => {
+      node[key] ??= /^\d+$/.test(keys[i + 1]) ? [] : {}
+      node = node[key]
+    })
+    const last = keys[keys.length - 1]
+    node[last] ??= { type: issue.severity, message: message(issue) }
+  }
+  return errors as FieldErrors<ResumeData>
+}
+
+export interface Completeness {
+  /** 0–100 */
+  score: number
+  /** What to do next, most useful first */
+  tips: ValidationIssue[]
+}
+
+/**
+ * Completeness score: the required fields of the CV type that are filled, lowered by errors
+ * (a field filled with an invalid value does not count) and, by half, by warnings.
+ */
+export function completenessOf(data: ResumeData, issues: ValidationIssue[]): Completeness {
+  const required = REQUIRED_FIELDS[data.cvType] || REQUIRED_FIELDS.simple
+  const missing = issues.filter((i) => i.code === 'required')
+  const errors = issues.filter((i) => i.code !== 'required' && i.severity === 'error')
+  const warnings = issues.filter((i) => i.severity === 'warning')
+  const points = required.length - missing.length - errors.length - warnings.length / 2
+  return {
+    score: Math.max(0, Math.round((points / required.length) * 100)),
+    tips: [...errors, ...missing, ...warnings],
+  }
+}
@@ -2,21 +2,28 @@
  * storage.ts
  * Local persistence helpers for profile and country recents.
  * - Uses localStorage with JSON serialization and safe parsing.
+ * - Saved resume data is read through shared/resume.mjs (readResume): older formats are migrated
+ *   and malformed fields replaced by empty values.
  */
 
+import type { ResumeData } from '../types/resume'
+import { readResume } from '../../shared/resume.mjs'
+
 export interface SavedProfile {
   email?: string
   withPhoto?: boolean
   plan?: 'student' | 'pro' | 'advanced'
-  data?: any // ResumeData shape, kept generic to avoid cross-import
+  data?: ResumeData
   country?: string
   savedAt?: number
 }
 
 export interface SavedDraft {
-  data?: any
+  data?: ResumeData
   withPhoto?: boolean
   plan?: 'student' | 'pro' | 'advanced'
+  /** Server CV this draft was opened from ("Mes CV"), if any */
+  cvId?: string | null
   savedAt?: number
 }
 
@@ -37,11 +44,17 @@ function setJSON<T>(key: string, value: T) {
   }
 }
 
+/** Stored profile or draft with its resume data migrated and normalized. */
+function withResumeData<T extends { data?: ResumeData }>(saved: T | null): T | null {
+  if (!saved || typeof saved !== 'object') return null
+  return { ...saved, data: saved.data ? readResume(saved.data) : undefined }
+}
+
 /** Profile storage */
 const PROFILE_KEY = 'mako_profile'
 
 export function loadProfile(): SavedProfile | null {
-  return getJSON<SavedProfile>(PROFILE_KEY)
+  return withResumeData(getJSON<SavedProfile>(PROFILE_KEY))
 }
 export function saveProfile(profile: SavedProfile) {
   setJSON<SavedProfile>(PROFILE_KEY, { ...profile, savedAt: Date.now() })
@@ -55,7 +68,7 @@ export function clearProfile() {
 /** Draft resume storage */
 const DRAFT_KEY = 'mako_resume_draft'
 export function loadDraftResume(): SavedDraft | null {
-  return getJSON<SavedDraft>(DRAFT_KEY)
+  return withResumeData(getJSON<SavedDraft>(DRAFT_KEY))
 }
 export function saveDraftResume(draft: SavedDraft) {
   setJSON<SavedDraft>(DRAFT_KEY, { ...draft, savedAt: Date.now() })
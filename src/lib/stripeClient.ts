@@ -1,12 +1,13 @@
 import { loadStripe } from '@stripe/stripe-js'
 import { getCancelUrl, getSuccessUrl } from '../config/payments'
 import type { ResumePlan } from '../types/resume'
+import { API_BASE } from '../config/api'
 
 const publishableKey = process.env.STRIPE_PUBLISHABLE_KEY || ''
 const apiBase = process.env.STRIPE_API_BASE_URL || ''
 
 function checkoutUrl(path: string) {
-  if (!apiBase) return path
+  if (!apiBase) return `${API_BASE}${path}`
   try {
     return new URL(path, apiBase).toString()
   } catch {
@@ -14,20 +15,28 @@ function checkoutUrl(path: string) {
   }
 }
 
+/** Whether card payments can be offered (publishable key configured at build time). */
+export function isStripeConfigured() {
+  return Boolean(publishableKey)
+}
+
 /**
  * Create a Stripe Checkout session via the local API, then redirect.
+ * The amount is set by the server from the plan; `token` ties the payment to the signed-in user and
+ * `cvId` to the saved CV it unlocks.
  * Throws if Stripe keys or backend are not configured.
  */
-export async function startStripeCheckout(plan: ResumePlan) {
+export async function startStripeCheckout(plan: ResumePlan, opts: { token: string; cvId: string }) {
   if (!publishableKey) {
     throw new Error('Stripe publishable key missing. Set STRIPE_PUBLISHABLE_KEY.')
   }
 
   const response = await fetch(checkoutUrl('/api/checkout'), {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${opts.token}` },
     body: JSON.stringify({
       plan,
+      cvId: opts.cvId,
       successUrl: getSuccessUrl(plan),
       cancelUrl: getCancelUrl(plan),
     }),
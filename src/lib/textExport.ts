@@ -0,0 +1,153 @@
+/**
+ * textExport.ts
+ * Linear export of a CV: plain text or Markdown, one column, in reading order.
+ * - This is what an ATS extracts from a CV: no layout, standard section headings, "-" bullets.
+ * - Same sections per plan as the PDF/DOCX (shared/sections.mjs), same translated titles (exportLabels).
+ * - Generated in the browser; the ATS report (lib/ats.ts) reads the same structure.
+ */
+
+import type { ResumeData, ResumePlan } from '../types/resume'
+import { allowedSections, formatPeriod, parseSkills, toBullets } from '../../shared/sections.mjs'
+import { exportLabels } from './cvExport'
+
+export type TextFormat = 'text' | 'markdown'
+
+/** One entry of a section (a job, a degree…) or a paragraph when only `text` is set. */
+export interface LinearItem {
+  heading?: string
+  period?: string
+  text?: string
+  bullets: string[]
+}
+
+/** A section in reading order, with its translated title. */
+export interface LinearSection {
+  key: 'summary' | 'highlights' | 'skills' | 'experience' | 'achievements' | 'education' | 'certifications'
+  title: string
+  items: LinearItem[]
+}
+
+/** The CV as an ATS reads it: header lines, then the non-empty sections of the plan. */
+export interface LinearResume {
+  name: string
+  headline: string
+  contacts: string[]
+  sections: LinearSection[]
+}
+
+function joinHeading(title?: string, organisation?: string) {
+  return [title, organisation].map((v) => (v || '').trim()).filter(Boolean).join(' — ')
+}
+
+/**
+ * Linear structure of the CV for a plan (empty sections are left out).
+ *
+ * @param data - CV data
+ * @param plan - plan deciding the visible sections
+ */
+export function linearizeResume(data: ResumeData, plan: ResumePlan): LinearResume {
+  const labels = exportLabels()
+  const show = allowedSections(plan)
+  const sections: LinearSection[] = []
+  const add = (key: LinearSection['key'], items: LinearItem[]) => {
+    const filled = items.filter((i) => i.heading || i.text || i.bullets.length > 0)
+    if (show[key] && filled.length > 0) sections.push({ key, title: labels[key], items: filled })
+  }
+
+  add('summary', [{ text: (data.summary || '').trim(), bullets: [] }])
+  add('highlights', [{ bullets: (data.highlights || []).map((h) => h.trim()).filter(Boolean) }])
+  add('skills', [{ text: parseSkills(data.skills).join(', '), bullets: [] }])
+  add(
+    'experience',
+    (data.experiences || []).map((e) => ({
+      heading: joinHeading(e.title, e.company),
+      period: formatPeriod(e.start, e.end, labels.present),
+      bullets: toBullets(e.description),
+    }))
+  )
+  add(
+    'achievements',
+    (data.achievements || []).map((a) => ({ heading: (a.title || '').trim(), bullets: toBullets(a.description) }))
+  )
+  add(
+    'education',
+    (data.education || []).map((e) => ({
+      heading: joinHeading(e.degree, e.school),
+      period: formatPeriod(e.start, e.end, labels.present),
+      bullets: toBullets(e.description),
+    }))
+  )
+  add(
+    'certifications',
+    (data.certifications || []).map((c) => ({
+      heading: joinHeading(c.name, c.issuer),
+      period: (c.date || '').trim(),
+      text: [c.credentialId ? `${labels.credentialId}: ${c.credentialId}` : '', c.credentialUrl || '']
+        .filter(Boolean)
+        .join(' | '),
+      bullets: [],
+    }))
+  )
+
+  return {
+    name: (data.fullName || '').trim(),
+    headline: (data.headline || '').trim(),
+    contacts: [data.email, data.phone, data.location, data.linkedin ? `${labels.linkedin}: ${data.linkedin}` : '']
+      .map((v) => (v || '').trim())
+      .filter(Boolean),
+    sections,
+  }
+}
+
+/** Escapes the characters Markdown would turn into formatting. */
+function md(text: string) {
+  return text.replace(/([\\`*_[\]])/g, '\\$1').replace(/^([#>+-]|\d+\.)(\s)/, '\\$1$2')
+}
+
+/**
+ * Renders the CV as plain text or Markdown.
+ *
+ * @param data - CV data
+ * @param plan - plan deciding the visible sections
+ * @param format - 'text' (headings in capitals) or 'markdown' (#, ##, ###)
+ */
+export function resumeToText(data: ResumeData, plan: ResumePlan, format: TextFormat): string {
+  const cv = linearizeResume(data, plan)
+  const markdown = format === 'markdown'
+  const esc = markdown ? md : (t: string) => t
+  const lines: string[] = []
+
+  lines.push(markdown ? `# ${esc(cv.name || 'CV')}` : (cv.name || 'CV').toUpperCase())
+  if (cv.headline) lines.push(markdown ? `**${esc(cv.headline)}**` : cv.headline)
+  if (cv.contacts.length > 0) lines.push(cv.contacts.map(esc).join(' | '))
+
+  for (const section of cv.sections) {
+    lines.push('', markdown ? `## ${esc(section.title)}` : section.title.toUpperCase())
+    for (const item of section.items) {
+      if (item.heading) {
+        const period = item.period ? (markdown ? ` *(${esc(item.period)})*` : ` (${item.period})`) : ''
+        lines.push(markdown ? `### ${esc(item.heading)}${period}` : `${item.heading}${period}`)
+      }
+      if (item.text) lines.push(esc(item.text))
+      for (const b of item.bullets) lines.push(`- ${esc(b)}`)
+      if (item.heading && section.items.length > 1) lines.push('')
+    }
+  }
+
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`
+}
+
+/**
+ * Télécharge la version texte (.txt) ou Markdown (.md) du CV.
+ *
+ * @param title - nom du fichier sans extension
+ */
+export function downloadCvText(data: ResumeData, plan: ResumePlan, format: TextFormat, title?: string) {
+  const type = format === 'markdown' ? 'text/markdown' : 'text/plain'
+  const url = URL.createObjectURL(new Blob([resumeToText(data, plan, format)], { type: `${type};charset=utf-8` }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${title || 'CV-Mako'}.${format === 'markdown' ? 'md' : 'txt'}`
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
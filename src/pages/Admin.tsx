@@ -0,0 +1,21 @@
+/**
+ * Admin.tsx
+ * Route #/admin: espace administrateur réservé au personnel (rôles support et admin).
+ * - Anonyme → #/auth; connecté sans droit → accueil. Le serveur vérifie chaque appel de son côté.
+ */
+
+import { Navigate } from 'react-router'
+import AdminScreen from '../components/admin/AdminScreen'
+import { useAuthStore } from '../stores/auth'
+import { can } from '../../shared/roles.mjs'
+
+export default function AdminPage() {
+  const { user, initialized } = useAuthStore()
+
+  if (!initialized) {
+    return <div className="min-h-screen bg-white px-4 py-10 text-center text-neutral-800">Chargement…</div>
+  }
+  if (!user) return <Navigate to="/auth" replace />
+  if (!user.role || !can(user.role, 'admin:access')) return <Navigate to="/" replace />
+  return <AdminScreen role={user.role} />
+}
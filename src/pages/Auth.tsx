@@ -1,14 +1,28 @@
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router'
 import PrimaryButton from '../components/controls/PrimaryButton'
 import PrimarySelect from '../components/controls/PrimarySelect'
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp'
 import { useAuthStore } from '../stores/auth'
 import { API_BASE } from '../config/api'
+import { requestOtp, resetPassword, verifyOtp } from '../lib/auth'
+import type { AuthResponse, LoginPayload, SignupPayload } from '../types/auth'
+import { DEFAULT_PHONE_COUNTRY, PHONE_COUNTRIES, normalizePhone } from '../../shared/phone.mjs'
 
-async function authRequest(
-  mode: 'login' | 'signup',
-  payload: { phone: string; password: string; name?: string }
-) {
+/** Délai avant de pouvoir redemander un code (aligné sur le serveur). */
+const RESEND_SECONDS = 60
+const OTP_LENGTH = 6
+
+type AuthMode = 'login' | 'signup' | 'otp' | 'reset'
+
+const TITLES: Record<AuthMode, string> = {
+  login: 'Se connecter',
+  signup: 'Créer un compte',
+  otp: 'Connexion par SMS',
+  reset: 'Mot de passe oublié',
+}
+
+async function authRequest(mode: 'login' | 'signup', payload: SignupPayload | LoginPayload) {
   const res = await fetch(`${API_BASE}/api/auth/${mode}`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -18,55 +32,60 @@ async function authRequest(
   if (!res.ok) {
     throw new Error(body?.error || `${mode} failed`)
   }
-  return body as { token: string; user: { id: string; phone: string; name?: string } }
-}
-
-async function fetchMe(token: string) {
-  const res = await fetch(`${API_BASE}/api/auth/me`, {
-    headers: { Authorization: `Bearer ${token}` },
-  })
-  const body = await res.json().catch(() => ({}))
-  if (!res.ok) throw new Error(body?.error || 'Auth check failed')
-  return body as { user: { id: string; phone: string; name?: string } }
+  return body as AuthResponse
 }
 
 export default function AuthPage() {
   const navigate = useNavigate()
   const { user, setSession } = useAuthStore()
-  const [mode, setMode] = useState<'login' | 'signup'>('login')
+  const [mode, setMode] = useState<AuthMode>('login')
   const [phone, setPhone] = useState('')
+  const [country, setCountry] = useState(DEFAULT_PHONE_COUNTRY)
+  const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [name, setName] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const hydrated = useRef(false)
-
-  useEffect(() => {
-    if (hydrated.current) return
-    hydrated.current = true
-    const token = localStorage.getItem('auth_token')
-    if (!token) return
-    fetchMe(token)
-      .then((res) => {
-        setSession({ token, user: res.user })
-      })
-      .catch(() => {
-        localStorage.removeItem('auth_token')
-      })
-  }, [])
+  /** Flux SMS (otp / reset) */
+  const [codeSent, setCodeSent] = useState(false)
+  const [code, setCode] = useState('')
+  const [cooldown, setCooldown] = useState(0)
 
   useEffect(() => {
     if (user) navigate('/')
   }, [user, navigate])
 
-  const submit = async () => {
+  /** Compte à rebours avant renvoi du code */
+  useEffect(() => {
+    if (cooldown <= 0) return
+    const id = setTimeout(() => setCooldown((c) => c - 1), 1000)
+    return () => clearTimeout(id)
+  }, [cooldown])
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next)
+    setError(null)
+    setCodeSent(false)
+    setCode('')
+    setPassword('')
+  }
+
+  /** En connexion, le champ accepte aussi l'e-mail (identifiant secondaire). */
+  const loginByEmail = mode === 'login' && phone.includes('@')
+  const smsFlow = mode === 'otp' || mode === 'reset'
+
+  /** Numéro E.164, ou null (avec message) s'il est invalide. */
+  const validPhone = () => {
+    const e164 = normalizePhone(phone, country)
+    if (!e164) setError('Numéro de téléphone invalide pour ce pays')
+    return e164
+  }
+
+  const run = async (action: () => Promise<void>) => {
     try {
       setError(null)
       setLoading(true)
-      const { token, user } = await authRequest(mode, { phone, password, name })
-      localStorage.setItem('auth_token', token)
-      setSession({ token, user })
-      navigate('/')
+      await action()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Action échouée')
     } finally {
@@ -74,20 +93,69 @@ export default function AuthPage() {
     }
   }
 
+  const sendCode = async () => {
+    const e164 = validPhone()
+    if (!e164) return
+    await run(async () => {
+      await requestOtp({ phone: e164, country, purpose: mode === 'reset' ? 'reset' : 'login' })
+      setCodeSent(true)
+      setCode('')
+      setCooldown(RESEND_SECONDS)
+    })
+  }
+
+  const submit = async () => {
+    if (smsFlow && !codeSent) return sendCode()
+    const e164 = loginByEmail ? null : validPhone()
+    if (!loginByEmail && !e164) return
+
+    await run(async () => {
+      let session: AuthResponse
+      if (mode === 'otp') {
+        session = await verifyOtp({ phone: e164 as string, country, code })
+      } else if (mode === 'reset') {
+        session = await resetPassword({ phone: e164 as string, country, code, password })
+      } else {
+        const payload: SignupPayload | LoginPayload =
+          mode === 'signup'
+            ? { phone: e164 as string, country, email: email.trim() || undefined, password, name }
+            : loginByEmail
+              ? { email: phone.trim(), password }
+              : { phone: e164 as string, country, password }
+        session = await authRequest(mode, payload)
+      }
+      // The session (access + refresh tokens) is persisted by the auth store
+      setSession(session)
+      navigate('/')
+    })
+  }
+
+  const submitLabel = () => {
+    if (loading) return '...'
+    if (smsFlow && !codeSent) return 'Recevoir un code par SMS'
+    if (mode === 'otp') return 'Valider le code'
+    if (mode === 'reset') return 'Changer mon mot de passe'
+    return mode === 'login' ? 'Connexion' : 'Créer mon compte'
+  }
+
+  const submitDisabled =
+    loading ||
+    (smsFlow && codeSent && code.length !== OTP_LENGTH) ||
+    (mode === 'reset' && codeSent && !password)
+
   return (
     <div className="min-h-screen bg-[rgba(230,235,220,0.5)] px-4 py-10">
       <div className="mx-auto max-w-md rounded-lg border border-[rgba(98,120,85,0.35)] bg-white p-6 shadow-sm">
         <div className="flex items-center justify-between">
-          <h1 className="text-lg font-semibold text-neutral-900">
-            {mode === 'login' ? 'Se connecter' : "Créer un compte"}
-          </h1>
+          <h1 className="text-lg font-semibold text-neutral-900">{TITLES[mode]}</h1>
           <PrimarySelect
             aria-label="Mode"
-            value={mode}
-            onChange={(v) => setMode(v as 'login' | 'signup')}
+            value={mode === 'reset' ? 'login' : mode}
+            onChange={(v) => switchMode(v as AuthMode)}
             className="w-[140px]"
           >
             <option value="login">Connexion</option>
+            <option value="otp">Code SMS</option>
             <option value="signup">Inscription</option>
           </PrimarySelect>
         </div>
@@ -107,36 +175,110 @@ export default function AuthPage() {
           ) : null}
 
           <label className="block">
-            <span className="mb-1 block text-sm font-medium text-neutral-800">Téléphone</span>
-            <input
-              type="tel"
-              className="u-input w-full"
-              value={phone}
-              onChange={(e) => setPhone(e.target.value)}
-              placeholder="+243 999 000 000"
-            />
+            <span className="mb-1 block text-sm font-medium text-neutral-800">
+              {mode === 'login' ? 'Téléphone ou e-mail' : 'Téléphone'}
+            </span>
+            <div className="flex gap-2">
+              {!loginByEmail ? (
+                <select
+                  aria-label="Pays"
+                  className="u-input w-[130px] shrink-0"
+                  value={country}
+                  disabled={codeSent}
+                  onChange={(e) => setCountry(e.target.value)}
+                >
+                  {PHONE_COUNTRIES.map((c) => (
+                    <option key={c.code} value={c.code}>
+                      {c.code} +{c.callingCode}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              <input
+                type={mode === 'login' ? 'text' : 'tel'}
+                inputMode={loginByEmail ? 'email' : 'tel'}
+                className="u-input w-full"
+                value={phone}
+                disabled={codeSent}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="0999 000 000"
+              />
+            </div>
           </label>
 
-          <label className="block">
-            <span className="mb-1 block text-sm font-medium text-neutral-800">Mot de passe</span>
-            <input
-              type="password"
-              className="u-input w-full"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="••••••"
-            />
-          </label>
+          {mode === 'signup' ? (
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-neutral-800">E-mail (facultatif)</span>
+              <input
+                type="email"
+                className="u-input w-full"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="vous@exemple.com"
+              />
+            </label>
+          ) : null}
+
+          {smsFlow && codeSent ? (
+            <div>
+              <span className="mb-1 block text-sm font-medium text-neutral-800">Code reçu par SMS</span>
+              <InputOTP maxLength={OTP_LENGTH} value={code} onChange={setCode} inputMode="numeric" autoFocus>
+                <InputOTPGroup>
+                  {Array.from({ length: OTP_LENGTH }, (_, i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              <div className="mt-2 flex items-center justify-between gap-2 text-xs text-neutral-600">
+                <span>Si un compte existe pour ce numéro, un code vient d’être envoyé.</span>
+                <button
+                  type="button"
+                  className="shrink-0 underline disabled:no-underline disabled:opacity-60"
+                  disabled={cooldown > 0 || loading}
+                  onClick={sendCode}
+                >
+                  {cooldown > 0 ? `Renvoyer (${cooldown}s)` : 'Renvoyer'}
+                </button>
+              </div>
+            </div>
+          ) : null}
+
+          {mode === 'login' || mode === 'signup' || (mode === 'reset' && codeSent) ? (
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-neutral-800">
+                {mode === 'reset' ? 'Nouveau mot de passe' : 'Mot de passe'}
+              </span>
+              <input
+                type="password"
+                className="u-input w-full"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••"
+              />
+            </label>
+          ) : null}
         </div>
 
         {error ? <p className="mt-3 text-sm text-red-600">{error}</p> : null}
 
         <div className="mt-5 flex items-center justify-between">
-          <PrimaryButton type="button" disabled={loading} onClick={submit} className="w-full justify-center">
-            {loading ? '...' : mode === 'login' ? 'Connexion' : 'Créer mon compte'}
+          <PrimaryButton type="button" disabled={submitDisabled} onClick={submit} className="w-full justify-center">
+            {submitLabel()}
           </PrimaryButton>
         </div>
 
+        <div className="mt-3 text-center text-xs">
+          {mode === 'login' ? (
+            <button type="button" className="text-neutral-700 underline" onClick={() => switchMode('reset')}>
+              Mot de passe oublié ?
+            </button>
+          ) : mode === 'reset' ? (
+            <button type="button" className="text-neutral-700 underline" onClick={() => switchMode('login')}>
+              Retour à la connexion
+            </button>
+          ) : null}
+        </div>
+
         <p className="mt-3 text-center text-xs text-neutral-600">
           Vos données d’utilisateur sont protégées par JWT (stockage local).
         </p>
@@ -144,4 +286,3 @@ export default function AuthPage() {
     </div>
   )
 }
-
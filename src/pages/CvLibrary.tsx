@@ -0,0 +1,241 @@
+/**
+ * CvLibrary.tsx
+ * Page « Mes CV » (#/cvs): bibliothèque des CV enregistrés sur le compte.
+ * - Miniatures, renommage, duplication (autre langue / autre plan), suppression.
+ * - Export / import au format JSON Resume (lib/jsonResume.ts): l'import crée un nouveau CV.
+ * - « Ouvrir » charge le CV dans le formulaire de Home via le brouillon local (cvId).
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Link, useNavigate } from 'react-router'
+import { useAuthStore } from '../stores/auth'
+import { useCvsStore } from '../stores/cvs'
+import { saveDraftResume } from '../lib/storage'
+import type { UserCvRecord } from '../lib/cvApi'
+import type { ResumeData, ResumePlan } from '../types/resume'
+import { downloadJsonResume, importJsonResume } from '../lib/jsonResume'
+import CvCard from '../components/cvs/CvCard'
+import Modal from '../components/Modal'
+import PrimaryButton from '../components/controls/PrimaryButton'
+import PrimarySelect from '../components/controls/PrimarySelect'
+
+/** Langues proposées par le formulaire (ResumeForm). */
+const CV_LANGUAGES = [
+  { code: 'fr', label: 'Français' },
+  { code: 'en', label: 'English' },
+  { code: 'sw', label: 'Swahili' },
+  { code: 'pt', label: 'Português' },
+  { code: 'mg', label: 'Malagasy' },
+]
+
+/** Plan déduit du type de CV, pour un fichier JSON Resume qui ne vient pas de Mako. */
+const PLAN_BY_CV_TYPE: Record<ResumeData['cvType'], ResumePlan> = {
+  simple: 'student',
+  structured: 'pro',
+  advanced: 'advanced',
+}
+
+export default function CvLibraryPage() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { user, token, initialized: authReady } = useAuthStore()
+  const { cvs, loading, error, activeCvId, fetch, openCv, rename, duplicate, create, remove } = useCvsStore()
+  const [busyId, setBusyId] = useState<string | null>(null)
+  /** CV source de la boîte de dialogue « Dupliquer » */
+  const [dupSource, setDupSource] = useState<UserCvRecord | null>(null)
+  const [dupLanguage, setDupLanguage] = useState('fr')
+  const [dupPlan, setDupPlan] = useState<ResumePlan>('student')
+  const importInput = useRef<HTMLInputElement>(null)
+  const [importing, setImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (authReady && !user) navigate('/auth')
+  }, [authReady, user, navigate])
+
+  useEffect(() => {
+    if (token && user) fetch(token)
+  }, [token, user, fetch])
+
+  /** Exécute une action sur un CV en bloquant ses boutons. */
+  const withBusy = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id)
+    try {
+      await action()
+    } catch {
+      // message exposé par le store
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const open = (cv: UserCvRecord) => {
+    saveDraftResume({ data: cv.data, withPhoto: cv.withPhoto, plan: cv.plan, cvId: cv.id })
+    openCv(cv)
+    navigate('/')
+  }
+
+  const openDuplicate = (cv: UserCvRecord) => {
+    setDupSource(cv)
+    setDupLanguage(cv.data?.language || 'fr')
+    setDupPlan(cv.plan)
+  }
+
+  const confirmDuplicate = async () => {
+    if (!token || !dupSource) return
+    const source = dupSource
+    setDupSource(null)
+    await withBusy(source.id, () => duplicate(token, source.id, { language: dupLanguage, plan: dupPlan }))
+  }
+
+  /** Importe un fichier JSON Resume comme nouveau CV de la bibliothèque. */
+  const importJson = async (file: File | undefined) => {
+    if (!file || !token) return
+    setImportError(null)
+    let imported
+    try {
+      imported = importJsonResume(JSON.parse(await file.text()))
+    } catch (e) {
+      setImportError(
+        e instanceof SyntaxError
+          ? t('cvs.importJsonInvalid', 'Ce fichier n’est pas un JSON valide.')
+          : e instanceof Error
+            ? e.message
+            : String(e)
+      )
+      return
+    }
+    setImporting(true)
+    try {
+      const { data, plan, withPhoto, title } = imported
+      await create(token, {
+        data,
+        plan: plan || PLAN_BY_CV_TYPE[data.cvType] || 'student',
+        withPhoto: withPhoto ?? !!data.photoUrl,
+        title: title || file.name.replace(/\.json$/i, ''),
+      })
+    } catch {
+      // message exposé par le store
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const confirmDelete = async (cv: UserCvRecord) => {
+    if (!token) return
+    if (!window.confirm(t('cvs.confirmDelete', 'Supprimer « {{title}} » ?', { title: cv.title }))) return
+    await withBusy(cv.id, () => remove(token, cv.id))
+  }
+
+  if (!authReady) {
+    return <div className="min-h-screen bg-white px-4 py-10 text-center text-neutral-800">Chargement…</div>
+  }
+  if (!user) return null
+
+  const activeCv = cvs.find((c) => c.id === activeCvId)
+
+  return (
+    <div className="min-h-screen bg-[rgba(230,235,220,0.5)] px-4 py-8">
+      <div className="mx-auto max-w-6xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-semibold text-neutral-900">{t('cvs.title', 'Mes CV')}</h1>
+            <p className="mt-1 text-sm text-neutral-700">
+              {activeCv
+                ? t('cvs.loaded', 'CV chargé : {{title}}', { title: activeCv.title })
+                : t('cvs.noneLoaded', 'Aucun CV de la bibliothèque n’est chargé dans le formulaire.')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={!token || importing}
+              onClick={() => importInput.current?.click()}
+              title={t('cvs.importJsonHint', 'Fichier JSON Resume (jsonresume.org), par exemple exporté depuis Mako')}
+              className="rounded border border-[rgba(98,120,85,0.5)] bg-white px-3 py-1 text-sm hover:border-[rgb(60,77,42)] disabled:opacity-50"
+            >
+              {importing ? '...' : t('cvs.importJson', 'Importer (JSON Resume)')}
+            </button>
+            <input
+              ref={importInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                void importJson(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+            <PrimaryButton type="button" size="sm" disabled={!token || loading} onClick={() => token && fetch(token)}>
+              {loading ? '...' : 'Rafraîchir'}
+            </PrimaryButton>
+            <Link to="/" className="text-sm underline">
+              {t('cvs.back', 'Retour au formulaire')}
+            </Link>
+          </div>
+        </div>
+
+        {error ? <p className="mt-3 text-sm text-red-600">{error}</p> : null}
+        {importError ? <p className="mt-3 text-sm text-red-600">{importError}</p> : null}
+
+        {cvs.length === 0 && !loading ? (
+          <p className="mt-6 text-sm text-neutral-700">
+            {t('cvs.empty', 'Aucun CV sauvegardé pour le moment. Utilisez « Enregistrer dans Mes CV » depuis le formulaire.')}
+          </p>
+        ) : (
+          <div className="mt-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {cvs.map((cv) => (
+              <CvCard
+                key={cv.id}
+                cv={cv}
+                active={cv.id === activeCvId}
+                busy={busyId === cv.id}
+                onOpen={() => open(cv)}
+                onRename={(title) => (token ? rename(token, cv.id, title) : Promise.resolve())}
+                onDuplicate={() => openDuplicate(cv)}
+                onExport={() => downloadJsonResume(cv)}
+                onDelete={() => confirmDelete(cv)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Modal
+        open={!!dupSource}
+        onOpenChange={(next) => !next && setDupSource(null)}
+        title={t('cvs.duplicateTitle', 'Dupliquer le CV')}
+      >
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium">{t('form.language', 'Langue')}</span>
+            <PrimarySelect value={dupLanguage} onChange={setDupLanguage} aria-label={t('form.language', 'Langue')}>
+              {CV_LANGUAGES.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.label}
+                </option>
+              ))}
+            </PrimarySelect>
+          </label>
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium">{t('cvs.plan', 'Plan')}</span>
+            <PrimarySelect value={dupPlan} onChange={(v) => setDupPlan(v as ResumePlan)} aria-label={t('cvs.plan', 'Plan')}>
+              <option value="student">Simple</option>
+              <option value="pro">Pro</option>
+              <option value="advanced">Avancé</option>
+            </PrimarySelect>
+          </label>
+        </div>
+        <p className="mt-3 text-xs text-neutral-600">
+          {t('cvs.duplicateHint', 'Le contenu est copié tel quel : pensez à traduire les textes dans la nouvelle langue.')}
+        </p>
+        <div className="mt-4 flex justify-end">
+          <PrimaryButton type="button" size="sm" onClick={confirmDuplicate}>
+            {t('cvs.duplicate', 'Dupliquer')}
+          </PrimaryButton>
+        </div>
+      </Modal>
+    </div>
+  )
+}
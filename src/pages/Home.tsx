@@ -7,10 +7,11 @@
 
 import '../lib/i18n'
 import '../lib/i18nAddressPatch'
-import { useMemo, useState, useEffect } from 'react'
+import { useCallback, useMemo, useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 
 import { StepIndicator } from '../components/steps/StepIndicator'
+import { CompletenessScore } from '../components/steps/CompletenessScore'
 import { ResumeForm } from '../components/resume/ResumeForm'
 import MarlonTemplatePreview from '../components/templates/MarlonTemplatePreview'
 import PreviewAndDownload from '../components/preview/PreviewAndDownload'
@@ -18,7 +19,7 @@ import { PricingTier } from '../components/PricingTier'
 
 import PlanComparison from '../components/pricing/PlanComparison'
 import type { PaymentState, ResumeData, ResumePlan } from '../types/resume'
-import { downloadPdf } from '../lib/pdf'
+import { downloadCvPdf } from '../lib/pdf'
 import { enhanceResumeForPreview, generatePersonalizedSummary } from '../lib/enhance'
 import Modal from '../components/Modal'
 import PrimaryButton from '../components/controls/PrimaryButton'
@@ -32,12 +33,22 @@ import PrintSheet from '../components/PrintSheet'
 import SaveInfoCard from '../components/account/SaveInfoCard'
 import { loadProfile, loadDraftResume, saveDraftResume } from '../lib/storage'
 import { useAuthStore } from '../stores/auth'
-import { useNavigate } from 'react-router'
-import { listUserCvs, saveUserCv, type UserCvRecord } from '../lib/cvApi'
+import { Link, useNavigate } from 'react-router'
+import { useCvsStore, type ConflictChoice } from '../stores/cvs'
+import type { UserCvRecord } from '../lib/cvApi'
+import { useCvSync } from '../hooks/use-cv-sync'
+import SyncConflictDialog from '../components/cvs/SyncConflictDialog'
+import CvHistoryPanel from '../components/cvs/CvHistoryPanel'
 import { API_BASE } from '../config/api'
+import { isStripeConfigured, startStripeCheckout } from '../lib/stripeClient'
+import { fetchEntitlements, hasEntitlement } from '../lib/entitlements'
+import { track } from '../lib/events'
+import { RESUME_VERSION } from '../../shared/resume.mjs'
+import { isBlocking, validateResume } from '../lib/resumeValidation'
 
 /** Valeurs initiales du formulaire */
 const initialResume: ResumeData = {
+  version: RESUME_VERSION,
   fullName: '',
   headline: '',
   email: '',
@@ -45,7 +56,7 @@ const initialResume: ResumeData = {
   location: '',
   country: '',
   summary: '',
-  skills: '',
+  skills: [],
   photoUrl: '',
   domain: 'general',
   language: 'en',
@@ -78,32 +89,6 @@ function defaultMobileProvider(country?: string): MobileMoneyProvider {
   return 'airtel'
 }
 
-/**
- * Utils de validation pour périodes YYYY-MM.
- */
-function isYearMonth(v?: string): boolean {
-  const s = (v || '').trim()
-  if (!/^\d{4}-\d{2}$/.test(s)) return false
-  const [, mm] = s.split('-')
-  const m = Number(mm)
-  return m >= 1 && m <= 12
-}
-function parseYearMonthToKey(v?: string): number | null {
-  if (!isYearMonth(v)) return null
-  const [yy, mm] = (v as string).split('-')
-  return Number(yy) * 100 + Number(mm)
-}
-function isPresentValue(v?: string) {
-  return (v || '').trim().toLowerCase() === 'present'
-}
-function isDateOrderInvalid(start?: string, end?: string): boolean {
-  if (isPresentValue(end)) return false
-  const startKey = parseYearMonthToKey(start)
-  const endKey = parseYearMonthToKey(end)
-  if (startKey == null || endKey == null) return false
-  return endKey < startKey
-}
-
 /** Page Home avec flux en 3 étapes et paiement avant téléchargement */
 export default function Home() {
   const { t, i18n } = useTranslation()
@@ -136,9 +121,27 @@ export default function Home() {
   const [paymentRef, setPaymentRef] = useState<string | null>(null)
   const [paymentStatus, setPaymentStatus] = useState<'idle' | 'pending' | 'processing' | 'completed' | 'failed'>('idle')
   const [profileSaved, setProfileSaved] = useState(false)
-  const [cvs, setCvs] = useState<UserCvRecord[]>([])
-  const [cvsLoading, setCvsLoading] = useState(false)
-  const [cvError, setCvError] = useState<string | null>(null)
+  const {
+    cvs,
+    loading: cvsLoading,
+    error: cvError,
+    activeCvId,
+    fetch: fetchCvs,
+    save: saveCv,
+    queueSave,
+    openCv,
+    queue: syncQueue,
+    online,
+    syncing,
+    conflict,
+    resolveConflict,
+  } = useCvsStore()
+  const activeCv = cvs.find((c) => c.id === activeCvId) || null
+  const pendingChanges = syncQueue.length
+  const [savingCv, setSavingCv] = useState(false)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  /** Jeton signé par le serveur listant les plans payés (seule source du statut "payé"). */
+  const [entitlementToken, setEntitlementToken] = useState<string | null>(null)
 
   useEffect(() => {
     hydrate()
@@ -151,6 +154,75 @@ export default function Home() {
     }
   }, [authReady, user, navigate])
 
+  /** Recharge les droits de téléchargement accordés par le serveur. */
+  const refreshEntitlements = useCallback(async () => {
+    if (!token) return null
+    try {
+      const res = await fetchEntitlements(token)
+      setEntitlementToken(res.token)
+      return res.token
+    } catch {
+      return null
+    }
+  }, [token])
+
+  useEffect(() => {
+    refreshEntitlements()
+  }, [refreshEntitlements])
+
+  /** Entonnoir: étape affichée */
+  useEffect(() => {
+    track('step_change', { step })
+  }, [step])
+
+  /** Entonnoir: issue des paiements Mobile Money (tous les chemins passent par paymentStatus) */
+  useEffect(() => {
+    if (paymentStatus === 'completed') track('payment_success', { plan: payment.plan, method: 'mobile' })
+    if (paymentStatus === 'failed') {
+      track('payment_failure', { plan: payment.plan, method: 'mobile', reason: payError || undefined })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paymentStatus])
+
+  /** Le statut payé découle du jeton d'entitlement, jamais de l'URL ni d'un état local. */
+  const entitled = hasEntitlement(entitlementToken, payment.plan, activeCvId)
+  useEffect(() => {
+    setPayment((p) => (p.paid === entitled ? p : { ...p, paid: entitled }))
+  }, [entitled])
+
+  /**
+   * Retour de Stripe Checkout (#?paid=1&plan=...): le hash n'est qu'un signal.
+   * On interroge les entitlements le temps que le webhook confirme le paiement.
+   */
+  useEffect(() => {
+    const hash = window.location.hash
+    if (!token || !/[?&]paid=1/.test(hash)) return
+    const plan = new URLSearchParams(hash.slice(hash.indexOf('?'))).get('plan') as ResumePlan | null
+    if (plan && priceOf(plan)) choosePlan(plan)
+
+    let cancelled = false
+    let attempts = 0
+    setPaying(true)
+    const poll = async () => {
+      attempts++
+      const next = await refreshEntitlements()
+      if (cancelled) return
+      const granted = hasEntitlement(next, plan || 'student', useCvsStore.getState().activeCvId)
+      if (granted) track('payment_success', { plan: plan || 'student', method: 'card' })
+      if (granted || attempts >= 10) {
+        setPaying(false)
+        window.history.replaceState({}, '', `${window.location.pathname}#/`)
+        return
+      }
+      setTimeout(poll, 2000)
+    }
+    poll()
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token])
+
   /** Check payment status from URL (after PawaPay redirect) - Stripe-like flow */
   useEffect(() => {
     const checkPaymentFromUrl = async () => {
@@ -184,8 +256,7 @@ export default function Home() {
                 setPaymentStatus('completed')
                 setPayment((p) => ({
                   ...p,
-                  paid: true,
-                  plan: plan || p.plan,
+                  plan: (plan as ResumePlan) || p.plan,
                   method: 'mobile',
                   reference: depositId,
                   paidAt: Date.now()
@@ -195,11 +266,13 @@ export default function Home() {
                 setStep(3)
                 setPaying(false)
                 
-                // Download CV automatically after successful payment
-                await downloadPdf({
-                  containerId: 'resume-sheet',
-                  title: `${data.fullName || 'CV'} - ${data.headline || 'Mako'}`
-                })
+                // Download CV automatically once the server has granted the entitlement
+                const granted = await refreshEntitlements()
+                const paidCvId = useCvsStore.getState().activeCvId
+                if (hasEntitlement(granted, (plan as ResumePlan) || payment.plan, paidCvId)) {
+                  track('pdf_download', { plan: (plan as ResumePlan) || payment.plan, source: 'auto' })
+                  await exportPdf((plan as ResumePlan) || payment.plan, granted)
+                }
                 
                 // Clean URL and localStorage
                 window.history.replaceState({}, '', window.location.pathname)
@@ -254,6 +327,12 @@ export default function Home() {
   const choosePlan = (plan: ResumePlan) =>
     setPayment((p) => ({ ...p, plan, price: priceOf(plan) }))
 
+  /** Choix explicite de l'utilisateur (les plans restaurés d'un brouillon ne sont pas comptés). */
+  const selectPlan = (plan: ResumePlan, source: 'buttons' | 'payment' | 'preview') => {
+    choosePlan(plan)
+    track('plan_select', { plan, source })
+  }
+
   const requireAuth = () => {
     if (!user) {
       setPayError(t('auth.required', 'Connectez-vous pour continuer.'))
@@ -263,18 +342,55 @@ export default function Home() {
     return false
   }
 
+  /**
+   * Enregistre le formulaire dans "Mes CV" et renvoie l'id serveur du CV, ou null.
+   * Un paiement porte toujours sur un CV enregistré: c'est lui que l'entitlement débloque.
+   */
+  const ensureSavedCv = async (): Promise<string | null> => {
+    if (!token) return null
+    try {
+      await saveCv(token, { data, withPhoto, plan: payment.plan })
+    } catch {
+      return null
+    }
+    const { activeCvId: id, cvs: saved } = useCvsStore.getState()
+    return id && saved.some((c) => c.id === id) ? id : null
+  }
+
   /** Démarre un paiement Mobile Money via PawaPay - Stripe-like redirect flow. */
   const startPayment = async (intent: PaymentIntentPayload) => {
     if (requireAuth()) return
+    const cvId = await ensureSavedCv()
+    if (!cvId) {
+      setPayError(
+        t('payment.saveCvFirst', "Le CV n'a pas pu être enregistré dans « Mes CV » : un paiement débloque un CV enregistré.")
+      )
+      return
+    }
 
     if (intent.method === 'card') {
-      setPayError(t('payment.cardDisabled', 'Le paiement par carte est désactivé. Utilisez Mobile Money.'))
+      if (!isStripeConfigured() || !token) {
+        setPayError(t('payment.cardDisabled', 'Le paiement par carte est désactivé. Utilisez Mobile Money.'))
+        return
+      }
+      setPayError(null)
+      setPaying(true)
+      track('payment_start', { plan: payment.plan, method: 'card' })
+      try {
+        // Redirects to Stripe Checkout; the webhook confirms the payment on the server.
+        await startStripeCheckout(payment.plan, { token, cvId })
+      } catch (err) {
+        track('payment_failure', { plan: payment.plan, method: 'card', reason: 'checkout_unavailable' })
+        setPayError(err instanceof Error ? err.message : t('payment.backendMissing', 'Payment unavailable.'))
+        setPaying(false)
+      }
       return
     }
 
     setPayError(null)
     setPaying(true)
     setPaymentStatus('pending')
+    track('payment_start', { plan: payment.plan, method: 'mobile', provider: intent.provider || 'vodacom' })
     
     try {
       // Build return URL - where PawaPay will redirect user after payment
@@ -320,6 +436,7 @@ export default function Home() {
         },
         body: JSON.stringify({
           plan: payment.plan,
+          cvId,
           amount: paymentAmount, // USD amount (1, 2, or 3) - no conversion
           phone: intent.phone || data.phone,
           provider: intent.provider || 'vodacom',
@@ -376,7 +493,6 @@ export default function Home() {
               setPaymentStatus('completed')
               setPayment((p) => ({
                 ...p,
-                paid: true,
                 method: 'mobile',
                 provider: intent.provider,
                 phone: intent.phone || data.phone,
@@ -388,11 +504,12 @@ export default function Home() {
               setStep(3)
               setPaying(false)
               
-              // Download CV automatically after successful payment
-              await downloadPdf({
-                containerId: 'resume-sheet',
-                title: `${data.fullName || 'CV'} - ${data.headline || 'Mako'}`
-              })
+              // Download CV automatically once the server has granted the entitlement
+              const granted = await refreshEntitlements()
+              if (hasEntitlement(granted, payment.plan, cvId)) {
+                track('pdf_download', { plan: payment.plan, source: 'auto' })
+                await exportPdf(payment.plan, granted)
+              }
               
               // Clean localStorage
               localStorage.removeItem('pawapay_depositId')
@@ -466,6 +583,8 @@ export default function Home() {
         setPayment((p) => ({ ...p, plan: draft.plan as ResumePlan, price: priceOf(draft.plan as ResumePlan) }))
       }
       setShowLoadedBanner(true)
+      // Un CV ouvert depuis "Mes CV" prime sur le profil local
+      if (draft.cvId) return
     }
 
     const saved = loadProfile()
@@ -485,21 +604,12 @@ export default function Home() {
 
   /** Charger les CVs de l'utilisateur */
   useEffect(() => {
-    const fetchCvs = async () => {
-      if (!token || !user) return
-      setCvsLoading(true)
-      setCvError(null)
-      try {
-        const res = await listUserCvs(token)
-        setCvs(res.cvs || [])
-      } catch (e) {
-        setCvError(e instanceof Error ? e.message : 'Impossible de charger vos CV.')
-      } finally {
-        setCvsLoading(false)
-      }
-    }
-    fetchCvs()
-  }, [token, user])
+    if (!token || !user) return
+    fetchCvs(token)
+  }, [token, user, fetchCvs])
+
+  /** File hors ligne: envoyée au montage et au retour de la connexion */
+  useCvSync(token)
 
   /** Sauvegarde automatique locale du brouillon pour ne rien perdre entre les rafraîchissements. */
   useEffect(() => {
@@ -507,11 +617,41 @@ export default function Home() {
       saveDraftResume({
         data,
         withPhoto,
-        plan: payment.plan
+        plan: payment.plan,
+        cvId: activeCvId
       })
+      // Un CV de la bibliothèque est aussi synchronisé avec le serveur (mis en file si hors ligne)
+      if (token && activeCvId) queueSave(token, { data, withPhoto, plan: payment.plan })
     }, 250)
     return () => clearTimeout(id)
-  }, [data, withPhoto, payment.plan])
+  }, [data, withPhoto, payment.plan, activeCvId, token, queueSave])
+
+  /** Recharge une version serveur du CV actif dans le formulaire. */
+  const applyCv = (cv: UserCvRecord) => {
+    setData(cv.data)
+    setWithPhoto(cv.withPhoto)
+    choosePlan(cv.plan)
+  }
+
+  /** Conflit de synchronisation: applique le choix et recharge la version serveur si demandé. */
+  const onResolveConflict = async (choice: ConflictChoice) => {
+    if (!token) return
+    const cv = await resolveConflict(token, choice)
+    if (cv) applyCv(cv)
+  }
+
+  /** Enregistre le formulaire dans "Mes CV" (met à jour le CV chargé, sinon en crée un). */
+  const saveToLibrary = async () => {
+    if (!token || requireAuth()) return
+    setSavingCv(true)
+    try {
+      await saveCv(token, { data, withPhoto, plan: payment.plan })
+    } catch {
+      // message exposé par le store (cvError)
+    } finally {
+      setSavingCv(false)
+    }
+  }
 
   const sendEmail = async () => {
     setPayment((p) => ({ ...p, sendingEmail: true }))
@@ -526,6 +666,33 @@ export default function Home() {
     [aiPreview, data]
   )
 
+  /**
+   * Télécharge le PDF vectoriel rendu par le serveur (contrôle des droits côté serveur).
+   * Le serveur exporte le CV enregistré: le formulaire est donc enregistré juste avant.
+   * `entToken` permet d'utiliser le jeton tout juste rafraîchi après un paiement.
+   */
+  const exportPdf = async (plan: ResumePlan, entToken: string | null = entitlementToken) => {
+    if (!token) return
+    const cvId = await ensureSavedCv()
+    if (!cvId) {
+      setPayError(t('preview.exportSaveFailed', "Le CV n'a pas pu être enregistré dans « Mes CV » avant l'export."))
+      return
+    }
+    try {
+      await downloadCvPdf({
+        token,
+        entitlementToken: entToken,
+        data,
+        plan,
+        withPhoto,
+        cvId,
+        title: `${data.fullName || 'CV'} - ${data.headline || 'Mako'}`
+      })
+    } catch (err) {
+      setPayError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
   /** Libellé localisé du toggle IA */
   const aiLabel = useMemo(() => {
     const lang = i18n.language as 'fr' | 'en' | 'sw' | 'pt' | 'ar'
@@ -538,13 +705,7 @@ export default function Home() {
   }, [aiPreview, i18n.language])
 
   /** Erreurs de dates bloquant l'export PDF */
-  const hasDateErrors = useMemo(() => {
-    const exps = data.experiences || []
-    const edus = data.education || []
-    const invalidExp = exps.some((e) => isDateOrderInvalid(e.start, e.end))
-    const invalidEdu = edus.some((e) => isDateOrderInvalid(e.start, e.end))
-    return invalidExp || invalidEdu
-  }, [data.experiences, data.education])
+  const hasDateErrors = useMemo(() => validateResume(data).some(isBlocking), [data])
 
   const exportBlockedTitle = t(
     'dates.exportBlocked',
@@ -627,10 +788,44 @@ export default function Home() {
         </div>
       ) : null}
 
+      {/* CV de la bibliothèque actuellement chargé dans le formulaire */}
+      <div className="mx-auto mt-4 max-w-6xl px-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-[rgba(98,120,85,0.45)] bg-[rgba(230,235,220,0.8)] p-3 text-sm text-neutral-800">
+          <span>
+            {activeCv
+              ? t('cvs.loaded', 'CV chargé : {{title}}', { title: activeCv.title })
+              : t('cvs.unsaved', 'Brouillon non enregistré dans Mes CV')}
+            {' · '}
+            <span className={online ? 'text-neutral-700' : 'text-amber-800'}>
+              {!online
+                ? t('sync.offline', 'Hors ligne — {{count}} modification(s) en attente', { count: pendingChanges })
+                : syncing || pendingChanges
+                  ? t('sync.pending', 'Synchronisation…')
+                  : t('sync.synced', 'Synchronisé')}
+            </span>
+          </span>
+          <div className="flex items-center gap-2">
+            <PrimaryButton type="button" size="sm" disabled={savingCv} onClick={saveToLibrary}>
+              {savingCv ? '...' : activeCv ? t('cvs.save', 'Enregistrer') : t('cvs.saveNew', 'Enregistrer dans Mes CV')}
+            </PrimaryButton>
+            {activeCv && token ? (
+              <button type="button" className="underline" onClick={() => setHistoryOpen(true)}>
+                {t('history.open', 'Historique')}
+              </button>
+            ) : null}
+            <Link to="/cvs" className="underline">
+              {t('cvs.title', 'Mes CV')}
+            </Link>
+          </div>
+        </div>
+        {cvError ? <p className="mt-2 text-sm text-red-200">{cvError}</p> : null}
+      </div>
+
       <div className="mx-auto mt-6 flex max-w-6xl flex-col gap-6 px-4">
         {/* Étapes (sticky sur mobile pour garder le contexte) */}
         <div className="sticky top-0 z-30 -mx-4 border-b border-[rgba(98,120,85,0.35)] bg-[rgba(230,235,220,0.6)] px-4 py-2 backdrop-blur supports-[backdrop-filter]:bg-[rgba(230,235,220,0.5)] md:static md:border-0 md:bg-transparent md:px-0 md:py-0 md:backdrop-blur-0">
           <StepIndicator step={step} />
+          {step !== 3 ? <CompletenessScore data={data} /> : null}
         </div>
 
         {/* Zone principale: formulaire + aperçu */}
@@ -647,12 +842,24 @@ export default function Home() {
                     i18n.changeLanguage(next.language)
                   }
                 }}
+                onReplace={(next) => {
+                  setData(next)
+                  if (i18n.language !== next.language) {
+                    i18n.changeLanguage(next.language)
+                  }
+                  // Version à part dans l'historique: l'état d'avant l'import reste restaurable
+                  if (token && activeCvId) {
+                    saveCv(token, { data: next, withPhoto, plan: payment.plan }).catch(() => {
+                      // message exposé par le store (cvError)
+                    })
+                  }
+                }}
                 onNext={() => setStep(2)}
               />
             ) : (
               <PaymentPanel
                 payment={payment}
-                choosePlan={choosePlan}
+                choosePlan={(plan) => selectPlan(plan, 'payment')}
                 simulatePay={async () =>
                   startPayment({
                     method: 'mobile',
@@ -711,7 +918,7 @@ export default function Home() {
                   type="button"
                   size="sm"
                   onClick={() => {
-                    choosePlan('student')
+                    selectPlan('student', 'buttons')
                     setStep(2) // Go to step 2 to show preview
                   }}
                 >
@@ -723,7 +930,7 @@ export default function Home() {
                   type="button"
                   size="sm"
                   onClick={() => {
-                    choosePlan('pro')
+                    selectPlan('pro', 'buttons')
                     setStep(2) // Go to step 2 to show preview
                   }}
                 >
@@ -735,7 +942,7 @@ export default function Home() {
                   type="button"
                   size="sm"
                   onClick={() => {
-                    choosePlan('advanced')
+                    selectPlan('advanced', 'buttons')
                     setStep(2) // Go to step 2 to show preview
                   }}
                 >
@@ -753,7 +960,9 @@ export default function Home() {
 
         {/* CTA unique, centré: redirige vers paiement ou télécharge si payé */}
         <DownloadCta
-          paid={payment.paid}
+          entitlementToken={entitlementToken}
+          plan={payment.plan}
+          cvId={activeCvId}
           paying={paying}
           error={payError}
           onPay={() => {
@@ -761,10 +970,9 @@ export default function Home() {
             setPreviewOpen(true)
           }}
           onDownload={async () => {
-            await downloadPdf({
-              containerId: 'resume-sheet',
-              title: `${data.fullName || 'CV'} - ${data.headline || 'ETHAN'}`
-            })
+            if (!hasEntitlement(entitlementToken, payment.plan, activeCvId)) return
+            track('pdf_download', { plan: payment.plan, source: 'cta' })
+            await exportPdf(payment.plan)
           }}
           exportBlocked={hasDateErrors}
           exportBlockedTitle={exportBlockedTitle}
@@ -776,7 +984,7 @@ export default function Home() {
           <div className="rounded-lg border border-[rgba(98,120,85,0.35)] bg-[rgba(230,235,220,0.65)] p-4 backdrop-blur">
             <PaymentPanel
               payment={payment}
-              choosePlan={choosePlan}
+              choosePlan={(plan) => selectPlan(plan, 'payment')}
               simulatePay={async () =>
                 startPayment({
                   method: 'mobile',
@@ -840,15 +1048,8 @@ export default function Home() {
                           type="button"
                           size="sm"
                           disabled={!token || cvsLoading}
-                          onClick={async () => {
-                            if (!token) return
-                            setCvsLoading(true)
-                            try {
-                              const res = await listUserCvs(token)
-                              setCvs(res.cvs || [])
-                            } finally {
-                              setCvsLoading(false)
-                            }
+                          onClick={() => {
+                            if (token) fetchCvs(token)
                           }}
                         >
                           {cvsLoading ? '...' : 'Rafraîchir'}
@@ -865,7 +1066,10 @@ export default function Home() {
                               className="flex items-center justify-between rounded border border-[rgba(98,120,85,0.3)] bg-[rgba(230,235,220,0.6)] px-3 py-2 text-sm"
                             >
                               <div className="flex flex-col">
-                                <span className="font-medium text-neutral-900">{cv.title}</span>
+                                <span className="font-medium text-neutral-900">
+                                  {cv.title}
+                                  {cv.id === activeCvId ? ` · ${t('cvs.current', 'chargé')}` : ''}
+                                </span>
                                 <span className="text-xs text-neutral-700">
                                   Plan: {cv.plan} · {new Date(cv.updatedAt).toLocaleString()}
                                 </span>
@@ -877,6 +1081,7 @@ export default function Home() {
                                   setData(cv.data)
                                   setWithPhoto(cv.withPhoto)
                                   choosePlan(cv.plan)
+                                  openCv(cv)
                                   setStep(2)
                                 }}
                               >
@@ -928,14 +1133,30 @@ export default function Home() {
         data={data}
         withPhoto={withPhoto}
         payment={payment}
-        onChoosePlan={choosePlan}
+        onChoosePlan={(plan) => selectPlan(plan, 'preview')}
         onSimulatePay={async (intent) => startPayment(intent)}
         exportBlocked={hasDateErrors}
         exportBlockedTitle={exportBlockedTitle}
         paymentStatus={paymentStatus}
         paymentError={payError}
+        onDownloadPdf={() => exportPdf(payment.plan)}
       />
 
+      {/* Choix de fusion quand le CV a changé sur un autre appareil */}
+      <SyncConflictDialog conflict={conflict} onResolve={onResolveConflict} />
+
+      {/* Historique des versions du CV chargé (diff + restauration) */}
+      {activeCv && token ? (
+        <CvHistoryPanel
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          token={token}
+          cv={activeCv}
+          current={{ data, withPhoto, plan: payment.plan }}
+          onRestored={applyCv}
+        />
+      ) : null}
+
       {/* WhatsApp share modal (shown after saving info) */}
       <WhatsAppShareModal
         open={shareOpen}
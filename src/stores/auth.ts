@@ -1,91 +1,176 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { login, signup, me } from '../lib/auth'
-import type { AuthUser } from '../types/auth'
+import { login, signup, me, refresh, logout as revokeSession } from '../lib/auth'
+import { useCvsStore } from './cvs'
+import type { AuthResponse, AuthUser, LoginPayload, SignupPayload } from '../types/auth'
+
+/** Refresh the access token this long before it expires. */
+const REFRESH_MARGIN_MS = 60 * 1000
 
 interface AuthState {
   user: AuthUser | null
   token: string | null
+  refreshToken: string | null
+  expiresAt: number | null
   loading: boolean
   error: string | null
   initialized: boolean
-  signup: (payload: { phone: string; password: string; name?: string }) => Promise<void>
-  login: (payload: { phone: string; password: string }) => Promise<void>
+  signup: (payload: SignupPayload) => Promise<void>
+  login: (payload: LoginPayload) => Promise<void>
   logout: () => void
   hydrate: () => Promise<void>
+  /** Exchanges the refresh token for a new access token; signs out when it is rejected. */
+  refreshSession: () => Promise<boolean>
   clearError: () => void
-  setSession: (session: { token: string; user: AuthUser }) => void
+  setSession: (session: AuthResponse) => void
+}
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null
+let refreshing: Promise<boolean> | null = null
+
+function clearRefreshTimer() {
+  if (refreshTimer) clearTimeout(refreshTimer)
+  refreshTimer = null
 }
 
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set, get) => ({
-      user: null,
-      token: null,
-      loading: false,
-      error: null,
-      initialized: false,
+    (set, get) => {
+      /** Plans the silent refresh shortly before the access token expires. */
+      const scheduleRefresh = (expiresAt: number | null) => {
+        clearRefreshTimer()
+        if (!expiresAt) return
+        const delay = Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS)
+        refreshTimer = setTimeout(() => {
+          get().refreshSession()
+        }, delay)
+      }
 
-      clearError: () => set({ error: null }),
+      const applySession = (session: AuthResponse) => {
+        // The CV library and its offline queue belong to one account: drop them when another one signs in
+        useCvsStore.getState().setOwner(session.user.id)
+        set({
+          user: session.user,
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresAt: session.expiresAt,
+          error: null,
+        })
+        scheduleRefresh(session.expiresAt)
+      }
 
-      setSession: (session) => {
-        set({ user: session.user, token: session.token, error: null })
-      },
+      const clearSession = () => {
+        clearRefreshTimer()
+        set({ user: null, token: null, refreshToken: null, expiresAt: null })
+      }
 
-      hydrate: async () => {
-        const token = get().token
-        if (!token) {
-          set({ initialized: true })
-          return
-        }
-        try {
-          const res = await me(token)
-          set({ user: res.user, initialized: true })
-        } catch {
-          set({ user: null, token: null, initialized: true })
-        }
-      },
+      return {
+        user: null,
+        token: null,
+        refreshToken: null,
+        expiresAt: null,
+        loading: false,
+        error: null,
+        initialized: false,
 
-      signup: async (payload) => {
-        set({ loading: true, error: null })
-        try {
-          const res = await signup(payload)
-          set({ user: res.user, token: res.token })
-        } catch (e) {
-          set({ error: e instanceof Error ? e.message : 'Signup failed' })
-          throw e
-        } finally {
-          set({ loading: false })
-        }
-      },
+        clearError: () => set({ error: null }),
 
-      login: async (payload) => {
-        set({ loading: true, error: null })
-        try {
-          const res = await login(payload)
-          set({ user: res.user, token: res.token })
-        } catch (e) {
-          set({ error: e instanceof Error ? e.message : 'Login failed' })
-          throw e
-        } finally {
-          set({ loading: false })
-        }
-      },
+        setSession: (session) => applySession(session),
 
-      logout: () => {
-        try {
-          localStorage.removeItem('auth_token')
-        } catch {}
-        set({ user: null, token: null, error: null })
-      },
-    }),
+        refreshSession: () => {
+          if (refreshing) return refreshing
+          const refreshToken = get().refreshToken
+          if (!refreshToken) {
+            clearSession()
+            return Promise.resolve(false)
+          }
+          refreshing = refresh(refreshToken)
+            .then((session) => {
+              applySession(session)
+              return true
+            })
+            .catch(() => {
+              clearSession()
+              return false
+            })
+            .finally(() => {
+              refreshing = null
+            })
+          return refreshing
+        },
+
+        hydrate: async () => {
+          const { token, expiresAt } = get()
+          if (!token) {
+            set({ initialized: true })
+            return
+          }
+          // Renew first when the stored access token is expired or about to be
+          if (!expiresAt || expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+            const ok = await get().refreshSession()
+            if (!ok) {
+              set({ initialized: true })
+              return
+            }
+          }
+          try {
+            const res = await me(get().token as string)
+            useCvsStore.getState().setOwner(res.user.id)
+            set({ user: res.user, initialized: true })
+            scheduleRefresh(get().expiresAt)
+          } catch {
+            clearSession()
+            set({ initialized: true })
+          }
+        },
+
+        signup: async (payload) => {
+          set({ loading: true, error: null })
+          try {
+            applySession(await signup(payload))
+          } catch (e) {
+            set({ error: e instanceof Error ? e.message : 'Signup failed' })
+            throw e
+          } finally {
+            set({ loading: false })
+          }
+        },
+
+        login: async (payload) => {
+          set({ loading: true, error: null })
+          try {
+            applySession(await login(payload))
+          } catch (e) {
+            set({ error: e instanceof Error ? e.message : 'Login failed' })
+            throw e
+          } finally {
+            set({ loading: false })
+          }
+        },
+
+        logout: () => {
+          const refreshToken = get().refreshToken
+          if (refreshToken) revokeSession(refreshToken).catch(() => {})
+          try {
+            localStorage.removeItem('auth_token')
+          } catch {}
+          clearSession()
+          useCvsStore.getState().reset()
+          set({ error: null })
+        },
+      }
+    },
     {
       name: 'mako_auth',
-      partialize: (state) => ({ token: state.token, user: state.user }),
+      partialize: (state) => ({
+        token: state.token,
+        refreshToken: state.refreshToken,
+        expiresAt: state.expiresAt,
+        user: state.user,
+      }),
       onRehydrateStorage: () => (state) => {
         state?.hydrate()
       },
     }
   )
 )
-
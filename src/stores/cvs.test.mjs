@@ -0,0 +1,168 @@
+/**
+ * src/stores/cvs.test.mjs
+ * The offline CV queue (useCvsStore) flushed against the real cvs router (server/cvs.mjs): creation,
+ * updates, explicit saves during a background flush, the 409 conflict when the CV changed on another device,
+ * and the queue never crossing from one account to another on a shared device.
+ * Runs with `npm test` (node:test, TypeScript through tsx); data is written to a temporary working directory.
+ */
+
+import { after, before, beforeEach, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import express from 'express'
+
+const TOKEN = 'token-1'
+
+let dataDir
+let server
+let api
+let useCvsStore
+let useAuthStore
+
+before(async () => {
+  // store.mjs resolves data/ from the working directory when it is first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mako-cvs-store-'))
+  process.chdir(dataDir)
+  const { createCvRouter } = await import('../../server/cvs.mjs')
+
+  const requireUser = (req, res, next) => {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) return res.status(401).json({ error: 'Unauthorized' })
+    req.user = { id: 'user-1' }
+    next()
+  }
+  const app = express()
+  app.use(express.json())
+  app.use('/api/cv', createCvRouter(requireUser))
+  server = app.listen(0)
+
+  // The store persists to localStorage; API_BASE is read when src/config/api.ts is first imported
+  const items = new Map()
+  globalThis.localStorage = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, String(value)),
+    removeItem: (key) => items.delete(key),
+  }
+  process.env.API_BASE_URL = `http://localhost:${server.address().port}`
+  api = await import('../lib/cvApi.ts')
+  ;({ useCvsStore } = await import('./cvs.ts'))
+  ;({ useAuthStore } = await import('./auth.ts'))
+})
+
+beforeEach(() => {
+  useCvsStore.getState().reset()
+  useCvsStore.getState().setOwner('user-1')
+})
+
+after(async () => {
+  useCvsStore.getState().reset()
+  server?.close()
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+const payload = (fullName) => ({
+  data: { fullName, headline: 'Comptable', skills: ['Excel'] },
+  withPhoto: false,
+  plan: 'student',
+})
+
+describe('CV sync queue', () => {
+  test('creates the CV on flush, then sends later edits as updates', async () => {
+    const store = useCvsStore.getState()
+    store.queueSave(TOKEN, payload('Amani Kalala'))
+    assert.match(useCvsStore.getState().activeCvId, /^local:/)
+
+    await store.flush(TOKEN)
+    const { activeCvId, queue, cvs, online } = useCvsStore.getState()
+    assert.equal(queue.length, 0)
+    assert.equal(online, true)
+    assert.equal(cvs.length, 1)
+    assert.equal(cvs[0].id, activeCvId)
+
+    store.queueSave(TOKEN, payload('Amani K.'))
+    await store.flush(TOKEN)
+    assert.equal(useCvsStore.getState().queue.length, 0)
+    assert.equal((await api.getUserCv(TOKEN, activeCvId)).cv.data.fullName, 'Amani K.')
+  })
+
+  test('save waits for a flush already running, then sends its own version', async () => {
+    const store = useCvsStore.getState()
+    store.queueSave(TOKEN, payload('Amani Kalala'))
+    const background = store.flush(TOKEN)
+    await store.save(TOKEN, payload('Amani Kalala (enregistré)'))
+
+    const { activeCvId, queue } = useCvsStore.getState()
+    assert.equal(queue.length, 0)
+    assert.equal((await api.getUserCv(TOKEN, activeCvId)).cv.data.fullName, 'Amani Kalala (enregistré)')
+    const { revisions } = await api.listCvRevisions(TOKEN, activeCvId)
+    assert.deepEqual(
+      revisions.map((r) => r.reason),
+      ['save', 'create']
+    )
+    await background
+  })
+
+  test('surfaces a conflict when the CV changed elsewhere, and keeps the local version on request', async () => {
+    const store = useCvsStore.getState()
+    const { cv } = await api.saveUserCv(TOKEN, payload('Amani Kalala'))
+    store.openCv(cv)
+    // Another device saves first (a later millisecond, so the versions differ)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await api.updateUserCv(TOKEN, cv.id, payload('Autre appareil'))
+
+    store.queueSave(TOKEN, payload('Cet appareil'))
+    await store.flush(TOKEN)
+    const { conflict, queue } = useCvsStore.getState()
+    assert.equal(conflict.key, cv.id)
+    assert.equal(conflict.local.data.fullName, 'Cet appareil')
+    assert.equal(conflict.server.data.fullName, 'Autre appareil')
+    assert.equal(queue.length, 1)
+
+    await store.resolveConflict(TOKEN, 'local')
+    assert.equal(useCvsStore.getState().conflict, null)
+    assert.equal(useCvsStore.getState().queue.length, 0)
+    assert.equal((await api.getUserCv(TOKEN, cv.id)).cv.data.fullName, 'Cet appareil')
+  })
+})
+
+describe('account switch', () => {
+  const session = (id) => ({ user: { id, phone: '+243810000001' }, token: TOKEN, refreshToken: null, expiresAt: null })
+
+  test('another account signing in drops the library and the pending queue', () => {
+    useAuthStore.getState().setSession(session('user-1'))
+    useCvsStore.getState().queueSave(TOKEN, payload('Amani Kalala'))
+    assert.equal(useCvsStore.getState().queue[0].owner, 'user-1')
+
+    // Same account again (silent refresh): nothing is lost
+    useAuthStore.getState().setSession(session('user-1'))
+    assert.equal(useCvsStore.getState().queue.length, 1)
+
+    useAuthStore.getState().setSession(session('user-2'))
+    const { owner, queue, activeCvId } = useCvsStore.getState()
+    assert.equal(owner, 'user-2')
+    assert.equal(queue.length, 0)
+    assert.equal(activeCvId, null)
+  })
+
+  test('logout forgets the library and the pending queue', () => {
+    useAuthStore.getState().setSession(session('user-1'))
+    useCvsStore.getState().queueSave(TOKEN, payload('Amani Kalala'))
+    useAuthStore.getState().logout()
+    const { owner, queue, activeCvId } = useCvsStore.getState()
+    assert.equal(owner, null)
+    assert.equal(queue.length, 0)
+    assert.equal(activeCvId, null)
+  })
+
+  test('flush never sends entries queued by another account', async () => {
+    const saved = (await api.listUserCvs(TOKEN)).cvs.length
+    useCvsStore.setState({
+      activeCvId: 'local:other',
+      queue: [{ key: 'local:other', payload: payload('Autre compte'), baseUpdatedAt: null, queuedAt: 1, owner: 'user-2' }],
+    })
+    await useCvsStore.getState().flush(TOKEN)
+    assert.equal(useCvsStore.getState().queue.length, 0)
+    assert.equal((await api.listUserCvs(TOKEN)).cvs.length, saved)
+  })
+})
@@ -0,0 +1,426 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import {
+  CvApiError,
+  deleteUserCv,
+  listUserCvs,
+  restoreCvRevision,
+  saveUserCv,
+  updateUserCv,
+  type CvPayload,
+  type UserCvRecord,
+} from '../lib/cvApi'
+import type { ResumeData, ResumePlan } from '../types/resume'
+
+/** Type de CV associé à chaque plan (mêmes rubriques visibles). */
+const CV_TYPE_BY_PLAN: Record<ResumePlan, ResumeData['cvType']> = {
+  student: 'simple',
+  pro: 'structured',
+  advanced: 'advanced',
+}
+
+const PLAN_LABELS: Record<ResumePlan, string> = {
+  student: 'Simple',
+  pro: 'Pro',
+  advanced: 'Avancé',
+}
+
+/** Préfixe des CV créés hors ligne, pas encore connus du serveur. */
+const LOCAL_PREFIX = 'local:'
+/** Délai de regroupement des modifications avant envoi. */
+const FLUSH_DELAY_MS = 2000
+/** Nouvel essai après une coupure réseau. */
+const RETRY_DELAY_MS = 30 * 1000
+
+/**
+ * Modification en attente d'envoi. Une seule entrée par CV: la dernière version gagne,
+ * mais la base (version serveur de départ) est conservée pour détecter les conflits.
+ */
+export interface SyncEntry {
+  /** Id serveur, ou `local:…` pour un CV créé hors ligne */
+  key: string
+  payload: CvPayload
+  /** updatedAt de la version serveur éditée (null: création) */
+  baseUpdatedAt: number | null
+  queuedAt: number
+  /** Compte qui a fait la modification: seules ses entrées sont envoyées avec son jeton */
+  owner: string | null
+  /** Enregistrement explicite: une version à part dans l'historique, jamais fondue avec l'autosave */
+  checkpoint?: boolean
+}
+
+/** Version locale et version serveur divergentes: l'utilisateur choisit. */
+export interface SyncConflict {
+  key: string
+  local: CvPayload
+  server: UserCvRecord
+}
+
+export type ConflictChoice = 'local' | 'server' | 'both'
+
+interface CvsState {
+  /** Compte connecté auquel appartiennent la bibliothèque, le CV actif et la file (persisté avec eux). */
+  owner: string | null
+  cvs: UserCvRecord[]
+  loading: boolean
+  error: string | null
+  /** CV actuellement chargé dans le formulaire (null = brouillon non enregistré). */
+  activeCvId: string | null
+  /** Version serveur (updatedAt) dont dérive la copie locale de chaque CV. */
+  bases: Record<string, number>
+  /** File des modifications à envoyer (persistée: survit aux rechargements hors ligne). */
+  queue: SyncEntry[]
+  online: boolean
+  syncing: boolean
+  conflict: SyncConflict | null
+  setActive: (id: string | null) => void
+  /** Change de compte: vide la bibliothèque et la file si elles appartiennent à un autre utilisateur. */
+  setOwner: (userId: string | null) => void
+  /** Charge un CV serveur dans le formulaire (mémorise sa version). */
+  openCv: (cv: UserCvRecord) => void
+  fetch: (token: string) => Promise<void>
+  /** Met en file la version du formulaire pour le CV actif (ou un nouveau CV) et planifie l'envoi. */
+  queueSave: (token: string, payload: CvPayload, options?: { checkpoint?: boolean }) => void
+  /**
+   * Enregistre tout de suite (bouton « Enregistrer », import qui remplace les champs), comme une version
+   * à part de l'historique; les modifications en attente sont envoyées avant.
+   */
+  save: (token: string, payload: CvPayload) => Promise<void>
+  /** Envoie la file (après l'envoi déjà en cours, le cas échéant); s'arrête au premier échec réseau. */
+  flush: (token: string) => Promise<void>
+  /** Applique le choix de l'utilisateur; renvoie le CV à charger dans le formulaire, le cas échéant. */
+  resolveConflict: (token: string, choice: ConflictChoice) => Promise<UserCvRecord | null>
+  setOnline: (online: boolean) => void
+  rename: (token: string, id: string, title: string) => Promise<void>
+  /** Copie un CV, éventuellement dans une autre langue et/ou un autre plan. */
+  duplicate: (
+    token: string,
+    id: string,
+    options?: { language?: string; plan?: ResumePlan }
+  ) => Promise<UserCvRecord>
+  /** Crée un CV dans la bibliothèque (import JSON Resume). */
+  create: (token: string, payload: CvPayload) => Promise<UserCvRecord>
+  remove: (token: string, id: string) => Promise<void>
+  /** Rétablit une version de l'historique (remplace les modifications en attente); renvoie le CV à recharger. */
+  restoreRevision: (token: string, id: string, revisionId: string) => Promise<UserCvRecord>
+  /** Vide la bibliothèque et la file, et oublie le compte (déconnexion). */
+  reset: () => void
+}
+
+function byUpdatedAt(cvs: UserCvRecord[]) {
+  return [...cvs].sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+function isLocalKey(key: string | null) {
+  return !!key && key.startsWith(LOCAL_PREFIX)
+}
+
+function localKey() {
+  return `${LOCAL_PREFIX}${Date.now().toString(36)}`
+}
+
+/** Le formulaire correspond-il déjà à la version serveur ? */
+function samePayload(cv: UserCvRecord, payload: CvPayload) {
+  return (
+    cv.plan === payload.plan &&
+    cv.withPhoto === payload.withPhoto &&
+    JSON.stringify(cv.data) === JSON.stringify(payload.data)
+  )
+}
+
+/** fetch() rejette avec une TypeError quand le réseau est indisponible. */
+function isNetworkError(e: unknown) {
+  return !(e instanceof CvApiError)
+}
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+/** Envoi de la file en cours, attendu par les appels suivants. */
+let flushing: Promise<void> | null = null
+
+export const useCvsStore = create<CvsState>()(
+  persist(
+    (set, get) => {
+      /** Remplace (ou ajoute) un enregistrement dans la liste. */
+      const upsert = (cv: UserCvRecord) =>
+        set((s) => ({
+          cvs: byUpdatedAt([cv, ...s.cvs.filter((c) => c.id !== cv.id)]),
+          bases: { ...s.bases, [cv.id]: cv.updatedAt },
+        }))
+
+      const run = async <T>(action: () => Promise<T>, fallback: string): Promise<T> => {
+        set({ error: null })
+        try {
+          return await action()
+        } catch (e) {
+          set({ error: e instanceof Error ? e.message : fallback })
+          throw e
+        }
+      }
+
+      const scheduleFlush = (token: string, delay: number) => {
+        if (flushTimer) clearTimeout(flushTimer)
+        flushTimer = setTimeout(() => {
+          flushTimer = null
+          get().flush(token)
+        }, delay)
+      }
+
+      /**
+       * Après un envoi réussi de `sent`: retire l'entrée, ou, si une modification plus récente a été
+       * mise en file entre-temps, la rebase sur la nouvelle version serveur.
+       */
+      const settle = (sent: SyncEntry, cv: UserCvRecord) => {
+        upsert(cv)
+        set((s) => ({
+          queue: s.queue
+            .filter((e) => !(e.key === sent.key && e.queuedAt === sent.queuedAt))
+            .map((e) => (e.key === sent.key ? { ...e, key: cv.id, baseUpdatedAt: cv.updatedAt } : e)),
+          activeCvId: s.activeCvId === sent.key ? cv.id : s.activeCvId,
+        }))
+      }
+
+      /** Envoie une entrée; renvoie false si le réseau est coupé. */
+      const push = async (token: string, entry: SyncEntry) => {
+        try {
+          const { cv } = isLocalKey(entry.key)
+            ? await saveUserCv(token, entry.payload)
+            : await updateUserCv(token, entry.key, {
+                ...entry.payload,
+                ...(entry.baseUpdatedAt != null ? { baseUpdatedAt: entry.baseUpdatedAt } : {}),
+                ...(entry.checkpoint ? { checkpoint: true } : {}),
+              })
+          settle(entry, cv)
+          return true
+        } catch (e) {
+          if (isNetworkError(e)) return false
+          const err = e as CvApiError
+          if (err.status === 409 && err.body?.cv) {
+            set({ conflict: { key: entry.key, local: entry.payload, server: err.body.cv } })
+          } else if (err.status === 404) {
+            // Supprimé sur un autre appareil: on le recrée plutôt que de perdre les modifications
+            const key = localKey()
+            set((s) => ({
+              queue: s.queue.map((q) => (q.key === entry.key ? { ...q, key, baseUpdatedAt: null } : q)),
+              activeCvId: s.activeCvId === entry.key ? key : s.activeCvId,
+            }))
+          } else {
+            set((s) => ({ error: err.message, queue: s.queue.filter((q) => q.key !== entry.key) }))
+          }
+          return true
+        }
+      }
+
+      /** Envoie les entrées de la file une à une; s'arrête au premier échec réseau. */
+      const sendQueue = async (token: string) => {
+        // Jamais de modification d'un autre compte envoyée avec ce jeton
+        set((s) => ({ syncing: true, queue: s.queue.filter((e) => e.owner === s.owner) }))
+        try {
+          for (const { key } of [...get().queue]) {
+            if (get().conflict?.key === key) continue
+            // L'entrée a pu être remplacée ou rebasée pendant les envois précédents
+            const latest = get().queue.find((e) => e.key === key)
+            if (!latest) continue
+            if (!(await push(token, latest))) {
+              set({ online: false })
+              scheduleFlush(token, RETRY_DELAY_MS)
+              return
+            }
+          }
+          set({ online: true })
+        } finally {
+          set({ syncing: false })
+        }
+      }
+
+      return {
+        owner: null,
+        cvs: [],
+        loading: false,
+        error: null,
+        activeCvId: null,
+        bases: {},
+        queue: [],
+        online: typeof navigator === 'undefined' ? true : navigator.onLine,
+        syncing: false,
+        conflict: null,
+
+        setActive: (id) => set({ activeCvId: id }),
+
+        setOwner: (userId) => {
+          if (get().owner === userId) return
+          get().reset()
+          set({ owner: userId })
+        },
+
+        openCv: (cv) => set((s) => ({ activeCvId: cv.id, bases: { ...s.bases, [cv.id]: cv.updatedAt } })),
+
+        setOnline: (online) => set({ online }),
+
+        fetch: async (token) => {
+          set({ loading: true, error: null })
+          try {
+            const res = await listUserCvs(token)
+            const cvs = byUpdatedAt(res.cvs || [])
+            // Oublie un CV actif supprimé depuis un autre appareil (sauf modifications en attente)
+            const { activeCvId, queue } = get()
+            const keep =
+              !activeCvId ||
+              isLocalKey(activeCvId) ||
+              cvs.some((c) => c.id === activeCvId) ||
+              queue.some((e) => e.key === activeCvId)
+            set({ cvs, online: true, activeCvId: keep ? activeCvId : null })
+          } catch (e) {
+            if (isNetworkError(e)) set({ online: false })
+            else set({ error: e instanceof Error ? e.message : 'Impossible de charger vos CV.' })
+          } finally {
+            set({ loading: false })
+          }
+        },
+
+        queueSave: (token, payload, options) => {
+          const { owner, activeCvId, cvs, bases, queue } = get()
+          let key = activeCvId
+          if (!key) {
+            key = localKey()
+            set({ activeCvId: key })
+          }
+          const current = cvs.find((c) => c.id === key)
+          const pending = queue.find((e) => e.key === key)
+          // Rien à envoyer si le formulaire reflète déjà la version serveur (sauf enregistrement explicite)
+          if (!options?.checkpoint && !pending && current && samePayload(current, payload)) return
+
+          const entry: SyncEntry = {
+            key,
+            payload,
+            baseUpdatedAt: pending ? pending.baseUpdatedAt : isLocalKey(key) ? null : bases[key] ?? null,
+            queuedAt: Date.now(),
+            owner,
+            ...(options?.checkpoint || pending?.checkpoint ? { checkpoint: true } : {}),
+          }
+          set({ queue: [...queue.filter((e) => e.key !== key), entry] })
+          scheduleFlush(token, FLUSH_DELAY_MS)
+        },
+
+        save: (token, payload) =>
+          run(async () => {
+            // Les modifications en attente forment leur propre version, avant celle enregistrée ici
+            await get().flush(token)
+            get().queueSave(token, payload, { checkpoint: true })
+            await get().flush(token)
+            if (!get().online) throw new Error('Hors ligne : le CV sera enregistré au retour de la connexion.')
+          }, 'Impossible d’enregistrer le CV.'),
+
+        flush: async (token) => {
+          // Un envoi est déjà en cours: on l'attend, puis on envoie ce qui a été mis en file entre-temps
+          while (flushing) await flushing
+          if (typeof navigator !== 'undefined' && !navigator.onLine) {
+            set({ online: false })
+            return
+          }
+          flushing = sendQueue(token).finally(() => {
+            flushing = null
+          })
+          return flushing
+        },
+
+        resolveConflict: async (token, choice) => {
+          const conflict = get().conflict
+          if (!conflict) return null
+          const { key, local, server } = conflict
+          set({ conflict: null })
+          if (choice === 'server') {
+            upsert(server)
+            set((s) => ({ queue: s.queue.filter((e) => e.key !== key) }))
+            return server
+          }
+          if (choice === 'local') {
+            // Écrase la version serveur en repartant de celle-ci
+            set((s) => ({
+              queue: s.queue.map((e) => (e.key === key ? { ...e, baseUpdatedAt: server.updatedAt } : e)),
+            }))
+          } else {
+            // Garde les deux: la version serveur reste, la version locale devient un nouveau CV
+            upsert(server)
+            const copyKey = localKey()
+            set((s) => ({
+              queue: s.queue.map((e) =>
+                e.key === key
+                  ? { ...e, key: copyKey, baseUpdatedAt: null, payload: { ...local, title: `${server.title} (conflit)` } }
+                  : e
+              ),
+              activeCvId: s.activeCvId === key ? copyKey : s.activeCvId,
+            }))
+          }
+          await get().flush(token)
+          return null
+        },
+
+        rename: (token, id, title) =>
+          run(async () => {
+            const { cv } = await updateUserCv(token, id, { title })
+            upsert(cv)
+          }, 'Impossible de renommer le CV.'),
+
+        duplicate: (token, id, options = {}) =>
+          run(async () => {
+            const source = get().cvs.find((c) => c.id === id)
+            if (!source) throw new Error('CV introuvable.')
+            const plan = options.plan || source.plan
+            const data: ResumeData = {
+              ...source.data,
+              language: (options.language || source.data.language) as ResumeData['language'],
+              cvType: options.plan ? CV_TYPE_BY_PLAN[plan] : source.data.cvType,
+            }
+            const suffix = [
+              options.language && options.language !== source.data.language ? options.language.toUpperCase() : null,
+              options.plan && options.plan !== source.plan ? PLAN_LABELS[plan] : null,
+            ].filter(Boolean)
+            const title = `${source.title} (${suffix.length ? suffix.join(', ') : 'copie'})`
+            const { cv } = await saveUserCv(token, { data, withPhoto: source.withPhoto, plan, title })
+            upsert(cv)
+            return cv
+          }, 'Impossible de dupliquer le CV.'),
+
+        create: (token, payload) =>
+          run(async () => {
+            const { cv } = await saveUserCv(token, payload)
+            upsert(cv)
+            return cv
+          }, 'Impossible de créer le CV.'),
+
+        remove: (token, id) =>
+          run(async () => {
+            await deleteUserCv(token, id)
+            set((s) => ({
+              cvs: s.cvs.filter((c) => c.id !== id),
+              queue: s.queue.filter((e) => e.key !== id),
+              activeCvId: s.activeCvId === id ? null : s.activeCvId,
+            }))
+          }, 'Impossible de supprimer le CV.'),
+
+        restoreRevision: (token, id, revisionId) =>
+          run(async () => {
+            const { cv } = await restoreCvRevision(token, id, revisionId)
+            upsert(cv)
+            set((s) => ({ queue: s.queue.filter((e) => e.key !== id) }))
+            return cv
+          }, 'Impossible de restaurer cette version.'),
+
+        reset: () => {
+          if (flushTimer) clearTimeout(flushTimer)
+          flushTimer = null
+          set({ owner: null, cvs: [], error: null, activeCvId: null, bases: {}, queue: [], conflict: null })
+        },
+      }
+    },
+    {
+      name: 'mako_cvs',
+      partialize: (state) => ({
+        owner: state.owner,
+        activeCvId: state.activeCvId,
+        bases: state.bases,
+        queue: state.queue,
+      }),
+    }
+  )
+)
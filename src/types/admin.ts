@@ -1,43 +1,178 @@
 /**
- * Types de domaine pour l'interface Administrateur (données simulées).
- * - Décrit les séries de visites, paiements et indicateurs clés.
+ * Types de domaine pour l'interface Administrateur.
+ * - Reflète les réponses de /api/admin (server/admin.mjs, server/analytics.mjs).
+ * - Jours au format YYYY-MM-DD (UTC).
  */
 
 import type { ResumePlan } from './resume'
+import type { AuthUser } from './auth'
 
-/** Point de série pour visites (par jour). */
-export interface VisitPoint {
+/** Période affichée (bornes incluses). */
+export interface DateRange {
+  from: string
+  to: string
+}
+
+/** Statistiques d'un jour. */
+export interface DayStats {
   /** Date au format YYYY-MM-DD. */
   date: string
-  /** Nombre de visites ce jour. */
+  /** Visites (sessions distinctes). */
   visits: number
+  /** Pages vues. */
+  pageViews: number
+  /** Comptes créés. */
+  signups: number
+  /** Paiements aboutis. */
+  payments: number
+  failedPayments: number
+  /** Revenu des paiements aboutis (USD). */
+  revenue: number
+  revenueByPlan: Record<ResumePlan, number>
+  /** CV créés dans « Mes CV ». */
+  cvsCreated: number
+}
+
+/** Indicateurs clés (KPIs) sur la période. */
+export interface AdminStats {
+  visits: number
+  pageViews: number
+  /** Utilisateurs connectés ayant visité le site. */
+  activeUsers: number
+  signups: number
+  payments: number
+  failedPayments: number
+  revenue: number
+  cvsCreated: number
+}
+
+export interface AdminStatsResponse extends DateRange {
+  days: DayStats[]
+  totals: AdminStats
+}
+
+/** Étapes de l'entonnoir, dans l'ordre (server/reports.mjs). */
+export type FunnelStage = 'form_started' | 'preview' | 'plan_chosen' | 'payment_started' | 'paid' | 'downloaded'
+
+/** Axes de ventilation de l'entonnoir. */
+export type FunnelDimension = 'plan' | 'language' | 'country' | 'provider'
+
+/** Entonnoir de conversion sur la période (sessions ayant atteint chaque étape). */
+export interface FunnelReport extends DateRange {
+  stages: { stage: FunnelStage; sessions: number }[]
+  /** Par valeur ("unknown" si absente): sessions par étape, dans l'ordre de `stages`. */
+  breakdowns: Record<FunnelDimension, { value: string; sessions: number[] }[]>
+  /** Sessions payées / sessions ayant commencé le formulaire, 0..1 */
+  conversionRate: number
+}
+
+/** Rétention hebdomadaire par semaine d'inscription. */
+export interface CohortReport {
+  weeks: number
+  cohorts: {
+    /** Lundi de la semaine d'inscription (YYYY-MM-DD, UTC). */
+    week: string
+    users: number
+    /** Membres actifs la semaine k après l'inscription; null = semaine à venir. */
+    active: (number | null)[]
+  }[]
 }
 
 /** Statut d'un paiement. */
-export type PaymentStatus = 'paid' | 'refunded' | 'failed'
+export type PaymentStatus = 'paid' | 'pending' | 'refunded' | 'failed'
 
 /** Enregistrement de paiement. */
 export interface PaymentRecord {
-  /** ID interne ou référence. */
+  /** ID interne. */
   id: string
-  /** Nom (ou alias client). */
+  /** Nom (ou téléphone) du client. */
   customer: string
-  /** Email du client (facultatif en démo). */
   email?: string
+  phone?: string
   /** Plan souscrit. */
   plan: ResumePlan
-  /** Montant en USD. */
+  /** Montant. */
   amount: number
+  currency: string
+  method: 'mobile' | 'card'
+  /** Opérateur mobile money ou "stripe". */
+  provider?: string
+  /** Pays (ISO 3166-1 alpha-2) du paiement ou du compte. */
+  country?: string
   /** Statut de paiement. */
   status: PaymentStatus
-  /** Date ISO (YYYY-MM-DD HH:mm). */
-  date: string
+  /** Création (epoch ms). */
+  createdAt: number
+  /** Remboursement demandé: en cours, abouti ou refusé par l'opérateur */
+  refundStatus?: 'pending' | 'completed' | 'failed' | null
+  /** Litige signalé */
+  disputed?: boolean
+  notesCount?: number
 }
 
-/** Indicateurs clés (KPIs). */
-export interface AdminStats {
-  totalVisits: number
-  activeUsers: number
-  totalRevenue: number
-  conversionRate: number // 0..1
+/** Filtres de la liste des paiements (vides = tous). */
+export interface PaymentFilters {
+  plan?: ResumePlan | ''
+  status?: PaymentStatus | ''
+  /** Opérateur mobile money, "stripe" ou moyen de paiement. */
+  provider?: string
+  country?: string
+  /** Recherche sur client, e-mail, téléphone ou ID. */
+  q?: string
+}
+
+/** Tri de la liste des paiements. */
+export interface PaymentSort {
+  sort: 'createdAt' | 'amount'
+  dir: 'asc' | 'desc'
+}
+
+/** Page de paiements filtrés (GET /api/admin/payments). */
+export interface PaymentsPage {
+  payments: PaymentRecord[]
+  total: number
+  page: number
+  pageSize: number
+  /** Valeurs présentes sur la période, pour les listes de filtres. */
+  facets: { plans: ResumePlan[]; providers: string[]; countries: string[] }
+}
+
+/** Note interne du personnel sur un paiement. */
+export interface PaymentNote {
+  id: string
+  at: number
+  authorId: string
+  authorName: string | null
+  text: string
+}
+
+/** Entrée du journal d'audit (server/audit.mjs). */
+export interface AuditEntry {
+  id: string
+  at: number
+  actorId: string | null
+  actorName: string | null
+  actorRole: string | null
+  /** payment.refund.requested, payment.refund.completed, payment.dispute, payment.note */
+  action: string
+  targetType: string
+  targetId: string
+  details: Record<string, unknown>
+}
+
+/** Paiement détaillé (actions admin). */
+export interface PaymentDetail extends PaymentRecord {
+  refund: { status: string; reason: string; requestedAt: number; failureReason?: { failureMessage?: string } | null } | null
+  dispute: { reason: string; openedAt: number } | null
+  notes: PaymentNote[]
+}
+
+/** Actions du personnel sur une ligne de paiement. */
+export type PaymentAction = 'refund' | 'dispute' | 'note'
+
+/** Compte vu par le personnel (recherche, gestion des rôles). */
+export interface AdminUser extends AuthUser {
+  createdAt?: number
+  /** Rôle imposé par ADMIN_PHONES (non modifiable depuis l'interface) */
+  roleLocked?: boolean
 }
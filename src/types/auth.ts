@@ -1,11 +1,45 @@
+import type { Role } from '../../shared/roles.mjs'
+import type { ConsentRecord } from '../../shared/consent.mjs'
+
 export interface AuthUser {
   id: string
+  /** E.164 phone number (+243812345678) */
   phone: string
+  /** ISO 3166-1 alpha-2 country of the phone number */
+  country?: string | null
+  /** Optional secondary identifier */
+  email?: string | null
   name?: string
+  /** Role (shared/roles.mjs); decides access to /admin */
+  role?: Role
+  /** Cookie consent stored on the account (shared/consent.mjs) */
+  consent?: ConsentRecord | null
+}
+
+export interface SignupPayload {
+  phone: string
+  /** Country used to read national numbers (e.g. "CD") */
+  country?: string
+  email?: string
+  password: string
+  name?: string
+}
+
+/** Either a phone number (with its country) or an email. */
+export interface LoginPayload {
+  phone?: string
+  country?: string
+  email?: string
+  password: string
 }
 
 export interface AuthResponse {
+  /** Short-lived access token (JWT) sent as Bearer */
   token: string
+  /** Long-lived token used to obtain a new access token */
+  refreshToken: string
+  /** Access token expiry (epoch ms) */
+  expiresAt: number
   user: AuthUser
 }
 
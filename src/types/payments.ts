@@ -14,3 +14,17 @@ export interface PaymentIntentPayload {
   provider?: MobileMoneyProvider
   phone?: string
 }
+
+/** Droit de téléchargement accordé par le serveur après un paiement confirmé. */
+/** 'cv': le CV payé uniquement; 'account': tous les CV (paiements antérieurs à l'obligation d'enregistrer le CV). */
+export type EntitlementScope = 'cv' | 'account'
+
+export interface Entitlement {
+  id: string
+  plan: import('./resume').ResumePlan
+  /** CV payé, null pour les anciens paiements faits avant l'enregistrement du CV. */
+  cvId: string | null
+  scope: EntitlementScope
+  paymentId: string
+  grantedAt: number
+}
@@ -3,98 +3,43 @@
  * - Décrit les domaines, les rubriques et l'état de paiement.
  * - Ajoute cvType (simple/structured/advanced) et achievements (réalisations).
  * - Étend avec highlights (points forts de carrière).
+ * - Les données du CV sont définies par le schéma zod partagé (shared/resume.mjs).
  */
 
-export type LangCode = 'en' | 'sw' | 'pt' | 'mg'
+import type { z } from 'zod'
+import type {
+  CV_TYPES,
+  RESUME_DOMAINS,
+  RESUME_LANGUAGES,
+  achievementSchema,
+  certificationSchema,
+  educationSchema,
+  experienceSchema,
+  resumeDataSchema,
+} from '../../shared/resume.mjs'
+
+export type LangCode = (typeof RESUME_LANGUAGES)[number]
 
 /** Domaine/secteur professionnel du CV. */
-export type ResumeDomain =
-  | 'general'
-  | 'it'
-  | 'marketing'
-  | 'finance'
-  | 'healthcare'
-  | 'engineering'
-  | 'sales'
-  | 'research'
+export type ResumeDomain = (typeof RESUME_DOMAINS)[number]
 
 /** Type de CV (contrôle quelles rubriques sont affichées). */
-export type CVType = 'simple' | 'structured' | 'advanced'
+export type CVType = (typeof CV_TYPES)[number]
 
-/** Élément d'expérience. */
-export interface ExperienceItem {
-  /** Intitulé du poste. */
-  title?: string
-  /** Entreprise. */
-  company?: string
-  /** Début au format YYYY-MM. */
-  start?: string
-  /** Fin au format YYYY-MM ou "Present". */
-  end?: string
-  /** Description multiligne (convertie en puces). */
-  description?: string
-}
+/** Élément d'expérience (dates YYYY-MM, fin "Present" pour un poste en cours). */
+export type ExperienceItem = z.output<typeof experienceSchema>
 
 /** Élément d'éducation/formation. */
-export interface EducationItem {
-  /** Diplôme/formation. */
-  degree?: string
-  /** Établissement. */
-  school?: string
-  /** Début au format YYYY-MM. */
-  start?: string
-  /** Fin au format YYYY-MM ou "Present". */
-  end?: string
-  /** Description multiligne. */
-  description?: string
-}
+export type EducationItem = z.output<typeof educationSchema>
 
 /** Élément de certification. */
-export interface CertificationItem {
-  name?: string
-  issuer?: string
-  date?: string
-  credentialId?: string
-  credentialUrl?: string
-}
+export type CertificationItem = z.output<typeof certificationSchema>
 
 /** Élément de réalisation (succès, accomplissement notable). */
-export interface AchievementItem {
-  /** Intitulé court de la réalisation. */
-  title?: string
-  /** Description multiligne (détails, impact, métriques). */
-  description?: string
-}
-
-/** Données complètes du CV. */
-export interface ResumeData {
-  fullName: string
-  headline: string
-  email: string
-  phone: string
-  location: string
-  /** URL de profil LinkedIn (optionnel). */
-  linkedin?: string
-  summary: string
-  skills: string
-  /** Pays (sélection du pays en dropdown). */
-  country?: string
-  photoUrl?: string
-  domain: ResumeDomain
-  language: LangCode
+export type AchievementItem = z.output<typeof achievementSchema>
 
-  /** Type de CV (détermine les rubriques visibles). */
-  cvType: CVType
-
-  experiences: ExperienceItem[]
-  education: EducationItem[]
-  /** Certifications (optionnelles, non affichées par défaut dans les rubriques) */
-  certifications?: CertificationItem[]
-  /** Réalisations (Avancé). */
-  achievements?: AchievementItem[]
-  /** Points forts de carrière (liste de textes). */
-  highlights?: string[]
-}
+/** Données complètes du CV, décrites par le schéma partagé shared/resume.mjs. */
+export type ResumeData = z.output<typeof resumeDataSchema>
 
 /** Plans proposés au paiement (synchronisés avec cvType). */
 export type ResumePlan = 'student' | 'pro' | 'advanced'